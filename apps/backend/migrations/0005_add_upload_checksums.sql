@@ -0,0 +1,4 @@
+ALTER TABLE "upload_session" ADD COLUMN "checksum_sha256" text;--> statement-breakpoint
+ALTER TABLE "upload_session" ADD COLUMN "part_checksum_algorithm" text;--> statement-breakpoint
+ALTER TABLE "upload_session" ADD COLUMN "part_checksums" jsonb;--> statement-breakpoint
+ALTER TABLE "uploaded_file" ADD COLUMN "checksum_sha256" text;
\ No newline at end of file
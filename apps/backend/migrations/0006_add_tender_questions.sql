@@ -0,0 +1,41 @@
+CREATE TABLE "tender_question" (
+	"id" text PRIMARY KEY NOT NULL,
+	"tender_id" text NOT NULL,
+	"question_id" text NOT NULL,
+	"position" integer NOT NULL,
+	"title" text NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"is_required" boolean DEFAULT true NOT NULL,
+	"allowed_extensions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"max_size_bytes" bigint NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tender_question" ADD CONSTRAINT "tender_question_tender_id_tender_id_fk" FOREIGN KEY ("tender_id") REFERENCES "public"."tender"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "tender_question_tender_id_question_id_key" ON "tender_question" USING btree ("tender_id","question_id") WHERE "tender_question"."is_active";--> statement-breakpoint
+CREATE INDEX "tender_question_tender_id_position_idx" ON "tender_question" USING btree ("tender_id","position");--> statement-breakpoint
+-- Seed every existing tender with the question set that used to be hard-coded
+-- in @repo/form-fields so in-flight submissions keep their q1-q5 uploads.
+INSERT INTO "tender_question" ("id", "tender_id", "question_id", "position", "title", "description", "is_required", "allowed_extensions", "max_size_bytes")
+SELECT
+  gen_random_uuid()::text,
+  "tender"."id",
+  defaults.question_id,
+  defaults.position,
+  defaults.title,
+  defaults.description,
+  defaults.is_required,
+  defaults.allowed_extensions,
+  defaults.max_size_bytes
+FROM "tender"
+CROSS JOIN (
+  VALUES
+    ('q1', 1, 'Firm Registration Certificate', 'Upload your firm''s valid registration certificate issued by the relevant authority. This must be a current, unrevoked certificate that establishes your legal identity as a registered entity eligible to participate in public tenders.', true, '[".pdf", ".jpg", ".png"]'::jsonb, 104857600::bigint),
+    ('q2', 2, 'Pre-Qualification Documents', 'Submit pre-qualification documents including past project references, audited financial statements for the last three fiscal years, and evidence of similar-scale project completion (over 20,000 sq.m.).', true, '[".pdf"]'::jsonb, 267386880::bigint),
+    ('q3', 3, 'Technical Proposal', 'Detailed technical proposal addressing the full scope of work, proposed methodology, project timeline with milestones, resource allocation plan, and quality assurance framework for the Museum of Innovation, Startup & Technology project.', true, '[".pdf", ".docx"]'::jsonb, 587202560::bigint),
+    ('q4', 4, 'Supporting Portfolio', 'Optional portfolio showcasing relevant completed projects and design capabilities. Include architectural renderings, case studies, and client testimonials that demonstrate expertise in institutional or cultural projects of similar scale.', false, '[".pdf", ".zip"]'::jsonb, 104857600::bigint),
+    ('q5', 5, 'Financial Bid', 'Sealed financial bid document as per the prescribed format in the tender notice. Ensure all line items, taxes, and contingency provisions are clearly itemized and the bid is signed by an authorized signatory.', true, '[".pdf"]'::jsonb, 10485760::bigint)
+) AS defaults (question_id, position, title, description, is_required, allowed_extensions, max_size_bytes)
+ON CONFLICT ("tender_id", "question_id") WHERE "is_active" DO NOTHING;
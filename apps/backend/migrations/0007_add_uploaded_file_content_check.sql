@@ -0,0 +1,3 @@
+ALTER TABLE "uploaded_file" ADD COLUMN "content_check_status" text DEFAULT 'unchecked' NOT NULL;--> statement-breakpoint
+ALTER TABLE "uploaded_file" ADD COLUMN "content_check_detail" text;--> statement-breakpoint
+ALTER TABLE "uploaded_file" ADD COLUMN "quarantined_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "auth_session" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"refresh_token_hash" text NOT NULL,
+	"previous_refresh_token_hash" text,
+	"refresh_token_expires_at" timestamp with time zone NOT NULL,
+	"last_refreshed_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone,
+	"revoked_reason" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "auth_session" ADD CONSTRAINT "auth_session_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "auth_session_refresh_token_hash_key" ON "auth_session" USING btree ("refresh_token_hash");--> statement-breakpoint
+CREATE INDEX "auth_session_previous_refresh_token_hash_idx" ON "auth_session" USING btree ("previous_refresh_token_hash");--> statement-breakpoint
+CREATE INDEX "auth_session_user_id_idx" ON "auth_session" USING btree ("user_id");
\ No newline at end of file
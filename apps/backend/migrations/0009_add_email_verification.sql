@@ -0,0 +1,18 @@
+CREATE TABLE "user_token" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"purpose" text NOT NULL,
+	"token_hash" text NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"consumed_at" timestamp with time zone,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user" ADD COLUMN "email_verified_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "user_token" ADD CONSTRAINT "user_token_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "user_token_token_hash_key" ON "user_token" USING btree ("token_hash");--> statement-breakpoint
+CREATE INDEX "user_token_user_id_purpose_idx" ON "user_token" USING btree ("user_id","purpose");--> statement-breakpoint
+-- Accounts created before verification existed are treated as verified.
+UPDATE "user" SET "email_verified_at" = "created_at" WHERE "email_verified_at" IS NULL;
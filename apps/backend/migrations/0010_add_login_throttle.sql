@@ -0,0 +1,13 @@
+CREATE TABLE "login_throttle" (
+	"id" text PRIMARY KEY NOT NULL,
+	"scope" text NOT NULL,
+	"key" text NOT NULL,
+	"failed_attempts" integer DEFAULT 0 NOT NULL,
+	"last_failed_at" timestamp with time zone NOT NULL,
+	"locked_until" timestamp with time zone,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "login_throttle_scope_key_key" ON "login_throttle" USING btree ("scope","key");
\ No newline at end of file
@@ -0,0 +1,51 @@
+CREATE TABLE "firm_invite" (
+	"id" text PRIMARY KEY NOT NULL,
+	"firm_id" text NOT NULL,
+	"email" text NOT NULL,
+	"role" text NOT NULL,
+	"token_hash" text NOT NULL,
+	"invited_by" text NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"accepted_at" timestamp with time zone,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "firm_member" (
+	"id" text PRIMARY KEY NOT NULL,
+	"firm_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"role" text NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "firm" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"created_by" text NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DROP INDEX "submission_tender_id_user_id_key";--> statement-breakpoint
+ALTER TABLE "submission" ADD COLUMN "firm_id" text;--> statement-breakpoint
+INSERT INTO "firm" ("id", "name", "created_by") SELECT gen_random_uuid()::text, COALESCE(NULLIF(TRIM("user"."firm_name"), ''), "user"."email"), "user"."id" FROM "user" WHERE EXISTS (SELECT 1 FROM "submission" WHERE "submission"."user_id" = "user"."id");--> statement-breakpoint
+INSERT INTO "firm_member" ("id", "firm_id", "user_id", "role") SELECT gen_random_uuid()::text, "firm"."id", "firm"."created_by", 'owner' FROM "firm";--> statement-breakpoint
+UPDATE "submission" SET "firm_id" = "firm"."id" FROM "firm" WHERE "firm"."created_by" = "submission"."user_id";--> statement-breakpoint
+ALTER TABLE "submission" ALTER COLUMN "firm_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "firm_invite" ADD CONSTRAINT "firm_invite_firm_id_firm_id_fk" FOREIGN KEY ("firm_id") REFERENCES "public"."firm"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "firm_invite" ADD CONSTRAINT "firm_invite_invited_by_user_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "firm_member" ADD CONSTRAINT "firm_member_firm_id_firm_id_fk" FOREIGN KEY ("firm_id") REFERENCES "public"."firm"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "firm_member" ADD CONSTRAINT "firm_member_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "firm" ADD CONSTRAINT "firm_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "firm_invite_token_hash_key" ON "firm_invite" USING btree ("token_hash");--> statement-breakpoint
+CREATE INDEX "firm_invite_firm_id_idx" ON "firm_invite" USING btree ("firm_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "firm_member_user_id_key" ON "firm_member" USING btree ("user_id") WHERE "firm_member"."is_active";--> statement-breakpoint
+CREATE INDEX "firm_member_firm_id_idx" ON "firm_member" USING btree ("firm_id");--> statement-breakpoint
+ALTER TABLE "submission" ADD CONSTRAINT "submission_firm_id_firm_id_fk" FOREIGN KEY ("firm_id") REFERENCES "public"."firm"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "submission_tender_id_firm_id_key" ON "submission" USING btree ("tender_id","firm_id") WHERE "submission"."is_active";--> statement-breakpoint
+CREATE INDEX "submission_user_id_idx" ON "submission" USING btree ("user_id");
\ No newline at end of file
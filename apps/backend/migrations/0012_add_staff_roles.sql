@@ -0,0 +1,11 @@
+-- Migration: Add staff roles
+-- Evaluators read submissions and download files, auditors get read-only
+-- access across the admin area, and tender managers maintain tenders.
+-- Permissions per role live in src/features/permissions.ts.
+
+INSERT INTO "role" ("id", "name", "is_active", "created_at", "updated_at")
+VALUES
+  ('role_evaluator_001', 'evaluator', true, now(), now()),
+  ('role_auditor_001', 'auditor', true, now(), now()),
+  ('role_tender_manager_001', 'tender_manager', true, now(), now())
+ON CONFLICT ("name") WHERE "is_active" = true DO NOTHING;
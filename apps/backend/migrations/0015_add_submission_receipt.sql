@@ -0,0 +1,15 @@
+CREATE TABLE "submission_receipt" (
+	"id" text PRIMARY KEY NOT NULL,
+	"submission_id" text NOT NULL,
+	"receipt_number" text NOT NULL,
+	"manifest" jsonb NOT NULL,
+	"signature" text NOT NULL,
+	"issued_at" timestamp with time zone NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "submission_receipt" ADD CONSTRAINT "submission_receipt_submission_id_submission_id_fk" FOREIGN KEY ("submission_id") REFERENCES "public"."submission"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "submission_receipt_submission_id_key" ON "submission_receipt" USING btree ("submission_id") WHERE "submission_receipt"."is_active";--> statement-breakpoint
+CREATE UNIQUE INDEX "submission_receipt_receipt_number_key" ON "submission_receipt" USING btree ("receipt_number");
\ No newline at end of file
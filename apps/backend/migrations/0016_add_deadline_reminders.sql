@@ -0,0 +1,15 @@
+CREATE TABLE "deadline_reminder" (
+	"id" text PRIMARY KEY NOT NULL,
+	"submission_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"offset_hours" integer NOT NULL,
+	"email_id" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "deadline_reminder" ADD CONSTRAINT "deadline_reminder_submission_id_submission_id_fk" FOREIGN KEY ("submission_id") REFERENCES "public"."submission"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deadline_reminder" ADD CONSTRAINT "deadline_reminder_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deadline_reminder" ADD CONSTRAINT "deadline_reminder_email_id_email_outbox_id_fk" FOREIGN KEY ("email_id") REFERENCES "public"."email_outbox"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "deadline_reminder_submission_id_user_id_offset_hours_key" ON "deadline_reminder" USING btree ("submission_id","user_id","offset_hours");
\ No newline at end of file
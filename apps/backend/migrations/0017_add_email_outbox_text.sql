@@ -0,0 +1 @@
+ALTER TABLE "email_outbox" ADD COLUMN "text" text DEFAULT '' NOT NULL;
\ No newline at end of file
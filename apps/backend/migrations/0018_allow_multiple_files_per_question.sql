@@ -0,0 +1,5 @@
+DROP INDEX "uploaded_file_submission_id_question_id_key";--> statement-breakpoint
+ALTER TABLE "tender_question" ADD COLUMN "max_files" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+CREATE INDEX "uploaded_file_submission_id_question_id_idx" ON "uploaded_file" USING btree ("submission_id","question_id");--> statement-breakpoint
+-- The supporting portfolio is usually split across several documents.
+UPDATE "tender_question" SET "max_files" = 10 WHERE "question_id" = 'q4' AND "is_active";
@@ -0,0 +1,3 @@
+ALTER TABLE "uploaded_file" ADD COLUMN "deleted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "uploaded_file" ADD COLUMN "object_deleted_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "uploaded_file_deleted_at_idx" ON "uploaded_file" USING btree ("deleted_at");
\ No newline at end of file
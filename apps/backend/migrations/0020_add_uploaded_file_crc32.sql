@@ -0,0 +1 @@
+ALTER TABLE "uploaded_file" ADD COLUMN "crc32" bigint;
\ No newline at end of file
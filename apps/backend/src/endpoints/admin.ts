@@ -1,13 +1,34 @@
 import { z } from "@hono/zod-openapi";
-import { getUserFromApiKey } from "../features/auth";
+import { renderEmailPreviews } from "@repo/email-templates";
 import {
   grantAdminPrivileges,
   listAdminUsers,
   listSubmittedApplications,
   removeAdminPrivileges,
+  revokeUserSessions,
 } from "../features/admin";
-import { AdminRoleName } from "../features/adminConstants";
 import { connectDb } from "../features/db/connect";
+import { EmailOutboxStatuses } from "../features/db/schema";
+import { EmailTransportNames } from "../features/emailConstants";
+import {
+  listCapturedEmails,
+  listOutboxEmails,
+} from "../features/emailOutbox";
+import { getEmailTransportName } from "../features/emailTransports";
+import {
+  Permissions,
+  RoleNames,
+  StaffRoleNames,
+} from "../features/permissions";
+import { buildSubmissionArchive } from "../features/submissionArchive";
+import {
+  archiveTender,
+  createTender,
+  extendTenderDeadline,
+  listTendersForAdmin,
+  updateTender,
+  type AdminTenderSummary,
+} from "../features/tenders";
 import { ErrorCodes, handleApiErrors } from "../utils/error";
 import { getHono } from "../utils/hono";
 import {
@@ -15,58 +36,51 @@ import {
   getOpenApiClientErrorResponse,
   jsonContent,
 } from "../utils/openapi";
+import { requirePermission } from "../utils/permissions";
 
 export const adminEndpoint = getHono();
 
-type AdminAuthResult =
-  | { ok: true; userId: string }
-  | { ok: false; errorCode: ErrorCodes; error: string; status: 401 | 403 };
-
-async function getAdminUserFromApiKey({
-  apiKey,
-  env,
-}: {
-  apiKey: string;
-  env: Env;
-}): Promise<AdminAuthResult> {
-  const db = connectDb({ env });
-  const userResult = await getUserFromApiKey({ apiKey, db, env });
-
-  if (!userResult.ok) {
-    return {
-      ok: false,
-      errorCode: userResult.errorCode,
-      error: userResult.error,
-      status: 401,
-    } as const;
+function toAdminErrorStatus(errorCode: ErrorCodes): 400 | 403 | 404 {
+  switch (errorCode) {
+    case ErrorCodes.USER_DOES_NOT_HAVE_ROLE:
+      return 403;
+    case ErrorCodes.USER_NOT_FOUND:
+    case ErrorCodes.ROLE_NOT_FOUND:
+    case ErrorCodes.SUBMISSION_NOT_FOUND:
+      return 404;
+    default:
+      return 400;
   }
+}
 
-  const hasAdminRole = userResult.user.roles.some(
-    (role) => role.roleName === AdminRoleName
-  );
-
-  if (!hasAdminRole) {
-    return {
-      ok: false,
-      errorCode: ErrorCodes.USER_DOES_NOT_HAVE_ROLE,
-      error: "User does not have required role",
-      status: 403,
-    } as const;
-  }
+const StaffRoleSchema = z.enum(StaffRoleNames);
 
+const AdminTenderSchema = z.object({
+  tenderId: z.string(),
+  title: z.string(),
+  firstDateToApply: z.string().datetime(),
+  lastDateToApply: z.string().datetime(),
+  isActive: z.boolean(),
+  createdAt: z.string().datetime(),
+});
+
+function toAdminTenderResponse(tender: AdminTenderSummary) {
   return {
-    ok: true,
-    userId: userResult.user.id,
-  } as const;
+    tenderId: tender.tenderId,
+    title: tender.title,
+    firstDateToApply: tender.firstDateToApply.toISOString(),
+    lastDateToApply: tender.lastDateToApply.toISOString(),
+    isActive: tender.isActive,
+    createdAt: tender.createdAt.toISOString(),
+  };
 }
 
-function toAdminErrorStatus(errorCode: ErrorCodes): 400 | 403 | 404 {
+function toTenderAdminErrorStatus(errorCode: ErrorCodes): 400 | 404 | 409 {
   switch (errorCode) {
-    case ErrorCodes.USER_DOES_NOT_HAVE_ROLE:
-      return 403;
-    case ErrorCodes.USER_NOT_FOUND:
-    case ErrorCodes.ROLE_NOT_FOUND:
+    case ErrorCodes.TENDER_NOT_FOUND:
       return 404;
+    case ErrorCodes.TENDER_ALREADY_EXISTS:
+      return 409;
     default:
       return 400;
   }
@@ -77,6 +91,7 @@ adminEndpoint.openapi(
     method: "get",
     path: "/applications/submitted",
     tags: ["admin"],
+    middleware: requirePermission(Permissions.SUBMISSION_READ),
     summary: "List submitted applications with applicant details and R2 folder URL",
     request: {
       headers: ApiKeyHeaderSchema,
@@ -117,20 +132,6 @@ adminEndpoint.openapi(
   },
   async (c) => {
     try {
-      const apiKey = c.req.valid("header")["x-api-key"];
-      const authResult = await getAdminUserFromApiKey({ apiKey, env: c.env });
-
-      if (!authResult.ok) {
-        return c.json(
-          {
-            ok: false,
-            errorCode: authResult.errorCode,
-            error: authResult.error,
-          } as const,
-          authResult.status
-        );
-      }
-
       const db = connectDb({ env: c.env });
       const result = await listSubmittedApplications({ db, env: c.env });
       if (!result.ok) {
@@ -170,12 +171,86 @@ adminEndpoint.openapi(
   }
 );
 
+adminEndpoint.openapi(
+  {
+    method: "get",
+    path: "/applications/{applicationId}/archive",
+    tags: ["admin"],
+    middleware: requirePermission(Permissions.FILE_DOWNLOAD),
+    summary: "Download every active file of a submission as a ZIP archive",
+    description:
+      "Streams a ZIP containing manifest.json and the submission's files read directly from storage. Files are stored uncompressed.",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      params: z.object({
+        applicationId: z.string().min(1),
+      }),
+    },
+    responses: {
+      200: {
+        description: "ZIP archive stream",
+        content: {
+          "application/zip": {
+            schema: z.string().openapi({ format: "binary" }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const { applicationId } = c.req.valid("param");
+      const db = connectDb({ env: c.env });
+      const result = await buildSubmissionArchive({
+        db,
+        env: c.env,
+        applicationId,
+      });
+
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          toAdminErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.body(result.data.stream, 200, {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${result.data.fileName}"`,
+        "Cache-Control": "no-store",
+      });
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
 adminEndpoint.openapi(
   {
     method: "get",
     path: "/users",
     tags: ["admin"],
-    summary: "List active admin users",
+    middleware: requirePermission(Permissions.USER_READ),
+    summary: "List active staff users and their staff roles",
     request: {
       headers: ApiKeyHeaderSchema,
     },
@@ -191,6 +266,7 @@ adminEndpoint.openapi(
                   id: z.string(),
                   email: z.string().email(),
                   name: z.string().nullable(),
+                  roles: z.array(StaffRoleSchema),
                 })
               ),
             }),
@@ -208,20 +284,6 @@ adminEndpoint.openapi(
   },
   async (c) => {
     try {
-      const apiKey = c.req.valid("header")["x-api-key"];
-      const authResult = await getAdminUserFromApiKey({ apiKey, env: c.env });
-
-      if (!authResult.ok) {
-        return c.json(
-          {
-            ok: false,
-            errorCode: authResult.errorCode,
-            error: authResult.error,
-          } as const,
-          authResult.status
-        );
-      }
-
       const db = connectDb({ env: c.env });
       const result = await listAdminUsers({ db, env: c.env });
       if (!result.ok) {
@@ -261,12 +323,14 @@ adminEndpoint.openapi(
     method: "post",
     path: "/users",
     tags: ["admin"],
-    summary: "Grant admin role to user by email",
+    middleware: requirePermission(Permissions.USER_GRANT),
+    summary: "Grant a staff role (admin by default) to user by email",
     request: {
       headers: ApiKeyHeaderSchema,
       body: jsonContent(
         z.object({
           email: z.string().email(),
+          role: StaffRoleSchema.default(RoleNames.ADMIN),
         })
       ),
     },
@@ -297,26 +361,13 @@ adminEndpoint.openapi(
   },
   async (c) => {
     try {
-      const apiKey = c.req.valid("header")["x-api-key"];
-      const authResult = await getAdminUserFromApiKey({ apiKey, env: c.env });
-
-      if (!authResult.ok) {
-        return c.json(
-          {
-            ok: false,
-            errorCode: authResult.errorCode,
-            error: authResult.error,
-          } as const,
-          authResult.status
-        );
-      }
-
-      const { email } = c.req.valid("json");
+      const { email, role } = c.req.valid("json");
       const db = connectDb({ env: c.env });
       const result = await grantAdminPrivileges({
         db,
         env: c.env,
         email,
+        roleName: role,
       });
 
       if (!result.ok) {
@@ -356,12 +407,16 @@ adminEndpoint.openapi(
     method: "post",
     path: "/users/{userId}/remove",
     tags: ["admin"],
-    summary: "Remove admin role from user",
+    middleware: requirePermission(Permissions.USER_GRANT),
+    summary: "Remove a staff role (admin by default) from user",
     request: {
       headers: ApiKeyHeaderSchema,
       params: z.object({
         userId: z.string().min(1),
       }),
+      query: z.object({
+        role: StaffRoleSchema.default(RoleNames.ADMIN),
+      }),
     },
     responses: {
       200: {
@@ -385,27 +440,83 @@ adminEndpoint.openapi(
   },
   async (c) => {
     try {
-      const apiKey = c.req.valid("header")["x-api-key"];
-      const authResult = await getAdminUserFromApiKey({ apiKey, env: c.env });
+      const { userId } = c.req.valid("param");
+      const { role } = c.req.valid("query");
+      const db = connectDb({ env: c.env });
+      const result = await removeAdminPrivileges({
+        db,
+        env: c.env,
+        userId,
+        roleName: role,
+      });
 
-      if (!authResult.ok) {
+      if (!result.ok) {
         return c.json(
           {
             ok: false,
-            errorCode: authResult.errorCode,
-            error: authResult.error,
+            errorCode: result.errorCode,
+            error: result.error,
           } as const,
-          authResult.status
+          toAdminErrorStatus(result.errorCode)
         );
       }
 
+      return c.json({ ok: true } as const, 200);
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+adminEndpoint.openapi(
+  {
+    method: "post",
+    path: "/users/{userId}/sessions/revoke",
+    tags: ["admin"],
+    middleware: requirePermission(Permissions.USER_GRANT),
+    summary: "Revoke every active session of a user",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      params: z.object({
+        userId: z.string().min(1),
+      }),
+    },
+    responses: {
+      200: {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({
+                revokedCount: z.number().int(),
+              }),
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
       const { userId } = c.req.valid("param");
       const db = connectDb({ env: c.env });
-      const result = await removeAdminPrivileges({
-        db,
-        env: c.env,
-        userId,
-      });
+      const result = await revokeUserSessions({ db, userId });
 
       if (!result.ok) {
         return c.json(
@@ -418,7 +529,629 @@ adminEndpoint.openapi(
         );
       }
 
-      return c.json({ ok: true } as const, 200);
+      return c.json({ ok: true, data: result.data } as const, 200);
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+adminEndpoint.openapi(
+  {
+    method: "get",
+    path: "/tenders",
+    tags: ["admin"],
+    middleware: requirePermission(Permissions.TENDER_READ),
+    summary: "List all tenders, including archived ones",
+    request: {
+      headers: ApiKeyHeaderSchema,
+    },
+    responses: {
+      200: {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({
+                tenders: z.array(AdminTenderSchema),
+              }),
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const result = await listTendersForAdmin({ db });
+
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          400
+        );
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: {
+            tenders: result.data.tenders.map(toAdminTenderResponse),
+          },
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+adminEndpoint.openapi(
+  {
+    method: "post",
+    path: "/tenders",
+    tags: ["admin"],
+    middleware: requirePermission(Permissions.TENDER_EDIT),
+    summary: "Create a tender",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      body: jsonContent(
+        z.object({
+          title: z.string().min(1),
+          firstDateToApply: z.string().datetime(),
+          lastDateToApply: z.string().datetime(),
+          copyQuestionsFromTenderId: z.string().min(1),
+        })
+      ),
+    },
+    responses: {
+      200: {
+        description: "Tender created",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: AdminTenderSchema,
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({
+        errorCodesSchema: z
+          .string()
+          .openapi({ enum: [ErrorCodes.TENDER_ALREADY_EXISTS] }),
+      }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const request = c.req.valid("json");
+      const db = connectDb({ env: c.env });
+      const result = await createTender({
+        db,
+        title: request.title,
+        firstDateToApply: new Date(request.firstDateToApply),
+        lastDateToApply: new Date(request.lastDateToApply),
+        copyQuestionsFromTenderId: request.copyQuestionsFromTenderId,
+      });
+
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          toTenderAdminErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: toAdminTenderResponse(result.data),
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+adminEndpoint.openapi(
+  {
+    method: "patch",
+    path: "/tenders/{tenderId}",
+    tags: ["admin"],
+    middleware: requirePermission(Permissions.TENDER_EDIT),
+    summary: "Update a tender's title or application window",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      params: z.object({
+        tenderId: z.string().min(1),
+      }),
+      body: jsonContent(
+        z.object({
+          title: z.string().min(1).optional(),
+          firstDateToApply: z.string().datetime().optional(),
+          lastDateToApply: z.string().datetime().optional(),
+        })
+      ),
+    },
+    responses: {
+      200: {
+        description: "Tender updated",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: AdminTenderSchema,
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({
+        errorCodesSchema: z
+          .string()
+          .openapi({ enum: [ErrorCodes.TENDER_ALREADY_EXISTS] }),
+      }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const { tenderId } = c.req.valid("param");
+      const request = c.req.valid("json");
+      const db = connectDb({ env: c.env });
+      const result = await updateTender({
+        db,
+        tenderId,
+        title: request.title,
+        firstDateToApply: request.firstDateToApply
+          ? new Date(request.firstDateToApply)
+          : undefined,
+        lastDateToApply: request.lastDateToApply
+          ? new Date(request.lastDateToApply)
+          : undefined,
+      });
+
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          toTenderAdminErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: toAdminTenderResponse(result.data),
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+adminEndpoint.openapi(
+  {
+    method: "post",
+    path: "/tenders/{tenderId}/extend",
+    tags: ["admin"],
+    middleware: requirePermission(Permissions.TENDER_EDIT),
+    summary: "Extend a tender's application deadline",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      params: z.object({
+        tenderId: z.string().min(1),
+      }),
+      body: jsonContent(
+        z.object({
+          lastDateToApply: z.string().datetime(),
+        })
+      ),
+    },
+    responses: {
+      200: {
+        description: "Tender deadline extended",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: AdminTenderSchema,
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({
+        errorCodesSchema: z
+          .string()
+          .openapi({ enum: [ErrorCodes.TENDER_ALREADY_EXISTS] }),
+      }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const { tenderId } = c.req.valid("param");
+      const { lastDateToApply } = c.req.valid("json");
+      const db = connectDb({ env: c.env });
+      const result = await extendTenderDeadline({
+        db,
+        tenderId,
+        lastDateToApply: new Date(lastDateToApply),
+      });
+
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          toTenderAdminErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: toAdminTenderResponse(result.data),
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+adminEndpoint.openapi(
+  {
+    method: "post",
+    path: "/tenders/{tenderId}/archive",
+    tags: ["admin"],
+    middleware: requirePermission(Permissions.TENDER_EDIT),
+    summary: "Archive a tender",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      params: z.object({
+        tenderId: z.string().min(1),
+      }),
+    },
+    responses: {
+      200: {
+        description: "Tender archived",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: AdminTenderSchema,
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({
+        errorCodesSchema: z
+          .string()
+          .openapi({ enum: [ErrorCodes.TENDER_ALREADY_EXISTS] }),
+      }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const { tenderId } = c.req.valid("param");
+      const db = connectDb({ env: c.env });
+      const result = await archiveTender({ db, tenderId });
+
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          toTenderAdminErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: toAdminTenderResponse(result.data),
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+adminEndpoint.openapi(
+  {
+    method: "get",
+    path: "/emails",
+    tags: ["admin"],
+    middleware: requirePermission(Permissions.EMAIL_READ),
+    summary: "List recently queued emails and their delivery status",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      query: z.object({
+        limit: z.coerce.number().int().min(1).max(200).default(50),
+      }),
+    },
+    responses: {
+      200: {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({
+                transport: z.enum(EmailTransportNames),
+                emails: z.array(
+                  z.object({
+                    id: z.string(),
+                    recipient: z.string(),
+                    subject: z.string(),
+                    status: z.enum(EmailOutboxStatuses),
+                    attempts: z.number().int(),
+                    nextAttemptAt: z.string().datetime(),
+                    lastError: z.string().nullable(),
+                    sentAt: z.string().datetime().nullable(),
+                    createdAt: z.string().datetime(),
+                  })
+                ),
+              }),
+            }),
+          },
+        },
+      },
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { limit } = c.req.valid("query");
+      const emails = await listOutboxEmails({ db, limit });
+
+      return c.json(
+        {
+          ok: true,
+          data: {
+            transport: getEmailTransportName(c.env),
+            emails: emails.map((email) => ({
+              ...email,
+              nextAttemptAt: email.nextAttemptAt.toISOString(),
+              sentAt: email.sentAt?.toISOString() ?? null,
+              createdAt: email.createdAt.toISOString(),
+            })),
+          },
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+adminEndpoint.openapi(
+  {
+    method: "get",
+    path: "/emails/captured",
+    tags: ["admin"],
+    middleware: requirePermission(Permissions.EMAIL_READ),
+    summary:
+      "List messages recorded by the capture transport, newest first (local development)",
+    request: {
+      headers: ApiKeyHeaderSchema,
+    },
+    responses: {
+      200: {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.array(
+                z.object({
+                  from: z.string(),
+                  to: z.string(),
+                  subject: z.string(),
+                  html: z.string(),
+                  text: z.string(),
+                  capturedAt: z.string().datetime(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const emails = await listCapturedEmails({ db, env: c.env });
+
+      return c.json(
+        {
+          ok: true,
+          data: emails.map((email) => ({
+            ...email,
+            capturedAt: email.capturedAt.toISOString(),
+          })),
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+adminEndpoint.openapi(
+  {
+    method: "get",
+    path: "/email-templates",
+    tags: ["admin"],
+    middleware: requirePermission(Permissions.EMAIL_READ),
+    summary: "Render every email template with its sample data",
+    request: {
+      headers: ApiKeyHeaderSchema,
+    },
+    responses: {
+      200: {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.array(
+                z.object({
+                  name: z.string(),
+                  description: z.string(),
+                  subject: z.string(),
+                  html: z.string(),
+                  text: z.string(),
+                })
+              ),
+            }),
+          },
+        },
+      },
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      return c.json({ ok: true, data: renderEmailPreviews() } as const, 200);
     } catch (err) {
       const normalizedError =
         err instanceof Error ||
@@ -1,11 +1,10 @@
 import { z } from "@hono/zod-openapi";
-import { getUserFromApiKeyWithRole } from "../features/auth";
 import {
   getApplicationState,
   updateApplicationState,
 } from "../features/applicationState";
 import { connectDb } from "../features/db/connect";
-import { UploadAllowedRoleName } from "../features/uploadConstants";
+import { Permissions } from "../features/permissions";
 import { ErrorCodes, handleApiErrors } from "../utils/error";
 import { getHono } from "../utils/hono";
 import {
@@ -13,6 +12,7 @@ import {
   getOpenApiClientErrorResponse,
   jsonContent,
 } from "../utils/openapi";
+import { requirePermission } from "../utils/permissions";
 
 export const applicationStateEndpoint = getHono();
 
@@ -57,6 +57,7 @@ applicationStateEndpoint.openapi(
     method: "get",
     path: "/application/{submissionId}/state",
     tags: ["application-state"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
     summary: "Get persisted form state for a submission",
     request: {
       headers: ApiKeyHeaderSchema,
@@ -88,32 +89,14 @@ applicationStateEndpoint.openapi(
     try {
       const db = connectDb({ env: c.env });
       const { submissionId } = c.req.valid("param");
-      const apiKey = c.req.valid("header")["x-api-key"];
 
-      const authResult = await getUserFromApiKeyWithRole({
-        apiKey,
-        db,
-        env: c.env,
-        roleName: UploadAllowedRoleName,
-      });
-      if (!authResult.ok) {
-        return c.json(
-          {
-            ok: false,
-            errorCode: authResult.errorCode,
-            error: authResult.error,
-          } as const,
-          authResult.errorCode === ErrorCodes.FORBIDDEN_ROLE
-            ? (403 as const)
-            : (401 as const),
-        );
-      }
+      const { user } = c.get("auth");
 
       const result = await getApplicationState({
         env: c.env,
         db,
         submissionId,
-        userId: authResult.user.id,
+        userId: user.id,
       });
 
       if (!result.ok) {
@@ -123,7 +106,9 @@ applicationStateEndpoint.openapi(
             errorCode: result.errorCode,
             error: result.error,
           } as const,
-          404,
+          result.errorCode === ErrorCodes.FIRM_PERMISSION_DENIED
+            ? (403 as const)
+            : (404 as const),
         );
       }
 
@@ -148,6 +133,7 @@ applicationStateEndpoint.openapi(
     method: "post",
     path: "/application/{submissionId}/state",
     tags: ["application-state"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
     summary: "Save or update persisted form state for a submission",
     request: {
       headers: ApiKeyHeaderSchema,
@@ -174,6 +160,7 @@ applicationStateEndpoint.openapi(
       },
       401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
       403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
       500: getOpenApiClientErrorResponse({
         errorCodesSchema: z.literal("INTERNAL_ERROR"),
       }),
@@ -184,32 +171,14 @@ applicationStateEndpoint.openapi(
       const db = connectDb({ env: c.env });
       const { submissionId } = c.req.valid("param");
       const { data } = c.req.valid("json");
-      const apiKey = c.req.valid("header")["x-api-key"];
 
-      const authResult = await getUserFromApiKeyWithRole({
-        apiKey,
-        db,
-        env: c.env,
-        roleName: UploadAllowedRoleName,
-      });
-      if (!authResult.ok) {
-        return c.json(
-          {
-            ok: false,
-            errorCode: authResult.errorCode,
-            error: authResult.error,
-          } as const,
-          authResult.errorCode === ErrorCodes.FORBIDDEN_ROLE
-            ? (403 as const)
-            : (401 as const),
-        );
-      }
+      const { user } = c.get("auth");
 
       const result = await updateApplicationState({
         env: c.env,
         db,
         submissionId,
-        userId: authResult.user.id,
+        userId: user.id,
         data,
       });
 
@@ -217,10 +186,12 @@ applicationStateEndpoint.openapi(
         return c.json(
           {
             ok: false,
-            errorCode: "INTERNAL_ERROR" as const,
+            errorCode: result.errorCode,
             error: result.error,
           } as const,
-          500,
+          result.errorCode === ErrorCodes.FIRM_PERMISSION_DENIED
+            ? (403 as const)
+            : (404 as const),
         );
       }
 
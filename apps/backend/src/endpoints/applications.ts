@@ -1,8 +1,9 @@
 import { z } from "@hono/zod-openapi";
-import { getUserFromApiKeyWithRole } from "../features/auth";
 import { applyToTender, listApplicationsForUser } from "../features/applications";
 import { connectDb } from "../features/db/connect";
-import { UploadAllowedRoleName } from "../features/uploadConstants";
+import { listTenderQuestions } from "../features/tenderQuestions";
+import { getActiveTender } from "../features/uploads";
+import { Permissions } from "../features/permissions";
 import { ErrorCodes, handleApiErrors } from "../utils/error";
 import { getHono } from "../utils/hono";
 import {
@@ -10,6 +11,7 @@ import {
   getOpenApiClientErrorResponse,
   jsonContent,
 } from "../utils/openapi";
+import { requirePermission } from "../utils/permissions";
 
 export const applicationsEndpoint = getHono();
 
@@ -32,12 +34,26 @@ const ApplicationSummarySchema = z.object({
   lastDateToApply: z.string().datetime(),
 });
 
+const TenderQuestionSchema = z.object({
+  questionId: z.string(),
+  position: z.number().int(),
+  title: z.string(),
+  description: z.string(),
+  isRequired: z.boolean(),
+  allowedExtensions: z.array(z.string()),
+  maxSizeBytes: z.number().int(),
+  maxFiles: z.number().int(),
+});
+
 type ApplyErrorStatus = 400 | 403 | 404;
 
 function getApplyErrorStatus(errorCode: ErrorCodes): ApplyErrorStatus {
   switch (errorCode) {
     case ErrorCodes.FORBIDDEN_ROLE:
     case ErrorCodes.TENDER_NOT_OPEN_FOR_APPLICATIONS:
+    case ErrorCodes.TENDER_HAS_NO_QUESTIONS:
+    case ErrorCodes.EMAIL_NOT_VERIFIED:
+    case ErrorCodes.FIRM_PERMISSION_DENIED:
       return 403;
     case ErrorCodes.TENDER_NOT_FOUND:
       return 404;
@@ -51,6 +67,7 @@ applicationsEndpoint.openapi(
     method: "get",
     path: "/applications",
     tags: ["applications"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
     summary: "List current user's applications or active tenders when no applications exist",
     request: {
       headers: ApiKeyHeaderSchema,
@@ -65,6 +82,10 @@ applicationsEndpoint.openapi(
               data: z.object({
                 applications: z.array(ApplicationSummarySchema),
                 tenders: z.array(TenderSummarySchema),
+                serverTime: z.string().datetime().openapi({
+                  description:
+                    "Backend clock at response time, for countdowns that must not trust the client clock",
+                }),
               }),
             }),
           },
@@ -81,30 +102,14 @@ applicationsEndpoint.openapi(
   async (c) => {
     try {
       const db = connectDb({ env: c.env });
-      const apiKey = c.req.valid("header")["x-api-key"];
 
-      const authResult = await getUserFromApiKeyWithRole({
-        apiKey,
-        db,
-        env: c.env,
-        roleName: UploadAllowedRoleName,
-      });
-      if (!authResult.ok) {
-        const status = authResult.errorCode === ErrorCodes.FORBIDDEN_ROLE ? 403 : 401;
-        return c.json(
-          {
-            ok: false,
-            errorCode: authResult.errorCode,
-            error: authResult.error,
-          } as const,
-          status
-        );
-      }
+      const { user } = c.get("auth");
 
+      const now = new Date();
       const result = await listApplicationsForUser({
         db,
-        userId: authResult.user.id,
-        now: new Date(),
+        userId: user.id,
+        now,
       });
 
       if (!result.ok) {
@@ -142,6 +147,7 @@ applicationsEndpoint.openapi(
               firstDateToApply: tender.firstDateToApply.toISOString(),
               lastDateToApply: tender.lastDateToApply.toISOString(),
             })),
+            serverTime: now.toISOString(),
           },
         } as const,
         200
@@ -165,6 +171,7 @@ applicationsEndpoint.openapi(
     method: "post",
     path: "/applications/apply",
     tags: ["applications"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
     summary: "Apply to a tender for the current user",
     request: {
       headers: ApiKeyHeaderSchema,
@@ -200,30 +207,13 @@ applicationsEndpoint.openapi(
   async (c) => {
     try {
       const db = connectDb({ env: c.env });
-      const apiKey = c.req.valid("header")["x-api-key"];
       const request = c.req.valid("json");
 
-      const authResult = await getUserFromApiKeyWithRole({
-        apiKey,
-        db,
-        env: c.env,
-        roleName: UploadAllowedRoleName,
-      });
-      if (!authResult.ok) {
-        const status = authResult.errorCode === ErrorCodes.FORBIDDEN_ROLE ? 403 : 401;
-        return c.json(
-          {
-            ok: false,
-            errorCode: authResult.errorCode,
-            error: authResult.error,
-          } as const,
-          status
-        );
-      }
+      const { user } = c.get("auth");
 
       const result = await applyToTender({
         db,
-        userId: authResult.user.id,
+        userId: user.id,
         tenderId: request.tenderId,
         now: new Date(),
       });
@@ -274,3 +264,84 @@ applicationsEndpoint.openapi(
     }
   }
 );
+
+applicationsEndpoint.openapi(
+  {
+    method: "get",
+    path: "/tenders/{tenderId}/questions",
+    tags: ["applications"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
+    summary: "List the upload questions configured for a tender",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      params: z.object({
+        tenderId: z.string().min(1),
+      }),
+    },
+    responses: {
+      200: {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({
+                tenderId: z.string(),
+                questions: z.array(TenderQuestionSchema),
+              }),
+            }),
+          },
+        },
+      },
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { tenderId } = c.req.valid("param");
+
+      const { user } = c.get("auth");
+
+      const tender = await getActiveTender({ db, tenderId });
+      if (!tender) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: ErrorCodes.TENDER_NOT_FOUND,
+            error: "Tender not found",
+          } as const,
+          404
+        );
+      }
+
+      const questions = await listTenderQuestions({ db, tenderId: tender.id });
+
+      return c.json(
+        {
+          ok: true,
+          data: {
+            tenderId: tender.id,
+            questions,
+          },
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
@@ -6,9 +6,42 @@ import {
   getRoleByName,
   getUserByEmail,
 } from "../features/user";
-import { createApiKey, getUserFromApiKey, verifyPassword } from "../features/auth";
+import {
+  createSession,
+  getUserFromApiKey,
+  refreshSession,
+  revokeSession,
+  verifyPasswordForUser,
+  type AuthTokens,
+} from "../features/auth";
+import { AuthSessionRevokedReasons } from "../features/authConstants";
+import {
+  resendEmailVerification,
+  sendEmailVerification,
+  verifyEmailWithToken,
+} from "../features/emailVerification";
+import {
+  clearFailedLogins,
+  getLoginLockout,
+  recordFailedLogin,
+  throttleEmailedLinkRequest,
+} from "../features/loginThrottle";
+import { redeemMagicLink, requestMagicLink } from "../features/magicLink";
+import { getPermissionsForRoleNames } from "../features/permissions";
+import {
+  beginChallengeEnrollment,
+  completeTwoFactorSignIn,
+  getTwoFactorChallenge,
+  startSignIn,
+  type SignInResult,
+} from "../features/twoFactor";
+import {
+  changePassword,
+  requestPasswordReset,
+  resetPasswordWithToken,
+} from "../features/password";
 import { ErrorCodes, handleApiErrors } from "../utils/error";
-import { getHono } from "../utils/hono";
+import { getClientIp, getHono } from "../utils/hono";
 import {
   ApiKeyHeaderSchema,
   getOpenApiClientErrorResponse,
@@ -17,40 +50,976 @@ import {
 
 export const authEndpoint = getHono();
 
+const AuthTokensSchema = z.object({
+  apiKey: z.string(),
+  expiresAt: z.string().datetime(),
+  refreshToken: z.string(),
+  refreshTokenExpiresAt: z.string().datetime(),
+});
+
+function toAuthTokensResponse(tokens: AuthTokens) {
+  return {
+    apiKey: tokens.apiKey,
+    expiresAt: tokens.expiresAt.toISOString(),
+    refreshToken: tokens.refreshToken,
+    refreshTokenExpiresAt: tokens.refreshTokenExpiresAt.toISOString(),
+  };
+}
+
+const TwoFactorChallengeSchema = z.object({
+  twoFactorRequired: z.literal(true),
+  challengeToken: z.string(),
+  challengeExpiresAt: z.string().datetime(),
+  enrollmentRequired: z.boolean().openapi({
+    description:
+      "True when the user must set up an authenticator before signing in",
+  }),
+});
+
+const SignInResponseSchema = z
+  .union([AuthTokensSchema, TwoFactorChallengeSchema])
+  .openapi({
+    description:
+      "Session tokens, or a challenge to answer at /login/two-factor",
+  });
+
+function toSignInResponse(result: SignInResult) {
+  if (result.status === "authenticated") {
+    return toAuthTokensResponse(result.tokens);
+  }
+
+  return {
+    twoFactorRequired: true as const,
+    challengeToken: result.challengeToken,
+    challengeExpiresAt: result.expiresAt.toISOString(),
+    enrollmentRequired: result.enrollmentRequired,
+  };
+}
+
+function getTwoFactorErrorStatus(errorCode: ErrorCodes): 400 | 401 | 409 {
+  switch (errorCode) {
+    case ErrorCodes.INVALID_TWO_FACTOR_CHALLENGE:
+    case ErrorCodes.INVALID_TWO_FACTOR_CODE:
+      return 401;
+    case ErrorCodes.TWO_FACTOR_ALREADY_ENABLED:
+      return 409;
+    default:
+      return 400;
+  }
+}
+
+const CredentialsSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(8),
+});
+
+authEndpoint.openapi(
+  {
+    method: "post",
+    path: "/register",
+    tags: ["auth"],
+    summary: "Register a new applicant and send an email verification link",
+    request: {
+      body: jsonContent(CredentialsSchema),
+    },
+    responses: {
+      200: {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: AuthTokensSchema.extend({
+                verificationEmailSent: z.boolean(),
+              }),
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.enum([ErrorCodes.INVALID_INPUT]),
+      }),
+      409: getOpenApiClientErrorResponse({
+        errorCodesSchema: z
+          .string()
+          .openapi({ enum: [ErrorCodes.EMAIL_ALREADY_REGISTERED] }),
+      }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { email, password } = c.req.valid("json");
+
+      const existingUser = await getUserByEmail({ email, db });
+      if (existingUser) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: ErrorCodes.EMAIL_ALREADY_REGISTERED,
+            error: "An account with this email already exists",
+          } as const,
+          409
+        );
+      }
+
+      const userResult = await createUser({ email, password, db });
+      if (!userResult.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: ErrorCodes.INVALID_INPUT,
+            error: userResult.error,
+          } as const,
+          400
+        );
+      }
+
+      const applicantRole = await getRoleByName({ name: "applicant", db });
+      if (!applicantRole) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: "INTERNAL_ERROR",
+            error: "Default role not found",
+          } as const,
+          500
+        );
+      }
+
+      const assignResult = await assignRoleToUser({
+        userId: userResult.userId,
+        roleId: applicantRole.id,
+        db,
+      });
+      if (!assignResult.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: "INTERNAL_ERROR",
+            error: assignResult.error,
+          } as const,
+          500
+        );
+      }
+
+      // The account is usable without the email; the applicant can ask for
+      // a new link from onboarding if delivery failed.
+      const verificationResult = await sendEmailVerification({
+        db,
+        env: c.env,
+        userId: userResult.userId,
+        email: email.trim().toLowerCase(),
+      });
+      if (!verificationResult.ok) {
+        console.error("Verification email failed:", verificationResult.error);
+      }
+
+      const tokens = await createSession({
+        db,
+        env: c.env,
+        userId: userResult.userId,
+      });
+
+      return c.json(
+        {
+          ok: true,
+          data: {
+            ...toAuthTokensResponse(tokens),
+            verificationEmailSent: verificationResult.ok,
+          },
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+authEndpoint.openapi(
+  {
+    method: "post",
+    path: "/login",
+    tags: ["auth"],
+    summary: "Login an existing user",
+    request: {
+      body: jsonContent(CredentialsSchema),
+    },
+    responses: {
+      200: {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: SignInResponseSchema,
+            }),
+          },
+        },
+      },
+      401: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.enum([ErrorCodes.INVALID_CREDENTIALS]),
+      }),
+      429: {
+        ...getOpenApiClientErrorResponse({
+          errorCodesSchema: z.enum([ErrorCodes.LOGIN_RATE_LIMITED]),
+        }),
+        headers: z.object({
+          "Retry-After": z.string().openapi({
+            description: "Seconds until the next login attempt is accepted",
+          }),
+        }),
+      },
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { email, password } = c.req.valid("json");
+      // The IP counter slows down spraying from one address; the email counter
+      // is what protects accounts.
+      const ip = getClientIp(c);
+      const now = new Date();
+
+      const lockout = await getLoginLockout({ db, email, ip, now });
+      if (lockout !== null) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: ErrorCodes.LOGIN_RATE_LIMITED,
+            error: "Too many failed login attempts, try again later",
+          } as const,
+          429,
+          { "Retry-After": String(lockout.retryAfterSeconds) }
+        );
+      }
+
+      const existingUser = await getUserByEmail({ email, db });
+      const isPasswordValid = await verifyPasswordForUser(password, existingUser);
+      if (!existingUser || !isPasswordValid) {
+        await recordFailedLogin({ db, email, ip, now });
+        return c.json(
+          {
+            ok: false,
+            errorCode: ErrorCodes.INVALID_CREDENTIALS,
+            error: "Invalid email or password",
+          } as const,
+          401
+        );
+      }
+
+      const signIn = await startSignIn({
+        db,
+        env: c.env,
+        userId: existingUser.id,
+      });
+      // With two-factor enabled the counter is only cleared once the code is
+      // accepted, otherwise each correct password would reset the code lockout.
+      if (signIn.status === "authenticated") {
+        await clearFailedLogins({ db, email });
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: toSignInResponse(signIn),
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+authEndpoint.openapi(
+  {
+    method: "post",
+    path: "/magic-link",
+    tags: ["auth"],
+    summary: "Email a single-use sign-in link to a registered user",
+    request: {
+      body: jsonContent(
+        z.object({
+          email: z.string().email(),
+        })
+      ),
+    },
+    responses: {
+      200: {
+        description: "Sign-in link sent if the account exists",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({}),
+            }),
+          },
+        },
+      },
+      429: {
+        ...getOpenApiClientErrorResponse({
+          errorCodesSchema: z.enum([ErrorCodes.LOGIN_RATE_LIMITED]),
+        }),
+        headers: z.object({
+          "Retry-After": z.string().openapi({
+            description: "Seconds until the next request is accepted",
+          }),
+        }),
+      },
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { email } = c.req.valid("json");
+
+      const lockout = await throttleEmailedLinkRequest({
+        db,
+        email,
+        ip: getClientIp(c),
+        now: new Date(),
+      });
+      if (lockout !== null) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: ErrorCodes.LOGIN_RATE_LIMITED,
+            error: "Too many requests, try again later",
+          } as const,
+          429,
+          { "Retry-After": String(lockout.retryAfterSeconds) }
+        );
+      }
+
+      // Delivery failures are only logged; answering differently would
+      // reveal that the address has an account.
+      const result = await requestMagicLink({ db, env: c.env, email });
+      if (!result.ok) {
+        console.error("Magic link email failed:", result.error);
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: {},
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+authEndpoint.openapi(
+  {
+    method: "post",
+    path: "/magic-link/redeem",
+    tags: ["auth"],
+    summary: "Exchange a magic-link token for a new session",
+    request: {
+      body: jsonContent(
+        z.object({
+          token: z.string().min(1),
+        })
+      ),
+    },
+    responses: {
+      200: {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: SignInResponseSchema,
+            }),
+          },
+        },
+      },
+      401: getOpenApiClientErrorResponse({
+        errorCodesSchema: z
+          .string()
+          .openapi({ enum: [ErrorCodes.INVALID_MAGIC_LINK] }),
+      }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { token } = c.req.valid("json");
+
+      const result = await redeemMagicLink({ db, env: c.env, token });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          401
+        );
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: toSignInResponse(result.data),
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+authEndpoint.openapi(
+  {
+    method: "post",
+    path: "/login/two-factor/enroll",
+    tags: ["auth"],
+    summary:
+      "Start authenticator setup for a sign-in that requires enrollment",
+    request: {
+      body: jsonContent(
+        z.object({
+          challengeToken: z.string().min(1),
+        })
+      ),
+    },
+    responses: {
+      200: {
+        description: "Secret to add to an authenticator app",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({
+                secret: z.string(),
+                otpauthUrl: z.string().openapi({
+                  description: "otpauth:// URI to render as a QR code",
+                }),
+              }),
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { challengeToken } = c.req.valid("json");
+
+      const result = await beginChallengeEnrollment({ db, challengeToken });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          getTwoFactorErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json({ ok: true, data: result.data } as const, 200);
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+authEndpoint.openapi(
+  {
+    method: "post",
+    path: "/login/two-factor",
+    tags: ["auth"],
+    summary:
+      "Answer a sign-in challenge with an authenticator or recovery code",
+    request: {
+      body: jsonContent(
+        z
+          .object({
+            challengeToken: z.string().min(1),
+            code: z.string().trim().min(1).optional(),
+            recoveryCode: z.string().trim().min(1).optional(),
+          })
+          .refine((body) => body.code || body.recoveryCode, {
+            message: "Provide an authentication code or a recovery code",
+          })
+      ),
+    },
+    responses: {
+      200: {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: AuthTokensSchema.extend({
+                recoveryCodes: z.array(z.string()).nullable().openapi({
+                  description:
+                    "Set when this sign-in completed enrollment; shown only once",
+                }),
+              }),
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      429: {
+        ...getOpenApiClientErrorResponse({
+          errorCodesSchema: z.enum([ErrorCodes.LOGIN_RATE_LIMITED]),
+        }),
+        headers: z.object({
+          "Retry-After": z.string().openapi({
+            description: "Seconds until the next attempt is accepted",
+          }),
+        }),
+      },
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { challengeToken, code, recoveryCode } = c.req.valid("json");
+      const ip = getClientIp(c);
+      const now = new Date();
+
+      // Wrong codes count towards the same lockout as wrong passwords, so a
+      // stolen password does not allow unlimited guesses at the code.
+      const challenge = await getTwoFactorChallenge({ db, challengeToken });
+      if (challenge !== null) {
+        const lockout = await getLoginLockout({
+          db,
+          email: challenge.email,
+          ip,
+          now,
+        });
+        if (lockout !== null) {
+          return c.json(
+            {
+              ok: false,
+              errorCode: ErrorCodes.LOGIN_RATE_LIMITED,
+              error: "Too many failed login attempts, try again later",
+            } as const,
+            429,
+            { "Retry-After": String(lockout.retryAfterSeconds) }
+          );
+        }
+      }
+
+      const result = await completeTwoFactorSignIn({
+        db,
+        env: c.env,
+        challengeToken,
+        code,
+        recoveryCode,
+        now,
+      });
+      if (!result.ok) {
+        if (
+          challenge !== null &&
+          result.errorCode === ErrorCodes.INVALID_TWO_FACTOR_CODE
+        ) {
+          await recordFailedLogin({ db, email: challenge.email, ip, now });
+        }
+
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          getTwoFactorErrorStatus(result.errorCode)
+        );
+      }
+
+      if (challenge !== null) {
+        await clearFailedLogins({ db, email: challenge.email });
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: {
+            ...toAuthTokensResponse(result.data.tokens),
+            recoveryCodes: result.data.recoveryCodes,
+          },
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+authEndpoint.openapi(
+  {
+    method: "post",
+    path: "/forgot-password",
+    tags: ["auth"],
+    summary: "Email a password reset link to a registered user",
+    request: {
+      body: jsonContent(
+        z.object({
+          email: z.string().email(),
+        })
+      ),
+    },
+    responses: {
+      200: {
+        description: "Reset link sent if the account exists",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({}),
+            }),
+          },
+        },
+      },
+      429: {
+        ...getOpenApiClientErrorResponse({
+          errorCodesSchema: z.enum([ErrorCodes.LOGIN_RATE_LIMITED]),
+        }),
+        headers: z.object({
+          "Retry-After": z.string().openapi({
+            description: "Seconds until the next request is accepted",
+          }),
+        }),
+      },
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { email } = c.req.valid("json");
+
+      const lockout = await throttleEmailedLinkRequest({
+        db,
+        email,
+        ip: getClientIp(c),
+        now: new Date(),
+      });
+      if (lockout !== null) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: ErrorCodes.LOGIN_RATE_LIMITED,
+            error: "Too many requests, try again later",
+          } as const,
+          429,
+          { "Retry-After": String(lockout.retryAfterSeconds) }
+        );
+      }
+
+      const result = await requestPasswordReset({ db, env: c.env, email });
+      if (!result.ok) {
+        console.error("Password reset email failed:", result.error);
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: {},
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+authEndpoint.openapi(
+  {
+    method: "post",
+    path: "/reset-password",
+    tags: ["auth"],
+    summary: "Set a new password with the token from a reset link",
+    request: {
+      body: jsonContent(
+        z.object({
+          token: z.string().min(1),
+          password: z.string().min(8),
+        })
+      ),
+    },
+    responses: {
+      200: {
+        description: "Password reset; all sessions are signed out",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({}),
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({
+        errorCodesSchema: z
+          .string()
+          .openapi({ enum: [ErrorCodes.INVALID_PASSWORD_RESET_TOKEN] }),
+      }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { token, password } = c.req.valid("json");
+
+      const result = await resetPasswordWithToken({ db, token, password });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          400
+        );
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: {},
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+authEndpoint.openapi(
+  {
+    method: "post",
+    path: "/change-password",
+    tags: ["auth"],
+    summary: "Change the current user's password and sign out other sessions",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      body: jsonContent(
+        z.object({
+          currentPassword: z.string().min(1),
+          newPassword: z.string().min(8),
+        })
+      ),
+    },
+    responses: {
+      200: {
+        description: "Password changed; a new session replaces the current one",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: AuthTokensSchema,
+            }),
+          },
+        },
+      },
+      401: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.string(),
+      }),
+      403: getOpenApiClientErrorResponse({
+        errorCodesSchema: z
+          .string()
+          .openapi({ enum: [ErrorCodes.INVALID_CREDENTIALS] }),
+      }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const apiKey = c.req.valid("header")["x-api-key"];
+      const { currentPassword, newPassword } = c.req.valid("json");
+
+      const authResult = await getUserFromApiKey({ apiKey, db, env: c.env });
+      if (!authResult.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: authResult.errorCode,
+            error: authResult.error,
+          } as const,
+          401
+        );
+      }
+
+      const result = await changePassword({
+        db,
+        env: c.env,
+        userId: authResult.user.id,
+        currentPassword,
+        newPassword,
+      });
+      if (!result.ok) {
+        // A wrong current password is reported as 403 so clients do not
+        // mistake it for an expired session.
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          result.errorCode === ErrorCodes.INVALID_CREDENTIALS ? 403 : 401
+        );
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: toAuthTokensResponse(result.data),
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
 authEndpoint.openapi(
   {
     method: "post",
-    path: "/login",
+    path: "/verify-email",
     tags: ["auth"],
-    summary: "Register new user or login existing user",
+    summary: "Verify an email address with the token from the verification link",
     request: {
       body: jsonContent(
         z.object({
-          email: z.string().email(),
-          password: z.string().min(8),
+          token: z.string().min(1),
         })
       ),
     },
     responses: {
       200: {
-        description: "Successful response",
+        description: "Email verified",
         content: {
           "application/json": {
             schema: z.object({
               ok: z.literal(true),
-              data: z.object({
-                apiKey: z.string(),
-                isNewUser: z.boolean(),
-              }),
+              data: z.object({}),
             }),
           },
         },
       },
       400: getOpenApiClientErrorResponse({
-        errorCodesSchema: z.enum([ErrorCodes.INVALID_INPUT]),
-      }),
-      401: getOpenApiClientErrorResponse({
-        errorCodesSchema: z.enum([ErrorCodes.INVALID_CREDENTIALS]),
+        errorCodesSchema: z
+          .string()
+          .openapi({ enum: [ErrorCodes.INVALID_VERIFICATION_TOKEN] }),
       }),
       500: getOpenApiClientErrorResponse({
         errorCodesSchema: z.literal("INTERNAL_ERROR"),
@@ -60,92 +1029,145 @@ authEndpoint.openapi(
   async (c) => {
     try {
       const db = connectDb({ env: c.env });
-      const { email, password } = c.req.valid("json");
-
-      const existingUser = await getUserByEmail({ email, db });
-
-      if (!existingUser) {
-        const userResult = await createUser({ email, password, db });
-        if (!userResult.ok) {
-          return c.json(
-            {
-              ok: false,
-              errorCode: ErrorCodes.INVALID_INPUT,
-              error: userResult.error,
-            } as const,
-            400
-          );
-        }
+      const { token } = c.req.valid("json");
 
-        const applicantRole = await getRoleByName({ name: "applicant", db });
-        if (!applicantRole) {
-          return c.json(
-            {
-              ok: false,
-              errorCode: "INTERNAL_ERROR",
-              error: "Default role not found",
-            } as const,
-            500
-          );
-        }
+      const result = await verifyEmailWithToken({ db, token });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          400
+        );
+      }
 
-        const assignResult = await assignRoleToUser({
-          userId: userResult.userId,
-          roleId: applicantRole.id,
-          db,
-        });
-        if (!assignResult.ok) {
-          return c.json(
-            {
-              ok: false,
-              errorCode: "INTERNAL_ERROR",
-              error: assignResult.error,
-            } as const,
-            500
-          );
-        }
+      return c.json(
+        {
+          ok: true,
+          data: {},
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
 
-        const apiKey = await createApiKey({
-          env: c.env,
-          userId: userResult.userId,
-        });
+authEndpoint.openapi(
+  {
+    method: "post",
+    path: "/verify-email/resend",
+    tags: ["auth"],
+    summary: "Send a new email verification link to the current user",
+    request: {
+      headers: ApiKeyHeaderSchema,
+    },
+    responses: {
+      200: {
+        description: "Verification email sent",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({}),
+            }),
+          },
+        },
+      },
+      401: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.string(),
+      }),
+      409: getOpenApiClientErrorResponse({
+        errorCodesSchema: z
+          .string()
+          .openapi({ enum: [ErrorCodes.EMAIL_ALREADY_VERIFIED] }),
+      }),
+      429: {
+        ...getOpenApiClientErrorResponse({
+          errorCodesSchema: z.enum([ErrorCodes.LOGIN_RATE_LIMITED]),
+        }),
+        headers: z.object({
+          "Retry-After": z.string().openapi({
+            description: "Seconds until the next request is accepted",
+          }),
+        }),
+      },
+      502: getOpenApiClientErrorResponse({
+        errorCodesSchema: z
+          .string()
+          .openapi({ enum: [ErrorCodes.EMAIL_DELIVERY_FAILED] }),
+      }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const apiKey = c.req.valid("header")["x-api-key"];
 
+      const authResult = await getUserFromApiKey({ apiKey, db, env: c.env });
+      if (!authResult.ok) {
         return c.json(
           {
-            ok: true,
-            data: {
-              apiKey,
-              isNewUser: true,
-            },
+            ok: false,
+            errorCode: authResult.errorCode,
+            error: authResult.error,
           } as const,
-          200
+          401
         );
       }
 
-      const isPasswordValid = await verifyPassword(password, existingUser.passwordHash);
-      if (!isPasswordValid) {
+      const lockout = await throttleEmailedLinkRequest({
+        db,
+        email: authResult.user.email,
+        ip: getClientIp(c),
+        now: new Date(),
+      });
+      if (lockout !== null) {
         return c.json(
           {
             ok: false,
-            errorCode: ErrorCodes.INVALID_CREDENTIALS,
-            error: "Invalid email or password",
+            errorCode: ErrorCodes.LOGIN_RATE_LIMITED,
+            error: "Too many requests, try again later",
           } as const,
-          401
+          429,
+          { "Retry-After": String(lockout.retryAfterSeconds) }
         );
       }
 
-      const apiKey = await createApiKey({
+      const result = await resendEmailVerification({
+        db,
         env: c.env,
-        userId: existingUser.id,
+        userId: authResult.user.id,
       });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          result.errorCode === ErrorCodes.EMAIL_ALREADY_VERIFIED ? 409 : 502
+        );
+      }
 
       return c.json(
         {
           ok: true,
-          data: {
-            apiKey,
-            isNewUser: false,
-          },
+          data: {},
         } as const,
         200
       );
@@ -168,7 +1190,7 @@ authEndpoint.openapi(
     method: "get",
     path: "/me",
     tags: ["auth"],
-    summary: "Get current user profile with roles",
+    summary: "Get current user profile with roles and permissions",
     request: {
       headers: ApiKeyHeaderSchema,
     },
@@ -185,12 +1207,16 @@ authEndpoint.openapi(
                 firmName: z.string().nullable(),
                 name: z.string().nullable(),
                 phoneNumber: z.string().nullable(),
+                emailVerified: z.boolean(),
                 roles: z.array(
                   z.object({
                     roleId: z.string(),
                     roleName: z.string(),
                   })
                 ),
+                permissions: z.array(z.string()).openapi({
+                  description: "Permissions granted by the user's roles",
+                }),
               }),
             }),
           },
@@ -241,7 +1267,158 @@ authEndpoint.openapi(
       return c.json(
         {
           ok: true,
-          data: authResult.user,
+          data: {
+            ...authResult.user,
+            permissions: getPermissionsForRoleNames(
+              authResult.user.roles.map((role) => role.roleName)
+            ),
+          },
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+authEndpoint.openapi(
+  {
+    method: "post",
+    path: "/refresh",
+    tags: ["auth"],
+    summary: "Exchange a refresh token for a new access token and refresh token",
+    request: {
+      body: jsonContent(
+        z.object({
+          refreshToken: z.string().min(1),
+        })
+      ),
+    },
+    responses: {
+      200: {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: AuthTokensSchema,
+            }),
+          },
+        },
+      },
+      401: getOpenApiClientErrorResponse({
+        errorCodesSchema: z
+          .string()
+          .openapi({ enum: [ErrorCodes.INVALID_REFRESH_TOKEN] }),
+      }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { refreshToken } = c.req.valid("json");
+
+      const result = await refreshSession({ db, env: c.env, refreshToken });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          401
+        );
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: toAuthTokensResponse(result.data),
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+authEndpoint.openapi(
+  {
+    method: "post",
+    path: "/logout",
+    tags: ["auth"],
+    summary: "Revoke the session of the presented access token",
+    request: {
+      headers: ApiKeyHeaderSchema,
+    },
+    responses: {
+      200: {
+        description: "Session revoked",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({}),
+            }),
+          },
+        },
+      },
+      401: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.string(),
+      }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const apiKey = c.req.valid("header")["x-api-key"];
+
+      const authResult = await getUserFromApiKey({ apiKey, db, env: c.env });
+      if (!authResult.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: authResult.errorCode,
+            error: authResult.error,
+          } as const,
+          401
+        );
+      }
+
+      await revokeSession({
+        db,
+        sessionId: authResult.sessionId,
+        reason: AuthSessionRevokedReasons.LOGOUT,
+      });
+
+      return c.json(
+        {
+          ok: true,
+          data: {},
         } as const,
         200
       );
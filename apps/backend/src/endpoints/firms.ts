@@ -0,0 +1,325 @@
+import { z } from "@hono/zod-openapi";
+import { connectDb } from "../features/db/connect";
+import { FirmMemberRoles } from "../features/db/schema";
+import {
+  acceptFirmInvite,
+  getFirmOverview,
+  inviteFirmMember,
+} from "../features/firms";
+import { Permissions } from "../features/permissions";
+import { ErrorCodes, handleApiErrors } from "../utils/error";
+import { getHono } from "../utils/hono";
+import {
+  ApiKeyHeaderSchema,
+  getOpenApiClientErrorResponse,
+  jsonContent,
+} from "../utils/openapi";
+import { requirePermission } from "../utils/permissions";
+
+export const firmsEndpoint = getHono();
+
+const FirmMemberRoleSchema = z.enum([
+  FirmMemberRoles.OWNER,
+  FirmMemberRoles.CONTRIBUTOR,
+  FirmMemberRoles.VIEWER,
+]);
+
+const FirmMembershipSchema = z.object({
+  firmId: z.string(),
+  firmName: z.string(),
+  role: FirmMemberRoleSchema,
+});
+
+const FirmInviteSchema = z.object({
+  inviteId: z.string(),
+  email: z.string(),
+  role: FirmMemberRoleSchema,
+  expiresAt: z.string().datetime(),
+  createdAt: z.string().datetime(),
+});
+
+type FirmErrorStatus = 400 | 403 | 409 | 502;
+
+function getFirmErrorStatus(errorCode: ErrorCodes): FirmErrorStatus {
+  switch (errorCode) {
+    case ErrorCodes.FIRM_PERMISSION_DENIED:
+    case ErrorCodes.FIRM_INVITE_EMAIL_MISMATCH:
+      return 403;
+    case ErrorCodes.FIRM_MEMBERSHIP_EXISTS:
+      return 409;
+    case ErrorCodes.EMAIL_DELIVERY_FAILED:
+      return 502;
+    default:
+      return 400;
+  }
+}
+
+firmsEndpoint.openapi(
+  {
+    method: "get",
+    path: "/me",
+    tags: ["firms"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
+    summary: "Get the current user's firm, members and pending invitations",
+    request: {
+      headers: ApiKeyHeaderSchema,
+    },
+    responses: {
+      200: {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z
+                .object({
+                  firmId: z.string(),
+                  firmName: z.string(),
+                  role: FirmMemberRoleSchema,
+                  members: z.array(
+                    z.object({
+                      userId: z.string(),
+                      email: z.string(),
+                      name: z.string().nullable(),
+                      role: FirmMemberRoleSchema,
+                      joinedAt: z.string().datetime(),
+                    })
+                  ),
+                  pendingInvites: z.array(FirmInviteSchema).openapi({
+                    description: "Only returned to firm owners",
+                  }),
+                })
+                .nullable()
+                .openapi({
+                  description:
+                    "Null until the user starts an application or joins a firm",
+                }),
+            }),
+          },
+        },
+      },
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+
+      const { user } = c.get("auth");
+
+      const result = await getFirmOverview({ db, userId: user.id });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: "INTERNAL_ERROR",
+            error: result.error,
+          } as const,
+          500
+        );
+      }
+
+      const firm = result.data;
+      return c.json(
+        {
+          ok: true,
+          data:
+            firm === null
+              ? null
+              : {
+                  firmId: firm.firmId,
+                  firmName: firm.firmName,
+                  role: firm.role,
+                  members: firm.members.map((member) => ({
+                    ...member,
+                    joinedAt: member.joinedAt.toISOString(),
+                  })),
+                  pendingInvites: firm.pendingInvites.map((invite) => ({
+                    ...invite,
+                    expiresAt: invite.expiresAt.toISOString(),
+                    createdAt: invite.createdAt.toISOString(),
+                  })),
+                },
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+firmsEndpoint.openapi(
+  {
+    method: "post",
+    path: "/me/invites",
+    tags: ["firms"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
+    summary: "Invite a colleague to the current user's firm by email (owners only)",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      body: jsonContent(
+        z.object({
+          email: z.string().email(),
+          role: z.enum([FirmMemberRoles.CONTRIBUTOR, FirmMemberRoles.VIEWER]),
+        })
+      ),
+    },
+    responses: {
+      200: {
+        description: "Invitation sent",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: FirmInviteSchema,
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      502: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const request = c.req.valid("json");
+
+      const { user } = c.get("auth");
+
+      const result = await inviteFirmMember({
+        db,
+        env: c.env,
+        userId: user.id,
+        email: request.email,
+        role: request.role,
+      });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          getFirmErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: {
+            ...result.data,
+            expiresAt: result.data.expiresAt.toISOString(),
+            createdAt: result.data.createdAt.toISOString(),
+          },
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+firmsEndpoint.openapi(
+  {
+    method: "post",
+    path: "/invites/accept",
+    tags: ["firms"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
+    summary: "Join a firm with an invitation token sent by email",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      body: jsonContent(
+        z.object({
+          token: z.string().min(1),
+        })
+      ),
+    },
+    responses: {
+      200: {
+        description: "Invitation accepted",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: FirmMembershipSchema,
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      502: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { token } = c.req.valid("json");
+
+      const { user } = c.get("auth");
+
+      const result = await acceptFirmInvite({
+        db,
+        userId: user.id,
+        token,
+      });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          getFirmErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json({ ok: true, data: result.data } as const, 200);
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
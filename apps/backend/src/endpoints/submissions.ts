@@ -1,8 +1,12 @@
 import { z } from "@hono/zod-openapi";
-import { getUserFromApiKeyWithRole } from "../features/auth";
 import { connectDb } from "../features/db/connect";
+import {
+  getSubmissionReceipt,
+  ReceiptSignatureAlgorithm,
+  verifySubmissionManifest,
+} from "../features/submissionReceipts";
 import { submitTender } from "../features/uploads";
-import { UploadAllowedRoleName } from "../features/uploadConstants";
+import { Permissions } from "../features/permissions";
 import { ErrorCodes, handleApiErrors } from "../utils/error";
 import { getHono } from "../utils/hono";
 import {
@@ -10,19 +14,54 @@ import {
   getOpenApiClientErrorResponse,
   jsonContent,
 } from "../utils/openapi";
+import { requirePermission } from "../utils/permissions";
 
 export const submissionsEndpoint = getHono();
 
-type SubmitErrorStatus = 400 | 403 | 404;
+const SignedSubmissionManifestSchema = z.object({
+  manifest: z.object({
+    version: z.literal(1),
+    receiptNumber: z.string(),
+    submissionId: z.string(),
+    tenderId: z.string(),
+    tenderTitle: z.string(),
+    firmName: z.string(),
+    issuedTo: z.string(),
+    submittedAt: z.string().datetime(),
+    issuedAt: z.string().datetime(),
+    files: z.array(
+      z.object({
+        fileId: z.string(),
+        questionId: z.string(),
+        fileName: z.string(),
+        fileSizeBytes: z.number().int(),
+        contentType: z.string(),
+        uploadedAt: z.string().datetime(),
+        etag: z.string(),
+        checksumSha256: z.string().nullable(),
+      })
+    ),
+  }),
+  signature: z.object({
+    algorithm: z.literal(ReceiptSignatureAlgorithm),
+    value: z.string(),
+  }),
+});
+
+type SubmitErrorStatus = 400 | 403 | 404 | 409;
 
 function getSubmitErrorStatus(errorCode: ErrorCodes): SubmitErrorStatus {
   switch (errorCode) {
     case ErrorCodes.FORBIDDEN_ROLE:
-    case ErrorCodes.SUBMISSION_ALREADY_SUBMITTED:
+    case ErrorCodes.TENDER_CLOSED:
+    case ErrorCodes.TENDER_HAS_NO_QUESTIONS:
+    case ErrorCodes.FIRM_PERMISSION_DENIED:
       return 403;
     case ErrorCodes.TENDER_NOT_FOUND:
     case ErrorCodes.SUBMISSION_NOT_FOUND:
       return 404;
+    case ErrorCodes.SUBMISSION_ALREADY_SUBMITTED:
+      return 409;
     default:
       return 400;
   }
@@ -33,6 +72,7 @@ submissionsEndpoint.openapi(
     method: "post",
     path: "/submit",
     tags: ["submissions"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
     summary: "Validate required uploads and submit tender",
     request: {
       headers: ApiKeyHeaderSchema,
@@ -53,6 +93,10 @@ submissionsEndpoint.openapi(
                 tenderId: z.string(),
                 status: z.literal("submitted"),
                 submittedAt: z.string().datetime(),
+                receiptNumber: z.string().nullable().openapi({
+                  description:
+                    "Null when the receipt could not be issued yet; it is issued on first download",
+                }),
               }),
             }),
           },
@@ -62,6 +106,7 @@ submissionsEndpoint.openapi(
       401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
       403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
       404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
       500: getOpenApiClientErrorResponse({
         errorCodesSchema: z.literal("INTERNAL_ERROR"),
       }),
@@ -70,30 +115,14 @@ submissionsEndpoint.openapi(
   async (c) => {
     try {
       const db = connectDb({ env: c.env });
-      const apiKey = c.req.valid("header")["x-api-key"];
       const request = c.req.valid("json");
 
-      const authResult = await getUserFromApiKeyWithRole({
-        apiKey,
-        db,
-        env: c.env,
-        roleName: UploadAllowedRoleName,
-      });
-      if (!authResult.ok) {
-        const status = authResult.errorCode === ErrorCodes.FORBIDDEN_ROLE ? 403 : 401;
-        return c.json(
-          {
-            ok: false,
-            errorCode: authResult.errorCode,
-            error: authResult.error,
-          } as const,
-          status
-        );
-      }
+      const { user } = c.get("auth");
 
       const result = await submitTender({
         db,
-        userId: authResult.user.id,
+        env: c.env,
+        userId: user.id,
         tenderId: request.tenderId,
       });
 
@@ -131,3 +160,136 @@ submissionsEndpoint.openapi(
     }
   }
 );
+
+submissionsEndpoint.openapi(
+  {
+    method: "get",
+    path: "/{submissionId}/receipt",
+    tags: ["submissions"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
+    summary: "Get the signed file manifest issued when the submission was submitted",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      params: z.object({
+        submissionId: z.string().min(1),
+      }),
+    },
+    responses: {
+      200: {
+        description: "Signed manifest",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: SignedSubmissionManifestSchema,
+            }),
+          },
+        },
+      },
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+      503: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { submissionId } = c.req.valid("param");
+
+      const { user } = c.get("auth");
+
+      const result = await getSubmissionReceipt({
+        db,
+        env: c.env,
+        userId: user.id,
+        submissionId,
+      });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          result.errorCode === ErrorCodes.RECEIPT_SIGNING_UNAVAILABLE ? 503 : 404
+        );
+      }
+
+      return c.json({ ok: true, data: result.data } as const, 200);
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+submissionsEndpoint.openapi(
+  {
+    method: "post",
+    path: "/receipts/verify",
+    tags: ["submissions"],
+    summary: "Check that a submission manifest was signed by this service and is unaltered",
+    request: {
+      body: jsonContent(SignedSubmissionManifestSchema),
+    },
+    responses: {
+      200: {
+        description: "Verification result",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({
+                valid: z.boolean(),
+              }),
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+      503: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+    },
+  },
+  async (c) => {
+    try {
+      const document = c.req.valid("json");
+      const result = await verifySubmissionManifest({ env: c.env, document });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: ErrorCodes.RECEIPT_SIGNING_UNAVAILABLE,
+            error: result.error,
+          } as const,
+          503
+        );
+      }
+
+      return c.json({ ok: true, data: { valid: result.data } } as const, 200);
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
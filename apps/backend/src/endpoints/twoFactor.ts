@@ -0,0 +1,387 @@
+import { z } from "@hono/zod-openapi";
+import { connectDb } from "../features/db/connect";
+import {
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+} from "../features/twoFactor";
+import { ErrorCodes, handleApiErrors } from "../utils/error";
+import { getHono } from "../utils/hono";
+import {
+  ApiKeyHeaderSchema,
+  getOpenApiClientErrorResponse,
+  jsonContent,
+} from "../utils/openapi";
+import { requireAuth } from "../utils/permissions";
+
+export const twoFactorEndpoint = getHono();
+
+const CodeBodySchema = z.object({
+  code: z.string().trim().min(1),
+});
+
+const RecoveryCodesSchema = z.object({
+  recoveryCodes: z.array(z.string()).openapi({
+    description: "Shown only once; each code signs in a single time",
+  }),
+});
+
+type TwoFactorErrorStatus = 400 | 401 | 403 | 409;
+
+function getTwoFactorErrorStatus(errorCode: ErrorCodes): TwoFactorErrorStatus {
+  switch (errorCode) {
+    case ErrorCodes.INVALID_TWO_FACTOR_CODE:
+      return 401;
+    case ErrorCodes.TWO_FACTOR_REQUIRED_FOR_ROLE:
+      return 403;
+    case ErrorCodes.TWO_FACTOR_ALREADY_ENABLED:
+      return 409;
+    default:
+      return 400;
+  }
+}
+
+twoFactorEndpoint.openapi(
+  {
+    method: "get",
+    path: "/",
+    tags: ["two-factor"],
+    middleware: requireAuth(),
+    summary: "Get the current user's two-factor status",
+    request: {
+      headers: ApiKeyHeaderSchema,
+    },
+    responses: {
+      200: {
+        description: "Successful response",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({
+                enabled: z.boolean(),
+                required: z.boolean().openapi({
+                  description: "True when the user's role makes 2FA mandatory",
+                }),
+                recoveryCodesRemaining: z.number().int(),
+              }),
+            }),
+          },
+        },
+      },
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { user } = c.get("auth");
+
+      const status = await getTwoFactorStatus({
+        db,
+        userId: user.id,
+        roleNames: user.roles.map((role) => role.roleName),
+      });
+
+      return c.json({ ok: true, data: status } as const, 200);
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+twoFactorEndpoint.openapi(
+  {
+    method: "post",
+    path: "/enroll",
+    tags: ["two-factor"],
+    middleware: requireAuth(),
+    summary: "Generate a new authenticator secret pending confirmation",
+    request: {
+      headers: ApiKeyHeaderSchema,
+    },
+    responses: {
+      200: {
+        description: "Secret to add to an authenticator app",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({
+                secret: z.string(),
+                otpauthUrl: z.string().openapi({
+                  description: "otpauth:// URI to render as a QR code",
+                }),
+              }),
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { user } = c.get("auth");
+
+      const result = await beginTotpEnrollment({
+        db,
+        userId: user.id,
+        accountName: user.email,
+      });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          getTwoFactorErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json({ ok: true, data: result.data } as const, 200);
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+twoFactorEndpoint.openapi(
+  {
+    method: "post",
+    path: "/confirm",
+    tags: ["two-factor"],
+    middleware: requireAuth(),
+    summary: "Turn on two-factor authentication with a code from the new secret",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      body: jsonContent(CodeBodySchema),
+    },
+    responses: {
+      200: {
+        description: "Two-factor authentication enabled",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: RecoveryCodesSchema,
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { user } = c.get("auth");
+      const { code } = c.req.valid("json");
+
+      const result = await confirmTotpEnrollment({
+        db,
+        userId: user.id,
+        code,
+        now: new Date(),
+      });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          getTwoFactorErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json({ ok: true, data: result.data } as const, 200);
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+twoFactorEndpoint.openapi(
+  {
+    method: "post",
+    path: "/recovery-codes",
+    tags: ["two-factor"],
+    middleware: requireAuth(),
+    summary: "Replace all recovery codes after checking an authenticator code",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      body: jsonContent(CodeBodySchema),
+    },
+    responses: {
+      200: {
+        description: "New recovery codes",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: RecoveryCodesSchema,
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { user } = c.get("auth");
+      const { code } = c.req.valid("json");
+
+      const result = await regenerateRecoveryCodes({
+        db,
+        userId: user.id,
+        code,
+        now: new Date(),
+      });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          getTwoFactorErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json({ ok: true, data: result.data } as const, 200);
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+twoFactorEndpoint.openapi(
+  {
+    method: "post",
+    path: "/disable",
+    tags: ["two-factor"],
+    middleware: requireAuth(),
+    summary: "Turn off two-factor authentication (not allowed for admins)",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      body: jsonContent(CodeBodySchema),
+    },
+    responses: {
+      200: {
+        description: "Two-factor authentication disabled",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({}),
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { user } = c.get("auth");
+      const { code } = c.req.valid("json");
+
+      const result = await disableTwoFactor({
+        db,
+        userId: user.id,
+        roleNames: user.roles.map((role) => role.roleName),
+        code,
+        now: new Date(),
+      });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          getTwoFactorErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json({ ok: true, data: {} } as const, 200);
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
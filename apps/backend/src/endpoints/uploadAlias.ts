@@ -1,12 +1,8 @@
 import { z } from "@hono/zod-openapi";
-import { getUserFromApiKeyWithRole } from "../features/auth";
 import { connectDb } from "../features/db/connect";
 import { completeUpload, getActiveTender, initiateUpload } from "../features/uploads";
 import type { R2StorageDebugInfo } from "../features/r2Multipart";
-import {
-  UploadAllowedRoleName,
-  UploadQuestionIds,
-} from "../features/uploadConstants";
+import { Permissions } from "../features/permissions";
 import { ErrorCodes, handleApiErrors } from "../utils/error";
 import { getHono } from "../utils/hono";
 import {
@@ -14,6 +10,7 @@ import {
   getOpenApiClientErrorResponse,
   jsonContent,
 } from "../utils/openapi";
+import { requirePermission } from "../utils/permissions";
 
 export const uploadAliasEndpoint = getHono();
 
@@ -46,13 +43,25 @@ const InitiateUploadDataSchema = z.discriminatedUnion("uploadType", [
 
 const UploadedFileSummarySchema = z.object({
   fileId: z.string(),
-  questionId: z.enum(UploadQuestionIds),
+  questionId: z.string(),
   fileName: z.string(),
   fileSizeBytes: z.number().int(),
   contentType: z.string(),
+  checksumSha256: z.string().nullable(),
+  contentCheckStatus: z.enum(["unchecked", "passed", "quarantined"]),
+  contentCheckDetail: z.string().nullable(),
   uploadedAt: z.string().datetime(),
 });
 
+const InitiateValidationErrorCodesSchema = z.string().openapi({
+  enum: [
+    ErrorCodes.INVALID_INPUT,
+    ErrorCodes.FILE_EXTENSION_NOT_ALLOWED,
+    ErrorCodes.FILE_TYPE_NOT_ALLOWED,
+    ErrorCodes.FILE_TOO_LARGE,
+  ],
+});
+
 type WriteErrorStatus = 400 | 403 | 404 | 409 | 500 | 503;
 
 type UploadErrorPayload = {
@@ -66,18 +75,26 @@ function getWriteErrorStatus(errorCode: ErrorCodes): WriteErrorStatus {
   switch (errorCode) {
     case ErrorCodes.INVALID_INPUT:
     case ErrorCodes.MISSING_REQUIRED_UPLOADS:
+    case ErrorCodes.FILE_EXTENSION_NOT_ALLOWED:
+    case ErrorCodes.FILE_TYPE_NOT_ALLOWED:
+    case ErrorCodes.FILE_TOO_LARGE:
       return 400;
     case ErrorCodes.FORBIDDEN_ROLE:
-    case ErrorCodes.SUBMISSION_ALREADY_SUBMITTED:
+    case ErrorCodes.TENDER_CLOSED:
+    case ErrorCodes.EMAIL_NOT_VERIFIED:
+    case ErrorCodes.FIRM_PERMISSION_DENIED:
       return 403;
     case ErrorCodes.TENDER_NOT_FOUND:
     case ErrorCodes.SUBMISSION_NOT_FOUND:
     case ErrorCodes.UPLOAD_SESSION_NOT_FOUND:
       return 404;
     case ErrorCodes.UPLOAD_CONFLICT:
+    case ErrorCodes.SUBMISSION_ALREADY_SUBMITTED:
     case ErrorCodes.UPLOAD_SESSION_EXPIRED:
     case ErrorCodes.UPLOAD_SESSION_STATE_INVALID:
     case ErrorCodes.PARTS_MISMATCH:
+    case ErrorCodes.CHECKSUM_MISMATCH:
+    case ErrorCodes.FILE_SIZE_MISMATCH:
       return 409;
     case ErrorCodes.UPLOAD_CONFIG_INVALID:
       return 500;
@@ -132,16 +149,28 @@ uploadAliasEndpoint.openapi(
     method: "post",
     path: "/init",
     tags: ["uploads"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
     summary: "Alias for upload initiation",
     request: {
       headers: ApiKeyHeaderSchema,
       body: jsonContent(
         z.object({
           tenderId: z.string().min(1),
-          questionId: z.enum(UploadQuestionIds),
+          questionId: z.string().min(1),
           fileName: z.string().min(1),
           fileSizeBytes: z.number().int().positive(),
           contentType: z.string().min(1),
+          checksumSha256: z.string().min(1).optional(),
+          partChecksumAlgorithm: z.enum(["CRC32", "SHA256"]).optional(),
+          partChecksums: z
+            .array(
+              z.object({
+                partNumber: z.number().int().positive(),
+                checksum: z.string().min(1),
+              })
+            )
+            .min(1)
+            .optional(),
         })
       ),
     },
@@ -157,7 +186,9 @@ uploadAliasEndpoint.openapi(
           },
         },
       },
-      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      400: getOpenApiClientErrorResponse({
+        errorCodesSchema: InitiateValidationErrorCodesSchema,
+      }),
       401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
       403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
       404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
@@ -169,26 +200,9 @@ uploadAliasEndpoint.openapi(
   async (c) => {
     try {
       const db = connectDb({ env: c.env });
-      const apiKey = c.req.valid("header")["x-api-key"];
       const request = c.req.valid("json");
 
-      const authResult = await getUserFromApiKeyWithRole({
-        apiKey,
-        db,
-        env: c.env,
-        roleName: UploadAllowedRoleName,
-      });
-      if (!authResult.ok) {
-        const status = authResult.errorCode === ErrorCodes.FORBIDDEN_ROLE ? 403 : 401;
-        return c.json(
-          {
-            ok: false,
-            errorCode: authResult.errorCode,
-            error: authResult.error,
-          } as const,
-          status
-        );
-      }
+      const { user } = c.get("auth");
 
       const tender = await getActiveTender({ db, tenderId: request.tenderId });
       if (!tender) {
@@ -205,12 +219,15 @@ uploadAliasEndpoint.openapi(
       const result = await initiateUpload({
         db,
         env: c.env,
-        userId: authResult.user.id,
+        userId: user.id,
         tender,
         questionId: request.questionId,
         fileName: request.fileName,
         fileSizeBytes: request.fileSizeBytes,
         contentType: request.contentType,
+        checksumSha256: request.checksumSha256,
+        partChecksumAlgorithm: request.partChecksumAlgorithm,
+        partChecksums: request.partChecksums,
       });
 
       if (!result.ok) {
@@ -254,6 +271,7 @@ uploadAliasEndpoint.openapi(
     method: "post",
     path: "/complete",
     tags: ["uploads"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
     summary: "Alias for upload completion",
     request: {
       headers: ApiKeyHeaderSchema,
@@ -298,26 +316,9 @@ uploadAliasEndpoint.openapi(
   async (c) => {
     try {
       const db = connectDb({ env: c.env });
-      const apiKey = c.req.valid("header")["x-api-key"];
       const request = c.req.valid("json");
 
-      const authResult = await getUserFromApiKeyWithRole({
-        apiKey,
-        db,
-        env: c.env,
-        roleName: UploadAllowedRoleName,
-      });
-      if (!authResult.ok) {
-        const status = authResult.errorCode === ErrorCodes.FORBIDDEN_ROLE ? 403 : 401;
-        return c.json(
-          {
-            ok: false,
-            errorCode: authResult.errorCode,
-            error: authResult.error,
-          } as const,
-          status
-        );
-      }
+      const { user } = c.get("auth");
 
       const tender = await getActiveTender({ db, tenderId: request.tenderId });
       if (!tender) {
@@ -334,7 +335,7 @@ uploadAliasEndpoint.openapi(
       const result = await completeUpload({
         db,
         env: c.env,
-        userId: authResult.user.id,
+        userId: user.id,
         tender,
         uploadSessionId: request.uploadSessionId,
         parts: request.parts,
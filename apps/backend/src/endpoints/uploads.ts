@@ -1,18 +1,19 @@
 import { z } from "@hono/zod-openapi";
-import { getUserFromApiKeyWithRole } from "../features/auth";
 import { connectDb } from "../features/db/connect";
 import {
   abortUpload,
   completeUpload,
+  deleteUploadedFile,
   getActiveTender,
   getUploadStatus,
   initiateUpload,
+  listQuestionFileVersions,
+  listUploadSessionParts,
+  presignUploadSessionParts,
+  restoreUploadedFileVersion,
 } from "../features/uploads";
 import type { R2StorageDebugInfo } from "../features/r2Multipart";
-import {
-  UploadAllowedRoleName,
-  UploadQuestionIds,
-} from "../features/uploadConstants";
+import { Permissions } from "../features/permissions";
 import { ErrorCodes, handleApiErrors } from "../utils/error";
 import { getHono } from "../utils/hono";
 import {
@@ -20,18 +21,32 @@ import {
   getOpenApiClientErrorResponse,
   jsonContent,
 } from "../utils/openapi";
+import { requirePermission } from "../utils/permissions";
 
 export const uploadsEndpoint = getHono();
 
 const UploadedFileSummarySchema = z.object({
   fileId: z.string(),
-  questionId: z.enum(UploadQuestionIds),
+  questionId: z.string(),
   fileName: z.string(),
   fileSizeBytes: z.number().int(),
   contentType: z.string(),
+  checksumSha256: z.string().nullable(),
+  contentCheckStatus: z.enum(["unchecked", "passed", "quarantined"]),
+  contentCheckDetail: z.string().nullable(),
   uploadedAt: z.string().datetime(),
 });
 
+const UploadedFileVersionSchema = UploadedFileSummarySchema.extend({
+  replacedAt: z.string().datetime(),
+});
+
+const PresignedPartSchema = z.object({
+  partNumber: z.number().int(),
+  url: z.string().url(),
+  expiresAt: z.string().datetime(),
+});
+
 const InitiateUploadDataSchema = z.discriminatedUnion("uploadType", [
   z.object({
     uploadType: z.literal("single"),
@@ -49,16 +64,21 @@ const InitiateUploadDataSchema = z.discriminatedUnion("uploadType", [
     partSizeBytes: z.number().int(),
     totalParts: z.number().int(),
     expiresAt: z.string().datetime(),
-    parts: z.array(
-      z.object({
-        partNumber: z.number().int(),
-        url: z.string().url(),
-        expiresAt: z.string().datetime(),
-      })
-    ),
+    parts: z.array(PresignedPartSchema),
   }),
 ]);
 
+// Documents the validation codes initiate can return while keeping the
+// runtime type a plain string, since handlers pass through any ErrorCodes.
+const InitiateValidationErrorCodesSchema = z.string().openapi({
+  enum: [
+    ErrorCodes.INVALID_INPUT,
+    ErrorCodes.FILE_EXTENSION_NOT_ALLOWED,
+    ErrorCodes.FILE_TYPE_NOT_ALLOWED,
+    ErrorCodes.FILE_TOO_LARGE,
+  ],
+});
+
 type WriteErrorStatus = 400 | 403 | 404 | 409 | 500 | 503;
 type ReadErrorStatus = 400 | 404;
 
@@ -73,18 +93,29 @@ function getWriteErrorStatus(errorCode: ErrorCodes): WriteErrorStatus {
   switch (errorCode) {
     case ErrorCodes.INVALID_INPUT:
     case ErrorCodes.MISSING_REQUIRED_UPLOADS:
+    case ErrorCodes.FILE_EXTENSION_NOT_ALLOWED:
+    case ErrorCodes.FILE_TYPE_NOT_ALLOWED:
+    case ErrorCodes.FILE_TOO_LARGE:
       return 400;
     case ErrorCodes.FORBIDDEN_ROLE:
-    case ErrorCodes.SUBMISSION_ALREADY_SUBMITTED:
+    case ErrorCodes.TENDER_CLOSED:
+    case ErrorCodes.EMAIL_NOT_VERIFIED:
+    case ErrorCodes.FIRM_PERMISSION_DENIED:
       return 403;
     case ErrorCodes.TENDER_NOT_FOUND:
     case ErrorCodes.SUBMISSION_NOT_FOUND:
     case ErrorCodes.UPLOAD_SESSION_NOT_FOUND:
+    case ErrorCodes.UPLOADED_FILE_NOT_FOUND:
       return 404;
     case ErrorCodes.UPLOAD_CONFLICT:
+    case ErrorCodes.SUBMISSION_ALREADY_SUBMITTED:
+    case ErrorCodes.TOO_MANY_FILES:
+    case ErrorCodes.UPLOADED_FILE_OBJECT_MISSING:
     case ErrorCodes.UPLOAD_SESSION_EXPIRED:
     case ErrorCodes.UPLOAD_SESSION_STATE_INVALID:
     case ErrorCodes.PARTS_MISMATCH:
+    case ErrorCodes.CHECKSUM_MISMATCH:
+    case ErrorCodes.FILE_SIZE_MISMATCH:
       return 409;
     case ErrorCodes.UPLOAD_CONFIG_INVALID:
       return 500;
@@ -148,16 +179,28 @@ uploadsEndpoint.openapi(
     method: "post",
     path: "/initiate",
     tags: ["uploads"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
     summary: "Create upload session and presigned URLs",
     request: {
       headers: ApiKeyHeaderSchema,
       body: jsonContent(
         z.object({
           tenderId: z.string().min(1),
-          questionId: z.enum(UploadQuestionIds),
+          questionId: z.string().min(1),
           fileName: z.string().min(1),
           fileSizeBytes: z.number().int().positive(),
           contentType: z.string().min(1),
+          checksumSha256: z.string().min(1).optional(),
+          partChecksumAlgorithm: z.enum(["CRC32", "SHA256"]).optional(),
+          partChecksums: z
+            .array(
+              z.object({
+                partNumber: z.number().int().positive(),
+                checksum: z.string().min(1),
+              })
+            )
+            .min(1)
+            .optional(),
         })
       ),
     },
@@ -173,7 +216,9 @@ uploadsEndpoint.openapi(
           },
         },
       },
-      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      400: getOpenApiClientErrorResponse({
+        errorCodesSchema: InitiateValidationErrorCodesSchema,
+      }),
       401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
       403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
       404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
@@ -187,26 +232,9 @@ uploadsEndpoint.openapi(
   async (c) => {
     try {
       const db = connectDb({ env: c.env });
-      const apiKey = c.req.valid("header")["x-api-key"];
       const request = c.req.valid("json");
 
-      const authResult = await getUserFromApiKeyWithRole({
-        apiKey,
-        db,
-        env: c.env,
-        roleName: UploadAllowedRoleName,
-      });
-      if (!authResult.ok) {
-        const status = authResult.errorCode === ErrorCodes.FORBIDDEN_ROLE ? 403 : 401;
-        return c.json(
-          {
-            ok: false,
-            errorCode: authResult.errorCode,
-            error: authResult.error,
-          } as const,
-          status
-        );
-      }
+      const { user } = c.get("auth");
 
       const tender = await getActiveTender({ db, tenderId: request.tenderId });
       if (!tender) {
@@ -223,12 +251,15 @@ uploadsEndpoint.openapi(
       const result = await initiateUpload({
         db,
         env: c.env,
-        userId: authResult.user.id,
+        userId: user.id,
         tender,
         questionId: request.questionId,
         fileName: request.fileName,
         fileSizeBytes: request.fileSizeBytes,
         contentType: request.contentType,
+        checksumSha256: request.checksumSha256,
+        partChecksumAlgorithm: request.partChecksumAlgorithm,
+        partChecksums: request.partChecksums,
       });
 
       if (!result.ok) {
@@ -272,6 +303,7 @@ uploadsEndpoint.openapi(
     method: "post",
     path: "/complete",
     tags: ["uploads"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
     summary: "Complete upload and create active file metadata",
     request: {
       headers: ApiKeyHeaderSchema,
@@ -318,26 +350,9 @@ uploadsEndpoint.openapi(
   async (c) => {
     try {
       const db = connectDb({ env: c.env });
-      const apiKey = c.req.valid("header")["x-api-key"];
       const request = c.req.valid("json");
 
-      const authResult = await getUserFromApiKeyWithRole({
-        apiKey,
-        db,
-        env: c.env,
-        roleName: UploadAllowedRoleName,
-      });
-      if (!authResult.ok) {
-        const status = authResult.errorCode === ErrorCodes.FORBIDDEN_ROLE ? 403 : 401;
-        return c.json(
-          {
-            ok: false,
-            errorCode: authResult.errorCode,
-            error: authResult.error,
-          } as const,
-          status
-        );
-      }
+      const { user } = c.get("auth");
 
       const tender = await getActiveTender({ db, tenderId: request.tenderId });
       if (!tender) {
@@ -354,7 +369,7 @@ uploadsEndpoint.openapi(
       const result = await completeUpload({
         db,
         env: c.env,
-        userId: authResult.user.id,
+        userId: user.id,
         tender,
         uploadSessionId: request.uploadSessionId,
         parts: request.parts,
@@ -402,6 +417,7 @@ uploadsEndpoint.openapi(
     method: "post",
     path: "/abort",
     tags: ["uploads"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
     summary: "Abort an active multipart upload session",
     request: {
       headers: ApiKeyHeaderSchema,
@@ -438,27 +454,524 @@ uploadsEndpoint.openapi(
   async (c) => {
     try {
       const db = connectDb({ env: c.env });
-      const apiKey = c.req.valid("header")["x-api-key"];
       const request = c.req.valid("json");
 
-      const authResult = await getUserFromApiKeyWithRole({
-        apiKey,
+      const { user } = c.get("auth");
+
+      const tender = await getActiveTender({ db, tenderId: request.tenderId });
+      if (!tender) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: ErrorCodes.TENDER_NOT_FOUND,
+            error: "Tender not found",
+          } as const,
+          404
+        );
+      }
+
+      const result = await abortUpload({
+        db,
+        env: c.env,
+        userId: user.id,
+        tender,
+        uploadSessionId: request.uploadSessionId,
+      });
+
+      if (!result.ok) {
+        return c.json(
+          getUploadErrorPayload({
+            env: c.env,
+            errorCode: result.errorCode,
+            error: result.error,
+            debug: result.debug,
+          }),
+          getWriteErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json({ ok: true, data: result.data } as const, 200);
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+uploadsEndpoint.openapi(
+  {
+    method: "delete",
+    path: "/files/{fileId}",
+    tags: ["uploads"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
+    summary:
+      "Delete an uploaded file from a draft submission and schedule removal of its stored object",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      params: z.object({
+        fileId: z.string().min(1),
+      }),
+      query: z.object({
+        tenderId: z.string().min(1),
+      }),
+    },
+    responses: {
+      200: {
+        description: "File deleted",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({
+                fileId: z.string(),
+                questionId: z.string(),
+              }),
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.string(),
+      }),
+      503: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { fileId } = c.req.valid("param");
+      const { tenderId } = c.req.valid("query");
+
+      const { user } = c.get("auth");
+
+      const tender = await getActiveTender({ db, tenderId });
+      if (!tender) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: ErrorCodes.TENDER_NOT_FOUND,
+            error: "Tender not found",
+          } as const,
+          404
+        );
+      }
+
+      const result = await deleteUploadedFile({
+        db,
+        userId: user.id,
+        tender,
+        fileId,
+      });
+
+      if (!result.ok) {
+        return c.json(
+          getUploadErrorPayload({
+            env: c.env,
+            errorCode: result.errorCode,
+            error: result.error,
+            debug: result.debug,
+          }),
+          getWriteErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json({ ok: true, data: result.data } as const, 200);
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+uploadsEndpoint.openapi(
+  {
+    method: "get",
+    path: "/questions/{questionId}/versions",
+    tags: ["uploads"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
+    summary:
+      "List the earlier versions of a question's file that can still be restored",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      params: z.object({
+        questionId: z.string().min(1),
+      }),
+      query: z.object({
+        tenderId: z.string().min(1),
+      }),
+    },
+    responses: {
+      200: {
+        description: "Previous versions, newest first",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({
+                questionId: z.string(),
+                versions: z.array(UploadedFileVersionSchema),
+              }),
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.literal("INTERNAL_ERROR"),
+      }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { questionId } = c.req.valid("param");
+      const { tenderId } = c.req.valid("query");
+
+      const { user } = c.get("auth");
+
+      const result = await listQuestionFileVersions({
+        db,
+        userId: user.id,
+        tenderId,
+        questionId,
+      });
+      if (!result.ok) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: result.errorCode,
+            error: result.error,
+          } as const,
+          getReadErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: {
+            questionId: result.data.questionId,
+            versions: result.data.versions.map((version) => ({
+              ...version,
+              uploadedAt: version.uploadedAt.toISOString(),
+              replacedAt: version.replacedAt.toISOString(),
+            })),
+          },
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+uploadsEndpoint.openapi(
+  {
+    method: "post",
+    path: "/files/{fileId}/restore",
+    tags: ["uploads"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
+    summary: "Make an earlier version of a question's file active again",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      params: z.object({
+        fileId: z.string().min(1),
+      }),
+      body: jsonContent(
+        z.object({
+          tenderId: z.string().min(1),
+        })
+      ),
+    },
+    responses: {
+      200: {
+        description: "File version restored",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: UploadedFileSummarySchema,
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.string(),
+      }),
+      503: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { fileId } = c.req.valid("param");
+      const { tenderId } = c.req.valid("json");
+
+      const { user } = c.get("auth");
+
+      const tender = await getActiveTender({ db, tenderId });
+      if (!tender) {
+        return c.json(
+          {
+            ok: false,
+            errorCode: ErrorCodes.TENDER_NOT_FOUND,
+            error: "Tender not found",
+          } as const,
+          404
+        );
+      }
+
+      const result = await restoreUploadedFileVersion({
         db,
         env: c.env,
-        roleName: UploadAllowedRoleName,
+        userId: user.id,
+        tender,
+        fileId,
       });
-      if (!authResult.ok) {
-        const status = authResult.errorCode === ErrorCodes.FORBIDDEN_ROLE ? 403 : 401;
+
+      if (!result.ok) {
+        return c.json(
+          getUploadErrorPayload({
+            env: c.env,
+            errorCode: result.errorCode,
+            error: result.error,
+            debug: result.debug,
+          }),
+          getWriteErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: {
+            ...result.data,
+            uploadedAt: result.data.uploadedAt.toISOString(),
+          },
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+uploadsEndpoint.openapi(
+  {
+    method: "get",
+    path: "/{uploadSessionId}/parts",
+    tags: ["uploads"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
+    summary: "List parts already stored for a multipart upload session and presign the missing ones",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      params: z.object({
+        uploadSessionId: z.string().min(1),
+      }),
+      query: z.object({
+        tenderId: z.string().min(1),
+      }),
+    },
+    responses: {
+      200: {
+        description: "Upload session parts",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({
+                uploadSessionId: z.string(),
+                uploadId: z.string(),
+                objectKey: z.string(),
+                partSizeBytes: z.number().int(),
+                totalParts: z.number().int(),
+                expiresAt: z.string().datetime(),
+                uploadedParts: z.array(
+                  z.object({
+                    partNumber: z.number().int(),
+                    etag: z.string(),
+                  })
+                ),
+                missingParts: z.array(PresignedPartSchema),
+              }),
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.string(),
+      }),
+      503: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { uploadSessionId } = c.req.valid("param");
+      const request = c.req.valid("query");
+
+      const { user } = c.get("auth");
+
+      const tender = await getActiveTender({ db, tenderId: request.tenderId });
+      if (!tender) {
         return c.json(
           {
             ok: false,
-            errorCode: authResult.errorCode,
-            error: authResult.error,
+            errorCode: ErrorCodes.TENDER_NOT_FOUND,
+            error: "Tender not found",
           } as const,
-          status
+          404
         );
       }
 
+      const result = await listUploadSessionParts({
+        db,
+        env: c.env,
+        userId: user.id,
+        tender,
+        uploadSessionId,
+      });
+
+      if (!result.ok) {
+        return c.json(
+          getUploadErrorPayload({
+            env: c.env,
+            errorCode: result.errorCode,
+            error: result.error,
+            debug: result.debug,
+          }),
+          getWriteErrorStatus(result.errorCode)
+        );
+      }
+
+      return c.json(
+        {
+          ok: true,
+          data: {
+            ...result.data,
+            expiresAt: result.data.expiresAt.toISOString(),
+          },
+        } as const,
+        200
+      );
+    } catch (err) {
+      const normalizedError =
+        err instanceof Error ||
+        typeof err === "string" ||
+        typeof err === "number" ||
+        typeof err === "boolean" ||
+        typeof err === "object"
+          ? err
+          : undefined;
+      return handleApiErrors(c, normalizedError);
+    }
+  }
+);
+
+uploadsEndpoint.openapi(
+  {
+    method: "post",
+    path: "/{uploadSessionId}/presign",
+    tags: ["uploads"],
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
+    summary: "Re-sign part URLs for a range of parts of an initiated multipart upload session",
+    request: {
+      headers: ApiKeyHeaderSchema,
+      params: z.object({
+        uploadSessionId: z.string().min(1),
+      }),
+      body: jsonContent(
+        z.object({
+          tenderId: z.string().min(1),
+          startPartNumber: z.number().int().positive(),
+          endPartNumber: z.number().int().positive(),
+        })
+      ),
+    },
+    responses: {
+      200: {
+        description: "Presigned part URLs",
+        content: {
+          "application/json": {
+            schema: z.object({
+              ok: z.literal(true),
+              data: z.object({
+                uploadSessionId: z.string(),
+                parts: z.array(PresignedPartSchema),
+              }),
+            }),
+          },
+        },
+      },
+      400: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      401: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      403: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      404: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      409: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+      500: getOpenApiClientErrorResponse({
+        errorCodesSchema: z.string(),
+      }),
+      503: getOpenApiClientErrorResponse({ errorCodesSchema: z.string() }),
+    },
+  },
+  async (c) => {
+    try {
+      const db = connectDb({ env: c.env });
+      const { uploadSessionId } = c.req.valid("param");
+      const request = c.req.valid("json");
+
+      const { user } = c.get("auth");
+
       const tender = await getActiveTender({ db, tenderId: request.tenderId });
       if (!tender) {
         return c.json(
@@ -471,12 +984,14 @@ uploadsEndpoint.openapi(
         );
       }
 
-      const result = await abortUpload({
+      const result = await presignUploadSessionParts({
         db,
         env: c.env,
-        userId: authResult.user.id,
+        userId: user.id,
         tender,
-        uploadSessionId: request.uploadSessionId,
+        uploadSessionId,
+        startPartNumber: request.startPartNumber,
+        endPartNumber: request.endPartNumber,
       });
 
       if (!result.ok) {
@@ -511,7 +1026,9 @@ uploadsEndpoint.openapi(
     method: "get",
     path: "/status",
     tags: ["uploads"],
-    summary: "Get current submission status and active uploads for a tender",
+    middleware: requirePermission(Permissions.APPLICATION_SUBMIT),
+    summary:
+      "Get current submission status and the active uploads of each question for a tender",
     request: {
       headers: ApiKeyHeaderSchema,
       query: z.object({
@@ -531,13 +1048,7 @@ uploadsEndpoint.openapi(
                   status: z.enum(["draft", "submitted"]),
                   submittedAt: z.string().datetime().nullable(),
                 }),
-                uploads: z.object({
-                  q1: UploadedFileSummarySchema.nullable(),
-                  q2: UploadedFileSummarySchema.nullable(),
-                  q3: UploadedFileSummarySchema.nullable(),
-                  q4: UploadedFileSummarySchema.nullable(),
-                  q5: UploadedFileSummarySchema.nullable(),
-                }),
+                uploads: z.record(z.string(), z.array(UploadedFileSummarySchema)),
               }),
             }),
           },
@@ -555,30 +1066,13 @@ uploadsEndpoint.openapi(
   async (c) => {
     try {
       const db = connectDb({ env: c.env });
-      const apiKey = c.req.valid("header")["x-api-key"];
       const request = c.req.valid("query");
 
-      const authResult = await getUserFromApiKeyWithRole({
-        apiKey,
-        db,
-        env: c.env,
-        roleName: UploadAllowedRoleName,
-      });
-      if (!authResult.ok) {
-        const status = authResult.errorCode === ErrorCodes.FORBIDDEN_ROLE ? 403 : 401;
-        return c.json(
-          {
-            ok: false,
-            errorCode: authResult.errorCode,
-            error: authResult.error,
-          } as const,
-          status
-        );
-      }
+      const { user } = c.get("auth");
 
       const result = await getUploadStatus({
         db,
-        userId: authResult.user.id,
+        userId: user.id,
         tenderId: request.tenderId,
       });
       if (!result.ok) {
@@ -603,38 +1097,15 @@ uploadsEndpoint.openapi(
                 ? result.data.submission.submittedAt.toISOString()
                 : null,
             },
-            uploads: {
-              q1: result.data.uploads.q1
-                ? {
-                    ...result.data.uploads.q1,
-                    uploadedAt: result.data.uploads.q1.uploadedAt.toISOString(),
-                  }
-                : null,
-              q2: result.data.uploads.q2
-                ? {
-                    ...result.data.uploads.q2,
-                    uploadedAt: result.data.uploads.q2.uploadedAt.toISOString(),
-                  }
-                : null,
-              q3: result.data.uploads.q3
-                ? {
-                    ...result.data.uploads.q3,
-                    uploadedAt: result.data.uploads.q3.uploadedAt.toISOString(),
-                  }
-                : null,
-              q4: result.data.uploads.q4
-                ? {
-                    ...result.data.uploads.q4,
-                    uploadedAt: result.data.uploads.q4.uploadedAt.toISOString(),
-                  }
-                : null,
-              q5: result.data.uploads.q5
-                ? {
-                    ...result.data.uploads.q5,
-                    uploadedAt: result.data.uploads.q5.uploadedAt.toISOString(),
-                  }
-                : null,
-            },
+            uploads: Object.fromEntries(
+              Object.entries(result.data.uploads).map(([questionId, uploads]) => [
+                questionId,
+                uploads.map((upload) => ({
+                  ...upload,
+                  uploadedAt: upload.uploadedAt.toISOString(),
+                })),
+              ])
+            ),
           },
         } as const,
         200
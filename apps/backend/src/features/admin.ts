@@ -1,6 +1,9 @@
-import { and, asc, desc, eq } from "drizzle-orm";
-import { hashPassword } from "./auth";
+import { renderEmail } from "@repo/email-templates";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { hashPassword, revokeAllSessionsForUser } from "./auth";
+import { AuthSessionRevokedReasons } from "./authConstants";
 import {
+  FirmTable,
   RoleTable,
   SubmissionStatuses,
   SubmissionTable,
@@ -8,9 +11,17 @@ import {
   UserRoleTable,
   UserTable,
 } from "./db/schema";
+import { getAppUrl } from "./email";
+import { queueEmail } from "./emailOutbox";
 import { ErrorCodes } from "../utils/error";
-import { WithDbAndEnv } from "../utils/commonTypes";
-import { AdminRoleName } from "./adminConstants";
+import { WithDb, WithDbAndEnv } from "../utils/commonTypes";
+import {
+  isStaffRoleName,
+  RoleNames,
+  StaffRoleNames,
+  type StaffRoleName,
+} from "./permissions";
+import { isTwoFactorRequired } from "./twoFactor";
 
 type Result<T> =
   | { ok: true; data: T }
@@ -22,6 +33,10 @@ type AdminUser = {
   name: string | null;
 };
 
+type StaffUser = AdminUser & {
+  roles: StaffRoleName[];
+};
+
 type SubmittedApplication = {
   applicationId: string;
   applicantEmail: string;
@@ -82,7 +97,7 @@ export async function listSubmittedApplications({
     .select({
       applicationId: SubmissionTable.id,
       applicantEmail: UserTable.email,
-      applicantFirmName: UserTable.firmName,
+      applicantFirmName: FirmTable.name,
       applicantName: UserTable.name,
       applicantPhoneNumber: UserTable.phoneNumber,
       submittedAt: SubmissionTable.submittedAt,
@@ -90,6 +105,7 @@ export async function listSubmittedApplications({
     })
     .from(SubmissionTable)
     .innerJoin(UserTable, eq(SubmissionTable.userId, UserTable.id))
+    .innerJoin(FirmTable, eq(SubmissionTable.firmId, FirmTable.id))
     .where(
       and(
         eq(SubmissionTable.status, SubmissionStatuses.SUBMITTED),
@@ -127,39 +143,56 @@ export async function listSubmittedApplications({
   } as const;
 }
 
+/**
+ * Lists every active user holding at least one staff role, with the staff
+ * roles they hold. Applicant-only accounts are left out.
+ */
 export async function listAdminUsers({
   db,
-  env,
-}: WithDbAndEnv<{}>): Promise<Result<AdminUser[]>> {
-  const adminRole = await getRoleByName({ db, env, roleName: AdminRoleName });
-  if (adminRole === null) {
-    return {
-      ok: false,
-      errorCode: ErrorCodes.ROLE_NOT_FOUND,
-      error: "Admin role not found in system",
-    } as const;
-  }
-
-  const users = await db
+}: WithDbAndEnv<{}>): Promise<Result<StaffUser[]>> {
+  const rows = await db
     .select({
       id: UserTable.id,
       email: UserTable.email,
       name: UserTable.name,
+      roleName: RoleTable.name,
     })
     .from(UserRoleTable)
     .innerJoin(UserTable, eq(UserRoleTable.userId, UserTable.id))
+    .innerJoin(RoleTable, eq(UserRoleTable.roleId, RoleTable.id))
     .where(
       and(
-        eq(UserRoleTable.roleId, adminRole.id),
+        inArray(RoleTable.name, [...StaffRoleNames]),
+        eq(RoleTable.isActive, true),
         eq(UserRoleTable.isActive, true),
         eq(UserTable.isActive, true)
       )
     )
-    .orderBy(asc(UserTable.email));
+    .orderBy(asc(UserTable.email), asc(RoleTable.name));
+
+  const users = new Map<string, StaffUser>();
+  for (const row of rows) {
+    if (!isStaffRoleName(row.roleName)) {
+      continue;
+    }
+
+    const user = users.get(row.id);
+    if (user) {
+      user.roles.push(row.roleName);
+      continue;
+    }
+
+    users.set(row.id, {
+      id: row.id,
+      email: row.email,
+      name: row.name,
+      roles: [row.roleName],
+    });
+  }
 
   return {
     ok: true,
-    data: users,
+    data: [...users.values()],
   } as const;
 }
 
@@ -216,17 +249,18 @@ async function createUserForAdmin({
   } as const;
 }
 
-async function ensureUserHasAdminRole({
+async function ensureUserHasRole({
   db,
   env,
   userId,
-}: WithDbAndEnv<{ userId: string }>): Promise<Result<true>> {
-  const adminRole = await getRoleByName({ db, env, roleName: AdminRoleName });
-  if (adminRole === null) {
+  roleName,
+}: WithDbAndEnv<{ userId: string; roleName: StaffRoleName }>): Promise<Result<{ newlyGranted: boolean }>> {
+  const role = await getRoleByName({ db, env, roleName });
+  if (role === null) {
     return {
       ok: false,
       errorCode: ErrorCodes.ROLE_NOT_FOUND,
-      error: "Admin role not found in system",
+      error: `Role ${roleName} not found in system`,
     } as const;
   }
 
@@ -237,13 +271,13 @@ async function ensureUserHasAdminRole({
     })
     .from(UserRoleTable)
     .where(
-      and(eq(UserRoleTable.userId, userId), eq(UserRoleTable.roleId, adminRole.id))
+      and(eq(UserRoleTable.userId, userId), eq(UserRoleTable.roleId, role.id))
     );
 
   if (userRoles.length > 0) {
     const firstRole = userRoles[0];
     if (firstRole.isActive) {
-      return { ok: true, data: true } as const;
+      return { ok: true, data: { newlyGranted: false } } as const;
     }
 
     await db
@@ -254,14 +288,14 @@ async function ensureUserHasAdminRole({
       })
       .where(eq(UserRoleTable.id, firstRole.id));
 
-    return { ok: true, data: true } as const;
+    return { ok: true, data: { newlyGranted: true } } as const;
   }
 
   const inserted = await db
     .insert(UserRoleTable)
     .values({
       userId,
-      roleId: adminRole.id,
+      roleId: role.id,
     })
     .returning({
       id: UserRoleTable.id,
@@ -271,18 +305,28 @@ async function ensureUserHasAdminRole({
     return {
       ok: false,
       errorCode: ErrorCodes.INVALID_INPUT,
-      error: "Failed to assign admin role",
+      error: `Failed to assign ${roleName} role`,
     } as const;
   }
 
-  return { ok: true, data: true } as const;
+  return { ok: true, data: { newlyGranted: true } } as const;
 }
 
+/**
+ * Grants a staff role (admin unless stated otherwise) to the user with this
+ * email, creating the account when it does not exist yet. Granting a role
+ * that requires two-factor signs the user out everywhere, so the new access
+ * is only usable from a session that passed the second factor.
+ */
 export async function grantAdminPrivileges({
   db,
   env,
   email,
-}: WithDbAndEnv<{ email: string }>): Promise<Result<AdminUser>> {
+  roleName = RoleNames.ADMIN,
+}: WithDbAndEnv<{
+  email: string;
+  roleName?: StaffRoleName;
+}>): Promise<Result<AdminUser>> {
   const normalizedEmail = email.trim().toLowerCase();
   if (normalizedEmail.length === 0) {
     return {
@@ -307,16 +351,38 @@ export async function grantAdminPrivileges({
     return userResult;
   }
 
-  const roleResult = await ensureUserHasAdminRole({
+  const roleResult = await ensureUserHasRole({
     db,
     env,
     userId: userResult.data.id,
+    roleName,
   });
 
   if (!roleResult.ok) {
     return roleResult;
   }
 
+  if (roleResult.data.newlyGranted && isTwoFactorRequired([roleName])) {
+    await revokeAllSessionsForUser({
+      db,
+      userId: userResult.data.id,
+      reason: AuthSessionRevokedReasons.ROLE_GRANTED,
+    });
+  }
+
+  // The template only describes admin access, so other staff roles are
+  // granted silently.
+  if (roleResult.data.newlyGranted && roleName === RoleNames.ADMIN) {
+    await queueEmail({
+      db,
+      env,
+      to: userResult.data.email,
+      ...renderEmail("admin-privileges-granted", {
+        adminUrl: getAppUrl({ env, path: "/admin" }),
+      }),
+    });
+  }
+
   return {
     ok: true,
     data: userResult.data,
@@ -327,7 +393,11 @@ export async function removeAdminPrivileges({
   db,
   env,
   userId,
-}: WithDbAndEnv<{ userId: string }>): Promise<Result<{ ok: true }>> {
+  roleName = RoleNames.ADMIN,
+}: WithDbAndEnv<{
+  userId: string;
+  roleName?: StaffRoleName;
+}>): Promise<Result<{ ok: true }>> {
   const users = await db
     .select({
       id: UserTable.id,
@@ -343,12 +413,12 @@ export async function removeAdminPrivileges({
     } as const;
   }
 
-  const adminRole = await getRoleByName({ db, env, roleName: AdminRoleName });
-  if (adminRole === null) {
+  const role = await getRoleByName({ db, env, roleName });
+  if (role === null) {
     return {
       ok: false,
       errorCode: ErrorCodes.ROLE_NOT_FOUND,
-      error: "Admin role not found in system",
+      error: `Role ${roleName} not found in system`,
     } as const;
   }
 
@@ -359,14 +429,14 @@ export async function removeAdminPrivileges({
     })
     .from(UserRoleTable)
     .where(
-      and(eq(UserRoleTable.userId, userId), eq(UserRoleTable.roleId, adminRole.id))
+      and(eq(UserRoleTable.userId, userId), eq(UserRoleTable.roleId, role.id))
     );
 
   if (userRoles.length === 0 || !userRoles[0].isActive) {
     return {
       ok: false,
       errorCode: ErrorCodes.USER_DOES_NOT_HAVE_ROLE,
-      error: "User does not have admin role",
+      error: `User does not have ${roleName} role`,
     } as const;
   }
 
@@ -383,3 +453,34 @@ export async function removeAdminPrivileges({
     data: { ok: true },
   } as const;
 }
+
+export async function revokeUserSessions({
+  db,
+  userId,
+}: WithDb<{ userId: string }>): Promise<Result<{ revokedCount: number }>> {
+  const users = await db
+    .select({
+      id: UserTable.id,
+    })
+    .from(UserTable)
+    .where(and(eq(UserTable.id, userId), eq(UserTable.isActive, true)));
+
+  if (users.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.USER_NOT_FOUND,
+      error: "User not found",
+    } as const;
+  }
+
+  const result = await revokeAllSessionsForUser({
+    db,
+    userId,
+    reason: AuthSessionRevokedReasons.ADMIN_REVOKED,
+  });
+
+  return {
+    ok: true,
+    data: result,
+  } as const;
+}
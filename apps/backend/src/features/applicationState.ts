@@ -1,12 +1,65 @@
 import { eq, and } from "drizzle-orm";
-import { ApplicationStateTable, type PersistedFormState } from "./db/schema";
+import {
+  ApplicationStateTable,
+  SubmissionTable,
+  type PersistedFormState,
+} from "./db/schema";
 import { ErrorCodes } from "../utils/error";
-import type { WithDbAndEnv } from "../utils/commonTypes";
+import type { WithDb, WithDbAndEnv } from "../utils/commonTypes";
+import {
+  checkFirmPermission,
+  FirmPermissions,
+  getFirmMembership,
+  type FirmPermission,
+} from "./firms";
 
 type ServiceResult<T> =
   | { ok: true; data: T }
   | { ok: false; errorCode: ErrorCodes; error: string };
 
+// Form state is shared by the firm that owns the submission.
+async function checkSubmissionAccess({
+  db,
+  submissionId,
+  userId,
+  permission,
+}: WithDb<{
+  submissionId: string;
+  userId: string;
+  permission?: FirmPermission;
+}>): Promise<ServiceResult<true>> {
+  const membership = await getFirmMembership({ db, userId });
+  const submissions = membership
+    ? await db
+        .select({ id: SubmissionTable.id })
+        .from(SubmissionTable)
+        .where(
+          and(
+            eq(SubmissionTable.id, submissionId),
+            eq(SubmissionTable.firmId, membership.firmId),
+            eq(SubmissionTable.isActive, true),
+          ),
+        )
+    : [];
+
+  if (membership === null || submissions.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.SUBMISSION_NOT_FOUND,
+      error: `Submission not found - ${submissionId}.`,
+    };
+  }
+
+  if (permission) {
+    const permissionResult = checkFirmPermission({ membership, permission });
+    if (!permissionResult.ok) {
+      return permissionResult;
+    }
+  }
+
+  return { ok: true, data: true };
+}
+
 export async function getApplicationState({
   db,
   submissionId,
@@ -15,6 +68,11 @@ export async function getApplicationState({
   submissionId: string;
   userId: string;
 }>): Promise<ServiceResult<PersistedFormState>> {
+  const accessResult = await checkSubmissionAccess({ db, submissionId, userId });
+  if (!accessResult.ok) {
+    return accessResult;
+  }
+
   const states = await db
     .select({ data: ApplicationStateTable.data })
     .from(ApplicationStateTable)
@@ -46,6 +104,16 @@ export async function updateApplicationState({
   userId: string;
   data: PersistedFormState;
 }>): Promise<ServiceResult<{ id: string }>> {
+  const accessResult = await checkSubmissionAccess({
+    db,
+    submissionId,
+    userId,
+    permission: FirmPermissions.EDIT_SUBMISSION,
+  });
+  if (!accessResult.ok) {
+    return accessResult;
+  }
+
   const now = new Date();
 
   const inserted = await db
@@ -2,6 +2,14 @@ import { and, desc, eq, gte, lte } from "drizzle-orm";
 import { WithDb } from "../utils/commonTypes";
 import { ErrorCodes } from "../utils/error";
 import { SubmissionStatuses, SubmissionTable, TenderTable } from "./db/schema";
+import { ensureEmailVerified } from "./emailVerification";
+import {
+  checkFirmPermission,
+  ensureFirmMembership,
+  FirmPermissions,
+  getFirmMembership,
+} from "./firms";
+import { listTenderQuestions } from "./tenderQuestions";
 
 type ServiceResult<T> =
   | { ok: true; data: T }
@@ -79,10 +87,10 @@ function isTenderOpenForApply({
   return firstDateToApply.getTime() <= now.getTime() && now.getTime() <= lastDateToApply.getTime();
 }
 
-async function getUserApplications({
+async function getFirmApplications({
   db,
-  userId,
-}: WithDb<{ userId: string }>): Promise<ApplicationSummary[]> {
+  firmId,
+}: WithDb<{ firmId: string }>): Promise<ApplicationSummary[]> {
   const rows = await db
     .select({
       applicationId: SubmissionTable.id,
@@ -99,7 +107,7 @@ async function getUserApplications({
     .innerJoin(TenderTable, eq(SubmissionTable.tenderId, TenderTable.id))
     .where(
       and(
-        eq(SubmissionTable.userId, userId),
+        eq(SubmissionTable.firmId, firmId),
         eq(SubmissionTable.isActive, true),
         eq(TenderTable.isActive, true)
       )
@@ -161,10 +169,10 @@ async function getTenderById({
 
 async function getExistingApplicationForTender({
   db,
-  userId,
+  firmId,
   tenderId,
 }: WithDb<{
-  userId: string;
+  firmId: string;
   tenderId: string;
 }>): Promise<ApplicationSummary | null> {
   const rows = await db
@@ -183,7 +191,7 @@ async function getExistingApplicationForTender({
     .innerJoin(TenderTable, eq(SubmissionTable.tenderId, TenderTable.id))
     .where(
       and(
-        eq(SubmissionTable.userId, userId),
+        eq(SubmissionTable.firmId, firmId),
         eq(SubmissionTable.tenderId, tenderId),
         eq(SubmissionTable.isActive, true),
         eq(TenderTable.isActive, true)
@@ -205,7 +213,10 @@ export async function listApplicationsForUser({
   userId: string;
   now: Date;
 }>): Promise<ServiceResult<ApplicationsOverview>> {
-  const applications = await getUserApplications({ db, userId });
+  const membership = await getFirmMembership({ db, userId });
+  const applications = membership
+    ? await getFirmApplications({ db, firmId: membership.firmId })
+    : [];
   if (applications.length > 0) {
     return {
       ok: true,
@@ -236,6 +247,11 @@ export async function applyToTender({
   tenderId: string;
   now: Date;
 }>): Promise<ServiceResult<{ application: ApplicationSummary }>> {
+  const verificationResult = await ensureEmailVerified({ db, userId });
+  if (!verificationResult.ok) {
+    return verificationResult;
+  }
+
   const tender = await getTenderById({ db, tenderId });
   if (tender === null) {
     return {
@@ -259,9 +275,32 @@ export async function applyToTender({
     } as const;
   }
 
+  const questions = await listTenderQuestions({ db, tenderId: tender.tenderId });
+  if (questions.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TENDER_HAS_NO_QUESTIONS,
+      error: "Tender has no questions to answer",
+    } as const;
+  }
+
+  const membershipResult = await ensureFirmMembership({ db, userId });
+  if (!membershipResult.ok) {
+    return membershipResult;
+  }
+
+  const permissionResult = checkFirmPermission({
+    membership: membershipResult.data,
+    permission: FirmPermissions.EDIT_SUBMISSION,
+  });
+  if (!permissionResult.ok) {
+    return permissionResult;
+  }
+
+  const firmId = membershipResult.data.firmId;
   const existing = await getExistingApplicationForTender({
     db,
-    userId,
+    firmId,
     tenderId: tender.tenderId,
   });
 
@@ -278,6 +317,7 @@ export async function applyToTender({
     .insert(SubmissionTable)
     .values({
       tenderId: tender.tenderId,
+      firmId,
       userId,
       createdBy: userId,
       status: SubmissionStatuses.DRAFT,
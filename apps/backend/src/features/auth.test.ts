@@ -0,0 +1,183 @@
+import { PGlite } from "@electric-sql/pglite";
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { beforeAll, describe, expect, it } from "vitest";
+import { ErrorCodes } from "../utils/error";
+import {
+  createSession,
+  refreshSession,
+  revokeAllSessionsForUser,
+  revokeSession,
+  verifyApiKey,
+} from "./auth";
+import { AuthSessionRevokedReasons } from "./authConstants";
+import type { connectDb } from "./db/connect";
+import { AuthSessionTable, UserTable } from "./db/schema";
+
+const client = new PGlite();
+const db = drizzle(client, { casing: "snake_case" }) as unknown as ReturnType<
+  typeof connectDb
+>;
+const env = { JWT_SECRET: "test-jwt-secret" } as unknown as Env;
+
+async function createUser(email: string) {
+  const [user] = await db
+    .insert(UserTable)
+    .values({ email, passwordHash: "unused" })
+    .returning({ id: UserTable.id });
+
+  return user.id;
+}
+
+async function getSessionId(apiKey: string) {
+  const verified = await verifyApiKey({ db, env, apiKey });
+  if (!verified.ok) {
+    throw new Error("Expected a valid access token");
+  }
+
+  return verified.sessionId;
+}
+
+// Applying every migration to a fresh PGlite takes several seconds.
+beforeAll(async () => {
+  await migrate(drizzle(client), { migrationsFolder: "./migrations" });
+}, 60_000);
+
+describe("sessions", () => {
+  it("rotates the refresh token on each refresh", async () => {
+    const userId = await createUser("rotation@example.com");
+    const session = await createSession({ db, env, userId });
+
+    const refreshed = await refreshSession({
+      db,
+      env,
+      refreshToken: session.refreshToken,
+    });
+    if (!refreshed.ok) {
+      throw new Error(refreshed.error);
+    }
+    expect(refreshed.data.refreshToken).not.toBe(session.refreshToken);
+    await expect(
+      verifyApiKey({ db, env, apiKey: refreshed.data.apiKey })
+    ).resolves.toMatchObject({ ok: true, userId });
+
+    const next = await refreshSession({
+      db,
+      env,
+      refreshToken: refreshed.data.refreshToken,
+    });
+    expect(next.ok).toBe(true);
+  });
+
+  it("revokes the session when a rotated refresh token is reused", async () => {
+    const userId = await createUser("reuse@example.com");
+    const session = await createSession({ db, env, userId });
+    const sessionId = await getSessionId(session.apiKey);
+
+    const refreshed = await refreshSession({
+      db,
+      env,
+      refreshToken: session.refreshToken,
+    });
+    if (!refreshed.ok) {
+      throw new Error(refreshed.error);
+    }
+
+    const reused = await refreshSession({
+      db,
+      env,
+      refreshToken: session.refreshToken,
+    });
+    expect(reused).toMatchObject({
+      ok: false,
+      errorCode: ErrorCodes.INVALID_REFRESH_TOKEN,
+      error: "Refresh token has already been used",
+    });
+
+    const [row] = await db
+      .select({ revokedReason: AuthSessionTable.revokedReason })
+      .from(AuthSessionTable)
+      .where(eq(AuthSessionTable.id, sessionId));
+    expect(row.revokedReason).toBe(
+      AuthSessionRevokedReasons.REFRESH_TOKEN_REUSED
+    );
+
+    // The legitimate holder of the rotated token is signed out as well.
+    await expect(
+      refreshSession({ db, env, refreshToken: refreshed.data.refreshToken })
+    ).resolves.toMatchObject({
+      ok: false,
+      errorCode: ErrorCodes.INVALID_REFRESH_TOKEN,
+    });
+    await expect(
+      verifyApiKey({ db, env, apiKey: refreshed.data.apiKey })
+    ).resolves.toEqual({ ok: false });
+  });
+
+  it("rejects an unknown refresh token", async () => {
+    await expect(
+      refreshSession({ db, env, refreshToken: "not-a-refresh-token" })
+    ).resolves.toMatchObject({
+      ok: false,
+      errorCode: ErrorCodes.INVALID_REFRESH_TOKEN,
+      error: "Invalid or expired refresh token",
+    });
+  });
+});
+
+describe("verifyApiKey", () => {
+  it("rejects the access token of a revoked session", async () => {
+    const userId = await createUser("logout@example.com");
+    const session = await createSession({ db, env, userId });
+    const other = await createSession({ db, env, userId });
+
+    await revokeSession({
+      db,
+      sessionId: await getSessionId(session.apiKey),
+      reason: AuthSessionRevokedReasons.LOGOUT,
+    });
+
+    await expect(
+      verifyApiKey({ db, env, apiKey: session.apiKey })
+    ).resolves.toEqual({ ok: false });
+    await expect(
+      verifyApiKey({ db, env, apiKey: other.apiKey })
+    ).resolves.toMatchObject({ ok: true, userId });
+  });
+
+  it("rejects every session of a user after revoking them all", async () => {
+    const userId = await createUser("password-change@example.com");
+    const sessions = [
+      await createSession({ db, env, userId }),
+      await createSession({ db, env, userId }),
+    ];
+
+    await expect(
+      revokeAllSessionsForUser({
+        db,
+        userId,
+        reason: AuthSessionRevokedReasons.PASSWORD_CHANGED,
+      })
+    ).resolves.toEqual({ revokedCount: 2 });
+
+    for (const session of sessions) {
+      await expect(
+        verifyApiKey({ db, env, apiKey: session.apiKey })
+      ).resolves.toEqual({ ok: false });
+    }
+  });
+
+  it("rejects a token signed with another secret", async () => {
+    const userId = await createUser("forged@example.com");
+    const session = await createSession({
+      db,
+      env: { JWT_SECRET: "another-secret" } as unknown as Env,
+      userId,
+    });
+
+    await expect(
+      verifyApiKey({ db, env, apiKey: session.apiKey })
+    ).resolves.toEqual({ ok: false });
+  });
+});
@@ -1,6 +1,14 @@
-import { WithDbAndEnv, WithEnv } from "../utils/commonTypes";
+import { and, eq, gt, isNull } from "drizzle-orm";
+import { WithDb, WithDbAndEnv, WithEnv } from "../utils/commonTypes";
 import * as jwt from "@tsndr/cloudflare-worker-jwt";
 import { ErrorCodes } from "../utils/error";
+import {
+  AccessTokenTtlSeconds,
+  AuthSessionRevokedReasons,
+  RefreshTokenTtlMs,
+  type AuthSessionRevokedReason,
+} from "./authConstants";
+import { AuthSessionTable } from "./db/schema";
 import { getUserByIdWithRoles } from "./user";
 import bcrypt from "bcryptjs";
 
@@ -8,6 +16,11 @@ export async function hashPassword(password: string): Promise<string> {
   return await bcrypt.hash(password, 10);
 }
 
+// Hash of a random password nobody knows, compared against when the email is
+// unknown so the response takes as long as for a real account.
+const UnknownUserPasswordHash =
+  "$2b$10$1nn9nRH1VHqirownb9cTJ.qI7kykNFh5e2evwjiMUTiCe5ZHzd1x6";
+
 export async function verifyPassword(
   password: string,
   hash: string
@@ -15,36 +28,275 @@ export async function verifyPassword(
   return await bcrypt.compare(password, hash);
 }
 
+/**
+ * Checks a password for a user that may not exist. Unknown users still cost
+ * one bcrypt comparison, so timing does not reveal registered emails.
+ */
+export async function verifyPasswordForUser(
+  password: string,
+  user: { passwordHash: string } | null
+): Promise<boolean> {
+  if (user === null) {
+    await verifyPassword(password, UnknownUserPasswordHash);
+    return false;
+  }
+
+  return verifyPassword(password, user.passwordHash);
+}
+
+export type AuthTokens = {
+  apiKey: string;
+  expiresAt: Date;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+};
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// Random bearer secret for refresh tokens and one-time links. Only its hash
+// is stored.
+export function generateOpaqueToken(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export async function hashOpaqueToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(token)
+  );
+
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
 export async function createApiKey({
   env,
   userId,
-}: WithEnv<{ userId: string }>): Promise<string> {
+  sessionId,
+}: WithEnv<{ userId: string; sessionId: string }>): Promise<{
+  apiKey: string;
+  expiresAt: Date;
+}> {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const expiresAt = issuedAt + AccessTokenTtlSeconds;
   const payload = {
     sub: userId,
-    iat: Math.floor(Date.now() / 1000),
+    sid: sessionId,
+    jti: crypto.randomUUID(),
+    iat: issuedAt,
+    exp: expiresAt,
   };
 
-  return await jwt.sign(payload, env.JWT_SECRET);
+  return {
+    apiKey: await jwt.sign(payload, env.JWT_SECRET),
+    expiresAt: new Date(expiresAt * 1000),
+  };
 }
 
+/**
+ * Checks the signature and `exp` of an access token, then that its session
+ * has not been revoked. Tokens issued before sessions existed carry no `sid`
+ * and are rejected.
+ */
 export async function verifyApiKey({
+  db,
   env,
   apiKey,
-}: WithEnv<{ apiKey: string }>): Promise<{ ok: true; userId: string } | { ok: false }> {
-  const isValid = await jwt.verify(apiKey, env.JWT_SECRET);
+}: WithDbAndEnv<{ apiKey: string }>): Promise<
+  { ok: true; userId: string; sessionId: string } | { ok: false }
+> {
+  const verified = await jwt.verify<{ sid?: string }>(apiKey, env.JWT_SECRET);
+
+  if (!verified) {
+    return { ok: false } as const;
+  }
+
+  const userId = verified.payload.sub;
+  const sessionId = verified.payload.sid;
 
-  if (!isValid) {
+  if (typeof userId !== "string" || typeof sessionId !== "string") {
     return { ok: false } as const;
   }
 
-  const decoded = jwt.decode(apiKey);
-  const userId = decoded.payload?.sub;
+  const sessions = await db
+    .select({ id: AuthSessionTable.id })
+    .from(AuthSessionTable)
+    .where(
+      and(
+        eq(AuthSessionTable.id, sessionId),
+        eq(AuthSessionTable.userId, userId),
+        eq(AuthSessionTable.isActive, true),
+        isNull(AuthSessionTable.revokedAt)
+      )
+    );
 
-  if (typeof userId !== "string") {
+  if (sessions.length === 0) {
     return { ok: false } as const;
   }
 
-  return { ok: true, userId } as const;
+  return { ok: true, userId, sessionId } as const;
+}
+
+export async function createSession({
+  db,
+  env,
+  userId,
+}: WithDbAndEnv<{ userId: string }>): Promise<AuthTokens> {
+  const refreshToken = generateOpaqueToken();
+  const refreshTokenExpiresAt = new Date(Date.now() + RefreshTokenTtlMs);
+
+  const sessions = await db
+    .insert(AuthSessionTable)
+    .values({
+      userId,
+      refreshTokenHash: await hashOpaqueToken(refreshToken),
+      refreshTokenExpiresAt,
+    })
+    .returning({ id: AuthSessionTable.id });
+
+  const { apiKey, expiresAt } = await createApiKey({
+    env,
+    userId,
+    sessionId: sessions[0].id,
+  });
+
+  return { apiKey, expiresAt, refreshToken, refreshTokenExpiresAt };
+}
+
+/**
+ * Exchanges a refresh token for a new access token and a new refresh token.
+ * Presenting an already-rotated refresh token revokes the whole session,
+ * since it means the token was copied.
+ */
+export async function refreshSession({
+  db,
+  env,
+  refreshToken,
+}: WithDbAndEnv<{ refreshToken: string }>): Promise<
+  | { ok: true; data: AuthTokens }
+  | { ok: false; errorCode: ErrorCodes; error: string }
+> {
+  const refreshTokenHash = await hashOpaqueToken(refreshToken);
+  const now = new Date();
+
+  const reusedSessions = await db
+    .select({ id: AuthSessionTable.id })
+    .from(AuthSessionTable)
+    .where(
+      and(
+        eq(AuthSessionTable.previousRefreshTokenHash, refreshTokenHash),
+        isNull(AuthSessionTable.revokedAt)
+      )
+    );
+  if (reusedSessions.length > 0) {
+    await db
+      .update(AuthSessionTable)
+      .set({
+        revokedAt: now,
+        revokedReason: AuthSessionRevokedReasons.REFRESH_TOKEN_REUSED,
+        updatedAt: now,
+      })
+      .where(eq(AuthSessionTable.id, reusedSessions[0].id));
+
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_REFRESH_TOKEN,
+      error: "Refresh token has already been used",
+    } as const;
+  }
+
+  const nextRefreshToken = generateOpaqueToken();
+  const refreshTokenExpiresAt = new Date(now.getTime() + RefreshTokenTtlMs);
+
+  // Matching on the current hash makes rotation atomic: of two concurrent
+  // refreshes with the same token only one updates the row.
+  const rotated = await db
+    .update(AuthSessionTable)
+    .set({
+      refreshTokenHash: await hashOpaqueToken(nextRefreshToken),
+      previousRefreshTokenHash: refreshTokenHash,
+      refreshTokenExpiresAt,
+      lastRefreshedAt: now,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(AuthSessionTable.refreshTokenHash, refreshTokenHash),
+        eq(AuthSessionTable.isActive, true),
+        isNull(AuthSessionTable.revokedAt),
+        gt(AuthSessionTable.refreshTokenExpiresAt, now)
+      )
+    )
+    .returning({ id: AuthSessionTable.id, userId: AuthSessionTable.userId });
+
+  if (rotated.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_REFRESH_TOKEN,
+      error: "Invalid or expired refresh token",
+    } as const;
+  }
+
+  const { apiKey, expiresAt } = await createApiKey({
+    env,
+    userId: rotated[0].userId,
+    sessionId: rotated[0].id,
+  });
+
+  return {
+    ok: true,
+    data: {
+      apiKey,
+      expiresAt,
+      refreshToken: nextRefreshToken,
+      refreshTokenExpiresAt,
+    },
+  } as const;
+}
+
+export async function revokeSession({
+  db,
+  sessionId,
+  reason,
+}: WithDb<{
+  sessionId: string;
+  reason: AuthSessionRevokedReason;
+}>): Promise<void> {
+  const now = new Date();
+  await db
+    .update(AuthSessionTable)
+    .set({ revokedAt: now, revokedReason: reason, updatedAt: now })
+    .where(
+      and(eq(AuthSessionTable.id, sessionId), isNull(AuthSessionTable.revokedAt))
+    );
+}
+
+export async function revokeAllSessionsForUser({
+  db,
+  userId,
+  reason,
+}: WithDb<{
+  userId: string;
+  reason: AuthSessionRevokedReason;
+}>): Promise<{ revokedCount: number }> {
+  const now = new Date();
+  const revoked = await db
+    .update(AuthSessionTable)
+    .set({ revokedAt: now, revokedReason: reason, updatedAt: now })
+    .where(
+      and(eq(AuthSessionTable.userId, userId), isNull(AuthSessionTable.revokedAt))
+    )
+    .returning({ id: AuthSessionTable.id });
+
+  return { revokedCount: revoked.length };
 }
 
 export type UserWithRoles = {
@@ -53,11 +305,12 @@ export type UserWithRoles = {
   firmName: string | null;
   name: string | null;
   phoneNumber: string | null;
+  emailVerified: boolean;
   roles: Array<{ roleId: string; roleName: string }>;
 };
 
 export type AuthResult =
-  | { ok: true; user: UserWithRoles }
+  | { ok: true; user: UserWithRoles; sessionId: string }
   | { ok: false; errorCode: ErrorCodes; error: string };
 
 export async function getUserFromApiKey({
@@ -65,7 +318,7 @@ export async function getUserFromApiKey({
   db,
   env,
 }: WithDbAndEnv<{ apiKey: string }>): Promise<AuthResult> {
-  const verification = await verifyApiKey({ env, apiKey });
+  const verification = await verifyApiKey({ db, env, apiKey });
 
   if (!verification.ok) {
     return {
@@ -88,38 +341,6 @@ export async function getUserFromApiKey({
   return {
     ok: true,
     user,
+    sessionId: verification.sessionId,
   } as const;
 }
-
-function userHasRole({
-  user,
-  roleName,
-}: {
-  user: UserWithRoles;
-  roleName: string;
-}): boolean {
-  return user.roles.some((role) => role.roleName === roleName);
-}
-
-export async function getUserFromApiKeyWithRole({
-  apiKey,
-  db,
-  env,
-  roleName,
-}: WithDbAndEnv<{ apiKey: string; roleName: string }>): Promise<AuthResult> {
-  const authResult = await getUserFromApiKey({ apiKey, db, env });
-
-  if (!authResult.ok) {
-    return authResult;
-  }
-
-  if (!userHasRole({ user: authResult.user, roleName })) {
-    return {
-      ok: false,
-      errorCode: ErrorCodes.FORBIDDEN_ROLE,
-      error: `Missing required role: ${roleName}`,
-    } as const;
-  }
-
-  return authResult;
-}
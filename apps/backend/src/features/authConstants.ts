@@ -0,0 +1,34 @@
+export const AccessTokenTtlSeconds = 15 * 60;
+export const RefreshTokenTtlMs = 30 * 24 * 60 * 60 * 1000;
+
+export const AuthSessionRevokedReasons = {
+  LOGOUT: "logout",
+  ADMIN_REVOKED: "admin_revoked",
+  REFRESH_TOKEN_REUSED: "refresh_token_reused",
+  PASSWORD_CHANGED: "password_changed",
+  ROLE_GRANTED: "role_granted",
+} as const;
+
+export type AuthSessionRevokedReason =
+  (typeof AuthSessionRevokedReasons)[keyof typeof AuthSessionRevokedReasons];
+
+export const EmailVerificationTokenTtlMs = 24 * 60 * 60 * 1000;
+export const MagicLinkTokenTtlMs = 15 * 60 * 1000;
+export const PasswordResetTokenTtlMs = 60 * 60 * 1000;
+// Time allowed between a correct password and the second factor.
+export const TwoFactorChallengeTtlMs = 10 * 60 * 1000;
+
+// Failures older than the window no longer count towards a lockout.
+export const LoginFailureWindowMs = 15 * 60 * 1000;
+export const LoginMaxFailuresPerEmail = 5;
+export const LoginMaxFailuresPerIp = 20;
+// Doubles with every failure past the limit, up to the maximum.
+export const LoginLockoutBaseMs = 30 * 1000;
+export const LoginLockoutMaxMs = 60 * 60 * 1000;
+
+export const TotpIssuer = "MIST";
+export const TotpPeriodSeconds = 30;
+export const TotpDigits = 6;
+// Codes from one step either side are accepted to absorb clock drift.
+export const TotpAllowedDriftSteps = 1;
+export const RecoveryCodeCount = 10;
@@ -0,0 +1,142 @@
+export const ContentSniffByteLength = 8 * 1024;
+
+const FileKinds = {
+  PDF: "pdf",
+  PNG: "png",
+  JPEG: "jpeg",
+  ZIP: "zip",
+  DOCX: "docx",
+} as const;
+
+type FileKind = (typeof FileKinds)[keyof typeof FileKinds];
+
+const FileKindsByContentType: Record<string, FileKind> = {
+  "application/pdf": FileKinds.PDF,
+  "image/png": FileKinds.PNG,
+  "image/jpeg": FileKinds.JPEG,
+  "application/zip": FileKinds.ZIP,
+  "application/x-zip-compressed": FileKinds.ZIP,
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    FileKinds.DOCX,
+};
+
+// Used when the browser could only declare a generic content type.
+const FileKindsByExtension: Record<string, FileKind> = {
+  ".pdf": FileKinds.PDF,
+  ".png": FileKinds.PNG,
+  ".jpg": FileKinds.JPEG,
+  ".jpeg": FileKinds.JPEG,
+  ".zip": FileKinds.ZIP,
+  ".docx": FileKinds.DOCX,
+};
+
+const PdfSignature = [0x25, 0x50, 0x44, 0x46, 0x2d];
+const PngSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JpegSignature = [0xff, 0xd8, 0xff];
+const ZipSignatures = [
+  [0x50, 0x4b, 0x03, 0x04],
+  [0x50, 0x4b, 0x05, 0x06],
+  [0x50, 0x4b, 0x07, 0x08],
+];
+const DocxContentTypesEntry = new TextEncoder().encode("[Content_Types].xml");
+
+export type ContentSniffResult =
+  | { checked: false }
+  | { checked: true; matches: true }
+  | { checked: true; matches: false; detail: string };
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  if (bytes.length < signature.length) {
+    return false;
+  }
+
+  return signature.every((byte, index) => bytes[index] === byte);
+}
+
+function includesSequence(bytes: Uint8Array, sequence: Uint8Array): boolean {
+  for (let offset = 0; offset + sequence.length <= bytes.length; offset += 1) {
+    let matched = true;
+    for (let index = 0; index < sequence.length; index += 1) {
+      if (bytes[offset + index] !== sequence[index]) {
+        matched = false;
+        break;
+      }
+    }
+
+    if (matched) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+function isZip(bytes: Uint8Array): boolean {
+  return ZipSignatures.some((signature) => startsWith(bytes, signature));
+}
+
+function getExpectedFileKind({
+  contentType,
+  fileName,
+}: {
+  contentType: string;
+  fileName: string;
+}): FileKind | null {
+  const baseContentType = contentType.split(";")[0].trim().toLowerCase();
+  const kindFromContentType = FileKindsByContentType[baseContentType];
+  if (kindFromContentType) {
+    return kindFromContentType;
+  }
+
+  const dotIndex = fileName.lastIndexOf(".");
+  if (dotIndex <= 0) {
+    return null;
+  }
+
+  return FileKindsByExtension[fileName.slice(dotIndex).toLowerCase()] ?? null;
+}
+
+function matchesFileKind(bytes: Uint8Array, kind: FileKind): boolean {
+  switch (kind) {
+    case FileKinds.PDF:
+      return startsWith(bytes, PdfSignature);
+    case FileKinds.PNG:
+      return startsWith(bytes, PngSignature);
+    case FileKinds.JPEG:
+      return startsWith(bytes, JpegSignature);
+    case FileKinds.ZIP:
+      return isZip(bytes);
+    case FileKinds.DOCX:
+      return isZip(bytes) && includesSequence(bytes, DocxContentTypesEntry);
+  }
+}
+
+/**
+ * Compares the leading bytes of an uploaded object with the signature of the
+ * type the applicant declared. Types without a known signature are reported
+ * as unchecked rather than failed.
+ */
+export function sniffUploadedContent({
+  bytes,
+  contentType,
+  fileName,
+}: {
+  bytes: Uint8Array;
+  contentType: string;
+  fileName: string;
+}): ContentSniffResult {
+  const expectedKind = getExpectedFileKind({ contentType, fileName });
+  if (!expectedKind) {
+    return { checked: false };
+  }
+
+  if (matchesFileKind(bytes, expectedKind)) {
+    return { checked: true, matches: true };
+  }
+
+  return {
+    checked: true,
+    matches: false,
+    detail: `File content does not match a ${expectedKind.toUpperCase()} file`,
+  };
+}
@@ -0,0 +1,29 @@
+// CRC-32 as used by ZIP (IEEE 802.3, reflected, polynomial 0xedb88320).
+
+const Uint32Max = 0xffffffff;
+
+const Crc32Table = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+
+  return table;
+})();
+
+/**
+ * Continues `crc` over `bytes`; start from 0. Runs in JS over every byte, so
+ * it belongs in background work rather than on a request path.
+ */
+export function updateCrc32(crc: number, bytes: Uint8Array): number {
+  let value = crc ^ Uint32Max;
+  for (let index = 0; index < bytes.length; index += 1) {
+    value = Crc32Table[(value ^ bytes[index]) & 0xff] ^ (value >>> 8);
+  }
+
+  return (value ^ Uint32Max) >>> 0;
+}
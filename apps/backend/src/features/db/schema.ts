@@ -29,11 +29,88 @@ export const UploadSessionStatuses = {
   INITIATED: "initiated",
   COMPLETED: "completed",
   ABORTED: "aborted",
+  EXPIRED: "expired",
 } as const;
 
 export type UploadSessionStatus =
   (typeof UploadSessionStatuses)[keyof typeof UploadSessionStatuses];
 
+export const UploadContentCheckStatuses = {
+  UNCHECKED: "unchecked",
+  PASSED: "passed",
+  QUARANTINED: "quarantined",
+} as const;
+
+export type UploadContentCheckStatus =
+  (typeof UploadContentCheckStatuses)[keyof typeof UploadContentCheckStatuses];
+
+export const UserTokenPurposes = {
+  EMAIL_VERIFICATION: "email_verification",
+  MAGIC_LINK: "magic_link",
+  PASSWORD_RESET: "password_reset",
+  TWO_FACTOR_CHALLENGE: "two_factor_challenge",
+} as const;
+
+export type UserTokenPurpose =
+  (typeof UserTokenPurposes)[keyof typeof UserTokenPurposes];
+
+export const LoginThrottleScopes = {
+  EMAIL: "email",
+  IP: "ip",
+} as const;
+
+export type LoginThrottleScope =
+  (typeof LoginThrottleScopes)[keyof typeof LoginThrottleScopes];
+
+export const FirmMemberRoles = {
+  OWNER: "owner",
+  CONTRIBUTOR: "contributor",
+  VIEWER: "viewer",
+} as const;
+
+export type FirmMemberRole =
+  (typeof FirmMemberRoles)[keyof typeof FirmMemberRoles];
+
+export const EmailOutboxStatuses = {
+  PENDING: "pending",
+  SENT: "sent",
+  FAILED: "failed",
+  // Handed to the capture transport, which delivers nothing.
+  CAPTURED: "captured",
+} as const;
+
+export type EmailOutboxStatus =
+  (typeof EmailOutboxStatuses)[keyof typeof EmailOutboxStatuses];
+
+export type SubmissionManifestFile = {
+  fileId: string;
+  questionId: string;
+  fileName: string;
+  fileSizeBytes: number;
+  contentType: string;
+  uploadedAt: string;
+  etag: string;
+  checksumSha256: string | null;
+};
+
+export type SubmissionManifest = {
+  version: 1;
+  receiptNumber: string;
+  submissionId: string;
+  tenderId: string;
+  tenderTitle: string;
+  firmName: string;
+  issuedTo: string;
+  submittedAt: string;
+  issuedAt: string;
+  files: SubmissionManifestFile[];
+};
+
+export type StoredPartChecksum = {
+  partNumber: number;
+  checksum: string;
+};
+
 export const UserTable = pgTable(
   "user",
   {
@@ -45,6 +122,7 @@ export const UserTable = pgTable(
     firmName: text(),
     name: text(),
     phoneNumber: text(),
+    emailVerifiedAt: timestamp({ withTimezone: true }),
     ...CommonRows,
   },
   (t) => [
@@ -92,6 +170,202 @@ export const UserRoleTable = pgTable(
   ]
 );
 
+// One row per login. Access tokens carry the session id, so revoking the
+// session here invalidates them before their `exp`.
+export const AuthSessionTable = pgTable(
+  "auth_session",
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text()
+      .notNull()
+      .references(() => UserTable.id, { onDelete: "cascade" }),
+    refreshTokenHash: text().notNull(),
+    // Kept after rotation so a replayed refresh token can be detected.
+    previousRefreshTokenHash: text(),
+    refreshTokenExpiresAt: timestamp({ withTimezone: true }).notNull(),
+    lastRefreshedAt: timestamp({ withTimezone: true }),
+    revokedAt: timestamp({ withTimezone: true }),
+    revokedReason: text(),
+    ...CommonRows,
+  },
+  (t) => [
+    uniqueIndex("auth_session_refresh_token_hash_key").on(t.refreshTokenHash),
+    index("auth_session_previous_refresh_token_hash_idx").on(
+      t.previousRefreshTokenHash
+    ),
+    index("auth_session_user_id_idx").on(t.userId),
+  ]
+);
+
+// Single-use tokens sent by email. Only the hash of the token is stored.
+export const UserTokenTable = pgTable(
+  "user_token",
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text()
+      .notNull()
+      .references(() => UserTable.id, { onDelete: "cascade" }),
+    purpose: text().notNull(),
+    tokenHash: text().notNull(),
+    expiresAt: timestamp({ withTimezone: true }).notNull(),
+    consumedAt: timestamp({ withTimezone: true }),
+    ...CommonRows,
+  },
+  (t) => [
+    uniqueIndex("user_token_token_hash_key").on(t.tokenHash),
+    index("user_token_user_id_purpose_idx").on(t.userId, t.purpose),
+  ]
+);
+
+// Failed login counters per email and per client IP.
+export const LoginThrottleTable = pgTable(
+  "login_throttle",
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    scope: text().notNull(),
+    key: text().notNull(),
+    failedAttempts: integer().notNull().default(0),
+    lastFailedAt: timestamp({ withTimezone: true }).notNull(),
+    lockedUntil: timestamp({ withTimezone: true }),
+    ...CommonRows,
+  },
+  (t) => [uniqueIndex("login_throttle_scope_key_key").on(t.scope, t.key)]
+);
+
+// TOTP second factor. The row stays unconfirmed until the user proves the
+// authenticator works; only confirmed rows are enforced at sign-in.
+export const UserTotpTable = pgTable(
+  "user_totp",
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text()
+      .notNull()
+      .references(() => UserTable.id, { onDelete: "cascade" }),
+    secret: text().notNull(),
+    confirmedAt: timestamp({ withTimezone: true }),
+    // Time step of the last accepted code, so a code cannot be replayed.
+    lastUsedStep: bigint({ mode: "number" }),
+    ...CommonRows,
+  },
+  (t) => [
+    uniqueIndex("user_totp_user_id_key")
+      .on(t.userId)
+      .where(sql`${t.isActive}`),
+  ]
+);
+
+export const UserRecoveryCodeTable = pgTable(
+  "user_recovery_code",
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    userId: text()
+      .notNull()
+      .references(() => UserTable.id, { onDelete: "cascade" }),
+    codeHash: text().notNull(),
+    usedAt: timestamp({ withTimezone: true }),
+    ...CommonRows,
+  },
+  (t) => [index("user_recovery_code_user_id_idx").on(t.userId)]
+);
+
+// Queued transactional email. Pending rows are picked up once
+// `nextAttemptAt` has passed; a row stays `failed` after its last attempt.
+export const EmailOutboxTable = pgTable(
+  "email_outbox",
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    recipient: text().notNull(),
+    subject: text().notNull(),
+    html: text().notNull(),
+    text: text().notNull().default(""),
+    status: text().notNull().default(EmailOutboxStatuses.PENDING),
+    attempts: integer().notNull().default(0),
+    nextAttemptAt: timestamp({ withTimezone: true }).notNull().defaultNow(),
+    lastError: text(),
+    sentAt: timestamp({ withTimezone: true }),
+    ...CommonRows,
+  },
+  (t) => [
+    index("email_outbox_status_next_attempt_at_idx").on(
+      t.status,
+      t.nextAttemptAt
+    ),
+  ]
+);
+
+// A firm owns submissions so several of its members can work on one
+// application. Every applicant belongs to at most one firm.
+export const FirmTable = pgTable("firm", {
+  id: text()
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  name: text().notNull(),
+  createdBy: text()
+    .notNull()
+    .references(() => UserTable.id, { onDelete: "cascade" }),
+  ...CommonRows,
+});
+
+export const FirmMemberTable = pgTable(
+  "firm_member",
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    firmId: text()
+      .notNull()
+      .references(() => FirmTable.id, { onDelete: "cascade" }),
+    userId: text()
+      .notNull()
+      .references(() => UserTable.id, { onDelete: "cascade" }),
+    role: text().notNull(),
+    ...CommonRows,
+  },
+  (t) => [
+    uniqueIndex("firm_member_user_id_key")
+      .on(t.userId)
+      .where(sql`${t.isActive}`),
+    index("firm_member_firm_id_idx").on(t.firmId),
+  ]
+);
+
+export const FirmInviteTable = pgTable(
+  "firm_invite",
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    firmId: text()
+      .notNull()
+      .references(() => FirmTable.id, { onDelete: "cascade" }),
+    email: text().notNull(),
+    role: text().notNull(),
+    tokenHash: text().notNull(),
+    invitedBy: text()
+      .notNull()
+      .references(() => UserTable.id, { onDelete: "cascade" }),
+    expiresAt: timestamp({ withTimezone: true }).notNull(),
+    acceptedAt: timestamp({ withTimezone: true }),
+    ...CommonRows,
+  },
+  (t) => [
+    uniqueIndex("firm_invite_token_hash_key").on(t.tokenHash),
+    index("firm_invite_firm_id_idx").on(t.firmId),
+  ]
+);
+
 export const TenderTable = pgTable(
   "tender",
   {
@@ -108,6 +382,35 @@ export const TenderTable = pgTable(
   ]
 );
 
+export const TenderQuestionTable = pgTable(
+  "tender_question",
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    tenderId: text()
+      .notNull()
+      .references(() => TenderTable.id, { onDelete: "cascade" }),
+    questionId: text().notNull(),
+    position: integer().notNull(),
+    title: text().notNull(),
+    description: text().notNull().default(""),
+    isRequired: boolean().notNull().default(true),
+    allowedExtensions: jsonb().$type<string[]>().notNull().default([]),
+    maxSizeBytes: bigint({ mode: "number" }).notNull(),
+    // How many files may be active for the question at once. With 1, a new
+    // upload replaces the previous file.
+    maxFiles: integer().notNull().default(1),
+    ...CommonRows,
+  },
+  (t) => [
+    uniqueIndex("tender_question_tender_id_question_id_key")
+      .on(t.tenderId, t.questionId)
+      .where(sql`${t.isActive}`),
+    index("tender_question_tender_id_position_idx").on(t.tenderId, t.position),
+  ]
+);
+
 export const SubmissionTable = pgTable(
   "submission",
   {
@@ -117,6 +420,9 @@ export const SubmissionTable = pgTable(
     tenderId: text()
       .notNull()
       .references(() => TenderTable.id, { onDelete: "cascade" }),
+    firmId: text()
+      .notNull()
+      .references(() => FirmTable.id, { onDelete: "cascade" }),
     userId: text()
       .notNull()
       .references(() => UserTable.id, { onDelete: "cascade" }),
@@ -128,9 +434,10 @@ export const SubmissionTable = pgTable(
     ...CommonRows,
   },
   (t) => [
-    uniqueIndex("submission_tender_id_user_id_key")
-      .on(t.tenderId, t.userId)
+    uniqueIndex("submission_tender_id_firm_id_key")
+      .on(t.tenderId, t.firmId)
       .where(sql`${t.isActive}`),
+    index("submission_user_id_idx").on(t.userId),
   ]
 );
 
@@ -157,6 +464,9 @@ export const UploadSessionTable = pgTable(
     uploadId: text().notNull(),
     partSizeBytes: integer().notNull(),
     totalParts: integer().notNull(),
+    checksumSha256: text(),
+    partChecksumAlgorithm: text(),
+    partChecksums: jsonb().$type<StoredPartChecksum[]>(),
     expiresAt: timestamp({ withTimezone: true }).notNull(),
     status: text().notNull().default(UploadSessionStatuses.INITIATED),
     completedAt: timestamp({ withTimezone: true }),
@@ -192,17 +502,85 @@ export const UploadedFileTable = pgTable(
     fileSizeBytes: bigint({ mode: "number" }).notNull(),
     contentType: text().notNull(),
     etag: text().notNull(),
+    checksumSha256: text(),
+    // Filled in by the digest job, so archives need not checksum the bytes.
+    crc32: bigint({ mode: "number" }),
+    contentCheckStatus: text()
+      .notNull()
+      .default(UploadContentCheckStatuses.UNCHECKED),
+    contentCheckDetail: text(),
+    quarantinedAt: timestamp({ withTimezone: true }),
     uploadedAt: timestamp({ withTimezone: true }).notNull().defaultNow(),
+    // Set when the applicant deletes the file, as opposed to replacing it.
+    // The stored object is removed by the maintenance job afterwards.
+    deletedAt: timestamp({ withTimezone: true }),
+    objectDeletedAt: timestamp({ withTimezone: true }),
     ...CommonRows,
   },
   (t) => [
-    uniqueIndex("uploaded_file_submission_id_question_id_key")
-      .on(t.submissionId, t.questionId)
-      .where(sql`${t.isActive}`),
+    index("uploaded_file_deleted_at_idx").on(t.deletedAt),
+    index("uploaded_file_submission_id_question_id_idx").on(
+      t.submissionId,
+      t.questionId
+    ),
     index("uploaded_file_submission_id_idx").on(t.submissionId),
   ]
 );
 
+// One row per reminder sent, so each firm member gets a given reminder for a
+// draft at most once even if the scheduled job overlaps or reruns.
+export const DeadlineReminderTable = pgTable(
+  "deadline_reminder",
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    submissionId: text()
+      .notNull()
+      .references(() => SubmissionTable.id, { onDelete: "cascade" }),
+    userId: text()
+      .notNull()
+      .references(() => UserTable.id, { onDelete: "cascade" }),
+    offsetHours: integer().notNull(),
+    emailId: text().references(() => EmailOutboxTable.id, {
+      onDelete: "set null",
+    }),
+    ...CommonRows,
+  },
+  (t) => [
+    uniqueIndex("deadline_reminder_submission_id_user_id_offset_hours_key").on(
+      t.submissionId,
+      t.userId,
+      t.offsetHours
+    ),
+  ]
+);
+
+// Issued once when a submission is submitted. The manifest is stored exactly
+// as it was signed so the same document can be downloaded again later.
+export const SubmissionReceiptTable = pgTable(
+  "submission_receipt",
+  {
+    id: text()
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    submissionId: text()
+      .notNull()
+      .references(() => SubmissionTable.id, { onDelete: "cascade" }),
+    receiptNumber: text().notNull(),
+    manifest: jsonb().$type<SubmissionManifest>().notNull(),
+    signature: text().notNull(),
+    issuedAt: timestamp({ withTimezone: true }).notNull(),
+    ...CommonRows,
+  },
+  (t) => [
+    uniqueIndex("submission_receipt_submission_id_key")
+      .on(t.submissionId)
+      .where(sql`${t.isActive}`),
+    uniqueIndex("submission_receipt_receipt_number_key").on(t.receiptNumber),
+  ]
+);
+
 export const ApplicationStateTable = pgTable(
   "application_state",
   {
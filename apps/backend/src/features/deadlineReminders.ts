@@ -0,0 +1,212 @@
+import { renderEmail } from "@repo/email-templates";
+import { and, asc, eq, gt, inArray, lte } from "drizzle-orm";
+import { WithDbAndEnv } from "../utils/commonTypes";
+import {
+  DeadlineReminderTable,
+  FirmMemberRoles,
+  FirmMemberTable,
+  SubmissionStatuses,
+  SubmissionTable,
+  TenderTable,
+  UserTable,
+} from "./db/schema";
+import { getAppUrl } from "./email";
+import { queueEmail } from "./emailOutbox";
+import { listMissingRequiredQuestions } from "./uploads";
+
+const HourMs = 60 * 60 * 1000;
+
+export const DeadlineReminderDefaultOffsetsHours = [7 * 24, 48, 6];
+
+// Viewers cannot upload, so reminding them would not help.
+const DeadlineReminderMemberRoles = [
+  FirmMemberRoles.OWNER,
+  FirmMemberRoles.CONTRIBUTOR,
+];
+
+export type DeadlineReminderSummary = {
+  scanned: number;
+  complete: number;
+  reminded: number;
+  alreadyReminded: number;
+  failed: number;
+};
+
+/**
+ * Hours before the deadline at which reminders go out, largest first, from
+ * the comma separated `DEADLINE_REMINDER_OFFSETS_HOURS` (e.g. "168,48,6").
+ */
+export function getDeadlineReminderOffsetsHours(env: Env): number[] {
+  const offsets = env.DEADLINE_REMINDER_OFFSETS_HOURS.split(",")
+    .map((value) => Number.parseInt(value.trim(), 10))
+    .filter((value) => Number.isFinite(value) && value > 0);
+  if (offsets.length === 0) {
+    return DeadlineReminderDefaultOffsetsHours;
+  }
+
+  return [...new Set(offsets)].sort((a, b) => b - a);
+}
+
+/**
+ * The closest offset that has already been reached. Offsets the job slept
+ * through are skipped, so a draft started late gets one reminder rather
+ * than every earlier one at once.
+ */
+export function getDueReminderOffsetHours({
+  offsetsHours,
+  deadline,
+  now,
+}: {
+  offsetsHours: number[];
+  deadline: Date;
+  now: Date;
+}): number | null {
+  const msLeft = deadline.getTime() - now.getTime();
+  if (msLeft <= 0) {
+    return null;
+  }
+
+  const reached = offsetsHours.filter((offset) => msLeft <= offset * HourMs);
+  return reached.length === 0 ? null : Math.min(...reached);
+}
+
+function formatTimeLeft(msLeft: number): string {
+  const hours = Math.max(Math.floor(msLeft / HourMs), 1);
+  if (hours >= 48) {
+    return `${Math.floor(hours / 24)} days`;
+  }
+  return hours === 1 ? "1 hour" : `${hours} hours`;
+}
+
+/**
+ * Emails the editing members of every draft that is still missing required
+ * uploads once its tender's deadline comes within a reminder offset. A row
+ * in `deadline_reminder` is claimed before each email is queued, so the
+ * same reminder is never sent twice; the claim is released when queueing
+ * fails, so the next run tries again.
+ */
+export async function sendDeadlineReminders({
+  db,
+  env,
+  now = new Date(),
+}: WithDbAndEnv<{ now?: Date }>): Promise<DeadlineReminderSummary> {
+  const offsetsHours = getDeadlineReminderOffsetsHours(env);
+  const horizon = new Date(now.getTime() + Math.max(...offsetsHours) * HourMs);
+
+  const drafts = await db
+    .select({
+      submissionId: SubmissionTable.id,
+      tenderId: SubmissionTable.tenderId,
+      firmId: SubmissionTable.firmId,
+      tenderTitle: TenderTable.title,
+      deadline: TenderTable.lastDateToApply,
+    })
+    .from(SubmissionTable)
+    .innerJoin(TenderTable, eq(SubmissionTable.tenderId, TenderTable.id))
+    .where(
+      and(
+        eq(SubmissionTable.status, SubmissionStatuses.DRAFT),
+        eq(SubmissionTable.isActive, true),
+        eq(TenderTable.isActive, true),
+        gt(TenderTable.lastDateToApply, now),
+        lte(TenderTable.lastDateToApply, horizon)
+      )
+    )
+    .orderBy(asc(TenderTable.lastDateToApply));
+
+  const summary: DeadlineReminderSummary = {
+    scanned: drafts.length,
+    complete: 0,
+    reminded: 0,
+    alreadyReminded: 0,
+    failed: 0,
+  };
+
+  for (const draft of drafts) {
+    const offsetHours = getDueReminderOffsetHours({
+      offsetsHours,
+      deadline: draft.deadline,
+      now,
+    });
+    if (offsetHours === null) {
+      continue;
+    }
+
+    const missingQuestions = await listMissingRequiredQuestions({
+      db,
+      tenderId: draft.tenderId,
+      submissionId: draft.submissionId,
+    });
+    if (missingQuestions.length === 0) {
+      summary.complete += 1;
+      continue;
+    }
+
+    const members = await db
+      .select({
+        userId: UserTable.id,
+        email: UserTable.email,
+        name: UserTable.name,
+      })
+      .from(FirmMemberTable)
+      .innerJoin(UserTable, eq(FirmMemberTable.userId, UserTable.id))
+      .where(
+        and(
+          eq(FirmMemberTable.firmId, draft.firmId),
+          eq(FirmMemberTable.isActive, true),
+          inArray(FirmMemberTable.role, DeadlineReminderMemberRoles),
+          eq(UserTable.isActive, true)
+        )
+      );
+
+    for (const member of members) {
+      const claimed = await db
+        .insert(DeadlineReminderTable)
+        .values({
+          submissionId: draft.submissionId,
+          userId: member.userId,
+          offsetHours,
+        })
+        .onConflictDoNothing()
+        .returning({ id: DeadlineReminderTable.id });
+      if (claimed.length === 0) {
+        summary.alreadyReminded += 1;
+        continue;
+      }
+
+      const timeLeft = formatTimeLeft(draft.deadline.getTime() - now.getTime());
+      const emailResult = await queueEmail({
+        db,
+        env,
+        to: member.email,
+        ...renderEmail("deadline-reminder", {
+          recipientName: member.name,
+          tenderTitle: draft.tenderTitle,
+          deadline: draft.deadline.toUTCString(),
+          timeLeft,
+          missingQuestionTitles: missingQuestions.map((question) => question.title),
+          formUrl: getAppUrl({
+            env,
+            path: `/form/${encodeURIComponent(draft.submissionId)}`,
+          }),
+        }),
+      });
+      if (!emailResult.ok) {
+        await db
+          .delete(DeadlineReminderTable)
+          .where(eq(DeadlineReminderTable.id, claimed[0].id));
+        summary.failed += 1;
+        continue;
+      }
+
+      await db
+        .update(DeadlineReminderTable)
+        .set({ emailId: emailResult.data.emailId, updatedAt: new Date() })
+        .where(eq(DeadlineReminderTable.id, claimed[0].id));
+
+      summary.reminded += 1;
+    }
+  }
+
+  return summary;
+}
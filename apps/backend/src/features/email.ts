@@ -0,0 +1,5 @@
+import { WithEnv } from "../utils/commonTypes";
+
+export function getAppUrl({ env, path }: WithEnv<{ path: string }>): string {
+  return new URL(path, env.APP_BASE_URL).toString();
+}
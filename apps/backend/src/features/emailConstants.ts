@@ -0,0 +1,21 @@
+export const EmailTransportNames = {
+  HTTP: "http",
+  SMTP: "smtp",
+  CAPTURE: "capture",
+} as const;
+
+export type EmailTransportName =
+  (typeof EmailTransportNames)[keyof typeof EmailTransportNames];
+
+export const EmailOutboxMaxAttempts = 8;
+export const EmailOutboxBatchSize = 50;
+// Doubles after every failed attempt, up to the maximum.
+export const EmailOutboxRetryBaseMs = 60 * 1000;
+export const EmailOutboxRetryMaxMs = 6 * 60 * 60 * 1000;
+// A claimed row is left alone for this long, so a delivery that dies
+// mid-send is retried rather than lost.
+export const EmailOutboxClaimMs = 5 * 60 * 1000;
+
+// Captured messages listed by the admin capture route.
+export const CapturedEmailLimit = 50;
+export const SmtpTimeoutMs = 15 * 1000;
@@ -0,0 +1,57 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import type { connectDb } from "./db/connect";
+import { EmailOutboxStatuses } from "./db/schema";
+import { listCapturedEmails, listOutboxEmails, queueEmail } from "./emailOutbox";
+
+// Only the SMTP transport opens sockets, and these tests never select it.
+vi.mock("cloudflare:sockets", () => ({ connect: vi.fn() }));
+
+const client = new PGlite();
+const db = drizzle(client, { casing: "snake_case" }) as unknown as ReturnType<
+  typeof connectDb
+>;
+const env = {
+  EMAIL_TRANSPORT: "capture",
+  EMAIL_API_URL: "",
+  EMAIL_FROM: "MIST <no-reply@localhost>",
+} as unknown as Env;
+
+describe("capture transport", () => {
+  beforeAll(async () => {
+    await migrate(drizzle(client), { migrationsFolder: "./migrations" });
+  }, 60_000);
+
+  it("records captured messages in the outbox, newest first", async () => {
+    for (const subject of ["First", "Second"]) {
+      const queued = await queueEmail({
+        db,
+        env,
+        to: "bidder@example.com",
+        subject,
+        html: `<p>${subject}</p>`,
+        text: subject,
+      });
+      expect(queued.ok).toBe(true);
+    }
+
+    const outbox = await listOutboxEmails({ db, limit: 10 });
+    expect(outbox.map((email) => email.status)).toEqual([
+      EmailOutboxStatuses.CAPTURED,
+      EmailOutboxStatuses.CAPTURED,
+    ]);
+
+    const captured = await listCapturedEmails({ db, env });
+    expect(captured).toMatchObject([
+      {
+        from: "MIST <no-reply@localhost>",
+        to: "bidder@example.com",
+        subject: "Second",
+        text: "Second",
+      },
+      { subject: "First", html: "<p>First</p>" },
+    ]);
+  });
+});
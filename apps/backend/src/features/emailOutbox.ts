@@ -0,0 +1,294 @@
+import { and, asc, desc, eq, lte, sql } from "drizzle-orm";
+import { WithDb, WithDbAndEnv } from "../utils/commonTypes";
+import { ErrorCodes } from "../utils/error";
+import {
+  EmailOutboxStatuses,
+  EmailOutboxTable,
+  type EmailOutboxStatus,
+} from "./db/schema";
+import {
+  CapturedEmailLimit,
+  EmailOutboxBatchSize,
+  EmailOutboxClaimMs,
+  EmailOutboxMaxAttempts,
+  EmailOutboxRetryBaseMs,
+  EmailOutboxRetryMaxMs,
+  EmailTransportNames,
+} from "./emailConstants";
+import { getEmailTransport, type OutgoingEmail } from "./emailTransports";
+
+type ServiceResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; errorCode: ErrorCodes; error: string };
+
+export type OutboxEmail = {
+  id: string;
+  recipient: string;
+  subject: string;
+  status: EmailOutboxStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError: string | null;
+  sentAt: Date | null;
+  createdAt: Date;
+};
+
+export type CapturedEmail = OutgoingEmail & {
+  from: string;
+  capturedAt: Date;
+};
+
+export type EmailOutboxSummary = {
+  scanned: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+};
+
+function toEmailOutboxStatus(status: string): EmailOutboxStatus {
+  switch (status) {
+    case EmailOutboxStatuses.SENT:
+      return EmailOutboxStatuses.SENT;
+    case EmailOutboxStatuses.FAILED:
+      return EmailOutboxStatuses.FAILED;
+    case EmailOutboxStatuses.CAPTURED:
+      return EmailOutboxStatuses.CAPTURED;
+    default:
+      return EmailOutboxStatuses.PENDING;
+  }
+}
+
+export function getEmailRetryDelayMs(attempts: number): number {
+  return Math.min(
+    EmailOutboxRetryBaseMs * 2 ** Math.max(attempts - 1, 0),
+    EmailOutboxRetryMaxMs
+  );
+}
+
+/**
+ * Delivers one due outbox row. The row is claimed with a conditional update
+ * first, so the request that queued it and the scheduled sender never send
+ * the same message twice. Returns null when the row was not due.
+ */
+export async function deliverOutboxEmail({
+  db,
+  env,
+  emailId,
+  now = new Date(),
+}: WithDbAndEnv<{
+  emailId: string;
+  now?: Date;
+}>): Promise<EmailOutboxStatus | null> {
+  const claimed = await db
+    .update(EmailOutboxTable)
+    .set({
+      attempts: sql`${EmailOutboxTable.attempts} + 1`,
+      nextAttemptAt: new Date(now.getTime() + EmailOutboxClaimMs),
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(EmailOutboxTable.id, emailId),
+        eq(EmailOutboxTable.status, EmailOutboxStatuses.PENDING),
+        eq(EmailOutboxTable.isActive, true),
+        lte(EmailOutboxTable.nextAttemptAt, now)
+      )
+    )
+    .returning({
+      recipient: EmailOutboxTable.recipient,
+      subject: EmailOutboxTable.subject,
+      html: EmailOutboxTable.html,
+      text: EmailOutboxTable.text,
+      attempts: EmailOutboxTable.attempts,
+    });
+
+  const email = claimed.at(0);
+  if (email === undefined) {
+    return null;
+  }
+
+  const transport = getEmailTransport(env);
+  const result = await transport.send({
+    to: email.recipient,
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+  });
+
+  const finishedAt = new Date();
+  if (result.ok) {
+    const status =
+      transport.name === EmailTransportNames.CAPTURE
+        ? EmailOutboxStatuses.CAPTURED
+        : EmailOutboxStatuses.SENT;
+    await db
+      .update(EmailOutboxTable)
+      .set({
+        status,
+        sentAt: finishedAt,
+        lastError: null,
+        updatedAt: finishedAt,
+      })
+      .where(eq(EmailOutboxTable.id, emailId));
+    return status;
+  }
+
+  const status =
+    email.attempts >= EmailOutboxMaxAttempts
+      ? EmailOutboxStatuses.FAILED
+      : EmailOutboxStatuses.PENDING;
+  await db
+    .update(EmailOutboxTable)
+    .set({
+      status,
+      nextAttemptAt: new Date(
+        finishedAt.getTime() + getEmailRetryDelayMs(email.attempts)
+      ),
+      lastError: result.error,
+      updatedAt: finishedAt,
+    })
+    .where(eq(EmailOutboxTable.id, emailId));
+
+  return status;
+}
+
+/**
+ * Stores the message and makes the first delivery attempt straight away.
+ * A failed attempt is not an error for the caller: the scheduled sender
+ * retries it with backoff.
+ */
+export async function queueEmail({
+  db,
+  env,
+  to,
+  subject,
+  html,
+  text,
+}: WithDbAndEnv<OutgoingEmail>): Promise<ServiceResult<{ emailId: string }>> {
+  const inserted = await db
+    .insert(EmailOutboxTable)
+    .values({ recipient: to, subject, html, text })
+    .returning({ id: EmailOutboxTable.id });
+
+  const email = inserted.at(0);
+  if (email === undefined) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_INPUT,
+      error: "Failed to queue email",
+    } as const;
+  }
+
+  try {
+    await deliverOutboxEmail({ db, env, emailId: email.id });
+  } catch (err) {
+    console.error("Immediate email delivery failed, left for retry:", err);
+  }
+
+  return { ok: true, data: { emailId: email.id } } as const;
+}
+
+export async function processEmailOutbox({
+  db,
+  env,
+  now = new Date(),
+  batchSize = EmailOutboxBatchSize,
+}: WithDbAndEnv<{
+  now?: Date;
+  batchSize?: number;
+}>): Promise<EmailOutboxSummary> {
+  const dueEmails = await db
+    .select({ id: EmailOutboxTable.id })
+    .from(EmailOutboxTable)
+    .where(
+      and(
+        eq(EmailOutboxTable.status, EmailOutboxStatuses.PENDING),
+        eq(EmailOutboxTable.isActive, true),
+        lte(EmailOutboxTable.nextAttemptAt, now)
+      )
+    )
+    .orderBy(asc(EmailOutboxTable.nextAttemptAt))
+    .limit(batchSize);
+
+  const summary: EmailOutboxSummary = {
+    scanned: dueEmails.length,
+    sent: 0,
+    retrying: 0,
+    failed: 0,
+  };
+
+  for (const { id } of dueEmails) {
+    const status = await deliverOutboxEmail({ db, env, emailId: id, now });
+    if (
+      status === EmailOutboxStatuses.SENT ||
+      status === EmailOutboxStatuses.CAPTURED
+    ) {
+      summary.sent += 1;
+    } else if (status === EmailOutboxStatuses.PENDING) {
+      summary.retrying += 1;
+    } else if (status === EmailOutboxStatuses.FAILED) {
+      summary.failed += 1;
+    }
+  }
+
+  return summary;
+}
+
+export async function listOutboxEmails({
+  db,
+  limit,
+}: WithDb<{ limit: number }>): Promise<OutboxEmail[]> {
+  const emails = await db
+    .select({
+      id: EmailOutboxTable.id,
+      recipient: EmailOutboxTable.recipient,
+      subject: EmailOutboxTable.subject,
+      status: EmailOutboxTable.status,
+      attempts: EmailOutboxTable.attempts,
+      nextAttemptAt: EmailOutboxTable.nextAttemptAt,
+      lastError: EmailOutboxTable.lastError,
+      sentAt: EmailOutboxTable.sentAt,
+      createdAt: EmailOutboxTable.createdAt,
+    })
+    .from(EmailOutboxTable)
+    .where(eq(EmailOutboxTable.isActive, true))
+    .orderBy(desc(EmailOutboxTable.createdAt))
+    .limit(limit);
+
+  return emails.map((email) => ({
+    ...email,
+    status: toEmailOutboxStatus(email.status),
+  }));
+}
+
+/** Newest first. `from` is the current `EMAIL_FROM`, as no address is stored. */
+export async function listCapturedEmails({
+  db,
+  env,
+  limit = CapturedEmailLimit,
+}: WithDbAndEnv<{ limit?: number }>): Promise<CapturedEmail[]> {
+  const emails = await db
+    .select({
+      to: EmailOutboxTable.recipient,
+      subject: EmailOutboxTable.subject,
+      html: EmailOutboxTable.html,
+      text: EmailOutboxTable.text,
+      sentAt: EmailOutboxTable.sentAt,
+      createdAt: EmailOutboxTable.createdAt,
+    })
+    .from(EmailOutboxTable)
+    .where(
+      and(
+        eq(EmailOutboxTable.status, EmailOutboxStatuses.CAPTURED),
+        eq(EmailOutboxTable.isActive, true)
+      )
+    )
+    .orderBy(desc(EmailOutboxTable.sentAt))
+    .limit(limit);
+
+  return emails.map(({ sentAt, createdAt, ...email }) => ({
+    ...email,
+    from: env.EMAIL_FROM,
+    capturedAt: sentAt ?? createdAt,
+  }));
+}
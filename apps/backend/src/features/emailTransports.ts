@@ -0,0 +1,155 @@
+import { ErrorCodes } from "../utils/error";
+import { getConfiguredSecret } from "../utils/secrets";
+import { EmailTransportNames, type EmailTransportName } from "./emailConstants";
+import { parseSmtpUrl, sendSmtpMessage } from "./smtp";
+
+type ServiceResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; errorCode: ErrorCodes; error: string };
+
+export type OutgoingEmail = {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+};
+
+export type EmailTransport = {
+  name: EmailTransportName;
+  send: (message: OutgoingEmail) => Promise<ServiceResult<true>>;
+};
+
+function deliveryFailed(error: string) {
+  return {
+    ok: false,
+    errorCode: ErrorCodes.EMAIL_DELIVERY_FAILED,
+    error,
+  } as const;
+}
+
+/**
+ * Posts `{ from, to, subject, html, text }` to a mail provider's HTTP API.
+ * Every send fails while `apiKey` is null, rather than posting unauthenticated.
+ */
+export function createHttpEmailTransport({
+  apiUrl,
+  apiKey,
+  from,
+}: {
+  apiUrl: string;
+  apiKey: string | null;
+  from: string;
+}): EmailTransport {
+  return {
+    name: EmailTransportNames.HTTP,
+    send: async ({ to, subject, html, text }) => {
+      if (apiKey === null) {
+        return deliveryFailed("EMAIL_API_KEY is not configured");
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(apiUrl, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: JSON.stringify({ from, to, subject, html, text }),
+        });
+      } catch (err) {
+        return deliveryFailed(
+          `Mail API request failed: ${err instanceof Error ? err.message : String(err)}`
+        );
+      }
+
+      if (!response.ok) {
+        return deliveryFailed(`Mail API responded with status ${response.status}`);
+      }
+
+      return { ok: true, data: true } as const;
+    },
+  };
+}
+
+export function createSmtpEmailTransport({
+  smtpUrl,
+  from,
+}: {
+  smtpUrl: string;
+  from: string;
+}): EmailTransport {
+  const config = parseSmtpUrl(smtpUrl);
+
+  return {
+    name: EmailTransportNames.SMTP,
+    send: async (message) => {
+      if (config === null) {
+        return deliveryFailed("SMTP_URL is not a valid smtp:// or smtps:// URL");
+      }
+
+      try {
+        await sendSmtpMessage({ config, message: { ...message, from } });
+      } catch (err) {
+        return deliveryFailed(err instanceof Error ? err.message : String(err));
+      }
+
+      return { ok: true, data: true } as const;
+    },
+  };
+}
+
+/**
+ * Delivers nothing. The outbox marks these messages captured rather than
+ * sent, so links can be copied from the admin route. Only the recipient and
+ * subject are logged, since bodies carry sign-in, reset and invite tokens.
+ */
+export function createCaptureEmailTransport(): EmailTransport {
+  return {
+    name: EmailTransportNames.CAPTURE,
+    send: async (message) => {
+      console.log(
+        "Email captured, not sent:",
+        JSON.stringify({ to: message.to, subject: message.subject })
+      );
+      return { ok: true, data: true } as const;
+    },
+  };
+}
+
+function isEmailTransportName(value: string): value is EmailTransportName {
+  return (Object.values(EmailTransportNames) as string[]).includes(value);
+}
+
+/**
+ * `EMAIL_TRANSPORT` picks the transport. When it is unset, the HTTP API is
+ * used if `EMAIL_API_URL` is configured and messages are captured otherwise.
+ */
+export function getEmailTransportName(env: Env): EmailTransportName {
+  const configured = env.EMAIL_TRANSPORT.trim().toLowerCase();
+  if (isEmailTransportName(configured)) {
+    return configured;
+  }
+
+  return env.EMAIL_API_URL.trim().length > 0
+    ? EmailTransportNames.HTTP
+    : EmailTransportNames.CAPTURE;
+}
+
+export function getEmailTransport(env: Env): EmailTransport {
+  switch (getEmailTransportName(env)) {
+    case EmailTransportNames.HTTP:
+      return createHttpEmailTransport({
+        apiUrl: env.EMAIL_API_URL.trim(),
+        apiKey: getConfiguredSecret(env.EMAIL_API_KEY),
+        from: env.EMAIL_FROM,
+      });
+    case EmailTransportNames.SMTP:
+      return createSmtpEmailTransport({
+        smtpUrl: env.SMTP_URL,
+        from: env.EMAIL_FROM,
+      });
+    case EmailTransportNames.CAPTURE:
+      return createCaptureEmailTransport();
+  }
+}
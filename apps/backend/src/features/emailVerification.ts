@@ -0,0 +1,147 @@
+import { renderEmail } from "@repo/email-templates";
+import { and, eq, isNull } from "drizzle-orm";
+import { WithDb, WithDbAndEnv } from "../utils/commonTypes";
+import { ErrorCodes } from "../utils/error";
+import { EmailVerificationTokenTtlMs } from "./authConstants";
+import { UserTable, UserTokenPurposes } from "./db/schema";
+import { getAppUrl } from "./email";
+import { queueEmail } from "./emailOutbox";
+import { consumeUserToken, issueUserToken } from "./userTokens";
+
+type ServiceResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; errorCode: ErrorCodes; error: string };
+
+const EmailVerificationPath = "/onboarding";
+const EmailVerificationQueryParam = "verifyToken";
+
+async function getActiveUserVerification({
+  db,
+  userId,
+}: WithDb<{ userId: string }>): Promise<{
+  email: string;
+  emailVerifiedAt: Date | null;
+} | null> {
+  const users = await db
+    .select({ email: UserTable.email, emailVerifiedAt: UserTable.emailVerifiedAt })
+    .from(UserTable)
+    .where(and(eq(UserTable.id, userId), eq(UserTable.isActive, true)));
+
+  if (users.length === 0) {
+    return null;
+  }
+
+  return users[0];
+}
+
+export async function sendEmailVerification({
+  db,
+  env,
+  userId,
+  email,
+}: WithDbAndEnv<{ userId: string; email: string }>): Promise<ServiceResult<true>> {
+  const { token } = await issueUserToken({
+    db,
+    userId,
+    purpose: UserTokenPurposes.EMAIL_VERIFICATION,
+    ttlMs: EmailVerificationTokenTtlMs,
+  });
+
+  const verifyUrl = new URL(getAppUrl({ env, path: EmailVerificationPath }));
+  verifyUrl.searchParams.set(EmailVerificationQueryParam, token);
+
+  const queued = await queueEmail({
+    db,
+    env,
+    to: email,
+    ...renderEmail("email-verification", {
+      verifyUrl: verifyUrl.toString(),
+      expiresInHours: EmailVerificationTokenTtlMs / (60 * 60 * 1000),
+    }),
+  });
+  if (!queued.ok) {
+    return queued;
+  }
+
+  return { ok: true, data: true } as const;
+}
+
+export async function resendEmailVerification({
+  db,
+  env,
+  userId,
+}: WithDbAndEnv<{ userId: string }>): Promise<ServiceResult<true>> {
+  const user = await getActiveUserVerification({ db, userId });
+  if (user === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.USER_NOT_FOUND,
+      error: "User not found",
+    } as const;
+  }
+
+  if (user.emailVerifiedAt !== null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.EMAIL_ALREADY_VERIFIED,
+      error: "Email address is already verified",
+    } as const;
+  }
+
+  return sendEmailVerification({ db, env, userId, email: user.email });
+}
+
+export async function verifyEmailWithToken({
+  db,
+  token,
+}: WithDb<{ token: string }>): Promise<ServiceResult<{ userId: string }>> {
+  const consumed = await consumeUserToken({
+    db,
+    token,
+    purpose: UserTokenPurposes.EMAIL_VERIFICATION,
+  });
+
+  if (consumed === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_VERIFICATION_TOKEN,
+      error: "Verification link is invalid or has expired",
+    } as const;
+  }
+
+  const now = new Date();
+  await db
+    .update(UserTable)
+    .set({ emailVerifiedAt: now, updatedAt: now })
+    .where(and(eq(UserTable.id, consumed.userId), isNull(UserTable.emailVerifiedAt)));
+
+  return { ok: true, data: { userId: consumed.userId } } as const;
+}
+
+/**
+ * Guards actions that commit an applicant to a tender, so a mistyped email
+ * cannot end up owning an application.
+ */
+export async function ensureEmailVerified({
+  db,
+  userId,
+}: WithDb<{ userId: string }>): Promise<ServiceResult<true>> {
+  const user = await getActiveUserVerification({ db, userId });
+  if (user === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.USER_NOT_FOUND,
+      error: "User not found",
+    } as const;
+  }
+
+  if (user.emailVerifiedAt === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.EMAIL_NOT_VERIFIED,
+      error: "Verify your email address before applying",
+    } as const;
+  }
+
+  return { ok: true, data: true } as const;
+}
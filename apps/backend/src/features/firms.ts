@@ -0,0 +1,462 @@
+import { renderEmail } from "@repo/email-templates";
+import { and, asc, eq, gt, isNull } from "drizzle-orm";
+import { WithDb, WithDbAndEnv } from "../utils/commonTypes";
+import { ErrorCodes } from "../utils/error";
+import { generateOpaqueToken, hashOpaqueToken } from "./auth";
+import {
+  FirmInviteTable,
+  FirmMemberRoles,
+  FirmMemberTable,
+  FirmTable,
+  UserTable,
+  type FirmMemberRole,
+} from "./db/schema";
+import { getAppUrl } from "./email";
+import { queueEmail } from "./emailOutbox";
+
+type ServiceResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; errorCode: ErrorCodes; error: string };
+
+const FirmInvitePath = "/firm-invite";
+const FirmInviteTtlMs = 7 * 24 * 60 * 60 * 1000;
+
+export const FirmPermissions = {
+  EDIT_SUBMISSION: "edit_submission",
+  SUBMIT_TENDER: "submit_tender",
+  MANAGE_MEMBERS: "manage_members",
+} as const;
+
+export type FirmPermission =
+  (typeof FirmPermissions)[keyof typeof FirmPermissions];
+
+const FirmPermissionRoles: Record<FirmPermission, FirmMemberRole[]> = {
+  [FirmPermissions.EDIT_SUBMISSION]: [
+    FirmMemberRoles.OWNER,
+    FirmMemberRoles.CONTRIBUTOR,
+  ],
+  [FirmPermissions.SUBMIT_TENDER]: [FirmMemberRoles.OWNER],
+  [FirmPermissions.MANAGE_MEMBERS]: [FirmMemberRoles.OWNER],
+};
+
+const FirmPermissionErrors: Record<FirmPermission, string> = {
+  [FirmPermissions.EDIT_SUBMISSION]: "Viewers cannot change the firm's submission",
+  [FirmPermissions.SUBMIT_TENDER]: "Only firm owners can submit a tender",
+  [FirmPermissions.MANAGE_MEMBERS]: "Only firm owners can manage members",
+};
+
+export type FirmMembership = {
+  firmId: string;
+  firmName: string;
+  role: FirmMemberRole;
+};
+
+export type FirmMemberSummary = {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: FirmMemberRole;
+  joinedAt: Date;
+};
+
+export type FirmInviteSummary = {
+  inviteId: string;
+  email: string;
+  role: FirmMemberRole;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+export type FirmOverview = FirmMembership & {
+  members: FirmMemberSummary[];
+  pendingInvites: FirmInviteSummary[];
+};
+
+export function toFirmMemberRole(role: string): FirmMemberRole {
+  switch (role) {
+    case FirmMemberRoles.OWNER:
+      return FirmMemberRoles.OWNER;
+    case FirmMemberRoles.CONTRIBUTOR:
+      return FirmMemberRoles.CONTRIBUTOR;
+    default:
+      return FirmMemberRoles.VIEWER;
+  }
+}
+
+export function checkFirmPermission({
+  membership,
+  permission,
+}: {
+  membership: FirmMembership;
+  permission: FirmPermission;
+}): ServiceResult<FirmMembership> {
+  if (!FirmPermissionRoles[permission].includes(membership.role)) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.FIRM_PERMISSION_DENIED,
+      error: FirmPermissionErrors[permission],
+    } as const;
+  }
+
+  return { ok: true, data: membership } as const;
+}
+
+export async function getFirmMembership({
+  db,
+  userId,
+}: WithDb<{ userId: string }>): Promise<FirmMembership | null> {
+  const memberships = await db
+    .select({
+      firmId: FirmMemberTable.firmId,
+      firmName: FirmTable.name,
+      role: FirmMemberTable.role,
+    })
+    .from(FirmMemberTable)
+    .innerJoin(FirmTable, eq(FirmMemberTable.firmId, FirmTable.id))
+    .where(
+      and(
+        eq(FirmMemberTable.userId, userId),
+        eq(FirmMemberTable.isActive, true),
+        eq(FirmTable.isActive, true)
+      )
+    );
+
+  if (memberships.length === 0) {
+    return null;
+  }
+
+  return { ...memberships[0], role: toFirmMemberRole(memberships[0].role) };
+}
+
+/**
+ * Returns the user's firm, creating one they own on first use. Firms are
+ * created lazily so an invited colleague who has not started an application
+ * yet can still join another firm.
+ */
+export async function ensureFirmMembership({
+  db,
+  userId,
+}: WithDb<{ userId: string }>): Promise<ServiceResult<FirmMembership>> {
+  const existing = await getFirmMembership({ db, userId });
+  if (existing !== null) {
+    return { ok: true, data: existing } as const;
+  }
+
+  const users = await db
+    .select({ email: UserTable.email, firmName: UserTable.firmName })
+    .from(UserTable)
+    .where(and(eq(UserTable.id, userId), eq(UserTable.isActive, true)));
+
+  if (users.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.USER_NOT_FOUND,
+      error: "User not found",
+    } as const;
+  }
+
+  const firmName = users[0].firmName?.trim() || users[0].email;
+  const firms = await db
+    .insert(FirmTable)
+    .values({ name: firmName, createdBy: userId })
+    .returning({ id: FirmTable.id });
+
+  const members = await db
+    .insert(FirmMemberTable)
+    .values({ firmId: firms[0].id, userId, role: FirmMemberRoles.OWNER })
+    .onConflictDoNothing()
+    .returning({ id: FirmMemberTable.id });
+
+  // A concurrent request created the membership first; keep that one.
+  if (members.length === 0) {
+    await db.delete(FirmTable).where(eq(FirmTable.id, firms[0].id));
+    const concurrent = await getFirmMembership({ db, userId });
+    if (concurrent === null) {
+      return {
+        ok: false,
+        errorCode: ErrorCodes.FIRM_NOT_FOUND,
+        error: "Failed to create firm",
+      } as const;
+    }
+
+    return { ok: true, data: concurrent } as const;
+  }
+
+  return {
+    ok: true,
+    data: { firmId: firms[0].id, firmName, role: FirmMemberRoles.OWNER },
+  } as const;
+}
+
+export async function getFirmOverview({
+  db,
+  userId,
+}: WithDb<{ userId: string }>): Promise<ServiceResult<FirmOverview | null>> {
+  const membership = await getFirmMembership({ db, userId });
+  if (membership === null) {
+    return { ok: true, data: null } as const;
+  }
+
+  const members = await db
+    .select({
+      userId: FirmMemberTable.userId,
+      email: UserTable.email,
+      name: UserTable.name,
+      role: FirmMemberTable.role,
+      joinedAt: FirmMemberTable.createdAt,
+    })
+    .from(FirmMemberTable)
+    .innerJoin(UserTable, eq(FirmMemberTable.userId, UserTable.id))
+    .where(
+      and(
+        eq(FirmMemberTable.firmId, membership.firmId),
+        eq(FirmMemberTable.isActive, true),
+        eq(UserTable.isActive, true)
+      )
+    )
+    .orderBy(asc(FirmMemberTable.createdAt));
+
+  const canManageMembers = checkFirmPermission({
+    membership,
+    permission: FirmPermissions.MANAGE_MEMBERS,
+  }).ok;
+  const invites = canManageMembers
+    ? await db
+        .select({
+          inviteId: FirmInviteTable.id,
+          email: FirmInviteTable.email,
+          role: FirmInviteTable.role,
+          expiresAt: FirmInviteTable.expiresAt,
+          createdAt: FirmInviteTable.createdAt,
+        })
+        .from(FirmInviteTable)
+        .where(
+          and(
+            eq(FirmInviteTable.firmId, membership.firmId),
+            eq(FirmInviteTable.isActive, true),
+            isNull(FirmInviteTable.acceptedAt),
+            gt(FirmInviteTable.expiresAt, new Date())
+          )
+        )
+        .orderBy(asc(FirmInviteTable.createdAt))
+    : [];
+
+  return {
+    ok: true,
+    data: {
+      ...membership,
+      members: members.map((member) => ({
+        ...member,
+        role: toFirmMemberRole(member.role),
+      })),
+      pendingInvites: invites.map((invite) => ({
+        ...invite,
+        role: toFirmMemberRole(invite.role),
+      })),
+    },
+  } as const;
+}
+
+/**
+ * Emails an invitation to join the owner's firm. Inviting the same address
+ * again replaces the earlier invitation, so only the latest link works.
+ */
+export async function inviteFirmMember({
+  db,
+  env,
+  userId,
+  email,
+  role,
+}: WithDbAndEnv<{
+  userId: string;
+  email: string;
+  role: FirmMemberRole;
+}>): Promise<ServiceResult<FirmInviteSummary>> {
+  const membershipResult = await ensureFirmMembership({ db, userId });
+  if (!membershipResult.ok) {
+    return membershipResult;
+  }
+
+  const permissionResult = checkFirmPermission({
+    membership: membershipResult.data,
+    permission: FirmPermissions.MANAGE_MEMBERS,
+  });
+  if (!permissionResult.ok) {
+    return permissionResult;
+  }
+
+  const firmId = membershipResult.data.firmId;
+  const normalizedEmail = email.trim().toLowerCase();
+  const existingMembers = await db
+    .select({ id: FirmMemberTable.id })
+    .from(FirmMemberTable)
+    .innerJoin(UserTable, eq(FirmMemberTable.userId, UserTable.id))
+    .where(
+      and(
+        eq(FirmMemberTable.firmId, firmId),
+        eq(FirmMemberTable.isActive, true),
+        eq(UserTable.email, normalizedEmail),
+        eq(UserTable.isActive, true)
+      )
+    );
+
+  if (existingMembers.length > 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.FIRM_MEMBERSHIP_EXISTS,
+      error: "This person is already a member of your firm",
+    } as const;
+  }
+
+  const now = new Date();
+  await db
+    .update(FirmInviteTable)
+    .set({ isActive: false, updatedAt: now })
+    .where(
+      and(
+        eq(FirmInviteTable.firmId, firmId),
+        eq(FirmInviteTable.email, normalizedEmail),
+        eq(FirmInviteTable.isActive, true),
+        isNull(FirmInviteTable.acceptedAt)
+      )
+    );
+
+  const token = generateOpaqueToken();
+  const invites = await db
+    .insert(FirmInviteTable)
+    .values({
+      firmId,
+      email: normalizedEmail,
+      role,
+      tokenHash: await hashOpaqueToken(token),
+      invitedBy: userId,
+      expiresAt: new Date(now.getTime() + FirmInviteTtlMs),
+    })
+    .returning({
+      inviteId: FirmInviteTable.id,
+      email: FirmInviteTable.email,
+      expiresAt: FirmInviteTable.expiresAt,
+      createdAt: FirmInviteTable.createdAt,
+    });
+
+  const inviters = await db
+    .select({ email: UserTable.email, name: UserTable.name })
+    .from(UserTable)
+    .where(eq(UserTable.id, userId));
+
+  const acceptUrl = new URL(getAppUrl({ env, path: FirmInvitePath }));
+  acceptUrl.searchParams.set("token", token);
+
+  const emailResult = await queueEmail({
+    db,
+    env,
+    to: normalizedEmail,
+    ...renderEmail("firm-invite", {
+      firmName: membershipResult.data.firmName,
+      inviterName: inviters[0]?.name ?? inviters[0]?.email ?? "A colleague",
+      role,
+      acceptUrl: acceptUrl.toString(),
+      expiresInDays: FirmInviteTtlMs / (24 * 60 * 60 * 1000),
+    }),
+  });
+  if (!emailResult.ok) {
+    return emailResult;
+  }
+
+  return { ok: true, data: { ...invites[0], role } } as const;
+}
+
+/**
+ * Adds the signed-in user to the inviting firm. The invitation is bound to
+ * the email it was sent to, and users who already belong to a firm must
+ * leave it first so their existing submissions keep a single owner.
+ */
+export async function acceptFirmInvite({
+  db,
+  userId,
+  token,
+}: WithDb<{ userId: string; token: string }>): Promise<
+  ServiceResult<FirmMembership>
+> {
+  const now = new Date();
+  const invites = await db
+    .select({
+      id: FirmInviteTable.id,
+      firmId: FirmInviteTable.firmId,
+      firmName: FirmTable.name,
+      email: FirmInviteTable.email,
+      role: FirmInviteTable.role,
+    })
+    .from(FirmInviteTable)
+    .innerJoin(FirmTable, eq(FirmInviteTable.firmId, FirmTable.id))
+    .where(
+      and(
+        eq(FirmInviteTable.tokenHash, await hashOpaqueToken(token)),
+        eq(FirmInviteTable.isActive, true),
+        isNull(FirmInviteTable.acceptedAt),
+        gt(FirmInviteTable.expiresAt, now),
+        eq(FirmTable.isActive, true)
+      )
+    );
+
+  if (invites.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_FIRM_INVITE,
+      error: "Invitation is invalid or has expired",
+    } as const;
+  }
+
+  const invite = invites[0];
+  const users = await db
+    .select({ email: UserTable.email })
+    .from(UserTable)
+    .where(and(eq(UserTable.id, userId), eq(UserTable.isActive, true)));
+
+  if (users.length === 0 || users[0].email.toLowerCase() !== invite.email) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.FIRM_INVITE_EMAIL_MISMATCH,
+      error: `This invitation was sent to ${invite.email}`,
+    } as const;
+  }
+
+  const existing = await getFirmMembership({ db, userId });
+  if (existing !== null && existing.firmId !== invite.firmId) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.FIRM_MEMBERSHIP_EXISTS,
+      error: `You already belong to ${existing.firmName}`,
+    } as const;
+  }
+
+  const accepted = await db
+    .update(FirmInviteTable)
+    .set({ acceptedAt: now, updatedAt: now })
+    .where(and(eq(FirmInviteTable.id, invite.id), isNull(FirmInviteTable.acceptedAt)))
+    .returning({ id: FirmInviteTable.id });
+
+  if (accepted.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_FIRM_INVITE,
+      error: "Invitation is invalid or has expired",
+    } as const;
+  }
+
+  if (existing !== null) {
+    return { ok: true, data: existing } as const;
+  }
+
+  const role = toFirmMemberRole(invite.role);
+  await db.insert(FirmMemberTable).values({
+    firmId: invite.firmId,
+    userId,
+    role,
+  });
+
+  return {
+    ok: true,
+    data: { firmId: invite.firmId, firmName: invite.firmName, role },
+  } as const;
+}
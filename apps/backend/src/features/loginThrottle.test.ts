@@ -0,0 +1,166 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { beforeAll, describe, expect, it } from "vitest";
+import {
+  LoginFailureWindowMs,
+  LoginMaxFailuresPerEmail,
+  LoginMaxFailuresPerIp,
+} from "./authConstants";
+import type { connectDb } from "./db/connect";
+import {
+  clearFailedLogins,
+  getLoginLockout,
+  recordFailedLogin,
+  throttleEmailedLinkRequest,
+} from "./loginThrottle";
+
+const client = new PGlite();
+const db = drizzle(client, { casing: "snake_case" }) as unknown as ReturnType<
+  typeof connectDb
+>;
+
+async function recordFailures({
+  email,
+  ip,
+  now,
+  count,
+}: {
+  email: string;
+  ip: string | null;
+  now: Date;
+  count: number;
+}) {
+  for (let attempt = 0; attempt < count; attempt += 1) {
+    await recordFailedLogin({ db, email, ip, now });
+  }
+}
+
+describe("login throttle", () => {
+  // Applying every migration to a fresh PGlite takes several seconds.
+  beforeAll(async () => {
+    await migrate(drizzle(client), { migrationsFolder: "./migrations" });
+  }, 60_000);
+
+  it("locks an email out and doubles the wait on each failure", async () => {
+    const email = "locked@example.com";
+    const now = new Date("2026-01-01T00:00:00Z");
+
+    await recordFailures({
+      email,
+      ip: null,
+      now,
+      count: LoginMaxFailuresPerEmail - 1,
+    });
+    await expect(
+      getLoginLockout({ db, email, ip: null, now })
+    ).resolves.toBeNull();
+
+    await recordFailedLogin({ db, email, ip: null, now });
+    await expect(
+      getLoginLockout({ db, email, ip: null, now })
+    ).resolves.toEqual({ retryAfterSeconds: 30 });
+
+    // Addresses are matched case-insensitively.
+    await expect(
+      getLoginLockout({ db, email: " LOCKED@example.com ", ip: null, now })
+    ).resolves.toEqual({ retryAfterSeconds: 30 });
+
+    await recordFailedLogin({ db, email, ip: null, now });
+    await expect(
+      getLoginLockout({ db, email, ip: null, now })
+    ).resolves.toEqual({ retryAfterSeconds: 60 });
+
+    await expect(
+      getLoginLockout({
+        db,
+        email,
+        ip: null,
+        now: new Date(now.getTime() + 60_000),
+      })
+    ).resolves.toBeNull();
+  });
+
+  it("locks a client IP out across different emails", async () => {
+    const ip = "203.0.113.7";
+    const now = new Date("2026-01-01T00:00:00Z");
+
+    for (let attempt = 0; attempt < LoginMaxFailuresPerIp; attempt += 1) {
+      await expect(
+        getLoginLockout({ db, email: `spray-${attempt}@example.com`, ip, now })
+      ).resolves.toBeNull();
+      await recordFailedLogin({
+        db,
+        email: `spray-${attempt}@example.com`,
+        ip,
+        now,
+      });
+    }
+
+    await expect(
+      getLoginLockout({ db, email: "fresh@example.com", ip, now })
+    ).resolves.toEqual({ retryAfterSeconds: 30 });
+    await expect(
+      getLoginLockout({
+        db,
+        email: "fresh@example.com",
+        ip: "203.0.113.8",
+        now,
+      })
+    ).resolves.toBeNull();
+  });
+
+  it("starts counting again after a quiet window", async () => {
+    const email = "window@example.com";
+    const now = new Date("2026-01-01T00:00:00Z");
+    const later = new Date(now.getTime() + LoginFailureWindowMs + 1);
+
+    await recordFailures({
+      email,
+      ip: null,
+      now,
+      count: LoginMaxFailuresPerEmail - 1,
+    });
+    await recordFailedLogin({ db, email, ip: null, now: later });
+
+    await expect(
+      getLoginLockout({ db, email, ip: null, now: later })
+    ).resolves.toBeNull();
+  });
+
+  it("clears the email counter after a successful login", async () => {
+    const email = "cleared@example.com";
+    const now = new Date("2026-01-01T00:00:00Z");
+
+    await recordFailures({
+      email,
+      ip: null,
+      now,
+      count: LoginMaxFailuresPerEmail,
+    });
+    await clearFailedLogins({ db, email });
+
+    await expect(
+      getLoginLockout({ db, email, ip: null, now })
+    ).resolves.toBeNull();
+  });
+
+  it("counts emailed link requests and refuses them once locked", async () => {
+    const email = "links@example.com";
+    const now = new Date("2026-01-01T00:00:00Z");
+
+    for (let request = 0; request < LoginMaxFailuresPerEmail; request += 1) {
+      await expect(
+        throttleEmailedLinkRequest({ db, email, ip: null, now })
+      ).resolves.toBeNull();
+    }
+
+    await expect(
+      throttleEmailedLinkRequest({ db, email, ip: null, now })
+    ).resolves.toEqual({ retryAfterSeconds: 30 });
+    // A refused request is not recorded, so the wait does not grow.
+    await expect(
+      throttleEmailedLinkRequest({ db, email, ip: null, now })
+    ).resolves.toEqual({ retryAfterSeconds: 30 });
+  });
+});
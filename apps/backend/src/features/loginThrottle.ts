@@ -0,0 +1,201 @@
+import { and, eq, gt, or, sql } from "drizzle-orm";
+import { WithDb } from "../utils/commonTypes";
+import {
+  LoginFailureWindowMs,
+  LoginLockoutBaseMs,
+  LoginLockoutMaxMs,
+  LoginMaxFailuresPerEmail,
+  LoginMaxFailuresPerIp,
+} from "./authConstants";
+import {
+  LoginThrottleScopes,
+  LoginThrottleTable,
+  type LoginThrottleScope,
+} from "./db/schema";
+
+type LoginThrottleSubject = {
+  scope: LoginThrottleScope;
+  key: string;
+  maxFailures: number;
+};
+
+function getThrottleSubjects({
+  email,
+  ip,
+}: {
+  email: string;
+  ip: string | null;
+}): LoginThrottleSubject[] {
+  const subjects: LoginThrottleSubject[] = [
+    {
+      scope: LoginThrottleScopes.EMAIL,
+      key: email.trim().toLowerCase(),
+      maxFailures: LoginMaxFailuresPerEmail,
+    },
+  ];
+
+  if (ip) {
+    subjects.push({
+      scope: LoginThrottleScopes.IP,
+      key: ip,
+      maxFailures: LoginMaxFailuresPerIp,
+    });
+  }
+
+  return subjects;
+}
+
+function getLockoutDurationMs({
+  failedAttempts,
+  maxFailures,
+}: {
+  failedAttempts: number;
+  maxFailures: number;
+}): number {
+  if (failedAttempts < maxFailures) {
+    return 0;
+  }
+
+  // Capping the exponent keeps 2 ** n finite for very long attack runs.
+  const exponent = Math.min(failedAttempts - maxFailures, 30);
+  return Math.min(LoginLockoutBaseMs * 2 ** exponent, LoginLockoutMaxMs);
+}
+
+/**
+ * Returns how long the caller must wait before trying again, or null when
+ * neither the email nor the client IP is locked out. Checked before the
+ * password hash is compared so locked attempts cost no bcrypt work.
+ */
+export async function getLoginLockout({
+  db,
+  email,
+  ip,
+  now,
+}: WithDb<{
+  email: string;
+  ip: string | null;
+  now: Date;
+}>): Promise<{ retryAfterSeconds: number } | null> {
+  const subjects = getThrottleSubjects({ email, ip });
+  const locks = await db
+    .select({ lockedUntil: LoginThrottleTable.lockedUntil })
+    .from(LoginThrottleTable)
+    .where(
+      and(
+        or(
+          ...subjects.map((subject) =>
+            and(
+              eq(LoginThrottleTable.scope, subject.scope),
+              eq(LoginThrottleTable.key, subject.key)
+            )
+          )
+        ),
+        gt(LoginThrottleTable.lockedUntil, now)
+      )
+    );
+
+  const lockedUntil = Math.max(
+    0,
+    ...locks.map((lock) => lock.lockedUntil?.getTime() ?? 0)
+  );
+  if (lockedUntil === 0) {
+    return null;
+  }
+
+  return {
+    retryAfterSeconds: Math.max(1, Math.ceil((lockedUntil - now.getTime()) / 1000)),
+  };
+}
+
+export async function recordFailedLogin({
+  db,
+  email,
+  ip,
+  now,
+}: WithDb<{
+  email: string;
+  ip: string | null;
+  now: Date;
+}>): Promise<void> {
+  const windowStart = new Date(now.getTime() - LoginFailureWindowMs);
+
+  for (const subject of getThrottleSubjects({ email, ip })) {
+    // Counting happens in one statement so concurrent failures are not lost;
+    // a failure after a quiet window starts the count again.
+    const counters = await db
+      .insert(LoginThrottleTable)
+      .values({
+        scope: subject.scope,
+        key: subject.key,
+        failedAttempts: 1,
+        lastFailedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: [LoginThrottleTable.scope, LoginThrottleTable.key],
+        set: {
+          failedAttempts: sql`case when ${LoginThrottleTable.lastFailedAt} < ${windowStart} then 1 else ${LoginThrottleTable.failedAttempts} + 1 end`,
+          lastFailedAt: now,
+          updatedAt: now,
+        },
+      })
+      .returning({
+        id: LoginThrottleTable.id,
+        failedAttempts: LoginThrottleTable.failedAttempts,
+      });
+
+    const lockoutMs = getLockoutDurationMs({
+      failedAttempts: counters[0].failedAttempts,
+      maxFailures: subject.maxFailures,
+    });
+    if (lockoutMs > 0) {
+      await db
+        .update(LoginThrottleTable)
+        .set({ lockedUntil: new Date(now.getTime() + lockoutMs), updatedAt: now })
+        .where(eq(LoginThrottleTable.id, counters[0].id));
+    }
+  }
+}
+
+/**
+ * Resets the email counter after a successful login. The IP counter is left
+ * to expire, so one valid account cannot be used to keep guessing others.
+ */
+export async function clearFailedLogins({
+  db,
+  email,
+}: WithDb<{ email: string }>): Promise<void> {
+  await db
+    .delete(LoginThrottleTable)
+    .where(
+      and(
+        eq(LoginThrottleTable.scope, LoginThrottleScopes.EMAIL),
+        eq(LoginThrottleTable.key, email.trim().toLowerCase())
+      )
+    );
+}
+
+/**
+ * For endpoints that email a sign-in, reset or verification link. Every
+ * request counts against the login counters for the address and the client
+ * IP, so mailing links is throttled like guessing passwords. Returns the
+ * wait when either counter is already locked, in which case nothing is
+ * recorded.
+ */
+export async function throttleEmailedLinkRequest({
+  db,
+  email,
+  ip,
+  now,
+}: WithDb<{
+  email: string;
+  ip: string | null;
+  now: Date;
+}>): Promise<{ retryAfterSeconds: number } | null> {
+  const lockout = await getLoginLockout({ db, email, ip, now });
+  if (lockout !== null) {
+    return lockout;
+  }
+
+  await recordFailedLogin({ db, email, ip, now });
+  return null;
+}
@@ -0,0 +1,105 @@
+import { renderEmail } from "@repo/email-templates";
+import { and, eq, isNull } from "drizzle-orm";
+import { WithDbAndEnv } from "../utils/commonTypes";
+import { ErrorCodes } from "../utils/error";
+import { MagicLinkTokenTtlMs } from "./authConstants";
+import { UserTable, UserTokenPurposes } from "./db/schema";
+import { getAppUrl } from "./email";
+import { queueEmail } from "./emailOutbox";
+import { startSignIn, type SignInResult } from "./twoFactor";
+import { getUserByEmail } from "./user";
+import { consumeUserToken, issueUserToken } from "./userTokens";
+
+type ServiceResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; errorCode: ErrorCodes; error: string };
+
+const MagicLinkPath = "/magic-link";
+
+/**
+ * Emails a sign-in link to an existing account. Unknown emails succeed
+ * without sending anything so the endpoint does not reveal which addresses
+ * are registered.
+ */
+export async function requestMagicLink({
+  db,
+  env,
+  email,
+}: WithDbAndEnv<{ email: string }>): Promise<ServiceResult<true>> {
+  const user = await getUserByEmail({ db, email });
+  if (user === null) {
+    return { ok: true, data: true } as const;
+  }
+
+  const { token } = await issueUserToken({
+    db,
+    userId: user.id,
+    purpose: UserTokenPurposes.MAGIC_LINK,
+    ttlMs: MagicLinkTokenTtlMs,
+  });
+
+  const signInUrl = new URL(getAppUrl({ env, path: MagicLinkPath }));
+  signInUrl.searchParams.set("token", token);
+
+  const queued = await queueEmail({
+    db,
+    env,
+    to: user.email,
+    ...renderEmail("magic-link", {
+      signInUrl: signInUrl.toString(),
+      expiresInMinutes: MagicLinkTokenTtlMs / 60_000,
+    }),
+  });
+  if (!queued.ok) {
+    return queued;
+  }
+
+  return { ok: true, data: true } as const;
+}
+
+/**
+ * Exchanges a magic-link token for a new session, or for a two-factor
+ * challenge when the user has a second factor. Following the link proves
+ * the user controls the mailbox, so the email is marked verified as well.
+ */
+export async function redeemMagicLink({
+  db,
+  env,
+  token,
+}: WithDbAndEnv<{ token: string }>): Promise<ServiceResult<SignInResult>> {
+  const consumed = await consumeUserToken({
+    db,
+    token,
+    purpose: UserTokenPurposes.MAGIC_LINK,
+  });
+
+  if (consumed === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_MAGIC_LINK,
+      error: "Sign-in link is invalid or has expired",
+    } as const;
+  }
+
+  const users = await db
+    .select({ id: UserTable.id })
+    .from(UserTable)
+    .where(and(eq(UserTable.id, consumed.userId), eq(UserTable.isActive, true)));
+
+  if (users.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_MAGIC_LINK,
+      error: "Sign-in link is invalid or has expired",
+    } as const;
+  }
+
+  const now = new Date();
+  await db
+    .update(UserTable)
+    .set({ emailVerifiedAt: now, updatedAt: now })
+    .where(and(eq(UserTable.id, consumed.userId), isNull(UserTable.emailVerifiedAt)));
+
+  const signIn = await startSignIn({ db, env, userId: consumed.userId });
+  return { ok: true, data: signIn } as const;
+}
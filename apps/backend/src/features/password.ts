@@ -0,0 +1,158 @@
+import { renderEmail } from "@repo/email-templates";
+import { and, eq, isNull } from "drizzle-orm";
+import { WithDb, WithDbAndEnv } from "../utils/commonTypes";
+import { ErrorCodes } from "../utils/error";
+import {
+  createSession,
+  hashPassword,
+  revokeAllSessionsForUser,
+  verifyPassword,
+  type AuthTokens,
+} from "./auth";
+import { AuthSessionRevokedReasons, PasswordResetTokenTtlMs } from "./authConstants";
+import { UserTable, UserTokenPurposes } from "./db/schema";
+import { getAppUrl } from "./email";
+import { queueEmail } from "./emailOutbox";
+import { getUserByEmail } from "./user";
+import { consumeUserToken, issueUserToken } from "./userTokens";
+
+type ServiceResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; errorCode: ErrorCodes; error: string };
+
+const ResetPasswordPath = "/reset-password";
+
+/**
+ * Stores the new hash and signs the user out everywhere, so a leaked
+ * password or session stops working once the password is changed.
+ */
+async function replacePassword({
+  db,
+  userId,
+  password,
+}: WithDb<{ userId: string; password: string }>): Promise<void> {
+  await db
+    .update(UserTable)
+    .set({ passwordHash: await hashPassword(password), updatedAt: new Date() })
+    .where(eq(UserTable.id, userId));
+
+  await revokeAllSessionsForUser({
+    db,
+    userId,
+    reason: AuthSessionRevokedReasons.PASSWORD_CHANGED,
+  });
+}
+
+/**
+ * Emails a reset link to an existing account. Unknown emails succeed
+ * without sending anything so the endpoint does not reveal which addresses
+ * are registered.
+ */
+export async function requestPasswordReset({
+  db,
+  env,
+  email,
+}: WithDbAndEnv<{ email: string }>): Promise<ServiceResult<true>> {
+  const user = await getUserByEmail({ db, email });
+  if (user === null) {
+    return { ok: true, data: true } as const;
+  }
+
+  const { token } = await issueUserToken({
+    db,
+    userId: user.id,
+    purpose: UserTokenPurposes.PASSWORD_RESET,
+    ttlMs: PasswordResetTokenTtlMs,
+  });
+
+  const resetUrl = new URL(getAppUrl({ env, path: ResetPasswordPath }));
+  resetUrl.searchParams.set("token", token);
+
+  const queued = await queueEmail({
+    db,
+    env,
+    to: user.email,
+    ...renderEmail("password-reset", {
+      resetUrl: resetUrl.toString(),
+      expiresInMinutes: PasswordResetTokenTtlMs / 60_000,
+    }),
+  });
+  if (!queued.ok) {
+    return queued;
+  }
+
+  return { ok: true, data: true } as const;
+}
+
+export async function resetPasswordWithToken({
+  db,
+  token,
+  password,
+}: WithDb<{ token: string; password: string }>): Promise<ServiceResult<true>> {
+  const consumed = await consumeUserToken({
+    db,
+    token,
+    purpose: UserTokenPurposes.PASSWORD_RESET,
+  });
+
+  if (consumed === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_PASSWORD_RESET_TOKEN,
+      error: "Reset link is invalid or has expired",
+    } as const;
+  }
+
+  await replacePassword({ db, userId: consumed.userId, password });
+
+  // Following the reset link proves the user controls the mailbox.
+  const now = new Date();
+  await db
+    .update(UserTable)
+    .set({ emailVerifiedAt: now, updatedAt: now })
+    .where(and(eq(UserTable.id, consumed.userId), isNull(UserTable.emailVerifiedAt)));
+
+  return { ok: true, data: true } as const;
+}
+
+/**
+ * Changes the password of a signed-in user. All sessions are revoked,
+ * including the caller's, and a fresh session is returned for the caller.
+ */
+export async function changePassword({
+  db,
+  env,
+  userId,
+  currentPassword,
+  newPassword,
+}: WithDbAndEnv<{
+  userId: string;
+  currentPassword: string;
+  newPassword: string;
+}>): Promise<ServiceResult<AuthTokens>> {
+  const users = await db
+    .select({ passwordHash: UserTable.passwordHash })
+    .from(UserTable)
+    .where(and(eq(UserTable.id, userId), eq(UserTable.isActive, true)));
+
+  if (users.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.USER_NOT_FOUND,
+      error: "User not found",
+    } as const;
+  }
+
+  if (!(await verifyPassword(currentPassword, users[0].passwordHash))) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_CREDENTIALS,
+      error: "Current password is incorrect",
+    } as const;
+  }
+
+  await replacePassword({ db, userId, password: newPassword });
+
+  const tokens = await createSession({ db, env, userId });
+  return { ok: true, data: tokens } as const;
+}
@@ -0,0 +1,81 @@
+import { AdminRoleName } from "./adminConstants";
+import { UploadAllowedRoleName } from "./uploadConstants";
+
+export const RoleNames = {
+  ADMIN: AdminRoleName,
+  APPLICANT: UploadAllowedRoleName,
+  EVALUATOR: "evaluator",
+  AUDITOR: "auditor",
+  TENDER_MANAGER: "tender_manager",
+} as const;
+
+export type RoleName = (typeof RoleNames)[keyof typeof RoleNames];
+
+/** Roles that can be granted from the admin user management endpoints. */
+export const StaffRoleNames = [
+  RoleNames.ADMIN,
+  RoleNames.EVALUATOR,
+  RoleNames.AUDITOR,
+  RoleNames.TENDER_MANAGER,
+] as const;
+
+export type StaffRoleName = (typeof StaffRoleNames)[number];
+
+export const Permissions = {
+  APPLICATION_SUBMIT: "application.submit",
+  SUBMISSION_READ: "submission.read",
+  FILE_DOWNLOAD: "file.download",
+  TENDER_READ: "tender.read",
+  TENDER_EDIT: "tender.edit",
+  USER_READ: "user.read",
+  USER_GRANT: "user.grant",
+  EMAIL_READ: "email.read",
+} as const;
+
+export type Permission = (typeof Permissions)[keyof typeof Permissions];
+
+const AllPermissions = Object.values(Permissions);
+
+export const RolePermissions: Record<RoleName, readonly Permission[]> = {
+  [RoleNames.ADMIN]: AllPermissions,
+  [RoleNames.APPLICANT]: [Permissions.APPLICATION_SUBMIT],
+  [RoleNames.EVALUATOR]: [Permissions.SUBMISSION_READ, Permissions.FILE_DOWNLOAD],
+  [RoleNames.AUDITOR]: [
+    Permissions.SUBMISSION_READ,
+    Permissions.FILE_DOWNLOAD,
+    Permissions.TENDER_READ,
+    Permissions.USER_READ,
+  ],
+  [RoleNames.TENDER_MANAGER]: [
+    Permissions.SUBMISSION_READ,
+    Permissions.TENDER_READ,
+    Permissions.TENDER_EDIT,
+  ],
+};
+
+function isRoleName(roleName: string): roleName is RoleName {
+  return Object.prototype.hasOwnProperty.call(RolePermissions, roleName);
+}
+
+export function isStaffRoleName(roleName: string): roleName is StaffRoleName {
+  return (StaffRoleNames as readonly string[]).includes(roleName);
+}
+
+/**
+ * Union of the permissions granted by each role. Unknown role names grant
+ * nothing, so a role row added to the database without a matrix entry is
+ * inert until the code knows about it.
+ */
+export function getPermissionsForRoleNames(roleNames: string[]): Permission[] {
+  const permissions = new Set<Permission>();
+  for (const roleName of roleNames) {
+    if (!isRoleName(roleName)) {
+      continue;
+    }
+    for (const permission of RolePermissions[roleName]) {
+      permissions.add(permission);
+    }
+  }
+
+  return AllPermissions.filter((permission) => permissions.has(permission));
+}
@@ -21,7 +21,13 @@ if (typeof globalThis.Node === "undefined") {
 import {
   AbortMultipartUploadCommand,
   CompleteMultipartUploadCommand,
+  CopyObjectCommand,
   CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListPartsCommand,
+  NotFound,
   PutObjectCommand,
   S3Client,
   UploadPartCommand,
@@ -31,6 +37,7 @@ import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { FetchHttpHandler } from "@smithy/fetch-http-handler";
 import { WithEnv } from "../utils/commonTypes";
 import { ErrorCodes } from "../utils/error";
+import { updateCrc32 } from "./crc32";
 
 type ServiceResult<T> =
   | { ok: true; data: T }
@@ -49,8 +56,18 @@ const R2OperationNames = {
   CREATE_MULTIPART_UPLOAD: "create_multipart_upload",
   COMPLETE_MULTIPART_UPLOAD: "complete_multipart_upload",
   ABORT_MULTIPART_UPLOAD: "abort_multipart_upload",
+  LIST_PARTS: "list_parts",
+  PRESIGN_PARTS: "presign_parts",
+  COMPUTE_OBJECT_DIGESTS: "compute_object_digests",
+  READ_OBJECT_PREFIX: "read_object_prefix",
+  QUARANTINE_OBJECT: "quarantine_object",
+  OPEN_OBJECT_STREAM: "open_object_stream",
+  DELETE_OBJECT: "delete_object",
+  HEAD_OBJECT: "head_object",
 } as const;
 
+const QuarantineKeyPrefix = "quarantine/";
+
 type R2OperationName = (typeof R2OperationNames)[keyof typeof R2OperationNames];
 
 const R2ConfigDebugReasons = {
@@ -119,6 +136,19 @@ export type CompletedUploadPart = {
   etag: string;
 };
 
+export const PartChecksumAlgorithms = {
+  CRC32: "CRC32",
+  SHA256: "SHA256",
+} as const;
+
+export type PartChecksumAlgorithm =
+  (typeof PartChecksumAlgorithms)[keyof typeof PartChecksumAlgorithms];
+
+export type PartChecksums = {
+  algorithm: PartChecksumAlgorithm;
+  checksumsByPartNumber: Map<number, string>;
+};
+
 export type PresignedPart = {
   partNumber: number;
   url: string;
@@ -126,6 +156,7 @@ export type PresignedPart = {
 };
 
 const PresignedUrlTtlSeconds = 60 * 60;
+const ListPartsPageSize = 1000;
 const ProviderRetryDelaysMs = [250, 750] as const;
 const ProviderMaxAttempts = ProviderRetryDelaysMs.length + 1;
 
@@ -145,6 +176,11 @@ const RetryableProviderCauseCodes = [
 
 const NonRetryableProviderCauseCodes = ["DOM_PARSER_UNAVAILABLE"] as const;
 
+const ChecksumHeaderNames: Record<PartChecksumAlgorithm, string> = {
+  CRC32: "x-amz-checksum-crc32",
+  SHA256: "x-amz-checksum-sha256",
+};
+
 function isPlaceholderValue(value: string): boolean {
   return value.startsWith("replace-with-");
 }
@@ -575,9 +611,13 @@ export async function createSingleUploadWithPresignedUrl({
   env,
   objectKey,
   contentType,
+  fileSizeBytes,
+  checksumSha256,
 }: WithEnv<{
   objectKey: string;
   contentType: string;
+  fileSizeBytes: number;
+  checksumSha256?: string;
 }>): Promise<
   ServiceResult<{
     url: string;
@@ -600,9 +640,17 @@ export async function createSingleUploadWithPresignedUrl({
         Bucket: bucket,
         Key: objectKey,
         ContentType: contentType,
+        ContentLength: fileSizeBytes,
+        ...(checksumSha256 ? { ChecksumSHA256: checksumSha256 } : {}),
       });
+      // Content-Length is signed, so the PUT must carry exactly the declared
+      // size. The checksum header stays a signed header so R2 rejects any
+      // body whose digest differs from the one declared at initiate time.
       const url = await getSignedUrl(client, putObjectCommand, {
         expiresIn: PresignedUrlTtlSeconds,
+        ...(checksumSha256
+          ? { unhoistableHeaders: new Set([ChecksumHeaderNames.SHA256]) }
+          : {}),
       });
       const expiresAt = new Date(
         Date.now() + PresignedUrlTtlSeconds * 1000
@@ -618,10 +666,12 @@ export async function createMultipartUploadWithPresignedParts({
   objectKey,
   contentType,
   totalParts,
+  partChecksums,
 }: WithEnv<{
   objectKey: string;
   contentType: string;
   totalParts: number;
+  partChecksums?: PartChecksums;
 }>): Promise<
   ServiceResult<{
     uploadId: string;
@@ -652,6 +702,7 @@ export async function createMultipartUploadWithPresignedParts({
         Bucket: bucket,
         Key: objectKey,
         ContentType: contentType,
+        ...(partChecksums ? { ChecksumAlgorithm: partChecksums.algorithm } : {}),
       });
       const created = await client.send(createCommand);
       return { uploadId: created.UploadId };
@@ -669,21 +720,73 @@ export async function createMultipartUploadWithPresignedParts({
     } as const;
   }
 
+  const partNumbers = Array.from({ length: totalParts }, (_, index) => index + 1);
+  const signResult = await signUploadPartUrls({
+    client,
+    bucket,
+    endpoint,
+    runtime,
+    objectKey,
+    uploadId: createResult.data.uploadId,
+    partNumbers,
+    partChecksums,
+    operation: R2OperationNames.CREATE_MULTIPART_UPLOAD,
+  });
+  if (!signResult.ok) {
+    return signResult;
+  }
+
+  return {
+    ok: true,
+    data: {
+      uploadId: createResult.data.uploadId,
+      parts: signResult.data,
+    },
+  } as const;
+}
+
+async function signUploadPartUrls({
+  client,
+  bucket,
+  endpoint,
+  runtime,
+  objectKey,
+  uploadId,
+  partNumbers,
+  partChecksums,
+  operation,
+}: R2ClientData & {
+  objectKey: string;
+  uploadId: string;
+  partNumbers: number[];
+  partChecksums?: PartChecksums;
+  operation: R2OperationName;
+}): Promise<ServiceResult<PresignedPart[]>> {
   try {
     const expiresAt = new Date(
       Date.now() + PresignedUrlTtlSeconds * 1000
     ).toISOString();
 
-    const partPromises = Array.from({ length: totalParts }, async (_, index) => {
-      const partNumber = index + 1;
+    const partPromises = partNumbers.map(async (partNumber) => {
+      const checksum = partChecksums?.checksumsByPartNumber.get(partNumber);
       const partCommand = new UploadPartCommand({
         Bucket: bucket,
         Key: objectKey,
-        UploadId: createResult.data.uploadId,
+        UploadId: uploadId,
         PartNumber: partNumber,
+        ...(partChecksums && checksum
+          ? toPartChecksumFields({ algorithm: partChecksums.algorithm, checksum })
+          : {}),
       });
       const url = await getSignedUrl(client, partCommand, {
         expiresIn: PresignedUrlTtlSeconds,
+        ...(partChecksums && checksum
+          ? {
+              unhoistableHeaders: new Set([
+                ChecksumHeaderNames[partChecksums.algorithm],
+              ]),
+            }
+          : {}),
       });
 
       return { partNumber, url, expiresAt } as const;
@@ -691,13 +794,7 @@ export async function createMultipartUploadWithPresignedParts({
 
     const parts = await Promise.all(partPromises);
 
-    return {
-      ok: true,
-      data: {
-        uploadId: createResult.data.uploadId,
-        parts,
-      },
-    } as const;
+    return { ok: true, data: parts } as const;
   } catch (error) {
     const normalizedError =
       error instanceof Error ||
@@ -709,7 +806,7 @@ export async function createMultipartUploadWithPresignedParts({
         : undefined;
     const debug = buildProviderDebugInfo({
       error: normalizedError,
-      operation: R2OperationNames.CREATE_MULTIPART_UPLOAD,
+      operation,
       endpoint,
       runtime,
       attemptCount: 1,
@@ -724,17 +821,39 @@ export async function createMultipartUploadWithPresignedParts({
   }
 }
 
+function toPartChecksumFields({
+  algorithm,
+  checksum,
+}: {
+  algorithm: PartChecksumAlgorithm;
+  checksum: string;
+}): { ChecksumCRC32: string } | { ChecksumSHA256: string } {
+  if (algorithm === PartChecksumAlgorithms.CRC32) {
+    return { ChecksumCRC32: checksum };
+  }
+
+  return { ChecksumSHA256: checksum };
+}
+
 function toCompletedParts({
   parts,
+  partChecksums,
 }: {
   parts: CompletedUploadPart[];
+  partChecksums?: PartChecksums;
 }): CompletedPart[] {
   return parts
-    .map((part) => ({
-      PartNumber: part.partNumber,
-      ETag: part.etag,
-    }))
-    .sort((left, right) => left.PartNumber! - right.PartNumber!);
+    .map((part) => {
+      const checksum = partChecksums?.checksumsByPartNumber.get(part.partNumber);
+      return {
+        PartNumber: part.partNumber,
+        ETag: part.etag,
+        ...(partChecksums && checksum
+          ? toPartChecksumFields({ algorithm: partChecksums.algorithm, checksum })
+          : {}),
+      };
+    })
+    .sort((left, right) => left.PartNumber - right.PartNumber);
 }
 
 export async function completeMultipartUpload({
@@ -742,10 +861,12 @@ export async function completeMultipartUpload({
   objectKey,
   uploadId,
   parts,
+  partChecksums,
 }: WithEnv<{
   objectKey: string;
   uploadId: string;
   parts: CompletedUploadPart[];
+  partChecksums?: PartChecksums;
 }>): Promise<ServiceResult<{ etag: string }>> {
   const r2ClientResult = getR2Client({ env });
   if (!r2ClientResult.ok) {
@@ -759,7 +880,7 @@ export async function completeMultipartUpload({
     endpoint,
     runtime,
     run: async () => {
-      const completedParts = toCompletedParts({ parts });
+      const completedParts = toCompletedParts({ parts, partChecksums });
       const completeCommand = new CompleteMultipartUploadCommand({
         Bucket: bucket,
         Key: objectKey,
@@ -829,3 +950,396 @@ export async function abortMultipartUpload({
     data: abortResult.data,
   } as const;
 }
+
+export async function listMultipartUploadParts({
+  env,
+  objectKey,
+  uploadId,
+}: WithEnv<{
+  objectKey: string;
+  uploadId: string;
+}>): Promise<ServiceResult<CompletedUploadPart[]>> {
+  const r2ClientResult = getR2Client({ env });
+  if (!r2ClientResult.ok) {
+    return r2ClientResult;
+  }
+
+  const { client, bucket, endpoint, runtime } = r2ClientResult.data;
+
+  const listResult = await runR2ProviderOperation({
+    operation: R2OperationNames.LIST_PARTS,
+    endpoint,
+    runtime,
+    run: async () => {
+      const uploadedParts: CompletedUploadPart[] = [];
+      let partNumberMarker: string | undefined = undefined;
+
+      while (true) {
+        const listCommand: ListPartsCommand = new ListPartsCommand({
+          Bucket: bucket,
+          Key: objectKey,
+          UploadId: uploadId,
+          MaxParts: ListPartsPageSize,
+          PartNumberMarker: partNumberMarker,
+        });
+        const page = await client.send(listCommand);
+
+        for (const part of page.Parts ?? []) {
+          if (typeof part.PartNumber !== "number" || typeof part.ETag !== "string") {
+            continue;
+          }
+
+          uploadedParts.push({
+            partNumber: part.PartNumber,
+            etag: part.ETag.replaceAll('"', ""),
+          });
+        }
+
+        if (!page.IsTruncated || !page.NextPartNumberMarker) {
+          return uploadedParts;
+        }
+
+        partNumberMarker = page.NextPartNumberMarker;
+      }
+    },
+  });
+  if (!listResult.ok) {
+    return listResult;
+  }
+
+  return {
+    ok: true,
+    data: listResult.data.sort((left, right) => left.partNumber - right.partNumber),
+  } as const;
+}
+
+export async function presignMultipartUploadParts({
+  env,
+  objectKey,
+  uploadId,
+  partNumbers,
+  partChecksums,
+}: WithEnv<{
+  objectKey: string;
+  uploadId: string;
+  partNumbers: number[];
+  partChecksums?: PartChecksums;
+}>): Promise<ServiceResult<PresignedPart[]>> {
+  for (const partNumber of partNumbers) {
+    if (!Number.isInteger(partNumber) || partNumber <= 0) {
+      return {
+        ok: false,
+        errorCode: ErrorCodes.INVALID_INPUT,
+        error: "partNumbers must contain positive integers",
+      } as const;
+    }
+  }
+
+  if (partNumbers.length === 0) {
+    return { ok: true, data: [] } as const;
+  }
+
+  const r2ClientResult = getR2Client({ env });
+  if (!r2ClientResult.ok) {
+    return r2ClientResult;
+  }
+
+  return signUploadPartUrls({
+    ...r2ClientResult.data,
+    objectKey,
+    uploadId,
+    partNumbers,
+    partChecksums,
+    operation: R2OperationNames.PRESIGN_PARTS,
+  });
+}
+
+function toBase64(bytes: ArrayBuffer): string {
+  let binary = "";
+  for (const byte of new Uint8Array(bytes)) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary);
+}
+
+/**
+ * Reads the whole stored object once for its SHA-256 and its CRC32, so it is
+ * only called from the scheduled digest job and never while a request waits.
+ * The SHA-256 runs in the runtime's native DigestStream; the CRC32 is
+ * computed in JavaScript on the way through.
+ */
+export async function computeObjectDigests({
+  env,
+  objectKey,
+}: WithEnv<{
+  objectKey: string;
+}>): Promise<ServiceResult<{ sha256: string; crc32: number }>> {
+  const r2ClientResult = getR2Client({ env });
+  if (!r2ClientResult.ok) {
+    return r2ClientResult;
+  }
+
+  const { client, bucket, endpoint, runtime } = r2ClientResult.data;
+
+  return runR2ProviderOperation({
+    operation: R2OperationNames.COMPUTE_OBJECT_DIGESTS,
+    endpoint,
+    runtime,
+    run: async () => {
+      const getCommand = new GetObjectCommand({
+        Bucket: bucket,
+        Key: objectKey,
+      });
+      const object = await client.send(getCommand);
+      if (!object.Body) {
+        throw new Error("Stored object has no body");
+      }
+
+      // Streams the object through the digest so multi-GB files are never
+      // held in Worker memory.
+      const workerCrypto = crypto as typeof crypto & {
+        DigestStream: typeof DigestStream;
+      };
+      const digestStream = new workerCrypto.DigestStream("SHA-256");
+      let crc32 = 0;
+      await (object.Body.transformToWebStream() as ReadableStream<Uint8Array>)
+        .pipeThrough(
+          new TransformStream<Uint8Array, Uint8Array>({
+            transform(chunk, controller) {
+              crc32 = updateCrc32(crc32, chunk);
+              controller.enqueue(chunk);
+            },
+          })
+        )
+        .pipeTo(digestStream);
+      const digest = await digestStream.digest;
+
+      return { sha256: toBase64(digest), crc32 };
+    },
+  });
+}
+
+export async function readObjectPrefix({
+  env,
+  objectKey,
+  byteLength,
+}: WithEnv<{
+  objectKey: string;
+  byteLength: number;
+}>): Promise<ServiceResult<{ bytes: Uint8Array }>> {
+  const r2ClientResult = getR2Client({ env });
+  if (!r2ClientResult.ok) {
+    return r2ClientResult;
+  }
+
+  const { client, bucket, endpoint, runtime } = r2ClientResult.data;
+
+  return runR2ProviderOperation({
+    operation: R2OperationNames.READ_OBJECT_PREFIX,
+    endpoint,
+    runtime,
+    run: async () => {
+      const getCommand = new GetObjectCommand({
+        Bucket: bucket,
+        Key: objectKey,
+        Range: `bytes=0-${byteLength - 1}`,
+      });
+      const object = await client.send(getCommand);
+      if (!object.Body) {
+        throw new Error("Stored object has no body");
+      }
+
+      return { bytes: await object.Body.transformToByteArray() };
+    },
+  });
+}
+
+export async function openObjectStream({
+  env,
+  objectKey,
+}: WithEnv<{
+  objectKey: string;
+}>): Promise<ServiceResult<{ body: ReadableStream<Uint8Array> }>> {
+  const r2ClientResult = getR2Client({ env });
+  if (!r2ClientResult.ok) {
+    return r2ClientResult;
+  }
+
+  const { client, bucket, endpoint, runtime } = r2ClientResult.data;
+
+  return runR2ProviderOperation({
+    operation: R2OperationNames.OPEN_OBJECT_STREAM,
+    endpoint,
+    runtime,
+    run: async () => {
+      const getCommand = new GetObjectCommand({
+        Bucket: bucket,
+        Key: objectKey,
+      });
+      const object = await client.send(getCommand);
+      if (!object.Body) {
+        throw new Error("Stored object has no body");
+      }
+
+      return {
+        body: object.Body.transformToWebStream() as ReadableStream<Uint8Array>,
+      };
+    },
+  });
+}
+
+// Moves an object under the quarantine prefix so it is no longer reachable at
+// its original key. R2 has no rename, so this is a server-side copy + delete.
+export async function quarantineObject({
+  env,
+  objectKey,
+}: WithEnv<{
+  objectKey: string;
+}>): Promise<ServiceResult<{ objectKey: string }>> {
+  const r2ClientResult = getR2Client({ env });
+  if (!r2ClientResult.ok) {
+    return r2ClientResult;
+  }
+
+  const { client, bucket, endpoint, runtime } = r2ClientResult.data;
+  const quarantinedObjectKey = `${QuarantineKeyPrefix}${objectKey}`;
+
+  return runR2ProviderOperation({
+    operation: R2OperationNames.QUARANTINE_OBJECT,
+    endpoint,
+    runtime,
+    run: async () => {
+      const copyCommand = new CopyObjectCommand({
+        Bucket: bucket,
+        Key: quarantinedObjectKey,
+        CopySource: `${bucket}/${encodeURIComponent(objectKey)}`,
+      });
+      await client.send(copyCommand);
+
+      const deleteCommand = new DeleteObjectCommand({
+        Bucket: bucket,
+        Key: objectKey,
+      });
+      await client.send(deleteCommand);
+
+      return { objectKey: quarantinedObjectKey };
+    },
+  });
+}
+
+export async function deleteObject({
+  env,
+  objectKey,
+}: WithEnv<{
+  objectKey: string;
+}>): Promise<ServiceResult<{ deleted: true }>> {
+  const r2ClientResult = getR2Client({ env });
+  if (!r2ClientResult.ok) {
+    return r2ClientResult;
+  }
+
+  const { client, bucket, endpoint, runtime } = r2ClientResult.data;
+
+  return runR2ProviderOperation({
+    operation: R2OperationNames.DELETE_OBJECT,
+    endpoint,
+    runtime,
+    run: async () => {
+      const deleteCommand = new DeleteObjectCommand({
+        Bucket: bucket,
+        Key: objectKey,
+      });
+      await client.send(deleteCommand);
+
+      return { deleted: true } as const;
+    },
+  });
+}
+
+export async function objectExists({
+  env,
+  objectKey,
+}: WithEnv<{
+  objectKey: string;
+}>): Promise<ServiceResult<{ exists: boolean }>> {
+  const r2ClientResult = getR2Client({ env });
+  if (!r2ClientResult.ok) {
+    return r2ClientResult;
+  }
+
+  const { client, bucket, endpoint, runtime } = r2ClientResult.data;
+
+  return runR2ProviderOperation({
+    operation: R2OperationNames.HEAD_OBJECT,
+    endpoint,
+    runtime,
+    run: async () => {
+      const headCommand = new HeadObjectCommand({
+        Bucket: bucket,
+        Key: objectKey,
+      });
+      try {
+        await client.send(headCommand);
+      } catch (error) {
+        // A missing object is an answer, not a provider failure to retry.
+        if (error instanceof NotFound) {
+          return { exists: false };
+        }
+        throw error;
+      }
+
+      return { exists: true };
+    },
+  });
+}
+
+/**
+ * Size of the stored object and the whole-file SHA-256 that R2 verified when
+ * it was written, if there is one. That is the case for a single PUT signed
+ * with `ChecksumSHA256`. Multipart objects only carry a checksum of their
+ * part checksums (`<digest>-<parts>`), which is not a file digest.
+ */
+export async function getObjectMetadata({
+  env,
+  objectKey,
+}: WithEnv<{
+  objectKey: string;
+}>): Promise<
+  ServiceResult<{ sizeBytes: number; checksumSha256: string | null }>
+> {
+  const r2ClientResult = getR2Client({ env });
+  if (!r2ClientResult.ok) {
+    return r2ClientResult;
+  }
+
+  const { client, bucket, endpoint, runtime } = r2ClientResult.data;
+
+  return runR2ProviderOperation({
+    operation: R2OperationNames.HEAD_OBJECT,
+    endpoint,
+    runtime,
+    run: async () => {
+      const headCommand = new HeadObjectCommand({
+        Bucket: bucket,
+        Key: objectKey,
+        ChecksumMode: "ENABLED",
+      });
+      const object = await client.send(headCommand);
+      if (object.ContentLength === undefined) {
+        throw new Error("Stored object has no content length");
+      }
+
+      const checksum = object.ChecksumSHA256;
+      const isWholeFileChecksum =
+        checksum !== undefined &&
+        !checksum.includes("-") &&
+        object.ChecksumType !== "COMPOSITE";
+
+      return {
+        sizeBytes: object.ContentLength,
+        checksumSha256: isWholeFileChecksum ? checksum : null,
+      };
+    },
+  });
+}
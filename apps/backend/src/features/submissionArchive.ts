@@ -0,0 +1,211 @@
+import { and, asc, eq } from "drizzle-orm";
+import { WithDbAndEnv } from "../utils/commonTypes";
+import { ErrorCodes } from "../utils/error";
+import {
+  SubmissionTable,
+  TenderTable,
+  UploadContentCheckStatuses,
+  UploadedFileTable,
+  UserTable,
+} from "./db/schema";
+import { openObjectStream } from "./r2Multipart";
+import { createBytesStream, createZipStream, type ZipStreamEntry } from "./zipStream";
+
+type Result<T> =
+  | { ok: true; data: T }
+  | { ok: false; errorCode: ErrorCodes; error: string };
+
+const ArchiveManifestFileName = "manifest.json";
+
+type ArchiveManifestFile = {
+  fileId: string;
+  questionId: string;
+  fileName: string;
+  // Path inside the archive; null when the file was left out (quarantined).
+  archivePath: string | null;
+  contentType: string;
+  fileSizeBytes: number;
+  etag: string;
+  checksumSha256: string | null;
+  contentCheckStatus: string;
+  uploadedAt: string;
+};
+
+type ArchiveManifest = {
+  applicationId: string;
+  tenderId: string;
+  tenderTitle: string;
+  applicantEmail: string;
+  status: string;
+  submittedAt: string | null;
+  generatedAt: string;
+  files: ArchiveManifestFile[];
+};
+
+function sanitizeArchivePathSegment(value: string): string {
+  const sanitized = value.trim().replace(/[\\/:*?"<>|\u0000-\u001f]/g, "_");
+  return sanitized.length === 0 || sanitized === "." || sanitized === ".."
+    ? "_"
+    : sanitized;
+}
+
+// Appends " (2)", " (3)"... before the extension when a path is already used.
+function getUniqueArchivePath(path: string, usedPaths: Set<string>): string {
+  if (!usedPaths.has(path)) {
+    usedPaths.add(path);
+    return path;
+  }
+
+  const dotIndex = path.lastIndexOf(".");
+  const slashIndex = path.lastIndexOf("/");
+  const hasExtension = dotIndex > slashIndex + 1;
+  const base = hasExtension ? path.slice(0, dotIndex) : path;
+  const extension = hasExtension ? path.slice(dotIndex) : "";
+
+  for (let counter = 2; ; counter += 1) {
+    const candidate = `${base} (${counter})${extension}`;
+    if (!usedPaths.has(candidate)) {
+      usedPaths.add(candidate);
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Builds a streamed ZIP of a submission's active files plus a manifest.
+ * Objects are read from R2 one at a time while the response is being sent.
+ */
+export async function buildSubmissionArchive({
+  db,
+  env,
+  applicationId,
+}: WithDbAndEnv<{ applicationId: string }>): Promise<
+  Result<{ fileName: string; stream: ReadableStream<Uint8Array> }>
+> {
+  const submissions = await db
+    .select({
+      applicationId: SubmissionTable.id,
+      tenderId: SubmissionTable.tenderId,
+      tenderTitle: TenderTable.title,
+      applicantEmail: UserTable.email,
+      status: SubmissionTable.status,
+      submittedAt: SubmissionTable.submittedAt,
+    })
+    .from(SubmissionTable)
+    .innerJoin(TenderTable, eq(SubmissionTable.tenderId, TenderTable.id))
+    .innerJoin(UserTable, eq(SubmissionTable.userId, UserTable.id))
+    .where(
+      and(eq(SubmissionTable.id, applicationId), eq(SubmissionTable.isActive, true))
+    );
+
+  if (submissions.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.SUBMISSION_NOT_FOUND,
+      error: "Submission not found",
+    } as const;
+  }
+
+  const submission = submissions[0];
+  const files = await db
+    .select({
+      fileId: UploadedFileTable.id,
+      questionId: UploadedFileTable.questionId,
+      objectKey: UploadedFileTable.objectKey,
+      fileName: UploadedFileTable.fileName,
+      fileSizeBytes: UploadedFileTable.fileSizeBytes,
+      contentType: UploadedFileTable.contentType,
+      etag: UploadedFileTable.etag,
+      checksumSha256: UploadedFileTable.checksumSha256,
+      crc32: UploadedFileTable.crc32,
+      contentCheckStatus: UploadedFileTable.contentCheckStatus,
+      uploadedAt: UploadedFileTable.uploadedAt,
+    })
+    .from(UploadedFileTable)
+    .where(
+      and(
+        eq(UploadedFileTable.submissionId, submission.applicationId),
+        eq(UploadedFileTable.isActive, true)
+      )
+    )
+    .orderBy(asc(UploadedFileTable.questionId), asc(UploadedFileTable.uploadedAt));
+
+  const generatedAt = new Date();
+  const usedPaths = new Set<string>([ArchiveManifestFileName]);
+  const entries: ZipStreamEntry[] = [];
+  const manifestFiles: ArchiveManifestFile[] = [];
+
+  for (const file of files) {
+    // Quarantined objects no longer live at their original key.
+    const isQuarantined =
+      file.contentCheckStatus === UploadContentCheckStatuses.QUARANTINED;
+    const archivePath = isQuarantined
+      ? null
+      : getUniqueArchivePath(
+          `${sanitizeArchivePathSegment(file.questionId)}/${sanitizeArchivePathSegment(file.fileName)}`,
+          usedPaths
+        );
+
+    manifestFiles.push({
+      fileId: file.fileId,
+      questionId: file.questionId,
+      fileName: file.fileName,
+      archivePath,
+      contentType: file.contentType,
+      fileSizeBytes: file.fileSizeBytes,
+      etag: file.etag,
+      checksumSha256: file.checksumSha256,
+      contentCheckStatus: file.contentCheckStatus,
+      uploadedAt: file.uploadedAt.toISOString(),
+    });
+
+    if (archivePath === null) {
+      continue;
+    }
+
+    entries.push({
+      name: archivePath,
+      modifiedAt: file.uploadedAt,
+      sizeBytes: file.fileSizeBytes,
+      // Files the digest job has not reached yet are checksummed in flight.
+      crc32: file.crc32,
+      open: async () => {
+        const objectResult = await openObjectStream({ env, objectKey: file.objectKey });
+        if (!objectResult.ok) {
+          throw new Error(
+            `Failed to read ${file.objectKey} for archive: ${objectResult.error}`
+          );
+        }
+
+        return objectResult.data.body;
+      },
+    });
+  }
+
+  const manifest: ArchiveManifest = {
+    applicationId: submission.applicationId,
+    tenderId: submission.tenderId,
+    tenderTitle: submission.tenderTitle,
+    applicantEmail: submission.applicantEmail,
+    status: submission.status,
+    submittedAt: submission.submittedAt?.toISOString() ?? null,
+    generatedAt: generatedAt.toISOString(),
+    files: manifestFiles,
+  };
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+  entries.unshift({
+    name: ArchiveManifestFileName,
+    modifiedAt: generatedAt,
+    sizeBytes: manifestBytes.length,
+    crc32: null,
+    open: async () => createBytesStream(manifestBytes),
+  });
+
+  return {
+    ok: true,
+    data: {
+      fileName: `submission-${sanitizeArchivePathSegment(submission.applicationId)}.zip`,
+      stream: createZipStream(entries),
+    },
+  } as const;
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from "vitest";
+import { ErrorCodes } from "../utils/error";
+import type { SubmissionManifest } from "./db/schema";
+import {
+  canonicalizeJson,
+  ReceiptSignatureAlgorithm,
+  signSubmissionManifest,
+  verifySubmissionManifest,
+  type SignedSubmissionManifest,
+} from "./submissionReceipts";
+
+// Only the SMTP transport opens sockets, and these tests send no mail.
+vi.mock("cloudflare:sockets", () => ({ connect: vi.fn() }));
+
+const env = { RECEIPT_SIGNING_SECRET: "test-receipt-secret" } as unknown as Env;
+
+const manifest: SubmissionManifest = {
+  version: 1,
+  receiptNumber: "MIST-20260101-3F9A2C1B7E",
+  submissionId: "submission-1",
+  tenderId: "tender-1",
+  tenderTitle: "Road resurfacing",
+  firmName: "Acme Ltd",
+  issuedTo: "bidder@example.com",
+  submittedAt: "2026-01-01T09:00:00.000Z",
+  issuedAt: "2026-01-01T09:00:01.000Z",
+  files: [
+    {
+      fileId: "file-1",
+      questionId: "question-1",
+      fileName: "bid.pdf",
+      fileSizeBytes: 1024,
+      contentType: "application/pdf",
+      uploadedAt: "2026-01-01T08:59:00.000Z",
+      etag: "etag-1",
+      checksumSha256: null,
+    },
+  ],
+};
+
+async function signManifest(document: SubmissionManifest) {
+  const signed = await signSubmissionManifest({ env, manifest: document });
+  if (!signed.ok) {
+    throw new Error(signed.error);
+  }
+
+  return signed.data;
+}
+
+describe("canonicalizeJson", () => {
+  it("sorts keys at every level and drops undefined values", () => {
+    expect(
+      canonicalizeJson({ b: [{ d: 1, c: null }], a: "x", e: undefined })
+    ).toBe('{"a":"x","b":[{"c":null,"d":1}]}');
+  });
+});
+
+describe("receipt signatures", () => {
+  it("verifies a manifest it signed", async () => {
+    const signature = await signManifest(manifest);
+
+    await expect(
+      verifySubmissionManifest({
+        env,
+        document: {
+          manifest,
+          signature: { algorithm: ReceiptSignatureAlgorithm, value: signature },
+        },
+      })
+    ).resolves.toEqual({ ok: true, data: true });
+  });
+
+  it("does not depend on the key order of the manifest", async () => {
+    const reordered = Object.fromEntries(
+      Object.entries(manifest).reverse()
+    ) as SubmissionManifest;
+
+    await expect(signManifest(reordered)).resolves.toBe(
+      await signManifest(manifest)
+    );
+  });
+
+  it("rejects a changed manifest or a mismatched signature", async () => {
+    const signature = await signManifest(manifest);
+    const documents: SignedSubmissionManifest[] = [
+      {
+        manifest: { ...manifest, firmName: "Other Ltd" },
+        signature: { algorithm: ReceiptSignatureAlgorithm, value: signature },
+      },
+      {
+        manifest,
+        signature: {
+          algorithm: "HMAC-SHA512" as typeof ReceiptSignatureAlgorithm,
+          value: signature,
+        },
+      },
+      {
+        manifest,
+        signature: { algorithm: ReceiptSignatureAlgorithm, value: "not-hex" },
+      },
+    ];
+
+    for (const document of documents) {
+      await expect(
+        verifySubmissionManifest({ env, document })
+      ).resolves.toEqual({ ok: true, data: false });
+    }
+  });
+
+  it("fails closed without a configured secret", async () => {
+    for (const secret of [undefined, "", "replace-with-receipt-secret"]) {
+      const unconfiguredEnv = {
+        RECEIPT_SIGNING_SECRET: secret,
+      } as unknown as Env;
+      const unavailable = {
+        ok: false,
+        errorCode: ErrorCodes.RECEIPT_SIGNING_UNAVAILABLE,
+      };
+
+      await expect(
+        signSubmissionManifest({ env: unconfiguredEnv, manifest })
+      ).resolves.toMatchObject(unavailable);
+      await expect(
+        verifySubmissionManifest({
+          env: unconfiguredEnv,
+          document: {
+            manifest,
+            signature: { algorithm: ReceiptSignatureAlgorithm, value: "00" },
+          },
+        })
+      ).resolves.toMatchObject(unavailable);
+    }
+  });
+});
@@ -0,0 +1,367 @@
+import { renderEmail } from "@repo/email-templates";
+import { and, asc, eq } from "drizzle-orm";
+import { WithDb, WithDbAndEnv, WithEnv } from "../utils/commonTypes";
+import { ErrorCodes } from "../utils/error";
+import { getConfiguredSecret } from "../utils/secrets";
+import {
+  FirmTable,
+  SubmissionReceiptTable,
+  SubmissionStatuses,
+  SubmissionTable,
+  TenderTable,
+  UploadedFileTable,
+  UserTable,
+  type SubmissionManifest,
+} from "./db/schema";
+import { getAppUrl } from "./email";
+import { queueEmail } from "./emailOutbox";
+import { getFirmMembership } from "./firms";
+
+type ServiceResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; errorCode: ErrorCodes; error: string };
+
+export const ReceiptSignatureAlgorithm = "HMAC-SHA256" as const;
+
+export type SignedSubmissionManifest = {
+  manifest: SubmissionManifest;
+  signature: {
+    algorithm: typeof ReceiptSignatureAlgorithm;
+    value: string;
+  };
+};
+
+/**
+ * JSON with object keys sorted at every level. Postgres `jsonb` does not keep
+ * key order, so signatures are computed over this form rather than over
+ * whatever order a document happens to be serialized in.
+ */
+export function canonicalizeJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalizeJson(item)).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalizeJson(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(value: string): Uint8Array<ArrayBuffer> | null {
+  if (!/^(?:[0-9a-f]{2})*$/i.test(value)) {
+    return null;
+  }
+  const bytes = new Uint8Array(value.length / 2);
+  for (let i = 0; i < bytes.length; i += 1) {
+    bytes[i] = parseInt(value.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+const ReceiptSigningUnavailable = {
+  ok: false,
+  errorCode: ErrorCodes.RECEIPT_SIGNING_UNAVAILABLE,
+  error: "Receipt signing is not configured",
+} as const;
+
+/** Null until `RECEIPT_SIGNING_SECRET` is set to a real value. */
+async function getReceiptSigningKey(env: Env): Promise<CryptoKey | null> {
+  const secret = getConfiguredSecret(env.RECEIPT_SIGNING_SECRET);
+  if (secret === null) {
+    return null;
+  }
+
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+export async function signSubmissionManifest({
+  env,
+  manifest,
+}: WithEnv<{ manifest: SubmissionManifest }>): Promise<ServiceResult<string>> {
+  const key = await getReceiptSigningKey(env);
+  if (key === null) {
+    return ReceiptSigningUnavailable;
+  }
+
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(canonicalizeJson(manifest))
+  );
+  return { ok: true, data: toHex(new Uint8Array(signature)) } as const;
+}
+
+export async function verifySubmissionManifest({
+  env,
+  document,
+}: WithEnv<{
+  document: SignedSubmissionManifest;
+}>): Promise<ServiceResult<boolean>> {
+  const key = await getReceiptSigningKey(env);
+  if (key === null) {
+    return ReceiptSigningUnavailable;
+  }
+
+  const signature = fromHex(document.signature.value);
+  if (
+    signature === null ||
+    document.signature.algorithm !== ReceiptSignatureAlgorithm
+  ) {
+    return { ok: true, data: false } as const;
+  }
+
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    key,
+    signature,
+    new TextEncoder().encode(canonicalizeJson(document.manifest))
+  );
+  return { ok: true, data: valid } as const;
+}
+
+// e.g. MIST-20261019-3F9A2C1B7E; the date is the submission day in UTC.
+function generateReceiptNumber(submittedAt: Date): string {
+  const day = submittedAt.toISOString().slice(0, 10).replace(/-/g, "");
+  const suffix = toHex(crypto.getRandomValues(new Uint8Array(5))).toUpperCase();
+  return `MIST-${day}-${suffix}`;
+}
+
+export function getSubmissionReceiptPath(submissionId: string): string {
+  return `/form/${encodeURIComponent(submissionId)}/receipt`;
+}
+
+function toSignedManifest(receipt: {
+  manifest: SubmissionManifest;
+  signature: string;
+}): SignedSubmissionManifest {
+  return {
+    manifest: receipt.manifest,
+    signature: { algorithm: ReceiptSignatureAlgorithm, value: receipt.signature },
+  };
+}
+
+async function getStoredReceipt({
+  db,
+  submissionId,
+}: WithDb<{ submissionId: string }>): Promise<SignedSubmissionManifest | null> {
+  const receipts = await db
+    .select({
+      manifest: SubmissionReceiptTable.manifest,
+      signature: SubmissionReceiptTable.signature,
+    })
+    .from(SubmissionReceiptTable)
+    .where(
+      and(
+        eq(SubmissionReceiptTable.submissionId, submissionId),
+        eq(SubmissionReceiptTable.isActive, true)
+      )
+    );
+
+  return receipts.length === 0 ? null : toSignedManifest(receipts[0]);
+}
+
+/**
+ * Snapshots the submission's active files into a signed manifest and emails
+ * the receipt to the recipient. Issuing again returns the stored
+ * receipt without sending another email.
+ */
+export async function issueSubmissionReceipt({
+  db,
+  env,
+  submissionId,
+  recipientUserId,
+}: WithDbAndEnv<{
+  submissionId: string;
+  recipientUserId: string;
+}>): Promise<ServiceResult<SignedSubmissionManifest>> {
+  const existing = await getStoredReceipt({ db, submissionId });
+  if (existing !== null) {
+    return { ok: true, data: existing } as const;
+  }
+
+  const submissions = await db
+    .select({
+      tenderId: SubmissionTable.tenderId,
+      status: SubmissionTable.status,
+      submittedAt: SubmissionTable.submittedAt,
+      tenderTitle: TenderTable.title,
+      firmName: FirmTable.name,
+    })
+    .from(SubmissionTable)
+    .innerJoin(TenderTable, eq(SubmissionTable.tenderId, TenderTable.id))
+    .innerJoin(FirmTable, eq(SubmissionTable.firmId, FirmTable.id))
+    .where(eq(SubmissionTable.id, submissionId));
+
+  const submission = submissions.at(0);
+  if (submission === undefined) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.SUBMISSION_NOT_FOUND,
+      error: "Submission not found",
+    } as const;
+  }
+  if (
+    submission.status !== SubmissionStatuses.SUBMITTED ||
+    submission.submittedAt === null
+  ) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.SUBMISSION_RECEIPT_NOT_FOUND,
+      error: "A receipt is issued once the submission is submitted",
+    } as const;
+  }
+
+  const recipients = await db
+    .select({ email: UserTable.email })
+    .from(UserTable)
+    .where(eq(UserTable.id, recipientUserId));
+  if (recipients.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.USER_NOT_FOUND,
+      error: "Receipt recipient not found",
+    } as const;
+  }
+
+  const files = await db
+    .select({
+      fileId: UploadedFileTable.id,
+      questionId: UploadedFileTable.questionId,
+      fileName: UploadedFileTable.fileName,
+      fileSizeBytes: UploadedFileTable.fileSizeBytes,
+      contentType: UploadedFileTable.contentType,
+      uploadedAt: UploadedFileTable.uploadedAt,
+      etag: UploadedFileTable.etag,
+      checksumSha256: UploadedFileTable.checksumSha256,
+    })
+    .from(UploadedFileTable)
+    .where(
+      and(
+        eq(UploadedFileTable.submissionId, submissionId),
+        eq(UploadedFileTable.isActive, true)
+      )
+    )
+    .orderBy(asc(UploadedFileTable.questionId), asc(UploadedFileTable.uploadedAt));
+
+  const issuedAt = new Date();
+  const manifest: SubmissionManifest = {
+    version: 1,
+    receiptNumber: generateReceiptNumber(submission.submittedAt),
+    submissionId,
+    tenderId: submission.tenderId,
+    tenderTitle: submission.tenderTitle,
+    firmName: submission.firmName,
+    issuedTo: recipients[0].email,
+    submittedAt: submission.submittedAt.toISOString(),
+    issuedAt: issuedAt.toISOString(),
+    files: files.map((file) => ({
+      ...file,
+      uploadedAt: file.uploadedAt.toISOString(),
+    })),
+  };
+  const signed = await signSubmissionManifest({ env, manifest });
+  if (!signed.ok) {
+    return signed;
+  }
+  const signature = signed.data;
+
+  const inserted = await db
+    .insert(SubmissionReceiptTable)
+    .values({
+      submissionId,
+      receiptNumber: manifest.receiptNumber,
+      manifest,
+      signature,
+      issuedAt,
+    })
+    .onConflictDoNothing()
+    .returning({ id: SubmissionReceiptTable.id });
+
+  // Lost a race with a concurrent issue; that request sends the email.
+  if (inserted.length === 0) {
+    const stored = await getStoredReceipt({ db, submissionId });
+    if (stored === null) {
+      return {
+        ok: false,
+        errorCode: ErrorCodes.INVALID_INPUT,
+        error: "Failed to store submission receipt",
+      } as const;
+    }
+    return { ok: true, data: stored } as const;
+  }
+
+  await queueEmail({
+    db,
+    env,
+    to: manifest.issuedTo,
+    ...renderEmail("submission-receipt", {
+      tenderTitle: manifest.tenderTitle,
+      receiptNumber: manifest.receiptNumber,
+      submittedAt: manifest.submittedAt,
+      files: manifest.files.map((file) => ({
+        fileName: file.fileName,
+        fileSizeBytes: file.fileSizeBytes,
+        uploadedAt: file.uploadedAt,
+        digest: file.checksumSha256 ?? file.etag,
+      })),
+      manifestUrl: getAppUrl({ env, path: getSubmissionReceiptPath(submissionId) }),
+    }),
+  });
+
+  return { ok: true, data: toSignedManifest({ manifest, signature }) } as const;
+}
+
+/**
+ * Any member of the submitting firm can download the receipt. A receipt that
+ * failed to issue at submission time is issued now, and emailed to the
+ * member asking for it.
+ */
+export async function getSubmissionReceipt({
+  db,
+  env,
+  userId,
+  submissionId,
+}: WithDbAndEnv<{
+  userId: string;
+  submissionId: string;
+}>): Promise<ServiceResult<SignedSubmissionManifest>> {
+  const membership = await getFirmMembership({ db, userId });
+  const submissions = await db
+    .select({ firmId: SubmissionTable.firmId })
+    .from(SubmissionTable)
+    .where(
+      and(eq(SubmissionTable.id, submissionId), eq(SubmissionTable.isActive, true))
+    );
+
+  if (
+    membership === null ||
+    submissions.length === 0 ||
+    submissions[0].firmId !== membership.firmId
+  ) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.SUBMISSION_NOT_FOUND,
+      error: "Submission not found",
+    } as const;
+  }
+
+  return issueSubmissionReceipt({
+    db,
+    env,
+    submissionId,
+    recipientUserId: userId,
+  });
+}
@@ -0,0 +1,78 @@
+import { ErrorCodes } from "../utils/error";
+
+type ServiceResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; errorCode: ErrorCodes; error: string };
+
+export const UploadDeadlineGraceDefaultMinutes = 15;
+
+export type TenderWindow = {
+  firstDateToApply: Date;
+  lastDateToApply: Date;
+};
+
+export function getUploadDeadlineGraceMs(env: Env): number {
+  const minutes = Number.parseInt(env.UPLOAD_DEADLINE_GRACE_MINUTES.trim(), 10);
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    return UploadDeadlineGraceDefaultMinutes * 60 * 1000;
+  }
+
+  return minutes * 60 * 1000;
+}
+
+/**
+ * Rejects writes outside the tender's application window. Used for actions
+ * that start new work (initiating an upload, submitting).
+ */
+export function checkTenderOpenForWrites({
+  tender,
+  now,
+}: {
+  tender: TenderWindow;
+  now: Date;
+}): ServiceResult<true> {
+  if (now.getTime() < tender.firstDateToApply.getTime()) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TENDER_CLOSED,
+      error: "This tender is not open for applications yet",
+    } as const;
+  }
+
+  if (now.getTime() > tender.lastDateToApply.getTime()) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TENDER_CLOSED,
+      error: "The deadline for this tender has passed",
+    } as const;
+  }
+
+  return { ok: true, data: true } as const;
+}
+
+/**
+ * Lets work that started before the deadline finish within the grace window,
+ * so an upload that was already in flight at the deadline is not lost.
+ */
+export function checkTenderOpenForInFlightWork({
+  tender,
+  startedAt,
+  now,
+  graceMs,
+}: {
+  tender: TenderWindow;
+  startedAt: Date;
+  now: Date;
+  graceMs: number;
+}): ServiceResult<true> {
+  const deadline = tender.lastDateToApply.getTime();
+  if (
+    now.getTime() > deadline &&
+    startedAt.getTime() <= deadline &&
+    now.getTime() <= deadline + graceMs
+  ) {
+    return { ok: true, data: true } as const;
+  }
+
+  return checkTenderOpenForWrites({ tender, now });
+}
@@ -0,0 +1,39 @@
+import { and, asc, eq } from "drizzle-orm";
+import { WithDb } from "../utils/commonTypes";
+import { TenderQuestionTable } from "./db/schema";
+
+export type TenderQuestion = {
+  questionId: string;
+  position: number;
+  title: string;
+  description: string;
+  isRequired: boolean;
+  allowedExtensions: string[];
+  maxSizeBytes: number;
+  maxFiles: number;
+};
+
+export async function listTenderQuestions({
+  db,
+  tenderId,
+}: WithDb<{ tenderId: string }>): Promise<TenderQuestion[]> {
+  return db
+    .select({
+      questionId: TenderQuestionTable.questionId,
+      position: TenderQuestionTable.position,
+      title: TenderQuestionTable.title,
+      description: TenderQuestionTable.description,
+      isRequired: TenderQuestionTable.isRequired,
+      allowedExtensions: TenderQuestionTable.allowedExtensions,
+      maxSizeBytes: TenderQuestionTable.maxSizeBytes,
+      maxFiles: TenderQuestionTable.maxFiles,
+    })
+    .from(TenderQuestionTable)
+    .where(
+      and(
+        eq(TenderQuestionTable.tenderId, tenderId),
+        eq(TenderQuestionTable.isActive, true)
+      )
+    )
+    .orderBy(asc(TenderQuestionTable.position));
+}
@@ -0,0 +1,364 @@
+import { and, desc, eq, ne, sql } from "drizzle-orm";
+import { WithDb } from "../utils/commonTypes";
+import { ErrorCodes } from "../utils/error";
+import { TenderQuestionTable, TenderTable } from "./db/schema";
+import { listTenderQuestions } from "./tenderQuestions";
+
+type ServiceResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; errorCode: ErrorCodes; error: string };
+
+const TenderTitleMaxLength = 200;
+
+export type AdminTenderSummary = {
+  tenderId: string;
+  title: string;
+  firstDateToApply: Date;
+  lastDateToApply: Date;
+  isActive: boolean;
+  createdAt: Date;
+};
+
+const AdminTenderColumns = {
+  tenderId: TenderTable.id,
+  title: TenderTable.title,
+  firstDateToApply: TenderTable.firstDateToApply,
+  lastDateToApply: TenderTable.lastDateToApply,
+  isActive: TenderTable.isActive,
+  createdAt: TenderTable.createdAt,
+};
+
+function validateTenderTitle(title: string): ServiceResult<string> {
+  const normalizedTitle = title.trim();
+  if (normalizedTitle.length === 0 || normalizedTitle.length > TenderTitleMaxLength) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_INPUT,
+      error: `Title must be between 1 and ${TenderTitleMaxLength} characters`,
+    } as const;
+  }
+
+  return { ok: true, data: normalizedTitle } as const;
+}
+
+function validateTenderWindow({
+  firstDateToApply,
+  lastDateToApply,
+}: {
+  firstDateToApply: Date;
+  lastDateToApply: Date;
+}): ServiceResult<true> {
+  if (
+    Number.isNaN(firstDateToApply.getTime()) ||
+    Number.isNaN(lastDateToApply.getTime())
+  ) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_INPUT,
+      error: "Invalid application window dates",
+    } as const;
+  }
+
+  if (firstDateToApply.getTime() >= lastDateToApply.getTime()) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_INPUT,
+      error: "firstDateToApply must be before lastDateToApply",
+    } as const;
+  }
+
+  return { ok: true, data: true } as const;
+}
+
+async function isTenderTitleTaken({
+  db,
+  title,
+  excludeTenderId,
+}: WithDb<{ title: string; excludeTenderId?: string }>): Promise<boolean> {
+  const conditions = [eq(TenderTable.title, title), eq(TenderTable.isActive, true)];
+  if (excludeTenderId) {
+    conditions.push(ne(TenderTable.id, excludeTenderId));
+  }
+
+  const tenders = await db
+    .select({ id: TenderTable.id })
+    .from(TenderTable)
+    .where(and(...conditions));
+
+  return tenders.length > 0;
+}
+
+// Name of the partial unique index on active tender titles.
+const TenderTitleUniqueIndexName = "tender_title_key";
+
+// Drizzle wraps driver errors, so the Postgres error is usually the cause.
+function isTenderTitleConflict(err: unknown): boolean {
+  for (const candidate of [err, (err as { cause?: unknown } | null)?.cause]) {
+    if (
+      typeof candidate === "object" &&
+      candidate !== null &&
+      "code" in candidate &&
+      candidate.code === "23505" &&
+      "constraint_name" in candidate &&
+      candidate.constraint_name === TenderTitleUniqueIndexName
+    ) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+async function getActiveAdminTender({
+  db,
+  tenderId,
+}: WithDb<{ tenderId: string }>): Promise<AdminTenderSummary | null> {
+  const tenders = await db
+    .select(AdminTenderColumns)
+    .from(TenderTable)
+    .where(and(eq(TenderTable.id, tenderId), eq(TenderTable.isActive, true)));
+
+  if (tenders.length === 0) {
+    return null;
+  }
+
+  return tenders[0];
+}
+
+export async function listTendersForAdmin({
+  db,
+}: WithDb<{}>): Promise<ServiceResult<{ tenders: AdminTenderSummary[] }>> {
+  const tenders = await db
+    .select(AdminTenderColumns)
+    .from(TenderTable)
+    .orderBy(desc(TenderTable.isActive), desc(TenderTable.lastDateToApply));
+
+  return { ok: true, data: { tenders } } as const;
+}
+
+/**
+ * Creates a tender with the question set of `copyQuestionsFromTenderId`.
+ * Questions cannot be added afterwards, so a source without questions is
+ * rejected rather than creating a tender bidders could submit empty.
+ */
+export async function createTender({
+  db,
+  title,
+  firstDateToApply,
+  lastDateToApply,
+  copyQuestionsFromTenderId,
+}: WithDb<{
+  title: string;
+  firstDateToApply: Date;
+  lastDateToApply: Date;
+  copyQuestionsFromTenderId: string;
+}>): Promise<ServiceResult<AdminTenderSummary>> {
+  const titleResult = validateTenderTitle(title);
+  if (!titleResult.ok) {
+    return titleResult;
+  }
+
+  const windowResult = validateTenderWindow({ firstDateToApply, lastDateToApply });
+  if (!windowResult.ok) {
+    return windowResult;
+  }
+
+  if (await isTenderTitleTaken({ db, title: titleResult.data })) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TENDER_ALREADY_EXISTS,
+      error: "A tender with this title already exists",
+    } as const;
+  }
+
+  const sourceQuestions = await listTenderQuestions({
+    db,
+    tenderId: copyQuestionsFromTenderId,
+  });
+  if (sourceQuestions.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TENDER_HAS_NO_QUESTIONS,
+      error: "Tender to copy questions from has no questions",
+    } as const;
+  }
+
+  // The tender and its questions are written together so a failure cannot
+  // leave a tender without questions behind.
+  return db.transaction(async (tx) => {
+    // Another admin may have taken the title since the check above.
+    const created = await tx
+      .insert(TenderTable)
+      .values({
+        id: crypto.randomUUID(),
+        title: titleResult.data,
+        firstDateToApply,
+        lastDateToApply,
+      })
+      .onConflictDoNothing({
+        target: TenderTable.title,
+        where: sql`${TenderTable.isActive}`,
+      })
+      .returning(AdminTenderColumns);
+
+    if (created.length === 0) {
+      return {
+        ok: false,
+        errorCode: ErrorCodes.TENDER_ALREADY_EXISTS,
+        error: "A tender with this title already exists",
+      } as const;
+    }
+
+    await tx.insert(TenderQuestionTable).values(
+      sourceQuestions.map((question) => ({
+        tenderId: created[0].tenderId,
+        questionId: question.questionId,
+        position: question.position,
+        title: question.title,
+        description: question.description,
+        isRequired: question.isRequired,
+        allowedExtensions: question.allowedExtensions,
+        maxSizeBytes: question.maxSizeBytes,
+        maxFiles: question.maxFiles,
+      }))
+    );
+
+    return { ok: true, data: created[0] } as const;
+  });
+}
+
+export async function updateTender({
+  db,
+  tenderId,
+  title,
+  firstDateToApply,
+  lastDateToApply,
+}: WithDb<{
+  tenderId: string;
+  title?: string;
+  firstDateToApply?: Date;
+  lastDateToApply?: Date;
+}>): Promise<ServiceResult<AdminTenderSummary>> {
+  const tender = await getActiveAdminTender({ db, tenderId });
+  if (tender === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TENDER_NOT_FOUND,
+      error: "Tender not found",
+    } as const;
+  }
+
+  let nextTitle = tender.title;
+  if (title !== undefined) {
+    const titleResult = validateTenderTitle(title);
+    if (!titleResult.ok) {
+      return titleResult;
+    }
+
+    nextTitle = titleResult.data;
+  }
+
+  const nextFirstDateToApply = firstDateToApply ?? tender.firstDateToApply;
+  const nextLastDateToApply = lastDateToApply ?? tender.lastDateToApply;
+  const windowResult = validateTenderWindow({
+    firstDateToApply: nextFirstDateToApply,
+    lastDateToApply: nextLastDateToApply,
+  });
+  if (!windowResult.ok) {
+    return windowResult;
+  }
+
+  if (
+    nextTitle !== tender.title &&
+    (await isTenderTitleTaken({ db, title: nextTitle, excludeTenderId: tender.tenderId }))
+  ) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TENDER_ALREADY_EXISTS,
+      error: "A tender with this title already exists",
+    } as const;
+  }
+
+  let updated: AdminTenderSummary[];
+  try {
+    updated = await db
+      .update(TenderTable)
+      .set({
+        title: nextTitle,
+        firstDateToApply: nextFirstDateToApply,
+        lastDateToApply: nextLastDateToApply,
+        updatedAt: new Date(),
+      })
+      .where(eq(TenderTable.id, tender.tenderId))
+      .returning(AdminTenderColumns);
+  } catch (err) {
+    // Another admin took the title between the check above and this update.
+    if (isTenderTitleConflict(err)) {
+      return {
+        ok: false,
+        errorCode: ErrorCodes.TENDER_ALREADY_EXISTS,
+        error: "A tender with this title already exists",
+      } as const;
+    }
+
+    throw err;
+  }
+
+  return { ok: true, data: updated[0] } as const;
+}
+
+export async function extendTenderDeadline({
+  db,
+  tenderId,
+  lastDateToApply,
+}: WithDb<{
+  tenderId: string;
+  lastDateToApply: Date;
+}>): Promise<ServiceResult<AdminTenderSummary>> {
+  const tender = await getActiveAdminTender({ db, tenderId });
+  if (tender === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TENDER_NOT_FOUND,
+      error: "Tender not found",
+    } as const;
+  }
+
+  if (
+    Number.isNaN(lastDateToApply.getTime()) ||
+    lastDateToApply.getTime() <= tender.lastDateToApply.getTime()
+  ) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_INPUT,
+      error: "New deadline must be later than the current deadline",
+    } as const;
+  }
+
+  return updateTender({ db, tenderId: tender.tenderId, lastDateToApply });
+}
+
+export async function archiveTender({
+  db,
+  tenderId,
+}: WithDb<{ tenderId: string }>): Promise<ServiceResult<AdminTenderSummary>> {
+  const tender = await getActiveAdminTender({ db, tenderId });
+  if (tender === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TENDER_NOT_FOUND,
+      error: "Tender not found",
+    } as const;
+  }
+
+  const archived = await db
+    .update(TenderTable)
+    .set({
+      isActive: false,
+      updatedAt: new Date(),
+    })
+    .where(eq(TenderTable.id, tender.tenderId))
+    .returning(AdminTenderColumns);
+
+  return { ok: true, data: archived[0] } as const;
+}
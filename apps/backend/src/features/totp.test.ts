@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import {
+  decodeBase32,
+  encodeBase32,
+  findTotpStep,
+  generateTotpForStep,
+  getTotpStep,
+  type TotpAlgorithm,
+} from "./totp";
+
+const encoder = new TextEncoder();
+
+// RFC 6238 appendix B: the seeds are the ASCII digits repeated to the hash
+// output length, codes are 8 digits with a 30 second period.
+const Seeds: Record<TotpAlgorithm, Uint8Array<ArrayBuffer>> = {
+  "SHA-1": encoder.encode("12345678901234567890"),
+  "SHA-256": encoder.encode("12345678901234567890123456789012"),
+  "SHA-512": encoder.encode(
+    "1234567890123456789012345678901234567890123456789012345678901234"
+  ),
+};
+
+const Rfc6238Vectors: {
+  seconds: number;
+  codes: Record<TotpAlgorithm, string>;
+}[] = [
+  {
+    seconds: 59,
+    codes: { "SHA-1": "94287082", "SHA-256": "46119246", "SHA-512": "90693936" },
+  },
+  {
+    seconds: 1111111109,
+    codes: { "SHA-1": "07081804", "SHA-256": "68084774", "SHA-512": "25091201" },
+  },
+  {
+    seconds: 1111111111,
+    codes: { "SHA-1": "14050471", "SHA-256": "67062674", "SHA-512": "99943326" },
+  },
+  {
+    seconds: 1234567890,
+    codes: { "SHA-1": "89005924", "SHA-256": "91819424", "SHA-512": "93441116" },
+  },
+  {
+    seconds: 2000000000,
+    codes: { "SHA-1": "69279037", "SHA-256": "90698825", "SHA-512": "38618901" },
+  },
+  {
+    seconds: 20000000000,
+    codes: { "SHA-1": "65353130", "SHA-256": "77737706", "SHA-512": "47863826" },
+  },
+];
+
+describe("generateTotpForStep", () => {
+  for (const { seconds, codes } of Rfc6238Vectors) {
+    for (const algorithm of Object.keys(codes) as TotpAlgorithm[]) {
+      it(`matches RFC 6238 for ${algorithm} at T=${seconds}`, async () => {
+        const step = getTotpStep({ now: new Date(seconds * 1000) });
+        const code = await generateTotpForStep({
+          key: Seeds[algorithm],
+          step,
+          algorithm,
+          digits: 8,
+        });
+
+        expect(code).toBe(codes[algorithm]);
+      });
+    }
+  }
+});
+
+describe("findTotpStep", () => {
+  const secret = encodeBase32(Seeds["SHA-1"]);
+  // Step 37037036 starts at T=1111111080.
+  const now = new Date(1111111109 * 1000);
+  const currentStep = getTotpStep({ now });
+
+  async function codeForStep(step: number) {
+    return generateTotpForStep({ key: Seeds["SHA-1"], step });
+  }
+
+  it("accepts the current step", async () => {
+    const code = await codeForStep(currentStep);
+
+    await expect(
+      findTotpStep({ secret, code, now, driftSteps: 1 })
+    ).resolves.toBe(currentStep);
+  });
+
+  it("accepts codes within the drift window", async () => {
+    for (const offset of [-1, 1]) {
+      const code = await codeForStep(currentStep + offset);
+
+      await expect(
+        findTotpStep({ secret, code, now, driftSteps: 1 })
+      ).resolves.toBe(currentStep + offset);
+    }
+  });
+
+  it("rejects codes outside the drift window", async () => {
+    for (const offset of [-2, 2]) {
+      const code = await codeForStep(currentStep + offset);
+
+      await expect(
+        findTotpStep({ secret, code, now, driftSteps: 1 })
+      ).resolves.toBeNull();
+    }
+  });
+
+  it("rejects malformed codes and secrets", async () => {
+    const code = await codeForStep(currentStep);
+
+    await expect(
+      findTotpStep({ secret, code: "12345", now, driftSteps: 1 })
+    ).resolves.toBeNull();
+    await expect(
+      findTotpStep({ secret, code: "12a456", now, driftSteps: 1 })
+    ).resolves.toBeNull();
+    await expect(
+      findTotpStep({ secret: "not base32!", code, now, driftSteps: 1 })
+    ).resolves.toBeNull();
+  });
+});
+
+describe("base32", () => {
+  it("round-trips a secret", () => {
+    const encoded = encodeBase32(Seeds["SHA-1"]);
+
+    expect(encoded).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(decodeBase32(encoded)).toEqual(Seeds["SHA-1"]);
+  });
+});
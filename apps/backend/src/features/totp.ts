@@ -0,0 +1,173 @@
+import { TotpDigits, TotpIssuer, TotpPeriodSeconds } from "./authConstants";
+
+// RFC 6238 time-based one-time passwords on top of Web Crypto, so codes can
+// be generated and checked inside the worker without extra dependencies.
+
+export type TotpAlgorithm = "SHA-1" | "SHA-256" | "SHA-512";
+
+type TotpOptions = {
+  algorithm?: TotpAlgorithm;
+  digits?: number;
+  periodSeconds?: number;
+};
+
+const Base32Alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function encodeBase32(bytes: Uint8Array): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += Base32Alphabet[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += Base32Alphabet[(buffer << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/** Returns null when the input contains characters outside RFC 4648 base32. */
+export function decodeBase32(input: string): Uint8Array<ArrayBuffer> | null {
+  const normalized = input.replace(/[\s=]/g, "").toUpperCase();
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of normalized) {
+    const value = Base32Alphabet.indexOf(char);
+    if (value === -1) {
+      return null;
+    }
+
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/** 160-bit secret, the key length RFC 4226 recommends for HMAC-SHA-1. */
+export function generateTotpSecret(): string {
+  return encodeBase32(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+export function getTotpStep({
+  now,
+  periodSeconds = TotpPeriodSeconds,
+}: {
+  now: Date;
+  periodSeconds?: number;
+}): number {
+  return Math.floor(now.getTime() / 1000 / periodSeconds);
+}
+
+/**
+ * HOTP value (RFC 4226) for one time step. `key` is the raw secret; the RFC
+ * 6238 appendix B vectors use the ASCII seeds as keys and 8 digits.
+ */
+export async function generateTotpForStep({
+  key,
+  step,
+  algorithm = "SHA-1",
+  digits = TotpDigits,
+}: {
+  key: Uint8Array<ArrayBuffer>;
+  step: number;
+  algorithm?: TotpAlgorithm;
+  digits?: number;
+}): Promise<string> {
+  const counter = new Uint8Array(8);
+  const view = new DataView(counter.buffer);
+  // The moving factor is a 64-bit big-endian counter.
+  view.setUint32(0, Math.floor(step / 2 ** 32));
+  view.setUint32(4, step >>> 0);
+
+  const hmacKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    { name: "HMAC", hash: algorithm },
+    false,
+    ["sign"]
+  );
+  const mac = new Uint8Array(await crypto.subtle.sign("HMAC", hmacKey, counter));
+
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary =
+    ((mac[offset] & 0x7f) << 24) |
+    (mac[offset + 1] << 16) |
+    (mac[offset + 2] << 8) |
+    mac[offset + 3];
+
+  return String(binary % 10 ** digits).padStart(digits, "0");
+}
+
+/**
+ * Finds the time step within `driftSteps` of `now` whose code matches.
+ * Returns null when nothing matches or the secret is malformed.
+ */
+export async function findTotpStep({
+  secret,
+  code,
+  now,
+  driftSteps,
+  algorithm,
+  digits = TotpDigits,
+  periodSeconds,
+}: TotpOptions & {
+  secret: string;
+  code: string;
+  now: Date;
+  driftSteps: number;
+}): Promise<number | null> {
+  const normalizedCode = code.replace(/\s/g, "");
+  const key = decodeBase32(secret);
+  if (key === null || key.length === 0 || normalizedCode.length !== digits) {
+    return null;
+  }
+  if (!/^\d+$/.test(normalizedCode)) {
+    return null;
+  }
+
+  const currentStep = getTotpStep({ now, periodSeconds });
+  for (let offset = -driftSteps; offset <= driftSteps; offset += 1) {
+    const step = currentStep + offset;
+    const expected = await generateTotpForStep({ key, step, algorithm, digits });
+    if (expected === normalizedCode) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/** Key URI understood by authenticator apps and rendered as a QR code. */
+export function buildOtpAuthUrl({
+  secret,
+  accountName,
+}: {
+  secret: string;
+  accountName: string;
+}): string {
+  const label = encodeURIComponent(`${TotpIssuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TotpIssuer,
+    algorithm: "SHA1",
+    digits: String(TotpDigits),
+    period: String(TotpPeriodSeconds),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,120 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { beforeAll, describe, expect, it } from "vitest";
+import { ErrorCodes } from "../utils/error";
+import type { connectDb } from "./db/connect";
+import { UserTable } from "./db/schema";
+import { decodeBase32, generateTotpForStep, getTotpStep } from "./totp";
+import {
+  beginTotpEnrollment,
+  completeTwoFactorSignIn,
+  confirmTotpEnrollment,
+  startSignIn,
+} from "./twoFactor";
+
+// The migrations run against an in-memory Postgres so single use is checked
+// by the same conditional updates that production relies on.
+const client = new PGlite();
+const db = drizzle(client, { casing: "snake_case" }) as unknown as ReturnType<
+  typeof connectDb
+>;
+const env = { JWT_SECRET: "test-jwt-secret" } as unknown as Env;
+
+async function createUserWithTwoFactor(email: string) {
+  const [user] = await db
+    .insert(UserTable)
+    .values({ email, passwordHash: "unused" })
+    .returning({ id: UserTable.id });
+
+  const enrollment = await beginTotpEnrollment({
+    db,
+    userId: user.id,
+    accountName: email,
+  });
+  if (!enrollment.ok) {
+    throw new Error(enrollment.error);
+  }
+
+  const now = new Date();
+  const confirmed = await confirmTotpEnrollment({
+    db,
+    userId: user.id,
+    code: await generateTotpForStep({
+      key: decodeBase32(enrollment.data.secret)!,
+      step: getTotpStep({ now }),
+    }),
+    now,
+  });
+  if (!confirmed.ok) {
+    throw new Error(confirmed.error);
+  }
+
+  return { userId: user.id, recoveryCodes: confirmed.data.recoveryCodes };
+}
+
+async function signInWithRecoveryCode(userId: string, recoveryCode: string) {
+  const signIn = await startSignIn({ db, env, userId });
+  if (signIn.status !== "two_factor_required") {
+    throw new Error("Expected a two-factor challenge");
+  }
+
+  return completeTwoFactorSignIn({
+    db,
+    env,
+    challengeToken: signIn.challengeToken,
+    recoveryCode,
+    now: new Date(),
+  });
+}
+
+describe("recovery codes", () => {
+  // Applying every migration to a fresh PGlite takes several seconds.
+  beforeAll(async () => {
+    await migrate(drizzle(client), { migrationsFolder: "./migrations" });
+  }, 60_000);
+
+  it("accepts each recovery code only once", async () => {
+    const { userId, recoveryCodes } = await createUserWithTwoFactor(
+      "single-use@example.com"
+    );
+
+    const first = await signInWithRecoveryCode(userId, recoveryCodes[0]);
+    expect(first.ok).toBe(true);
+
+    const replayed = await signInWithRecoveryCode(userId, recoveryCodes[0]);
+    expect(replayed).toMatchObject({
+      ok: false,
+      errorCode: ErrorCodes.INVALID_TWO_FACTOR_CODE,
+    });
+
+    const next = await signInWithRecoveryCode(userId, recoveryCodes[1]);
+    expect(next.ok).toBe(true);
+  });
+
+  it("ignores spacing and case when matching a recovery code", async () => {
+    const { userId, recoveryCodes } = await createUserWithTwoFactor(
+      "formatting@example.com"
+    );
+
+    const result = await signInWithRecoveryCode(
+      userId,
+      ` ${recoveryCodes[0].toUpperCase().replace("-", " ")} `
+    );
+    expect(result.ok).toBe(true);
+  });
+
+  it("rejects another user's recovery code", async () => {
+    const owner = await createUserWithTwoFactor("owner@example.com");
+    const other = await createUserWithTwoFactor("other@example.com");
+
+    const result = await signInWithRecoveryCode(
+      other.userId,
+      owner.recoveryCodes[0]
+    );
+    expect(result).toMatchObject({
+      ok: false,
+      errorCode: ErrorCodes.INVALID_TWO_FACTOR_CODE,
+    });
+  });
+});
@@ -0,0 +1,550 @@
+import { and, eq, isNull, lt, or } from "drizzle-orm";
+import { WithDb, WithDbAndEnv } from "../utils/commonTypes";
+import { ErrorCodes } from "../utils/error";
+import {
+  createSession,
+  generateOpaqueToken,
+  hashOpaqueToken,
+  type AuthTokens,
+} from "./auth";
+import {
+  RecoveryCodeCount,
+  TotpAllowedDriftSteps,
+  TwoFactorChallengeTtlMs,
+} from "./authConstants";
+import {
+  UserRecoveryCodeTable,
+  UserTable,
+  UserTokenPurposes,
+  UserTotpTable,
+} from "./db/schema";
+import { RoleNames } from "./permissions";
+import { buildOtpAuthUrl, findTotpStep, generateTotpSecret } from "./totp";
+import { getUserByIdWithRoles } from "./user";
+import { consumeUserToken, findUserToken, issueUserToken } from "./userTokens";
+
+type ServiceResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; errorCode: ErrorCodes; error: string };
+
+export type TotpEnrollment = {
+  secret: string;
+  otpauthUrl: string;
+};
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+/**
+ * Outcome of a correct first factor. Users with a second factor, and admins
+ * who still have to enroll one, get a short-lived challenge instead of a
+ * session.
+ */
+export type SignInResult =
+  | { status: "authenticated"; tokens: AuthTokens }
+  | {
+      status: "two_factor_required";
+      challengeToken: string;
+      expiresAt: Date;
+      enrollmentRequired: boolean;
+    };
+
+// Roles that can see every bidder's documents or grant access must not rely
+// on a password alone.
+const TwoFactorRequiredRoleNames: readonly string[] = [RoleNames.ADMIN];
+
+export function isTwoFactorRequired(roleNames: string[]): boolean {
+  return roleNames.some((roleName) => TwoFactorRequiredRoleNames.includes(roleName));
+}
+
+async function getActiveTotp({ db, userId }: WithDb<{ userId: string }>) {
+  const rows = await db
+    .select({
+      id: UserTotpTable.id,
+      secret: UserTotpTable.secret,
+      confirmedAt: UserTotpTable.confirmedAt,
+      lastUsedStep: UserTotpTable.lastUsedStep,
+    })
+    .from(UserTotpTable)
+    .where(and(eq(UserTotpTable.userId, userId), eq(UserTotpTable.isActive, true)));
+
+  return rows[0] ?? null;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+// Ten characters from the opaque token alphabet, grouped for readability.
+function generateRecoveryCode(): string {
+  const raw = generateOpaqueToken()
+    .replace(/[-_]/g, "")
+    .slice(0, 10)
+    .toLowerCase();
+
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+async function replaceRecoveryCodes({
+  db,
+  userId,
+}: WithDb<{ userId: string }>): Promise<string[]> {
+  const now = new Date();
+  await db
+    .update(UserRecoveryCodeTable)
+    .set({ isActive: false, updatedAt: now })
+    .where(
+      and(
+        eq(UserRecoveryCodeTable.userId, userId),
+        eq(UserRecoveryCodeTable.isActive, true)
+      )
+    );
+
+  const codes = Array.from({ length: RecoveryCodeCount }, generateRecoveryCode);
+  await db.insert(UserRecoveryCodeTable).values(
+    await Promise.all(
+      codes.map(async (code) => ({
+        userId,
+        codeHash: await hashOpaqueToken(normalizeRecoveryCode(code)),
+      }))
+    )
+  );
+
+  return codes;
+}
+
+/**
+ * Accepts the current TOTP code or an unused recovery code. A TOTP step is
+ * only accepted once, so an intercepted code cannot be replayed.
+ */
+async function verifySecondFactor({
+  db,
+  userId,
+  code,
+  recoveryCode,
+  now,
+}: WithDb<{
+  userId: string;
+  code?: string;
+  recoveryCode?: string;
+  now: Date;
+}>): Promise<boolean> {
+  const totp = await getActiveTotp({ db, userId });
+  if (totp === null || totp.confirmedAt === null) {
+    return false;
+  }
+
+  if (code) {
+    const step = await findTotpStep({
+      secret: totp.secret,
+      code,
+      now,
+      driftSteps: TotpAllowedDriftSteps,
+    });
+    if (step === null) {
+      return false;
+    }
+
+    const updated = await db
+      .update(UserTotpTable)
+      .set({ lastUsedStep: step, updatedAt: now })
+      .where(
+        and(
+          eq(UserTotpTable.id, totp.id),
+          or(isNull(UserTotpTable.lastUsedStep), lt(UserTotpTable.lastUsedStep, step))
+        )
+      )
+      .returning({ id: UserTotpTable.id });
+
+    return updated.length > 0;
+  }
+
+  if (recoveryCode) {
+    const used = await db
+      .update(UserRecoveryCodeTable)
+      .set({ usedAt: now, updatedAt: now })
+      .where(
+        and(
+          eq(UserRecoveryCodeTable.userId, userId),
+          eq(
+            UserRecoveryCodeTable.codeHash,
+            await hashOpaqueToken(normalizeRecoveryCode(recoveryCode))
+          ),
+          eq(UserRecoveryCodeTable.isActive, true),
+          isNull(UserRecoveryCodeTable.usedAt)
+        )
+      )
+      .returning({ id: UserRecoveryCodeTable.id });
+
+    return used.length > 0;
+  }
+
+  return false;
+}
+
+export async function getTwoFactorStatus({
+  db,
+  userId,
+  roleNames,
+}: WithDb<{
+  userId: string;
+  roleNames: string[];
+}>): Promise<TwoFactorStatus> {
+  const totp = await getActiveTotp({ db, userId });
+  const enabled = totp !== null && totp.confirmedAt !== null;
+
+  const recoveryCodes = enabled
+    ? await db
+        .select({ id: UserRecoveryCodeTable.id })
+        .from(UserRecoveryCodeTable)
+        .where(
+          and(
+            eq(UserRecoveryCodeTable.userId, userId),
+            eq(UserRecoveryCodeTable.isActive, true),
+            isNull(UserRecoveryCodeTable.usedAt)
+          )
+        )
+    : [];
+
+  return {
+    enabled,
+    required: isTwoFactorRequired(roleNames),
+    recoveryCodesRemaining: recoveryCodes.length,
+  };
+}
+
+/**
+ * Creates (or replaces) a pending secret. It is enforced only once
+ * `confirmTotpEnrollment` has seen a valid code from the authenticator.
+ */
+export async function beginTotpEnrollment({
+  db,
+  userId,
+  accountName,
+}: WithDb<{
+  userId: string;
+  accountName: string;
+}>): Promise<ServiceResult<TotpEnrollment>> {
+  const existing = await getActiveTotp({ db, userId });
+  if (existing?.confirmedAt) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TWO_FACTOR_ALREADY_ENABLED,
+      error: "Two-factor authentication is already enabled",
+    } as const;
+  }
+
+  const secret = generateTotpSecret();
+  if (existing) {
+    await db
+      .update(UserTotpTable)
+      .set({ secret, lastUsedStep: null, updatedAt: new Date() })
+      .where(eq(UserTotpTable.id, existing.id));
+  } else {
+    await db.insert(UserTotpTable).values({ userId, secret });
+  }
+
+  return {
+    ok: true,
+    data: { secret, otpauthUrl: buildOtpAuthUrl({ secret, accountName }) },
+  } as const;
+}
+
+/** Returns the recovery codes in plain text; they cannot be shown again. */
+export async function confirmTotpEnrollment({
+  db,
+  userId,
+  code,
+  now,
+}: WithDb<{
+  userId: string;
+  code: string;
+  now: Date;
+}>): Promise<ServiceResult<{ recoveryCodes: string[] }>> {
+  const totp = await getActiveTotp({ db, userId });
+  if (totp === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TWO_FACTOR_NOT_ENABLED,
+      error: "Start two-factor enrollment first",
+    } as const;
+  }
+
+  if (totp.confirmedAt !== null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TWO_FACTOR_ALREADY_ENABLED,
+      error: "Two-factor authentication is already enabled",
+    } as const;
+  }
+
+  const step = await findTotpStep({
+    secret: totp.secret,
+    code,
+    now,
+    driftSteps: TotpAllowedDriftSteps,
+  });
+  if (step === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_TWO_FACTOR_CODE,
+      error: "Authentication code is incorrect",
+    } as const;
+  }
+
+  await db
+    .update(UserTotpTable)
+    .set({ confirmedAt: now, lastUsedStep: step, updatedAt: now })
+    .where(eq(UserTotpTable.id, totp.id));
+
+  const recoveryCodes = await replaceRecoveryCodes({ db, userId });
+  return { ok: true, data: { recoveryCodes } } as const;
+}
+
+export async function regenerateRecoveryCodes({
+  db,
+  userId,
+  code,
+  now,
+}: WithDb<{
+  userId: string;
+  code: string;
+  now: Date;
+}>): Promise<ServiceResult<{ recoveryCodes: string[] }>> {
+  if (!(await verifySecondFactor({ db, userId, code, now }))) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_TWO_FACTOR_CODE,
+      error: "Authentication code is incorrect",
+    } as const;
+  }
+
+  const recoveryCodes = await replaceRecoveryCodes({ db, userId });
+  return { ok: true, data: { recoveryCodes } } as const;
+}
+
+export async function disableTwoFactor({
+  db,
+  userId,
+  roleNames,
+  code,
+  now,
+}: WithDb<{
+  userId: string;
+  roleNames: string[];
+  code: string;
+  now: Date;
+}>): Promise<ServiceResult<true>> {
+  if (isTwoFactorRequired(roleNames)) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TWO_FACTOR_REQUIRED_FOR_ROLE,
+      error: "Two-factor authentication is mandatory for your role",
+    } as const;
+  }
+
+  const totp = await getActiveTotp({ db, userId });
+  if (totp === null || totp.confirmedAt === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TWO_FACTOR_NOT_ENABLED,
+      error: "Two-factor authentication is not enabled",
+    } as const;
+  }
+
+  if (!(await verifySecondFactor({ db, userId, code, now }))) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_TWO_FACTOR_CODE,
+      error: "Authentication code is incorrect",
+    } as const;
+  }
+
+  await db
+    .update(UserTotpTable)
+    .set({ isActive: false, updatedAt: now })
+    .where(eq(UserTotpTable.id, totp.id));
+  await db
+    .update(UserRecoveryCodeTable)
+    .set({ isActive: false, updatedAt: now })
+    .where(
+      and(
+        eq(UserRecoveryCodeTable.userId, userId),
+        eq(UserRecoveryCodeTable.isActive, true)
+      )
+    );
+
+  return { ok: true, data: true } as const;
+}
+
+/**
+ * Runs after the first factor (password or magic link) and before any API
+ * key is issued.
+ */
+export async function startSignIn({
+  db,
+  env,
+  userId,
+}: WithDbAndEnv<{ userId: string }>): Promise<SignInResult> {
+  const user = await getUserByIdWithRoles({ db, id: userId });
+  const roleNames = user?.roles.map((role) => role.roleName) ?? [];
+  const totp = await getActiveTotp({ db, userId });
+
+  const enabled = totp !== null && totp.confirmedAt !== null;
+  const enrollmentRequired = !enabled && isTwoFactorRequired(roleNames);
+  if (!enabled && !enrollmentRequired) {
+    const tokens = await createSession({ db, env, userId });
+    return { status: "authenticated", tokens };
+  }
+
+  const { token, expiresAt } = await issueUserToken({
+    db,
+    userId,
+    purpose: UserTokenPurposes.TWO_FACTOR_CHALLENGE,
+    ttlMs: TwoFactorChallengeTtlMs,
+  });
+
+  return {
+    status: "two_factor_required",
+    challengeToken: token,
+    expiresAt,
+    enrollmentRequired,
+  };
+}
+
+/** The user behind a pending challenge, without using the challenge up. */
+export async function getTwoFactorChallenge({
+  db,
+  challengeToken,
+}: WithDb<{
+  challengeToken: string;
+}>): Promise<{ userId: string; email: string } | null> {
+  const challenge = await findUserToken({
+    db,
+    token: challengeToken,
+    purpose: UserTokenPurposes.TWO_FACTOR_CHALLENGE,
+  });
+  if (challenge === null) {
+    return null;
+  }
+
+  const users = await db
+    .select({ email: UserTable.email })
+    .from(UserTable)
+    .where(and(eq(UserTable.id, challenge.userId), eq(UserTable.isActive, true)));
+
+  if (users.length === 0) {
+    return null;
+  }
+
+  return { userId: challenge.userId, email: users[0].email };
+}
+
+/** Lets a user who must enroll set up an authenticator mid sign-in. */
+export async function beginChallengeEnrollment({
+  db,
+  challengeToken,
+}: WithDb<{
+  challengeToken: string;
+}>): Promise<ServiceResult<TotpEnrollment>> {
+  const challenge = await getTwoFactorChallenge({ db, challengeToken });
+  if (challenge === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_TWO_FACTOR_CHALLENGE,
+      error: "Sign-in attempt has expired, please sign in again",
+    } as const;
+  }
+
+  return beginTotpEnrollment({
+    db,
+    userId: challenge.userId,
+    accountName: challenge.email,
+  });
+}
+
+/**
+ * Finishes a challenged sign-in. While enrollment is pending the code
+ * confirms the new authenticator and fresh recovery codes are returned
+ * alongside the session.
+ */
+export async function completeTwoFactorSignIn({
+  db,
+  env,
+  challengeToken,
+  code,
+  recoveryCode,
+  now,
+}: WithDbAndEnv<{
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+  now: Date;
+}>): Promise<
+  ServiceResult<{ tokens: AuthTokens; recoveryCodes: string[] | null }>
+> {
+  const challenge = await getTwoFactorChallenge({ db, challengeToken });
+  if (challenge === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_TWO_FACTOR_CHALLENGE,
+      error: "Sign-in attempt has expired, please sign in again",
+    } as const;
+  }
+
+  const totp = await getActiveTotp({ db, userId: challenge.userId });
+  if (totp === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TWO_FACTOR_NOT_ENABLED,
+      error: "Set up an authenticator app first",
+    } as const;
+  }
+
+  let recoveryCodes: string[] | null = null;
+  if (totp.confirmedAt === null) {
+    const confirmed = await confirmTotpEnrollment({
+      db,
+      userId: challenge.userId,
+      code: code ?? "",
+      now,
+    });
+    if (!confirmed.ok) {
+      return confirmed;
+    }
+    recoveryCodes = confirmed.data.recoveryCodes;
+  } else if (
+    !(await verifySecondFactor({
+      db,
+      userId: challenge.userId,
+      code,
+      recoveryCode,
+      now,
+    }))
+  ) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_TWO_FACTOR_CODE,
+      error: "Authentication code is incorrect",
+    } as const;
+  }
+
+  const consumed = await consumeUserToken({
+    db,
+    token: challengeToken,
+    purpose: UserTokenPurposes.TWO_FACTOR_CHALLENGE,
+  });
+  if (consumed === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_TWO_FACTOR_CHALLENGE,
+      error: "Sign-in attempt has expired, please sign in again",
+    } as const;
+  }
+
+  const tokens = await createSession({ db, env, userId: challenge.userId });
+  return { ok: true, data: { tokens, recoveryCodes } } as const;
+}
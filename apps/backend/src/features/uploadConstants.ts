@@ -1,15 +1,28 @@
 export {
   UploadChunkUploadConcurrency,
-  RequiredUploadQuestionIds,
   UploadMaxFileSizeBytes,
   UploadMaxParts,
   UploadMultipartMinThresholdBytes,
   UploadMinFileSizeBytes,
   UploadPartSizeBytes,
-  UploadQuestionIds,
 } from "@repo/upload-contracts";
 
-export type { UploadQuestionId } from "@repo/upload-contracts";
-
 export const UploadAllowedRoleName = "applicant" as const;
 export const UploadSessionTtlMs = 24 * 60 * 60 * 1000;
+
+// MIME types a browser may declare for each extension a question can accept.
+// Extensions missing from this map are checked by extension only.
+export const UploadContentTypesByExtension: Record<string, readonly string[]> = {
+  ".pdf": ["application/pdf"],
+  ".jpg": ["image/jpeg"],
+  ".jpeg": ["image/jpeg"],
+  ".png": ["image/png"],
+  ".docx": [
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ],
+  ".zip": [
+    "application/zip",
+    "application/x-zip-compressed",
+    "application/octet-stream",
+  ],
+};
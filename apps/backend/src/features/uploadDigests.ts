@@ -0,0 +1,139 @@
+import { and, asc, eq, isNull, ne } from "drizzle-orm";
+import { WithDbAndEnv } from "../utils/commonTypes";
+import {
+  UploadContentCheckStatuses,
+  UploadedFileTable,
+  UploadSessionTable,
+} from "./db/schema";
+import { computeObjectDigests, quarantineObject } from "./r2Multipart";
+
+export const UploadDigestBatchSize = 20;
+
+export type UploadDigestSummary = {
+  scanned: number;
+  digested: number;
+  // Files whose bytes differ from the SHA-256 R2 verified or the applicant
+  // declared at initiate. They are quarantined.
+  mismatched: number;
+  failures: Array<{
+    fileId: string;
+    errorCode: string;
+    error: string;
+  }>;
+};
+
+/**
+ * Reads each new completed file once to record its SHA-256 and CRC32. R2
+ * holds no whole-file SHA-256 for multipart uploads, and archives reuse the
+ * CRC32 instead of checksumming every byte on each download. The object is
+ * read here rather than in the complete request. A file that does not match
+ * the SHA-256 already known for it is quarantined. Files that cannot be read
+ * move to the back of the queue and are retried on a later run.
+ */
+export async function digestUploadedFiles({
+  db,
+  env,
+  batchSize = UploadDigestBatchSize,
+}: WithDbAndEnv<{ batchSize?: number }>): Promise<UploadDigestSummary> {
+  const files = await db
+    .select({
+      id: UploadedFileTable.id,
+      objectKey: UploadedFileTable.objectKey,
+      checksumSha256: UploadedFileTable.checksumSha256,
+      declaredChecksumSha256: UploadSessionTable.checksumSha256,
+    })
+    .from(UploadedFileTable)
+    .innerJoin(
+      UploadSessionTable,
+      eq(UploadedFileTable.uploadSessionId, UploadSessionTable.id)
+    )
+    .where(
+      and(
+        isNull(UploadedFileTable.crc32),
+        eq(UploadedFileTable.isActive, true),
+        isNull(UploadedFileTable.deletedAt),
+        ne(
+          UploadedFileTable.contentCheckStatus,
+          UploadContentCheckStatuses.QUARANTINED
+        )
+      )
+    )
+    .orderBy(asc(UploadedFileTable.updatedAt))
+    .limit(batchSize);
+
+  const summary: UploadDigestSummary = {
+    scanned: files.length,
+    digested: 0,
+    mismatched: 0,
+    failures: [],
+  };
+
+  for (const file of files) {
+    const digestResult = await computeObjectDigests({
+      env,
+      objectKey: file.objectKey,
+    });
+    if (!digestResult.ok) {
+      summary.failures.push({
+        fileId: file.id,
+        errorCode: digestResult.errorCode,
+        error: digestResult.error,
+      });
+      await db
+        .update(UploadedFileTable)
+        .set({ updatedAt: new Date() })
+        .where(eq(UploadedFileTable.id, file.id));
+      continue;
+    }
+
+    const { sha256: checksumSha256, crc32 } = digestResult.data;
+    const expectedChecksumSha256 =
+      file.checksumSha256 ?? file.declaredChecksumSha256;
+    if (
+      expectedChecksumSha256 !== null &&
+      expectedChecksumSha256 !== checksumSha256
+    ) {
+      const quarantineResult = await quarantineObject({
+        env,
+        objectKey: file.objectKey,
+      });
+      if (!quarantineResult.ok) {
+        summary.failures.push({
+          fileId: file.id,
+          errorCode: quarantineResult.errorCode,
+          error: quarantineResult.error,
+        });
+        await db
+          .update(UploadedFileTable)
+          .set({ updatedAt: new Date() })
+          .where(eq(UploadedFileTable.id, file.id));
+        continue;
+      }
+
+      const now = new Date();
+      await db
+        .update(UploadedFileTable)
+        .set({
+          objectKey: quarantineResult.data.objectKey,
+          checksumSha256,
+          crc32,
+          contentCheckStatus: UploadContentCheckStatuses.QUARANTINED,
+          contentCheckDetail:
+            "Stored file does not match the SHA-256 checksum recorded for it",
+          quarantinedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(UploadedFileTable.id, file.id));
+      summary.mismatched += 1;
+      continue;
+    }
+
+    await db
+      .update(UploadedFileTable)
+      .set({ checksumSha256, crc32, updatedAt: new Date() })
+      .where(eq(UploadedFileTable.id, file.id));
+    summary.digested += 1;
+  }
+
+  return summary;
+}
@@ -0,0 +1,211 @@
+import { and, asc, eq, isNotNull, isNull, lt } from "drizzle-orm";
+import { WithDbAndEnv } from "../utils/commonTypes";
+import {
+  UploadedFileTable,
+  UploadSessionStatuses,
+  UploadSessionTable,
+} from "./db/schema";
+import { abortMultipartUpload, deleteObject } from "./r2Multipart";
+import { isSingleUploadSession } from "./uploads";
+
+export const UploadReaperBatchSize = 100;
+
+export type UploadReaperSummary = {
+  dryRun: boolean;
+  scanned: number;
+  expiredSingle: number;
+  expiredMultipart: number;
+  // Expired sessions whose object or multipart upload could not be removed.
+  abortFailures: Array<{
+    uploadSessionId: string;
+    errorCode: string;
+    error: string;
+  }>;
+  // Declared size of the removed uploads, so an upper bound on the storage
+  // actually released.
+  reclaimedBytes: number;
+};
+
+export type DeletedUploadPurgeSummary = {
+  dryRun: boolean;
+  scanned: number;
+  deleted: number;
+  deleteFailures: Array<{
+    fileId: string;
+    errorCode: string;
+    error: string;
+  }>;
+  reclaimedBytes: number;
+};
+
+function isFlagEnabled(value: string): boolean {
+  const flag = value.trim().toLowerCase();
+  return flag === "1" || flag === "true" || flag === "yes" || flag === "on";
+}
+
+export function isUploadReaperDryRun(env: Env): boolean {
+  return isFlagEnabled(env.UPLOAD_REAPER_DRY_RUN);
+}
+
+// Separate from the reaper's flag so one job can be dry-run on its own.
+export function isDeletedUploadPurgeDryRun(env: Env): boolean {
+  return isFlagEnabled(env.UPLOAD_PURGE_DRY_RUN);
+}
+
+/**
+ * Moves initiated sessions past their `expiresAt` into the `expired` status.
+ * Their storage is released in R2 first: multipart uploads are aborted, and
+ * the object of a single PUT is deleted in case the browser finished the PUT
+ * but never completed the upload. A session whose cleanup fails stays
+ * `initiated` and is retried on the next run.
+ */
+export async function reapExpiredUploadSessions({
+  db,
+  env,
+  dryRun,
+  now = new Date(),
+  batchSize = UploadReaperBatchSize,
+}: WithDbAndEnv<{
+  dryRun: boolean;
+  now?: Date;
+  batchSize?: number;
+}>): Promise<UploadReaperSummary> {
+  const expiredSessions = await db
+    .select({
+      id: UploadSessionTable.id,
+      uploadId: UploadSessionTable.uploadId,
+      objectKey: UploadSessionTable.objectKey,
+      fileSizeBytes: UploadSessionTable.fileSizeBytes,
+    })
+    .from(UploadSessionTable)
+    .where(
+      and(
+        eq(UploadSessionTable.status, UploadSessionStatuses.INITIATED),
+        lt(UploadSessionTable.expiresAt, now)
+      )
+    )
+    .orderBy(asc(UploadSessionTable.expiresAt))
+    .limit(batchSize);
+
+  const summary: UploadReaperSummary = {
+    dryRun,
+    scanned: expiredSessions.length,
+    expiredSingle: 0,
+    expiredMultipart: 0,
+    abortFailures: [],
+    reclaimedBytes: 0,
+  };
+
+  for (const uploadSession of expiredSessions) {
+    const isSingleUpload = isSingleUploadSession(uploadSession.uploadId);
+
+    if (!dryRun) {
+      // Deleting a key that was never written succeeds, so sessions whose
+      // PUT never happened need no special case.
+      const cleanupResult = isSingleUpload
+        ? await deleteObject({ env, objectKey: uploadSession.objectKey })
+        : await abortMultipartUpload({
+            env,
+            objectKey: uploadSession.objectKey,
+            uploadId: uploadSession.uploadId,
+          });
+      if (!cleanupResult.ok) {
+        summary.abortFailures.push({
+          uploadSessionId: uploadSession.id,
+          errorCode: cleanupResult.errorCode,
+          error: cleanupResult.error,
+        });
+        continue;
+      }
+
+      await db
+        .update(UploadSessionTable)
+        .set({
+          status: UploadSessionStatuses.EXPIRED,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(UploadSessionTable.id, uploadSession.id),
+            eq(UploadSessionTable.status, UploadSessionStatuses.INITIATED)
+          )
+        );
+    }
+
+    if (isSingleUpload) {
+      summary.expiredSingle += 1;
+    } else {
+      summary.expiredMultipart += 1;
+    }
+    summary.reclaimedBytes += uploadSession.fileSizeBytes;
+  }
+
+  return summary;
+}
+
+/**
+ * Removes the stored objects of files applicants deleted. A file whose
+ * object cannot be deleted keeps a null `objectDeletedAt` and is retried on
+ * the next run.
+ */
+export async function purgeDeletedUploadObjects({
+  db,
+  env,
+  dryRun,
+  batchSize = UploadReaperBatchSize,
+}: WithDbAndEnv<{
+  dryRun: boolean;
+  batchSize?: number;
+}>): Promise<DeletedUploadPurgeSummary> {
+  const deletedFiles = await db
+    .select({
+      id: UploadedFileTable.id,
+      objectKey: UploadedFileTable.objectKey,
+      fileSizeBytes: UploadedFileTable.fileSizeBytes,
+    })
+    .from(UploadedFileTable)
+    .where(
+      and(
+        isNotNull(UploadedFileTable.deletedAt),
+        isNull(UploadedFileTable.objectDeletedAt)
+      )
+    )
+    .orderBy(asc(UploadedFileTable.deletedAt))
+    .limit(batchSize);
+
+  const summary: DeletedUploadPurgeSummary = {
+    dryRun,
+    scanned: deletedFiles.length,
+    deleted: 0,
+    deleteFailures: [],
+    reclaimedBytes: 0,
+  };
+
+  for (const file of deletedFiles) {
+    if (!dryRun) {
+      const deleteResult = await deleteObject({
+        env,
+        objectKey: file.objectKey,
+      });
+      if (!deleteResult.ok) {
+        summary.deleteFailures.push({
+          fileId: file.id,
+          errorCode: deleteResult.errorCode,
+          error: deleteResult.error,
+        });
+        continue;
+      }
+
+      const now = new Date();
+      await db
+        .update(UploadedFileTable)
+        .set({ objectDeletedAt: now, updatedAt: now })
+        .where(eq(UploadedFileTable.id, file.id));
+    }
+
+    summary.deleted += 1;
+    summary.reclaimedBytes += file.fileSizeBytes;
+  }
+
+  return summary;
+}
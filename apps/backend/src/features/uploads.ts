@@ -1,31 +1,64 @@
-import { and, eq, inArray } from "drizzle-orm";
-import { WithDb, WithDbAndEnv } from "../utils/commonTypes";
+import { and, asc, desc, eq, gt, inArray, isNull, lte, ne } from "drizzle-orm";
+import {
+  WithDb,
+  WithDbAndEnv,
+  WithDbOrTx,
+  WithEnv,
+  WithTx,
+} from "../utils/commonTypes";
 import { ErrorCodes } from "../utils/error";
 import {
   SubmissionStatuses,
   SubmissionTable,
   TenderTable,
+  UploadContentCheckStatuses,
   UploadedFileTable,
   UploadSessionStatuses,
   UploadSessionTable,
+  type StoredPartChecksum,
+  type UploadContentCheckStatus,
 } from "./db/schema";
+import { ContentSniffByteLength, sniffUploadedContent } from "./contentSniffing";
+import { ensureEmailVerified } from "./emailVerification";
+import {
+  checkFirmPermission,
+  ensureFirmMembership,
+  FirmPermissions,
+  getFirmMembership,
+} from "./firms";
 import {
-  RequiredUploadQuestionIds,
+  checkTenderOpenForInFlightWork,
+  checkTenderOpenForWrites,
+  getUploadDeadlineGraceMs,
+} from "./tenderDeadline";
+import { issueSubmissionReceipt } from "./submissionReceipts";
+import { listTenderQuestions, type TenderQuestion } from "./tenderQuestions";
+import {
+  UploadContentTypesByExtension,
   UploadMaxFileSizeBytes,
   UploadMaxParts,
   UploadMultipartMinThresholdBytes,
   UploadMinFileSizeBytes,
   UploadPartSizeBytes,
-  UploadQuestionIds,
   UploadSessionTtlMs,
-  type UploadQuestionId,
 } from "./uploadConstants";
 import {
   abortMultipartUpload,
   completeMultipartUpload,
   createMultipartUploadWithPresignedParts,
   createSingleUploadWithPresignedUrl,
+  deleteObject,
+  getObjectMetadata,
+  listMultipartUploadParts,
+  objectExists,
+  presignMultipartUploadParts,
+  quarantineObject,
+  readObjectPrefix,
+  PartChecksumAlgorithms,
   type CompletedUploadPart,
+  type PartChecksumAlgorithm,
+  type PartChecksums,
+  type PresignedPart,
   type R2StorageDebugInfo,
 } from "./r2Multipart";
 
@@ -40,16 +73,26 @@ const UploadTypes = {
 
 type UploadType = (typeof UploadTypes)[keyof typeof UploadTypes];
 const SingleUploadIdPrefix = "single:";
+const Sha256Base64Pattern = /^[A-Za-z0-9+/]{43}=$/;
+const Crc32Base64Pattern = /^[A-Za-z0-9+/]{6}==$/;
 
 export type UploadSummary = {
   fileId: string;
-  questionId: UploadQuestionId;
+  questionId: string;
   fileName: string;
   fileSizeBytes: number;
   contentType: string;
+  checksumSha256: string | null;
+  contentCheckStatus: UploadContentCheckStatus;
+  contentCheckDetail: string | null;
   uploadedAt: Date;
 };
 
+export type UploadedFileVersion = UploadSummary & {
+  // When a newer upload took this file's place.
+  replacedAt: Date;
+};
+
 type SubmissionRow = {
   id: string;
   status: string;
@@ -62,36 +105,56 @@ export type UploadStatusResponse = {
     status: "draft" | "submitted";
     submittedAt: Date | null;
   };
-  uploads: Record<UploadQuestionId, UploadSummary | null>;
+  uploads: Record<string, UploadSummary[]>;
 };
 
-function isValidQuestionId(questionId: string): questionId is UploadQuestionId {
-  for (const allowedQuestionId of UploadQuestionIds) {
-    if (questionId === allowedQuestionId) {
-      return true;
-    }
-  }
-
-  return false;
-}
-
 function toSubmissionStatus(status: string): "draft" | "submitted" {
   return status === SubmissionStatuses.SUBMITTED
     ? SubmissionStatuses.SUBMITTED
     : SubmissionStatuses.DRAFT;
 }
 
+function getFileExtension(fileName: string): string {
+  const dotIndex = fileName.lastIndexOf(".");
+  if (dotIndex <= 0 || dotIndex === fileName.length - 1) {
+    return "";
+  }
+
+  return fileName.slice(dotIndex).toLowerCase();
+}
+
+function toContentCheckStatus(status: string): UploadContentCheckStatus {
+  switch (status) {
+    case UploadContentCheckStatuses.PASSED:
+      return UploadContentCheckStatuses.PASSED;
+    case UploadContentCheckStatuses.QUARANTINED:
+      return UploadContentCheckStatuses.QUARANTINED;
+    default:
+      return UploadContentCheckStatuses.UNCHECKED;
+  }
+}
+
 function sanitizeFileName(fileName: string): string {
   const trimmed = fileName.trim();
   return trimmed.replace(/[^a-zA-Z0-9._-]/g, "_");
 }
 
+export type ActiveTender = {
+  id: string;
+  firstDateToApply: Date;
+  lastDateToApply: Date;
+};
+
 export async function getActiveTender({
   db,
   tenderId,
-}: WithDb<{ tenderId: string }>): Promise<{ id: string } | null> {
+}: WithDb<{ tenderId: string }>): Promise<ActiveTender | null> {
   const tenders = await db
-    .select({ id: TenderTable.id })
+    .select({
+      id: TenderTable.id,
+      firstDateToApply: TenderTable.firstDateToApply,
+      lastDateToApply: TenderTable.lastDateToApply,
+    })
     .from(TenderTable)
     .where(and(eq(TenderTable.id, tenderId), eq(TenderTable.isActive, true)));
 
@@ -102,11 +165,13 @@ export async function getActiveTender({
   return tenders[0];
 }
 
+// Submissions belong to the firm, so every member works on the same draft.
 async function getOrCreateSubmission({
   db,
   tenderId,
+  firmId,
   userId,
-}: WithDb<{ tenderId: string; userId: string }>): Promise<
+}: WithDb<{ tenderId: string; firmId: string; userId: string }>): Promise<
   ServiceResult<SubmissionRow>
 > {
   const submissions = await db
@@ -119,7 +184,7 @@ async function getOrCreateSubmission({
     .where(
       and(
         eq(SubmissionTable.tenderId, tenderId),
-        eq(SubmissionTable.userId, userId),
+        eq(SubmissionTable.firmId, firmId),
         eq(SubmissionTable.isActive, true)
       )
     );
@@ -132,6 +197,7 @@ async function getOrCreateSubmission({
     .insert(SubmissionTable)
     .values({
       tenderId,
+      firmId,
       userId,
       createdBy: userId,
       status: SubmissionStatuses.DRAFT,
@@ -154,23 +220,28 @@ async function getOrCreateSubmission({
 }
 
 function validateInitiateInput({
+  questions,
   questionId,
   fileName,
   fileSizeBytes,
   contentType,
 }: {
+  questions: TenderQuestion[];
   questionId: string;
   fileName: string;
   fileSizeBytes: number;
   contentType: string;
 }): ServiceResult<{
-  questionId: UploadQuestionId;
+  question: TenderQuestion;
   fileName: string;
   contentType: string;
   uploadType: UploadType;
   totalParts: number;
 }> {
-  if (!isValidQuestionId(questionId)) {
+  const question = questions.find(
+    (candidate) => candidate.questionId === questionId
+  );
+  if (!question) {
     return {
       ok: false,
       errorCode: ErrorCodes.INVALID_INPUT,
@@ -208,6 +279,36 @@ function validateInitiateInput({
     } as const;
   }
 
+  const allowedExtensions = question.allowedExtensions.map((extension) =>
+    extension.toLowerCase()
+  );
+  const extension = getFileExtension(normalizedFileName);
+  if (allowedExtensions.length > 0 && !allowedExtensions.includes(extension)) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.FILE_EXTENSION_NOT_ALLOWED,
+      error: `File extension must be one of: ${allowedExtensions.join(", ")}`,
+    } as const;
+  }
+
+  const allowedContentTypes = UploadContentTypesByExtension[extension];
+  const baseContentType = normalizedContentType.split(";")[0].trim().toLowerCase();
+  if (allowedContentTypes && !allowedContentTypes.includes(baseContentType)) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.FILE_TYPE_NOT_ALLOWED,
+      error: `Content type ${baseContentType} is not allowed for ${extension} files`,
+    } as const;
+  }
+
+  if (fileSizeBytes > question.maxSizeBytes) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.FILE_TOO_LARGE,
+      error: `File exceeds the ${question.maxSizeBytes} byte limit for this question`,
+    } as const;
+  }
+
   const totalParts = Math.ceil(fileSizeBytes / UploadPartSizeBytes);
   if (totalParts <= 0 || totalParts > UploadMaxParts) {
     return {
@@ -220,7 +321,7 @@ function validateInitiateInput({
   return {
     ok: true,
     data: {
-      questionId,
+      question,
       fileName: normalizedFileName,
       contentType: normalizedContentType,
       uploadType:
@@ -232,13 +333,173 @@ function validateInitiateInput({
   } as const;
 }
 
+function isValidPartChecksum({
+  algorithm,
+  checksum,
+}: {
+  algorithm: PartChecksumAlgorithm;
+  checksum: string;
+}): boolean {
+  if (algorithm === PartChecksumAlgorithms.CRC32) {
+    return Crc32Base64Pattern.test(checksum);
+  }
+
+  return Sha256Base64Pattern.test(checksum);
+}
+
+function validateChecksumInput({
+  uploadType,
+  totalParts,
+  checksumSha256,
+  partChecksumAlgorithm,
+  partChecksums,
+}: {
+  uploadType: UploadType;
+  totalParts: number;
+  checksumSha256?: string;
+  partChecksumAlgorithm?: PartChecksumAlgorithm;
+  partChecksums?: StoredPartChecksum[];
+}): ServiceResult<{
+  checksumSha256: string | null;
+  partChecksums: PartChecksums | null;
+}> {
+  const normalizedChecksum = checksumSha256?.trim() ?? "";
+  if (normalizedChecksum.length > 0 && !Sha256Base64Pattern.test(normalizedChecksum)) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_INPUT,
+      error: "checksumSha256 must be a base64-encoded SHA-256 digest",
+    } as const;
+  }
+
+  if (!partChecksums && !partChecksumAlgorithm) {
+    return {
+      ok: true,
+      data: {
+        checksumSha256: normalizedChecksum.length > 0 ? normalizedChecksum : null,
+        partChecksums: null,
+      },
+    } as const;
+  }
+
+  if (uploadType !== UploadTypes.MULTIPART) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_INPUT,
+      error: "Part checksums are only supported for multipart uploads",
+    } as const;
+  }
+
+  if (!partChecksums || !partChecksumAlgorithm) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_INPUT,
+      error: "partChecksumAlgorithm and partChecksums must be provided together",
+    } as const;
+  }
+
+  if (partChecksums.length !== totalParts) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.PARTS_MISMATCH,
+      error: `partChecksums must contain exactly ${totalParts} items`,
+    } as const;
+  }
+
+  const checksumsByPartNumber = new Map<number, string>();
+  for (const partChecksum of partChecksums) {
+    const checksum = partChecksum.checksum.trim();
+    if (
+      !Number.isInteger(partChecksum.partNumber) ||
+      partChecksum.partNumber <= 0 ||
+      partChecksum.partNumber > totalParts
+    ) {
+      return {
+        ok: false,
+        errorCode: ErrorCodes.INVALID_INPUT,
+        error: "Invalid partNumber in partChecksums",
+      } as const;
+    }
+
+    if (!isValidPartChecksum({ algorithm: partChecksumAlgorithm, checksum })) {
+      return {
+        ok: false,
+        errorCode: ErrorCodes.INVALID_INPUT,
+        error: `Invalid ${partChecksumAlgorithm} checksum for part ${partChecksum.partNumber}`,
+      } as const;
+    }
+
+    if (checksumsByPartNumber.has(partChecksum.partNumber)) {
+      return {
+        ok: false,
+        errorCode: ErrorCodes.PARTS_MISMATCH,
+        error: "Duplicate partNumber in partChecksums",
+      } as const;
+    }
+
+    checksumsByPartNumber.set(partChecksum.partNumber, checksum);
+  }
+
+  return {
+    ok: true,
+    data: {
+      checksumSha256: normalizedChecksum.length > 0 ? normalizedChecksum : null,
+      partChecksums: {
+        algorithm: partChecksumAlgorithm,
+        checksumsByPartNumber,
+      },
+    },
+  } as const;
+}
+
+function toStoredPartChecksums(
+  partChecksums: PartChecksums | null
+): StoredPartChecksum[] | null {
+  if (!partChecksums) {
+    return null;
+  }
+
+  const stored: StoredPartChecksum[] = [];
+  for (const [partNumber, checksum] of partChecksums.checksumsByPartNumber) {
+    stored.push({ partNumber, checksum });
+  }
+
+  return stored.sort((left, right) => left.partNumber - right.partNumber);
+}
+
+function isPartChecksumAlgorithm(value: string): value is PartChecksumAlgorithm {
+  return value === PartChecksumAlgorithms.CRC32 || value === PartChecksumAlgorithms.SHA256;
+}
+
+function getSessionPartChecksums(
+  uploadSession: UploadSessionRecord
+): PartChecksums | undefined {
+  if (
+    uploadSession.partChecksumAlgorithm === null ||
+    uploadSession.partChecksums === null ||
+    !isPartChecksumAlgorithm(uploadSession.partChecksumAlgorithm)
+  ) {
+    return undefined;
+  }
+
+  const checksumsByPartNumber = new Map<number, string>();
+  for (const partChecksum of uploadSession.partChecksums) {
+    checksumsByPartNumber.set(partChecksum.partNumber, partChecksum.checksum);
+  }
+
+  return {
+    algorithm: uploadSession.partChecksumAlgorithm,
+    checksumsByPartNumber,
+  };
+}
+
 function buildObjectKey({
   applicationId,
   questionId,
   fileName,
 }: {
   applicationId: string;
-  questionId: UploadQuestionId;
+  questionId: string;
   fileName: string;
 }): string {
   const randomId = crypto.randomUUID();
@@ -246,6 +507,79 @@ function buildObjectKey({
   return `${applicationId}/${questionId}/${timestamp}-${randomId}-${fileName}`;
 }
 
+type UploadedContentCheck = {
+  objectKey: string;
+  contentCheckStatus: UploadContentCheckStatus;
+  contentCheckDetail: string | null;
+  quarantinedAt: Date | null;
+};
+
+async function checkUploadedContent({
+  env,
+  objectKey,
+  contentType,
+  fileName,
+  fileSizeBytes,
+}: WithEnv<{
+  objectKey: string;
+  contentType: string;
+  fileName: string;
+  fileSizeBytes: number;
+}>): Promise<ServiceResult<UploadedContentCheck>> {
+  const prefixResult = await readObjectPrefix({
+    env,
+    objectKey,
+    byteLength: Math.min(ContentSniffByteLength, fileSizeBytes),
+  });
+  if (!prefixResult.ok) {
+    return prefixResult;
+  }
+
+  const sniffResult = sniffUploadedContent({
+    bytes: prefixResult.data.bytes,
+    contentType,
+    fileName,
+  });
+  if (!sniffResult.checked) {
+    return {
+      ok: true,
+      data: {
+        objectKey,
+        contentCheckStatus: UploadContentCheckStatuses.UNCHECKED,
+        contentCheckDetail: null,
+        quarantinedAt: null,
+      },
+    } as const;
+  }
+
+  if (sniffResult.matches) {
+    return {
+      ok: true,
+      data: {
+        objectKey,
+        contentCheckStatus: UploadContentCheckStatuses.PASSED,
+        contentCheckDetail: null,
+        quarantinedAt: null,
+      },
+    } as const;
+  }
+
+  const quarantineResult = await quarantineObject({ env, objectKey });
+  if (!quarantineResult.ok) {
+    return quarantineResult;
+  }
+
+  return {
+    ok: true,
+    data: {
+      objectKey: quarantineResult.data.objectKey,
+      contentCheckStatus: UploadContentCheckStatuses.QUARANTINED,
+      contentCheckDetail: sniffResult.detail,
+      quarantinedAt: new Date(),
+    },
+  } as const;
+}
+
 type UploadSessionRecord = {
   id: string;
   submissionId: string;
@@ -255,19 +589,29 @@ type UploadSessionRecord = {
   contentType: string;
   objectKey: string;
   uploadId: string;
+  partSizeBytes: number;
   totalParts: number;
+  checksumSha256: string | null;
+  partChecksumAlgorithm: string | null;
+  partChecksums: StoredPartChecksum[] | null;
   expiresAt: Date;
   status: string;
+  createdAt: Date;
+  submissionStatus: string;
 };
 
 function createSingleUploadSessionId(): string {
   return `${SingleUploadIdPrefix}${crypto.randomUUID()}`;
 }
 
-function isSingleUploadSession(uploadId: string): boolean {
+export function isSingleUploadSession(uploadId: string): boolean {
   return uploadId.startsWith(SingleUploadIdPrefix);
 }
 
+/**
+ * Looks up a session on the user's firm submission. Any member who may edit
+ * the submission can finish or abort an upload a colleague started.
+ */
 async function getUploadSession({
   db,
   uploadSessionId,
@@ -277,7 +621,24 @@ async function getUploadSession({
   uploadSessionId: string;
   tenderId: string;
   userId: string;
-}>): Promise<UploadSessionRecord | null> {
+}>): Promise<ServiceResult<UploadSessionRecord>> {
+  const membership = await getFirmMembership({ db, userId });
+  if (membership === null) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.UPLOAD_SESSION_NOT_FOUND,
+      error: "Upload session not found",
+    } as const;
+  }
+
+  const permissionResult = checkFirmPermission({
+    membership,
+    permission: FirmPermissions.EDIT_SUBMISSION,
+  });
+  if (!permissionResult.ok) {
+    return permissionResult;
+  }
+
   const sessions = await db
     .select({
       id: UploadSessionTable.id,
@@ -288,25 +649,39 @@ async function getUploadSession({
       contentType: UploadSessionTable.contentType,
       objectKey: UploadSessionTable.objectKey,
       uploadId: UploadSessionTable.uploadId,
+      partSizeBytes: UploadSessionTable.partSizeBytes,
       totalParts: UploadSessionTable.totalParts,
+      checksumSha256: UploadSessionTable.checksumSha256,
+      partChecksumAlgorithm: UploadSessionTable.partChecksumAlgorithm,
+      partChecksums: UploadSessionTable.partChecksums,
       expiresAt: UploadSessionTable.expiresAt,
       status: UploadSessionTable.status,
+      createdAt: UploadSessionTable.createdAt,
+      submissionStatus: SubmissionTable.status,
     })
     .from(UploadSessionTable)
+    .innerJoin(
+      SubmissionTable,
+      eq(UploadSessionTable.submissionId, SubmissionTable.id)
+    )
     .where(
       and(
         eq(UploadSessionTable.id, uploadSessionId),
         eq(UploadSessionTable.tenderId, tenderId),
-        eq(UploadSessionTable.userId, userId),
+        eq(SubmissionTable.firmId, membership.firmId),
         eq(UploadSessionTable.isActive, true)
       )
     );
 
   if (sessions.length === 0) {
-    return null;
+    return {
+      ok: false,
+      errorCode: ErrorCodes.UPLOAD_SESSION_NOT_FOUND,
+      error: "Upload session not found",
+    } as const;
   }
 
-  return sessions[0];
+  return { ok: true, data: sessions[0] } as const;
 }
 
 function validateCompletedParts({
@@ -385,65 +760,238 @@ async function getSubmission({
   return submissions[0];
 }
 
-function buildEmptyUploadMap(): Record<UploadQuestionId, UploadSummary | null> {
-  return {
-    q1: null,
-    q2: null,
-    q3: null,
-    q4: null,
-    q5: null,
-  };
+/**
+ * Locks the submission row until the transaction ends and checks that it is
+ * still a draft. `submitTender` updates the same row, so a file can no
+ * longer be added or removed once the submission is submitted.
+ */
+async function lockDraftSubmission({
+  tx,
+  submissionId,
+}: WithTx<{ submissionId: string }>): Promise<ServiceResult<{ id: string }>> {
+  const submissions = await tx
+    .select({
+      id: SubmissionTable.id,
+      status: SubmissionTable.status,
+    })
+    .from(SubmissionTable)
+    .where(
+      and(
+        eq(SubmissionTable.id, submissionId),
+        eq(SubmissionTable.isActive, true)
+      )
+    )
+    .for("update");
+
+  if (submissions.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.SUBMISSION_NOT_FOUND,
+      error: "Submission not found",
+    } as const;
+  }
+
+  if (submissions[0].status !== SubmissionStatuses.DRAFT) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.SUBMISSION_ALREADY_SUBMITTED,
+      error: "Submission already submitted",
+    } as const;
+  }
+
+  return { ok: true, data: { id: submissions[0].id } } as const;
 }
 
-export async function initiateUpload({
+// Ends a session whose stored object will not become a file, so the object
+// does not linger in the bucket.
+async function discardUploadedObject({
   db,
   env,
-  userId,
-  tender,
-  questionId,
-  fileName,
-  fileSizeBytes,
-  contentType,
+  uploadSessionId,
+  objectKey,
 }: WithDbAndEnv<{
-  userId: string;
-  tender: { id: string };
-  questionId: string;
-  fileName: string;
-  fileSizeBytes: number;
-  contentType: string;
-}>): Promise<
-  ServiceResult<
-    | {
-        uploadType: "single";
-        uploadSessionId: string;
-        uploadId: string;
-        objectKey: string;
-        expiresAt: Date;
-        url: string;
-      }
-    | {
-        uploadType: "multipart";
-        uploadSessionId: string;
-        uploadId: string;
-        objectKey: string;
-        partSizeBytes: number;
-        totalParts: number;
-        expiresAt: Date;
-        parts: Array<{ partNumber: number; url: string; expiresAt: string }>;
-      }
-  >
-> {
-  const validation = validateInitiateInput({
-    questionId,
-    fileName,
-    fileSizeBytes,
+  uploadSessionId: string;
+  objectKey: string;
+}>): Promise<void> {
+  await db
+    .update(UploadSessionTable)
+    .set({
+      status: UploadSessionStatuses.ABORTED,
+      updatedAt: new Date(),
+    })
+    .where(eq(UploadSessionTable.id, uploadSessionId));
+
+  const deleteResult = await deleteObject({ env, objectKey });
+  if (!deleteResult.ok) {
+    console.error("Failed to delete discarded upload object:", deleteResult.error);
+  }
+}
+
+function buildEmptyUploadMap(
+  questions: TenderQuestion[]
+): Record<string, UploadSummary[]> {
+  const uploads: Record<string, UploadSummary[]> = {};
+  for (const question of questions) {
+    uploads[question.questionId] = [];
+  }
+
+  return uploads;
+}
+
+async function countActiveQuestionFiles({
+  db,
+  submissionId,
+  questionId,
+}: WithDbOrTx<{ submissionId: string; questionId: string }>): Promise<number> {
+  const files = await db
+    .select({ id: UploadedFileTable.id })
+    .from(UploadedFileTable)
+    .where(
+      and(
+        eq(UploadedFileTable.submissionId, submissionId),
+        eq(UploadedFileTable.questionId, questionId),
+        eq(UploadedFileTable.isActive, true),
+        ne(
+          UploadedFileTable.contentCheckStatus,
+          UploadContentCheckStatuses.QUARANTINED
+        )
+      )
+    );
+
+  return files.length;
+}
+
+/**
+ * Questions that take a single file replace it on every upload; questions
+ * that take several refuse new uploads once `maxFiles` are active.
+ * Quarantined files do not take up a slot. Only
+ * final when run under `lockDraftSubmission`, since concurrent completes
+ * would otherwise all see the same count.
+ */
+async function checkQuestionHasRoomForFile({
+  db,
+  submissionId,
+  question,
+}: WithDbOrTx<{
+  submissionId: string;
+  question: TenderQuestion;
+}>): Promise<ServiceResult<{ replacesExisting: boolean }>> {
+  if (question.maxFiles <= 1) {
+    return { ok: true, data: { replacesExisting: true } } as const;
+  }
+
+  const activeCount = await countActiveQuestionFiles({
+    db,
+    submissionId,
+    questionId: question.questionId,
+  });
+  if (activeCount >= question.maxFiles) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TOO_MANY_FILES,
+      error: `This question accepts at most ${question.maxFiles} files; remove one before adding another`,
+    } as const;
+  }
+
+  return { ok: true, data: { replacesExisting: false } } as const;
+}
+
+export async function initiateUpload({
+  db,
+  env,
+  userId,
+  tender,
+  questionId,
+  fileName,
+  fileSizeBytes,
+  contentType,
+  checksumSha256,
+  partChecksumAlgorithm,
+  partChecksums,
+}: WithDbAndEnv<{
+  userId: string;
+  tender: ActiveTender;
+  questionId: string;
+  fileName: string;
+  fileSizeBytes: number;
+  contentType: string;
+  checksumSha256?: string;
+  partChecksumAlgorithm?: PartChecksumAlgorithm;
+  partChecksums?: StoredPartChecksum[];
+}>): Promise<
+  ServiceResult<
+    | {
+        uploadType: "single";
+        uploadSessionId: string;
+        uploadId: string;
+        objectKey: string;
+        expiresAt: Date;
+        url: string;
+      }
+    | {
+        uploadType: "multipart";
+        uploadSessionId: string;
+        uploadId: string;
+        objectKey: string;
+        partSizeBytes: number;
+        totalParts: number;
+        expiresAt: Date;
+        parts: Array<{ partNumber: number; url: string; expiresAt: string }>;
+      }
+  >
+> {
+  const windowResult = checkTenderOpenForWrites({ tender, now: new Date() });
+  if (!windowResult.ok) {
+    return windowResult;
+  }
+
+  const verificationResult = await ensureEmailVerified({ db, userId });
+  if (!verificationResult.ok) {
+    return verificationResult;
+  }
+
+  const questions = await listTenderQuestions({ db, tenderId: tender.id });
+  const validation = validateInitiateInput({
+    questions,
+    questionId,
+    fileName,
+    fileSizeBytes,
     contentType,
   });
   if (!validation.ok) {
     return validation;
   }
 
-  const submissionResult = await getOrCreateSubmission({ db, tenderId: tender.id, userId });
+  const checksumValidation = validateChecksumInput({
+    uploadType: validation.data.uploadType,
+    totalParts: validation.data.totalParts,
+    checksumSha256,
+    partChecksumAlgorithm,
+    partChecksums,
+  });
+  if (!checksumValidation.ok) {
+    return checksumValidation;
+  }
+
+  const membershipResult = await ensureFirmMembership({ db, userId });
+  if (!membershipResult.ok) {
+    return membershipResult;
+  }
+
+  const permissionResult = checkFirmPermission({
+    membership: membershipResult.data,
+    permission: FirmPermissions.EDIT_SUBMISSION,
+  });
+  if (!permissionResult.ok) {
+    return permissionResult;
+  }
+
+  const submissionResult = await getOrCreateSubmission({
+    db,
+    tenderId: tender.id,
+    firmId: membershipResult.data.firmId,
+    userId,
+  });
   if (!submissionResult.ok) {
     return submissionResult;
   }
@@ -456,9 +1004,18 @@ export async function initiateUpload({
     } as const;
   }
 
+  const roomResult = await checkQuestionHasRoomForFile({
+    db,
+    submissionId: submissionResult.data.id,
+    question: validation.data.question,
+  });
+  if (!roomResult.ok) {
+    return roomResult;
+  }
+
   const objectKey = buildObjectKey({
     applicationId: submissionResult.data.id,
-    questionId: validation.data.questionId,
+    questionId: validation.data.question.questionId,
     fileName: validation.data.fileName,
   });
   const expiresAt = new Date(Date.now() + UploadSessionTtlMs);
@@ -469,6 +1026,8 @@ export async function initiateUpload({
       env,
       objectKey,
       contentType: validation.data.contentType,
+      fileSizeBytes,
+      checksumSha256: checksumValidation.data.checksumSha256 ?? undefined,
     });
     if (!singleUploadResult.ok) {
       return singleUploadResult;
@@ -481,7 +1040,7 @@ export async function initiateUpload({
         tenderId: tender.id,
         submissionId: submissionResult.data.id,
         userId,
-        questionId: validation.data.questionId,
+        questionId: validation.data.question.questionId,
         fileName: validation.data.fileName,
         fileSizeBytes,
         contentType: validation.data.contentType,
@@ -489,6 +1048,7 @@ export async function initiateUpload({
         uploadId,
         partSizeBytes: fileSizeBytes,
         totalParts: 1,
+        checksumSha256: checksumValidation.data.checksumSha256,
         expiresAt,
         status: UploadSessionStatuses.INITIATED,
       })
@@ -520,6 +1080,7 @@ export async function initiateUpload({
     objectKey,
     contentType: validation.data.contentType,
     totalParts: validation.data.totalParts,
+    partChecksums: checksumValidation.data.partChecksums ?? undefined,
   });
   if (!multipartResult.ok) {
     return multipartResult;
@@ -531,7 +1092,7 @@ export async function initiateUpload({
       tenderId: tender.id,
       submissionId: submissionResult.data.id,
       userId,
-      questionId: validation.data.questionId,
+      questionId: validation.data.question.questionId,
       fileName: validation.data.fileName,
       fileSizeBytes,
       contentType: validation.data.contentType,
@@ -539,6 +1100,9 @@ export async function initiateUpload({
       uploadId: multipartResult.data.uploadId,
       partSizeBytes: UploadPartSizeBytes,
       totalParts: validation.data.totalParts,
+      checksumSha256: checksumValidation.data.checksumSha256,
+      partChecksumAlgorithm: checksumValidation.data.partChecksums?.algorithm ?? null,
+      partChecksums: toStoredPartChecksums(checksumValidation.data.partChecksums),
       expiresAt,
       status: UploadSessionStatuses.INITIATED,
     })
@@ -583,7 +1147,7 @@ export async function completeUpload({
   etag,
 }: WithDbAndEnv<{
   userId: string;
-  tender: { id: string };
+  tender: ActiveTender;
   uploadSessionId: string;
   parts?: CompletedUploadPart[];
   etag?: string;
@@ -591,24 +1155,33 @@ export async function completeUpload({
   ServiceResult<{
     fileId: string;
     tenderId: string;
-    questionId: UploadQuestionId;
+    questionId: string;
     fileName: string;
     contentType: string;
     fileSizeBytes: number;
+    checksumSha256: string | null;
+    contentCheckStatus: UploadContentCheckStatus;
+    contentCheckDetail: string | null;
     uploadedAt: Date;
   }>
 > {
-  const uploadSession = await getUploadSession({
+  const uploadSessionResult = await getUploadSession({
     db,
     uploadSessionId,
     tenderId: tender.id,
     userId,
   });
-  if (!uploadSession) {
+  if (!uploadSessionResult.ok) {
+    return uploadSessionResult;
+  }
+
+  const uploadSession = uploadSessionResult.data;
+
+  if (uploadSession.status === UploadSessionStatuses.EXPIRED) {
     return {
       ok: false,
-      errorCode: ErrorCodes.UPLOAD_SESSION_NOT_FOUND,
-      error: "Upload session not found",
+      errorCode: ErrorCodes.UPLOAD_SESSION_EXPIRED,
+      error: "Upload session expired",
     } as const;
   }
 
@@ -620,6 +1193,14 @@ export async function completeUpload({
     } as const;
   }
 
+  if (uploadSession.submissionStatus !== SubmissionStatuses.DRAFT) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.SUBMISSION_ALREADY_SUBMITTED,
+      error: "Submission already submitted",
+    } as const;
+  }
+
   if (uploadSession.expiresAt.getTime() < Date.now()) {
     return {
       ok: false,
@@ -628,6 +1209,39 @@ export async function completeUpload({
     } as const;
   }
 
+  const windowResult = checkTenderOpenForInFlightWork({
+    tender,
+    startedAt: uploadSession.createdAt,
+    now: new Date(),
+    graceMs: getUploadDeadlineGraceMs(env),
+  });
+  if (!windowResult.ok) {
+    return windowResult;
+  }
+
+  const question = (await listTenderQuestions({ db, tenderId: tender.id })).find(
+    (candidate) => candidate.questionId === uploadSession.questionId
+  );
+  if (!question) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_INPUT,
+      error: "Invalid questionId",
+    } as const;
+  }
+
+  // Checked again here because several uploads for the same question may
+  // have been started while there was still room, and once more under the
+  // submission lock before the file is recorded.
+  const roomResult = await checkQuestionHasRoomForFile({
+    db,
+    submissionId: uploadSession.submissionId,
+    question,
+  });
+  if (!roomResult.ok) {
+    return roomResult;
+  }
+
   const isSingleUpload = isSingleUploadSession(uploadSession.uploadId);
   let finalizedEtag = "";
 
@@ -679,6 +1293,7 @@ export async function completeUpload({
       objectKey: uploadSession.objectKey,
       uploadId: uploadSession.uploadId,
       parts: validatedParts.data,
+      partChecksums: getSessionPartChecksums(uploadSession),
     });
     if (!completionResult.ok) {
       return completionResult;
@@ -687,77 +1302,180 @@ export async function completeUpload({
     finalizedEtag = completionResult.data.etag;
   }
 
-  const now = new Date();
+  // Multipart parts are not size-bound when presigned, so the stored size is
+  // the only proof the client kept to what it declared. The declared size
+  // was checked against the question's limit at initiate time.
+  const metadataResult = await getObjectMetadata({
+    env,
+    objectKey: uploadSession.objectKey,
+  });
+  if (!metadataResult.ok) {
+    return metadataResult;
+  }
 
-  await db
-    .update(UploadedFileTable)
-    .set({
-      isActive: false,
-      updatedAt: now,
-    })
-    .where(
-      and(
-        eq(UploadedFileTable.submissionId, uploadSession.submissionId),
-        eq(UploadedFileTable.questionId, uploadSession.questionId),
-        eq(UploadedFileTable.isActive, true)
-      )
-    );
+  if (metadataResult.data.sizeBytes !== uploadSession.fileSizeBytes) {
+    await discardUploadedObject({
+      db,
+      env,
+      uploadSessionId: uploadSession.id,
+      objectKey: uploadSession.objectKey,
+    });
 
-  if (!isValidQuestionId(uploadSession.questionId)) {
     return {
       ok: false,
-      errorCode: ErrorCodes.INVALID_INPUT,
-      error: "Upload session has invalid questionId",
+      errorCode: ErrorCodes.FILE_SIZE_MISMATCH,
+      error: "Uploaded file size does not match the declared size",
     } as const;
   }
 
-  const insertedFiles = await db
-    .insert(UploadedFileTable)
-    .values({
-      tenderId: tender.id,
-      submissionId: uploadSession.submissionId,
-      userId,
-      questionId: uploadSession.questionId,
+  // R2 rejects a single PUT whose body does not match the signed checksum
+  // and multipart parts whose bodies do not match theirs, so the object is
+  // not read again here. Where R2 holds no whole-file SHA-256 (multipart
+  // uploads), the digest job fills it in and checks it against the declared
+  // one later.
+  const checksumSha256 = metadataResult.data.checksumSha256;
+  if (
+    uploadSession.checksumSha256 !== null &&
+    checksumSha256 !== null &&
+    uploadSession.checksumSha256 !== checksumSha256
+  ) {
+    await discardUploadedObject({
+      db,
+      env,
       uploadSessionId: uploadSession.id,
       objectKey: uploadSession.objectKey,
-      fileName: uploadSession.fileName,
-      fileSizeBytes: uploadSession.fileSizeBytes,
-      contentType: uploadSession.contentType,
-      etag: finalizedEtag,
-      uploadedAt: now,
-    })
-    .returning({
-      fileId: UploadedFileTable.id,
-      uploadedAt: UploadedFileTable.uploadedAt,
     });
 
-  if (insertedFiles.length === 0) {
     return {
       ok: false,
-      errorCode: ErrorCodes.UPLOAD_CONFLICT,
-      error: "Failed to create uploaded file record",
+      errorCode: ErrorCodes.CHECKSUM_MISMATCH,
+      error: "Uploaded file does not match the declared SHA-256 checksum",
     } as const;
   }
 
-  await db
-    .update(UploadSessionTable)
-    .set({
-      status: UploadSessionStatuses.COMPLETED,
-      completedAt: now,
-      updatedAt: now,
-    })
-    .where(eq(UploadSessionTable.id, uploadSession.id));
+  const contentCheckResult = await checkUploadedContent({
+    env,
+    objectKey: uploadSession.objectKey,
+    contentType: uploadSession.contentType,
+    fileName: uploadSession.fileName,
+    fileSizeBytes: uploadSession.fileSizeBytes,
+  });
+  if (!contentCheckResult.ok) {
+    return contentCheckResult;
+  }
+
+  const now = new Date();
+
+  // Checked again under the submission lock: the submission may have been
+  // submitted while the object was being completed and checked.
+  const recordResult = await db.transaction(async (tx) => {
+    const lockResult = await lockDraftSubmission({
+      tx,
+      submissionId: uploadSession.submissionId,
+    });
+    if (!lockResult.ok) {
+      return lockResult;
+    }
+
+    // A quarantined upload is recorded so the applicant can see why it was
+    // rejected, but it takes no slot and must not replace a good file.
+    const isQuarantined =
+      contentCheckResult.data.contentCheckStatus ===
+      UploadContentCheckStatuses.QUARANTINED;
+    const lockedRoomResult = isQuarantined
+      ? ({ ok: true, data: { replacesExisting: false } } as const)
+      : await checkQuestionHasRoomForFile({
+          db: tx,
+          submissionId: uploadSession.submissionId,
+          question,
+        });
+    if (!lockedRoomResult.ok) {
+      return lockedRoomResult;
+    }
+
+    if (lockedRoomResult.data.replacesExisting) {
+      await tx
+        .update(UploadedFileTable)
+        .set({
+          isActive: false,
+          updatedAt: now,
+        })
+        .where(
+          and(
+            eq(UploadedFileTable.submissionId, uploadSession.submissionId),
+            eq(UploadedFileTable.questionId, uploadSession.questionId),
+            eq(UploadedFileTable.isActive, true)
+          )
+        );
+    }
+
+    const insertedFiles = await tx
+      .insert(UploadedFileTable)
+      .values({
+        tenderId: tender.id,
+        submissionId: uploadSession.submissionId,
+        userId,
+        questionId: uploadSession.questionId,
+        uploadSessionId: uploadSession.id,
+        objectKey: contentCheckResult.data.objectKey,
+        fileName: uploadSession.fileName,
+        fileSizeBytes: uploadSession.fileSizeBytes,
+        contentType: uploadSession.contentType,
+        etag: finalizedEtag,
+        checksumSha256,
+        contentCheckStatus: contentCheckResult.data.contentCheckStatus,
+        contentCheckDetail: contentCheckResult.data.contentCheckDetail,
+        quarantinedAt: contentCheckResult.data.quarantinedAt,
+        uploadedAt: now,
+      })
+      .returning({
+        fileId: UploadedFileTable.id,
+        uploadedAt: UploadedFileTable.uploadedAt,
+      });
+
+    if (insertedFiles.length === 0) {
+      return {
+        ok: false,
+        errorCode: ErrorCodes.UPLOAD_CONFLICT,
+        error: "Failed to create uploaded file record",
+      } as const;
+    }
+
+    await tx
+      .update(UploadSessionTable)
+      .set({
+        status: UploadSessionStatuses.COMPLETED,
+        completedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(UploadSessionTable.id, uploadSession.id));
+
+    return { ok: true, data: insertedFiles[0] } as const;
+  });
+
+  if (!recordResult.ok) {
+    await discardUploadedObject({
+      db,
+      env,
+      uploadSessionId: uploadSession.id,
+      objectKey: contentCheckResult.data.objectKey,
+    });
+    return recordResult;
+  }
 
   return {
     ok: true,
     data: {
-      fileId: insertedFiles[0].fileId,
+      fileId: recordResult.data.fileId,
       tenderId: tender.id,
       questionId: uploadSession.questionId,
       fileName: uploadSession.fileName,
       contentType: uploadSession.contentType,
       fileSizeBytes: uploadSession.fileSizeBytes,
-      uploadedAt: insertedFiles[0].uploadedAt,
+      checksumSha256,
+      contentCheckStatus: contentCheckResult.data.contentCheckStatus,
+      contentCheckDetail: contentCheckResult.data.contentCheckDetail,
+      uploadedAt: recordResult.data.uploadedAt,
     },
   } as const;
 }
@@ -782,20 +1500,18 @@ export async function abortUpload({
     } as const;
   }
 
-  const uploadSession = await getUploadSession({
+  const uploadSessionResult = await getUploadSession({
     db,
     uploadSessionId: trimmedUploadSessionId,
     tenderId: tender.id,
     userId,
   });
-  if (!uploadSession) {
-    return {
-      ok: false,
-      errorCode: ErrorCodes.UPLOAD_SESSION_NOT_FOUND,
-      error: "Upload session not found",
-    } as const;
+  if (!uploadSessionResult.ok) {
+    return uploadSessionResult;
   }
 
+  const uploadSession = uploadSessionResult.data;
+
   if (uploadSession.status !== UploadSessionStatuses.INITIATED) {
     return {
       ok: false,
@@ -830,84 +1546,703 @@ export async function abortUpload({
   } as const;
 }
 
-export async function getUploadStatus({
+/**
+ * Deletes one active file of a draft submission. The row is kept, marked as
+ * deleted, and its stored object is removed by the maintenance job.
+ */
+export async function deleteUploadedFile({
   db,
   userId,
-  tenderId,
+  tender,
+  fileId,
 }: WithDb<{
   userId: string;
-  tenderId: string;
-}>): Promise<ServiceResult<UploadStatusResponse>> {
-  const tender = await getActiveTender({ db, tenderId });
-  if (!tender) {
-    return {
-      ok: false,
-      errorCode: ErrorCodes.TENDER_NOT_FOUND,
-      error: "Tender not found",
-    } as const;
+  tender: ActiveTender;
+  fileId: string;
+}>): Promise<ServiceResult<{ fileId: string; questionId: string }>> {
+  const windowResult = checkTenderOpenForWrites({ tender, now: new Date() });
+  if (!windowResult.ok) {
+    return windowResult;
   }
 
-  const uploads = buildEmptyUploadMap();
+  const membershipResult = await ensureFirmMembership({ db, userId });
+  if (!membershipResult.ok) {
+    return membershipResult;
+  }
 
-  const submissions = await db
+  const permissionResult = checkFirmPermission({
+    membership: membershipResult.data,
+    permission: FirmPermissions.EDIT_SUBMISSION,
+  });
+  if (!permissionResult.ok) {
+    return permissionResult;
+  }
+
+  const files = await db
     .select({
-      id: SubmissionTable.id,
-      status: SubmissionTable.status,
-      submittedAt: SubmissionTable.submittedAt,
+      fileId: UploadedFileTable.id,
+      submissionId: UploadedFileTable.submissionId,
+      questionId: UploadedFileTable.questionId,
+      submissionStatus: SubmissionTable.status,
     })
-    .from(SubmissionTable)
+    .from(UploadedFileTable)
+    .innerJoin(SubmissionTable, eq(UploadedFileTable.submissionId, SubmissionTable.id))
     .where(
       and(
-        eq(SubmissionTable.tenderId, tender.id),
-        eq(SubmissionTable.userId, userId),
+        eq(UploadedFileTable.id, fileId),
+        eq(UploadedFileTable.tenderId, tender.id),
+        eq(UploadedFileTable.isActive, true),
+        eq(SubmissionTable.firmId, membershipResult.data.firmId),
         eq(SubmissionTable.isActive, true)
       )
     );
 
-  if (submissions.length === 0) {
+  if (files.length === 0) {
     return {
-      ok: true,
-      data: {
-        tenderId: tender.id,
-        submission: { status: "draft", submittedAt: null },
-        uploads,
-      },
+      ok: false,
+      errorCode: ErrorCodes.UPLOADED_FILE_NOT_FOUND,
+      error: "Uploaded file not found",
     } as const;
   }
 
-  const submission = submissions[0];
+  const file = files[0];
+  if (file.submissionStatus === SubmissionStatuses.SUBMITTED) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.SUBMISSION_ALREADY_SUBMITTED,
+      error: "Submission already submitted",
+    } as const;
+  }
 
-  const activeUploads = await db
-    .select({
-      fileId: UploadedFileTable.id,
+  const now = new Date();
+  const deleteResult = await db.transaction(async (tx) => {
+    const lockResult = await lockDraftSubmission({
+      tx,
+      submissionId: file.submissionId,
+    });
+    if (!lockResult.ok) {
+      return lockResult;
+    }
+
+    await tx
+      .update(UploadedFileTable)
+      .set({
+        isActive: false,
+        deletedAt: now,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(UploadedFileTable.id, file.fileId),
+          eq(UploadedFileTable.isActive, true)
+        )
+      );
+
+    return { ok: true, data: { deleted: true } } as const;
+  });
+  if (!deleteResult.ok) {
+    return deleteResult;
+  }
+
+  return {
+    ok: true,
+    data: { fileId: file.fileId, questionId: file.questionId },
+  } as const;
+}
+
+/**
+ * Earlier files of a question that newer uploads replaced, newest first.
+ * Deleted and quarantined files are left out because they cannot be
+ * restored.
+ */
+export async function listQuestionFileVersions({
+  db,
+  userId,
+  tenderId,
+  questionId,
+}: WithDb<{
+  userId: string;
+  tenderId: string;
+  questionId: string;
+}>): Promise<ServiceResult<{ questionId: string; versions: UploadedFileVersion[] }>> {
+  const tender = await getActiveTender({ db, tenderId });
+  if (!tender) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TENDER_NOT_FOUND,
+      error: "Tender not found",
+    } as const;
+  }
+
+  const questions = await listTenderQuestions({ db, tenderId: tender.id });
+  if (!questions.some((question) => question.questionId === questionId)) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_INPUT,
+      error: "Invalid questionId",
+    } as const;
+  }
+
+  const membership = await getFirmMembership({ db, userId });
+  if (membership === null) {
+    return { ok: true, data: { questionId, versions: [] } } as const;
+  }
+
+  const versions = await db
+    .select({
+      fileId: UploadedFileTable.id,
       questionId: UploadedFileTable.questionId,
       fileName: UploadedFileTable.fileName,
       fileSizeBytes: UploadedFileTable.fileSizeBytes,
       contentType: UploadedFileTable.contentType,
+      checksumSha256: UploadedFileTable.checksumSha256,
+      contentCheckStatus: UploadedFileTable.contentCheckStatus,
+      contentCheckDetail: UploadedFileTable.contentCheckDetail,
       uploadedAt: UploadedFileTable.uploadedAt,
+      replacedAt: UploadedFileTable.updatedAt,
     })
     .from(UploadedFileTable)
+    .innerJoin(SubmissionTable, eq(UploadedFileTable.submissionId, SubmissionTable.id))
     .where(
       and(
-        eq(UploadedFileTable.submissionId, submission.id),
-        eq(UploadedFileTable.isActive, true),
-        inArray(UploadedFileTable.questionId, [...UploadQuestionIds])
+        eq(UploadedFileTable.tenderId, tender.id),
+        eq(UploadedFileTable.questionId, questionId),
+        eq(UploadedFileTable.isActive, false),
+        isNull(UploadedFileTable.deletedAt),
+        ne(
+          UploadedFileTable.contentCheckStatus,
+          UploadContentCheckStatuses.QUARANTINED
+        ),
+        eq(SubmissionTable.firmId, membership.firmId),
+        eq(SubmissionTable.isActive, true)
+      )
+    )
+    .orderBy(desc(UploadedFileTable.updatedAt));
+
+  return {
+    ok: true,
+    data: {
+      questionId,
+      versions: versions.map((version) => ({
+        ...version,
+        contentCheckStatus: toContentCheckStatus(version.contentCheckStatus),
+      })),
+    },
+  } as const;
+}
+
+/**
+ * Makes an earlier version of a question's file active again. It takes the
+ * current file's place on single-file questions and needs a free slot on
+ * questions that take several files.
+ */
+export async function restoreUploadedFileVersion({
+  db,
+  env,
+  userId,
+  tender,
+  fileId,
+}: WithDbAndEnv<{
+  userId: string;
+  tender: ActiveTender;
+  fileId: string;
+}>): Promise<ServiceResult<UploadSummary>> {
+  const windowResult = checkTenderOpenForWrites({ tender, now: new Date() });
+  if (!windowResult.ok) {
+    return windowResult;
+  }
+
+  const membershipResult = await ensureFirmMembership({ db, userId });
+  if (!membershipResult.ok) {
+    return membershipResult;
+  }
+
+  const permissionResult = checkFirmPermission({
+    membership: membershipResult.data,
+    permission: FirmPermissions.EDIT_SUBMISSION,
+  });
+  if (!permissionResult.ok) {
+    return permissionResult;
+  }
+
+  const files = await db
+    .select({
+      fileId: UploadedFileTable.id,
+      submissionId: UploadedFileTable.submissionId,
+      questionId: UploadedFileTable.questionId,
+      objectKey: UploadedFileTable.objectKey,
+      fileName: UploadedFileTable.fileName,
+      fileSizeBytes: UploadedFileTable.fileSizeBytes,
+      contentType: UploadedFileTable.contentType,
+      checksumSha256: UploadedFileTable.checksumSha256,
+      contentCheckStatus: UploadedFileTable.contentCheckStatus,
+      contentCheckDetail: UploadedFileTable.contentCheckDetail,
+      uploadedAt: UploadedFileTable.uploadedAt,
+      submissionStatus: SubmissionTable.status,
+    })
+    .from(UploadedFileTable)
+    .innerJoin(SubmissionTable, eq(UploadedFileTable.submissionId, SubmissionTable.id))
+    .where(
+      and(
+        eq(UploadedFileTable.id, fileId),
+        eq(UploadedFileTable.tenderId, tender.id),
+        eq(UploadedFileTable.isActive, false),
+        isNull(UploadedFileTable.deletedAt),
+        ne(
+          UploadedFileTable.contentCheckStatus,
+          UploadContentCheckStatuses.QUARANTINED
+        ),
+        eq(SubmissionTable.firmId, membershipResult.data.firmId),
+        eq(SubmissionTable.isActive, true)
       )
     );
 
-  for (const upload of activeUploads) {
-    if (!isValidQuestionId(upload.questionId)) {
+  if (files.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.UPLOADED_FILE_NOT_FOUND,
+      error: "Previous file version not found",
+    } as const;
+  }
+
+  const file = files[0];
+  if (file.submissionStatus === SubmissionStatuses.SUBMITTED) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.SUBMISSION_ALREADY_SUBMITTED,
+      error: "Submission already submitted",
+    } as const;
+  }
+
+  const question = (await listTenderQuestions({ db, tenderId: tender.id })).find(
+    (candidate) => candidate.questionId === file.questionId
+  );
+  if (!question) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_INPUT,
+      error: "Invalid questionId",
+    } as const;
+  }
+
+  const existsResult = await objectExists({ env, objectKey: file.objectKey });
+  if (!existsResult.ok) {
+    return existsResult;
+  }
+
+  if (!existsResult.data.exists) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.UPLOADED_FILE_OBJECT_MISSING,
+      error: "This version is no longer stored and cannot be restored",
+    } as const;
+  }
+
+  const now = new Date();
+  const restoreResult = await db.transaction(async (tx) => {
+    const lockResult = await lockDraftSubmission({
+      tx,
+      submissionId: file.submissionId,
+    });
+    if (!lockResult.ok) {
+      return lockResult;
+    }
+
+    const roomResult = await checkQuestionHasRoomForFile({
+      db: tx,
+      submissionId: file.submissionId,
+      question,
+    });
+    if (!roomResult.ok) {
+      return roomResult;
+    }
+
+    if (roomResult.data.replacesExisting) {
+      await tx
+        .update(UploadedFileTable)
+        .set({
+          isActive: false,
+          updatedAt: now,
+        })
+        .where(
+          and(
+            eq(UploadedFileTable.submissionId, file.submissionId),
+            eq(UploadedFileTable.questionId, file.questionId),
+            eq(UploadedFileTable.isActive, true)
+          )
+        );
+    }
+
+    await tx
+      .update(UploadedFileTable)
+      .set({
+        isActive: true,
+        updatedAt: now,
+      })
+      .where(eq(UploadedFileTable.id, file.fileId));
+
+    return { ok: true, data: { restored: true } } as const;
+  });
+  if (!restoreResult.ok) {
+    return restoreResult;
+  }
+
+  return {
+    ok: true,
+    data: {
+      fileId: file.fileId,
+      questionId: file.questionId,
+      fileName: file.fileName,
+      fileSizeBytes: file.fileSizeBytes,
+      contentType: file.contentType,
+      checksumSha256: file.checksumSha256,
+      contentCheckStatus: toContentCheckStatus(file.contentCheckStatus),
+      contentCheckDetail: file.contentCheckDetail,
+      uploadedAt: file.uploadedAt,
+    },
+  } as const;
+}
+
+async function getResumableUploadSession({
+  db,
+  userId,
+  tender,
+  uploadSessionId,
+  graceMs,
+}: WithDb<{
+  userId: string;
+  tender: ActiveTender;
+  uploadSessionId: string;
+  graceMs: number;
+}>): Promise<ServiceResult<UploadSessionRecord>> {
+  const trimmedUploadSessionId = uploadSessionId.trim();
+  if (trimmedUploadSessionId.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_INPUT,
+      error: "Invalid uploadSessionId",
+    } as const;
+  }
+
+  const uploadSessionResult = await getUploadSession({
+    db,
+    uploadSessionId: trimmedUploadSessionId,
+    tenderId: tender.id,
+    userId,
+  });
+  if (!uploadSessionResult.ok) {
+    return uploadSessionResult;
+  }
+
+  const uploadSession = uploadSessionResult.data;
+
+  if (uploadSession.status === UploadSessionStatuses.EXPIRED) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.UPLOAD_SESSION_EXPIRED,
+      error: "Upload session expired",
+    } as const;
+  }
+
+  if (uploadSession.status !== UploadSessionStatuses.INITIATED) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.UPLOAD_SESSION_STATE_INVALID,
+      error: "Upload session is not in initiated state",
+    } as const;
+  }
+
+  if (uploadSession.expiresAt.getTime() < Date.now()) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.UPLOAD_SESSION_EXPIRED,
+      error: "Upload session expired",
+    } as const;
+  }
+
+  if (uploadSession.submissionStatus !== SubmissionStatuses.DRAFT) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.SUBMISSION_ALREADY_SUBMITTED,
+      error: "Submission already submitted",
+    } as const;
+  }
+
+  if (isSingleUploadSession(uploadSession.uploadId)) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.UPLOAD_SESSION_STATE_INVALID,
+      error: "Single uploads cannot be resumed",
+    } as const;
+  }
+
+  const windowResult = checkTenderOpenForInFlightWork({
+    tender,
+    startedAt: uploadSession.createdAt,
+    now: new Date(),
+    graceMs,
+  });
+  if (!windowResult.ok) {
+    return windowResult;
+  }
+
+  return { ok: true, data: uploadSession } as const;
+}
+
+export async function listUploadSessionParts({
+  db,
+  env,
+  userId,
+  tender,
+  uploadSessionId,
+}: WithDbAndEnv<{
+  userId: string;
+  tender: ActiveTender;
+  uploadSessionId: string;
+}>): Promise<
+  ServiceResult<{
+    uploadSessionId: string;
+    uploadId: string;
+    objectKey: string;
+    partSizeBytes: number;
+    totalParts: number;
+    expiresAt: Date;
+    uploadedParts: CompletedUploadPart[];
+    missingParts: PresignedPart[];
+  }>
+> {
+  const sessionResult = await getResumableUploadSession({
+    db,
+    userId,
+    tender,
+    uploadSessionId,
+    graceMs: getUploadDeadlineGraceMs(env),
+  });
+  if (!sessionResult.ok) {
+    return sessionResult;
+  }
+
+  const uploadSession = sessionResult.data;
+  const listResult = await listMultipartUploadParts({
+    env,
+    objectKey: uploadSession.objectKey,
+    uploadId: uploadSession.uploadId,
+  });
+  if (!listResult.ok) {
+    return listResult;
+  }
+
+  const uploadedParts: CompletedUploadPart[] = [];
+  const uploadedPartNumbers = new Set<number>();
+  for (const part of listResult.data) {
+    if (part.partNumber > uploadSession.totalParts) {
       continue;
     }
 
-    uploads[upload.questionId] = {
+    uploadedParts.push(part);
+    uploadedPartNumbers.add(part.partNumber);
+  }
+
+  const missingPartNumbers: number[] = [];
+  for (let partNumber = 1; partNumber <= uploadSession.totalParts; partNumber += 1) {
+    if (!uploadedPartNumbers.has(partNumber)) {
+      missingPartNumbers.push(partNumber);
+    }
+  }
+
+  const presignResult = await presignMultipartUploadParts({
+    env,
+    objectKey: uploadSession.objectKey,
+    uploadId: uploadSession.uploadId,
+    partNumbers: missingPartNumbers,
+    partChecksums: getSessionPartChecksums(uploadSession),
+  });
+  if (!presignResult.ok) {
+    return presignResult;
+  }
+
+  return {
+    ok: true,
+    data: {
+      uploadSessionId: uploadSession.id,
+      uploadId: uploadSession.uploadId,
+      objectKey: uploadSession.objectKey,
+      partSizeBytes: uploadSession.partSizeBytes,
+      totalParts: uploadSession.totalParts,
+      expiresAt: uploadSession.expiresAt,
+      uploadedParts,
+      missingParts: presignResult.data,
+    },
+  } as const;
+}
+
+export async function presignUploadSessionParts({
+  db,
+  env,
+  userId,
+  tender,
+  uploadSessionId,
+  startPartNumber,
+  endPartNumber,
+}: WithDbAndEnv<{
+  userId: string;
+  tender: ActiveTender;
+  uploadSessionId: string;
+  startPartNumber: number;
+  endPartNumber: number;
+}>): Promise<
+  ServiceResult<{
+    uploadSessionId: string;
+    parts: PresignedPart[];
+  }>
+> {
+  const sessionResult = await getResumableUploadSession({
+    db,
+    userId,
+    tender,
+    uploadSessionId,
+    graceMs: getUploadDeadlineGraceMs(env),
+  });
+  if (!sessionResult.ok) {
+    return sessionResult;
+  }
+
+  const uploadSession = sessionResult.data;
+  if (
+    !Number.isInteger(startPartNumber) ||
+    !Number.isInteger(endPartNumber) ||
+    startPartNumber < 1 ||
+    endPartNumber < startPartNumber ||
+    endPartNumber > uploadSession.totalParts
+  ) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.INVALID_INPUT,
+      error: `Part range must be within 1 and ${uploadSession.totalParts}`,
+    } as const;
+  }
+
+  const partNumbers: number[] = [];
+  for (let partNumber = startPartNumber; partNumber <= endPartNumber; partNumber += 1) {
+    partNumbers.push(partNumber);
+  }
+
+  const presignResult = await presignMultipartUploadParts({
+    env,
+    objectKey: uploadSession.objectKey,
+    uploadId: uploadSession.uploadId,
+    partNumbers,
+    partChecksums: getSessionPartChecksums(uploadSession),
+  });
+  if (!presignResult.ok) {
+    return presignResult;
+  }
+
+  return {
+    ok: true,
+    data: {
+      uploadSessionId: uploadSession.id,
+      parts: presignResult.data,
+    },
+  } as const;
+}
+
+export async function getUploadStatus({
+  db,
+  userId,
+  tenderId,
+}: WithDb<{
+  userId: string;
+  tenderId: string;
+}>): Promise<ServiceResult<UploadStatusResponse>> {
+  const tender = await getActiveTender({ db, tenderId });
+  if (!tender) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TENDER_NOT_FOUND,
+      error: "Tender not found",
+    } as const;
+  }
+
+  const questions = await listTenderQuestions({ db, tenderId: tender.id });
+  const uploads = buildEmptyUploadMap(questions);
+  const membership = await getFirmMembership({ db, userId });
+  if (membership === null) {
+    return {
+      ok: true,
+      data: {
+        tenderId: tender.id,
+        submission: { status: "draft", submittedAt: null },
+        uploads,
+      },
+    } as const;
+  }
+
+  const submissions = await db
+    .select({
+      id: SubmissionTable.id,
+      status: SubmissionTable.status,
+      submittedAt: SubmissionTable.submittedAt,
+    })
+    .from(SubmissionTable)
+    .where(
+      and(
+        eq(SubmissionTable.tenderId, tender.id),
+        eq(SubmissionTable.firmId, membership.firmId),
+        eq(SubmissionTable.isActive, true)
+      )
+    );
+
+  if (submissions.length === 0) {
+    return {
+      ok: true,
+      data: {
+        tenderId: tender.id,
+        submission: { status: "draft", submittedAt: null },
+        uploads,
+      },
+    } as const;
+  }
+
+  const submission = submissions[0];
+
+  const activeUploads = await db
+    .select({
+      fileId: UploadedFileTable.id,
+      questionId: UploadedFileTable.questionId,
+      fileName: UploadedFileTable.fileName,
+      fileSizeBytes: UploadedFileTable.fileSizeBytes,
+      contentType: UploadedFileTable.contentType,
+      checksumSha256: UploadedFileTable.checksumSha256,
+      contentCheckStatus: UploadedFileTable.contentCheckStatus,
+      contentCheckDetail: UploadedFileTable.contentCheckDetail,
+      uploadedAt: UploadedFileTable.uploadedAt,
+    })
+    .from(UploadedFileTable)
+    .where(
+      and(
+        eq(UploadedFileTable.submissionId, submission.id),
+        eq(UploadedFileTable.isActive, true),
+        inArray(
+          UploadedFileTable.questionId,
+          questions.map((question) => question.questionId)
+        )
+      )
+    )
+    .orderBy(asc(UploadedFileTable.uploadedAt));
+
+  for (const upload of activeUploads) {
+    uploads[upload.questionId].push({
       fileId: upload.fileId,
       questionId: upload.questionId,
       fileName: upload.fileName,
       fileSizeBytes: upload.fileSizeBytes,
       contentType: upload.contentType,
+      checksumSha256: upload.checksumSha256,
+      contentCheckStatus: toContentCheckStatus(upload.contentCheckStatus),
+      contentCheckDetail: upload.contentCheckDetail,
       uploadedAt: upload.uploadedAt,
-    };
+    });
   }
 
   return {
@@ -923,11 +2258,92 @@ export async function getUploadStatus({
   } as const;
 }
 
+// The earliest upload that was started before the deadline and completed
+// after it; such a submission may still be submitted within the grace window.
+async function getUploadCompletedAfterDeadline({
+  db,
+  submissionId,
+  deadline,
+}: WithDb<{
+  submissionId: string;
+  deadline: Date;
+}>): Promise<{ createdAt: Date } | null> {
+  const sessions = await db
+    .select({ createdAt: UploadSessionTable.createdAt })
+    .from(UploadSessionTable)
+    .where(
+      and(
+        eq(UploadSessionTable.submissionId, submissionId),
+        eq(UploadSessionTable.status, UploadSessionStatuses.COMPLETED),
+        lte(UploadSessionTable.createdAt, deadline),
+        gt(UploadSessionTable.updatedAt, deadline)
+      )
+    )
+    .orderBy(UploadSessionTable.createdAt)
+    .limit(1);
+
+  if (sessions.length === 0) {
+    return null;
+  }
+
+  return sessions[0];
+}
+
+/**
+ * Required questions of the tender that do not have an active upload yet.
+ * Quarantined files do not count as uploaded.
+ */
+export async function listMissingRequiredQuestions({
+  db,
+  tenderId,
+  submissionId,
+}: WithDb<{
+  tenderId: string;
+  submissionId: string;
+}>): Promise<TenderQuestion[]> {
+  const requiredQuestions = (await listTenderQuestions({ db, tenderId })).filter(
+    (question) => question.isRequired
+  );
+  if (requiredQuestions.length === 0) {
+    return [];
+  }
+
+  const requiredUploads = await db
+    .select({
+      questionId: UploadedFileTable.questionId,
+    })
+    .from(UploadedFileTable)
+    .where(
+      and(
+        eq(UploadedFileTable.submissionId, submissionId),
+        eq(UploadedFileTable.isActive, true),
+        ne(
+          UploadedFileTable.contentCheckStatus,
+          UploadContentCheckStatuses.QUARANTINED
+        ),
+        inArray(
+          UploadedFileTable.questionId,
+          requiredQuestions.map((question) => question.questionId)
+        )
+      )
+    );
+
+  const presentQuestionIds = new Set<string>();
+  for (const requiredUpload of requiredUploads) {
+    presentQuestionIds.add(requiredUpload.questionId);
+  }
+
+  return requiredQuestions.filter(
+    (question) => !presentQuestionIds.has(question.questionId)
+  );
+}
+
 export async function submitTender({
   db,
+  env,
   userId,
   tenderId,
-}: WithDb<{
+}: WithDbAndEnv<{
   userId: string;
   tenderId: string;
 }>): Promise<
@@ -935,6 +2351,7 @@ export async function submitTender({
     tenderId: string;
     status: "submitted";
     submittedAt: Date;
+    receiptNumber: string | null;
   }>
 > {
   const tender = await getActiveTender({ db, tenderId });
@@ -946,9 +2363,23 @@ export async function submitTender({
     } as const;
   }
 
+  const membershipResult = await ensureFirmMembership({ db, userId });
+  if (!membershipResult.ok) {
+    return membershipResult;
+  }
+
+  const permissionResult = checkFirmPermission({
+    membership: membershipResult.data,
+    permission: FirmPermissions.SUBMIT_TENDER,
+  });
+  if (!permissionResult.ok) {
+    return permissionResult;
+  }
+
   const submissionResult = await getOrCreateSubmission({
     db,
     tenderId: tender.id,
+    firmId: membershipResult.data.firmId,
     userId,
   });
   if (!submissionResult.ok) {
@@ -963,31 +2394,48 @@ export async function submitTender({
     } as const;
   }
 
-  const requiredUploads = await db
-    .select({
-      questionId: UploadedFileTable.questionId,
-    })
-    .from(UploadedFileTable)
-    .where(
-      and(
-        eq(UploadedFileTable.submissionId, submissionResult.data.id),
-        eq(UploadedFileTable.isActive, true),
-        inArray(UploadedFileTable.questionId, [...RequiredUploadQuestionIds])
-      )
-    );
+  const now = new Date();
+  const windowResult = checkTenderOpenForWrites({ tender, now });
+  if (!windowResult.ok) {
+    const lateUpload = await getUploadCompletedAfterDeadline({
+      db,
+      submissionId: submissionResult.data.id,
+      deadline: tender.lastDateToApply,
+    });
+    if (!lateUpload) {
+      return windowResult;
+    }
 
-  const presentQuestionIds = new Set<string>();
-  for (const requiredUpload of requiredUploads) {
-    presentQuestionIds.add(requiredUpload.questionId);
+    const graceResult = checkTenderOpenForInFlightWork({
+      tender,
+      startedAt: lateUpload.createdAt,
+      now,
+      graceMs: getUploadDeadlineGraceMs(env),
+    });
+    if (!graceResult.ok) {
+      return graceResult;
+    }
   }
 
-  const missingQuestionIds: string[] = [];
-  for (const requiredQuestionId of RequiredUploadQuestionIds) {
-    if (!presentQuestionIds.has(requiredQuestionId)) {
-      missingQuestionIds.push(requiredQuestionId);
-    }
+  // Without questions there is nothing to check, and an empty submission
+  // would go through.
+  const questions = await listTenderQuestions({ db, tenderId: tender.id });
+  if (questions.length === 0) {
+    return {
+      ok: false,
+      errorCode: ErrorCodes.TENDER_HAS_NO_QUESTIONS,
+      error: "Tender has no questions to answer",
+    } as const;
   }
 
+  const missingQuestionIds = (
+    await listMissingRequiredQuestions({
+      db,
+      tenderId: tender.id,
+      submissionId: submissionResult.data.id,
+    })
+  ).map((question) => question.questionId);
+
   if (missingQuestionIds.length > 0) {
     return {
       ok: false,
@@ -996,6 +2444,8 @@ export async function submitTender({
     } as const;
   }
 
+  // Only the request that moves the draft to submitted goes on to issue the
+  // receipt; a concurrent submit finds no draft left to update.
   const submittedAt = new Date();
   const updatedSubmissions = await db
     .update(SubmissionTable)
@@ -1004,23 +2454,43 @@ export async function submitTender({
       submittedAt,
       updatedAt: submittedAt,
     })
-    .where(eq(SubmissionTable.id, submissionResult.data.id))
+    .where(
+      and(
+        eq(SubmissionTable.id, submissionResult.data.id),
+        eq(SubmissionTable.status, SubmissionStatuses.DRAFT)
+      )
+    )
     .returning({ submittedAt: SubmissionTable.submittedAt });
 
   if (updatedSubmissions.length === 0 || updatedSubmissions[0].submittedAt === null) {
     return {
       ok: false,
-      errorCode: ErrorCodes.SUBMISSION_NOT_FOUND,
-      error: "Failed to mark submission as submitted",
+      errorCode: ErrorCodes.SUBMISSION_ALREADY_SUBMITTED,
+      error: "Submission already submitted",
     } as const;
   }
 
+  // The submission already stands; a receipt that fails to issue here is
+  // issued when it is first downloaded, so it does not fail the request.
+  const receiptResult = await issueSubmissionReceipt({
+    db,
+    env,
+    submissionId: submissionResult.data.id,
+    recipientUserId: userId,
+  });
+  if (!receiptResult.ok) {
+    console.error("Failed to issue submission receipt:", receiptResult.error);
+  }
+
   return {
     ok: true,
     data: {
       tenderId: tender.id,
       status: "submitted",
       submittedAt: updatedSubmissions[0].submittedAt,
+      receiptNumber: receiptResult.ok
+        ? receiptResult.data.manifest.receiptNumber
+        : null,
     },
   } as const;
 }
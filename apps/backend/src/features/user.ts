@@ -72,6 +72,7 @@ export async function getUserByIdWithRoles({
   firmName: string | null;
   name: string | null;
   phoneNumber: string | null;
+  emailVerified: boolean;
   roles: Array<{ roleId: string; roleName: string }>;
 } | null> {
   const users = await db
@@ -81,6 +82,7 @@ export async function getUserByIdWithRoles({
       firmName: UserTable.firmName,
       name: UserTable.name,
       phoneNumber: UserTable.phoneNumber,
+      emailVerifiedAt: UserTable.emailVerifiedAt,
     })
     .from(UserTable)
     .where(and(eq(UserTable.id, id), eq(UserTable.isActive, true)));
@@ -89,7 +91,7 @@ export async function getUserByIdWithRoles({
     return null;
   }
 
-  const user = users[0];
+  const { emailVerifiedAt, ...user } = users[0];
 
   const userRoles = await db
     .select({
@@ -108,6 +110,7 @@ export async function getUserByIdWithRoles({
 
   return {
     ...user,
+    emailVerified: emailVerifiedAt !== null,
     roles: userRoles,
   };
 }
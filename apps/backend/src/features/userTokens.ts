@@ -0,0 +1,109 @@
+import { and, eq, gt, isNull } from "drizzle-orm";
+import { WithDb } from "../utils/commonTypes";
+import { generateOpaqueToken, hashOpaqueToken } from "./auth";
+import { UserTokenTable, type UserTokenPurpose } from "./db/schema";
+
+/**
+ * Issues a single-use token for `purpose` and deactivates the user's earlier
+ * unused tokens for the same purpose, so only the latest email link works.
+ */
+export async function issueUserToken({
+  db,
+  userId,
+  purpose,
+  ttlMs,
+}: WithDb<{
+  userId: string;
+  purpose: UserTokenPurpose;
+  ttlMs: number;
+}>): Promise<{ token: string; expiresAt: Date }> {
+  const now = new Date();
+  await db
+    .update(UserTokenTable)
+    .set({ isActive: false, updatedAt: now })
+    .where(
+      and(
+        eq(UserTokenTable.userId, userId),
+        eq(UserTokenTable.purpose, purpose),
+        eq(UserTokenTable.isActive, true),
+        isNull(UserTokenTable.consumedAt)
+      )
+    );
+
+  const token = generateOpaqueToken();
+  const expiresAt = new Date(now.getTime() + ttlMs);
+  await db.insert(UserTokenTable).values({
+    userId,
+    purpose,
+    tokenHash: await hashOpaqueToken(token),
+    expiresAt,
+  });
+
+  return { token, expiresAt };
+}
+
+/**
+ * Marks a token as used and returns its user. Returns null for unknown,
+ * expired, superseded or already used tokens.
+ */
+export async function consumeUserToken({
+  db,
+  token,
+  purpose,
+}: WithDb<{
+  token: string;
+  purpose: UserTokenPurpose;
+}>): Promise<{ userId: string } | null> {
+  const now = new Date();
+  const consumed = await db
+    .update(UserTokenTable)
+    .set({ consumedAt: now, updatedAt: now })
+    .where(
+      and(
+        eq(UserTokenTable.tokenHash, await hashOpaqueToken(token)),
+        eq(UserTokenTable.purpose, purpose),
+        eq(UserTokenTable.isActive, true),
+        isNull(UserTokenTable.consumedAt),
+        gt(UserTokenTable.expiresAt, now)
+      )
+    )
+    .returning({ userId: UserTokenTable.userId });
+
+  if (consumed.length === 0) {
+    return null;
+  }
+
+  return consumed[0];
+}
+
+/**
+ * Looks a token up without using it, for flows that need several requests
+ * before the token is finally consumed.
+ */
+export async function findUserToken({
+  db,
+  token,
+  purpose,
+}: WithDb<{
+  token: string;
+  purpose: UserTokenPurpose;
+}>): Promise<{ userId: string } | null> {
+  const tokens = await db
+    .select({ userId: UserTokenTable.userId })
+    .from(UserTokenTable)
+    .where(
+      and(
+        eq(UserTokenTable.tokenHash, await hashOpaqueToken(token)),
+        eq(UserTokenTable.purpose, purpose),
+        eq(UserTokenTable.isActive, true),
+        isNull(UserTokenTable.consumedAt),
+        gt(UserTokenTable.expiresAt, new Date())
+      )
+    );
+
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  return tokens[0];
+}
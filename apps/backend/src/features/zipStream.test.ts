@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import {
+  createBytesStream,
+  createZipStream,
+  type ZipStreamEntry,
+} from "./zipStream";
+
+const encoder = new TextEncoder();
+const ModifiedAt = new Date("2026-01-01T12:00:00Z");
+// CRC32 of the ASCII bytes "hello".
+const HelloCrc32 = 0x3610a686;
+
+const Signatures = {
+  LOCAL_FILE_HEADER: 0x04034b50,
+  DATA_DESCRIPTOR: 0x08074b50,
+  CENTRAL_DIRECTORY_HEADER: 0x02014b50,
+  ZIP64_END_OF_CENTRAL_DIRECTORY: 0x06064b50,
+  END_OF_CENTRAL_DIRECTORY: 0x06054b50,
+} as const;
+
+function createChunksStream(chunks: string[]): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+}
+
+function helloEntry(overrides: Partial<ZipStreamEntry> = {}): ZipStreamEntry {
+  return {
+    name: "hello.txt",
+    modifiedAt: ModifiedAt,
+    open: async () => createChunksStream(["hel", "lo"]),
+    sizeBytes: 5,
+    crc32: null,
+    ...overrides,
+  };
+}
+
+async function readZip(entries: ZipStreamEntry[]) {
+  const bytes = new Uint8Array(
+    await new Response(createZipStream(entries)).arrayBuffer()
+  );
+  const view = new DataView(bytes.buffer);
+  const endOffset = bytes.length - 22;
+  expect(view.getUint32(endOffset, true)).toBe(
+    Signatures.END_OF_CENTRAL_DIRECTORY
+  );
+
+  return {
+    bytes,
+    view,
+    endOffset,
+    centralDirectoryOffset: view.getUint32(endOffset + 16, true),
+  };
+}
+
+describe("createZipStream", () => {
+  it("writes the CRC32 after the data and in the directory", async () => {
+    const { bytes, view, endOffset, centralDirectoryOffset } = await readZip([
+      helloEntry(),
+    ]);
+    const nameLength = "hello.txt".length;
+
+    expect(view.getUint32(0, true)).toBe(Signatures.LOCAL_FILE_HEADER);
+    expect(view.getUint16(6, true)).toBe(0x0808);
+    expect(view.getUint32(14, true)).toBe(0);
+    expect(view.getUint16(28, true)).toBe(0);
+
+    const dataOffset = 30 + nameLength;
+    expect(
+      new TextDecoder().decode(bytes.subarray(dataOffset, dataOffset + 5))
+    ).toBe("hello");
+
+    const descriptorOffset = dataOffset + 5;
+    expect(view.getUint32(descriptorOffset, true)).toBe(
+      Signatures.DATA_DESCRIPTOR
+    );
+    expect(view.getUint32(descriptorOffset + 4, true)).toBe(HelloCrc32);
+    expect(view.getUint32(descriptorOffset + 8, true)).toBe(5);
+    expect(view.getUint32(descriptorOffset + 12, true)).toBe(5);
+    expect(centralDirectoryOffset).toBe(descriptorOffset + 16);
+
+    expect(view.getUint32(centralDirectoryOffset, true)).toBe(
+      Signatures.CENTRAL_DIRECTORY_HEADER
+    );
+    expect(view.getUint16(centralDirectoryOffset + 8, true)).toBe(0x0808);
+    expect(view.getUint32(centralDirectoryOffset + 16, true)).toBe(HelloCrc32);
+    expect(view.getUint32(centralDirectoryOffset + 20, true)).toBe(5);
+    expect(view.getUint32(centralDirectoryOffset + 24, true)).toBe(5);
+    expect(view.getUint32(centralDirectoryOffset + 42, true)).toBe(0);
+    expect(view.getUint16(endOffset + 10, true)).toBe(1);
+  });
+
+  it("uses a known CRC32 as given", async () => {
+    const { view, centralDirectoryOffset } = await readZip([
+      helloEntry({ crc32: 0x12345678 }),
+    ]);
+
+    expect(view.getUint32(centralDirectoryOffset - 12, true)).toBe(0x12345678);
+    expect(view.getUint32(centralDirectoryOffset + 16, true)).toBe(0x12345678);
+  });
+
+  it("uses ZIP64 sizes for an entry declared at 4 GiB or more", async () => {
+    const { bytes, view, centralDirectoryOffset } = await readZip([
+      helloEntry({ sizeBytes: 0xffffffff }),
+    ]);
+    const nameLength = "hello.txt".length;
+
+    expect(view.getUint16(4, true)).toBe(45);
+    expect(view.getUint32(18, true)).toBe(0xffffffff);
+    expect(view.getUint32(22, true)).toBe(0xffffffff);
+    expect(view.getUint16(28, true)).toBe(20);
+    expect(view.getUint16(30 + nameLength, true)).toBe(0x0001);
+
+    const descriptorOffset = 30 + nameLength + 20 + 5;
+    expect(view.getUint32(descriptorOffset, true)).toBe(
+      Signatures.DATA_DESCRIPTOR
+    );
+    expect(view.getUint32(descriptorOffset + 4, true)).toBe(HelloCrc32);
+    expect(view.getBigUint64(descriptorOffset + 8, true)).toBe(5n);
+    expect(view.getBigUint64(descriptorOffset + 16, true)).toBe(5n);
+    expect(centralDirectoryOffset).toBe(descriptorOffset + 24);
+
+    // The directory records the size actually written, which fits in 32 bits.
+    expect(view.getUint32(centralDirectoryOffset + 20, true)).toBe(5);
+    expect(view.getUint16(centralDirectoryOffset + 30, true)).toBe(0);
+    expect(bytes.length).toBe(centralDirectoryOffset + 46 + nameLength + 22);
+  });
+
+  // Streaming this many entries takes a few seconds on a slow machine.
+  it("writes a ZIP64 end record for 65535 entries or more", async () => {
+    const entryCount = 0xffff;
+    const entries = Array.from({ length: entryCount }, (_, index) => ({
+      name: `${index}`,
+      modifiedAt: ModifiedAt,
+      open: async () => createBytesStream(new Uint8Array(0)),
+      sizeBytes: 0,
+      crc32: 0,
+    }));
+
+    const { view, endOffset } = await readZip(entries);
+
+    expect(view.getUint16(endOffset + 10, true)).toBe(0xffff);
+    expect(view.getUint32(endOffset + 16, true)).toBe(0xffffffff);
+
+    const zip64EndOffset = endOffset - 20 - 56;
+    expect(view.getUint32(zip64EndOffset, true)).toBe(
+      Signatures.ZIP64_END_OF_CENTRAL_DIRECTORY
+    );
+    expect(view.getBigUint64(zip64EndOffset + 32, true)).toBe(
+      BigInt(entryCount)
+    );
+    expect(view.getBigUint64(endOffset - 12, true)).toBe(
+      BigInt(zip64EndOffset)
+    );
+  }, 60_000);
+});
@@ -0,0 +1,336 @@
+import { updateCrc32 } from "./crc32";
+
+// Minimal streaming ZIP writer. Entries are stored without compression and
+// written one at a time with trailing data descriptors, so the archive can be
+// produced from source streams without holding more than one chunk in
+// memory. ZIP64 records are emitted only when a size or offset does not fit
+// in 32 bits.
+
+export type ZipStreamEntry = {
+  name: string;
+  modifiedAt: Date;
+  open: () => Promise<ReadableStream<Uint8Array>>;
+  // Declared size, used to decide whether the local header needs ZIP64.
+  sizeBytes: number;
+  // CRC32 of the contents when it is already known; otherwise it is
+  // computed while the entry streams.
+  crc32: number | null;
+};
+
+type CentralDirectoryRecord = {
+  nameBytes: Uint8Array;
+  crc32: number;
+  sizeBytes: number;
+  localHeaderOffset: number;
+  dosTime: number;
+  dosDate: number;
+};
+
+const Uint32Max = 0xffffffff;
+const Uint16Max = 0xffff;
+const ZipVersion = 20;
+const Zip64Version = 45;
+// Bit 3: sizes and CRC follow the data. Bit 11: names are UTF-8.
+const GeneralPurposeFlags = 0x0808;
+const Zip64ExtraFieldId = 0x0001;
+
+const Signatures = {
+  LOCAL_FILE_HEADER: 0x04034b50,
+  DATA_DESCRIPTOR: 0x08074b50,
+  CENTRAL_DIRECTORY_HEADER: 0x02014b50,
+  ZIP64_END_OF_CENTRAL_DIRECTORY: 0x06064b50,
+  ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR: 0x07064b50,
+  END_OF_CENTRAL_DIRECTORY: 0x06054b50,
+} as const;
+
+class ByteWriter {
+  private readonly view: DataView;
+  readonly bytes: Uint8Array;
+  private offset = 0;
+
+  constructor(length: number) {
+    this.bytes = new Uint8Array(length);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  uint16(value: number) {
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+    return this;
+  }
+
+  uint32(value: number) {
+    this.view.setUint32(this.offset, value >>> 0, true);
+    this.offset += 4;
+    return this;
+  }
+
+  uint64(value: number) {
+    this.view.setBigUint64(this.offset, BigInt(value), true);
+    this.offset += 8;
+    return this;
+  }
+
+  raw(bytes: Uint8Array) {
+    this.bytes.set(bytes, this.offset);
+    this.offset += bytes.length;
+    return this;
+  }
+}
+
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.min(Math.max(date.getUTCFullYear(), 1980), 2107);
+  return {
+    dosTime:
+      (date.getUTCHours() << 11) |
+      (date.getUTCMinutes() << 5) |
+      Math.floor(date.getUTCSeconds() / 2),
+    dosDate: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+function buildLocalFileHeader({
+  nameBytes,
+  dosTime,
+  dosDate,
+  useZip64,
+}: {
+  nameBytes: Uint8Array;
+  dosTime: number;
+  dosDate: number;
+  useZip64: boolean;
+}): Uint8Array {
+  const extraLength = useZip64 ? 20 : 0;
+  const writer = new ByteWriter(30 + nameBytes.length + extraLength)
+    .uint32(Signatures.LOCAL_FILE_HEADER)
+    .uint16(useZip64 ? Zip64Version : ZipVersion)
+    .uint16(GeneralPurposeFlags)
+    .uint16(0)
+    .uint16(dosTime)
+    .uint16(dosDate)
+    .uint32(0)
+    .uint32(useZip64 ? Uint32Max : 0)
+    .uint32(useZip64 ? Uint32Max : 0)
+    .uint16(nameBytes.length)
+    .uint16(extraLength)
+    .raw(nameBytes);
+
+  if (useZip64) {
+    writer.uint16(Zip64ExtraFieldId).uint16(16).uint64(0).uint64(0);
+  }
+
+  return writer.bytes;
+}
+
+function buildDataDescriptor({
+  crc32,
+  sizeBytes,
+  useZip64,
+}: {
+  crc32: number;
+  sizeBytes: number;
+  useZip64: boolean;
+}): Uint8Array {
+  if (useZip64) {
+    return new ByteWriter(24)
+      .uint32(Signatures.DATA_DESCRIPTOR)
+      .uint32(crc32)
+      .uint64(sizeBytes)
+      .uint64(sizeBytes).bytes;
+  }
+
+  return new ByteWriter(16)
+    .uint32(Signatures.DATA_DESCRIPTOR)
+    .uint32(crc32)
+    .uint32(sizeBytes)
+    .uint32(sizeBytes).bytes;
+}
+
+function buildCentralDirectoryHeader(record: CentralDirectoryRecord): Uint8Array {
+  const sizeNeedsZip64 = record.sizeBytes >= Uint32Max;
+  const offsetNeedsZip64 = record.localHeaderOffset >= Uint32Max;
+  const zip64FieldCount = (sizeNeedsZip64 ? 2 : 0) + (offsetNeedsZip64 ? 1 : 0);
+  const extraLength = zip64FieldCount > 0 ? 4 + zip64FieldCount * 8 : 0;
+  const version = zip64FieldCount > 0 ? Zip64Version : ZipVersion;
+
+  const writer = new ByteWriter(46 + record.nameBytes.length + extraLength)
+    .uint32(Signatures.CENTRAL_DIRECTORY_HEADER)
+    .uint16(version)
+    .uint16(version)
+    .uint16(GeneralPurposeFlags)
+    .uint16(0)
+    .uint16(record.dosTime)
+    .uint16(record.dosDate)
+    .uint32(record.crc32)
+    .uint32(sizeNeedsZip64 ? Uint32Max : record.sizeBytes)
+    .uint32(sizeNeedsZip64 ? Uint32Max : record.sizeBytes)
+    .uint16(record.nameBytes.length)
+    .uint16(extraLength)
+    .uint16(0)
+    .uint16(0)
+    .uint16(0)
+    .uint32(0)
+    .uint32(offsetNeedsZip64 ? Uint32Max : record.localHeaderOffset)
+    .raw(record.nameBytes);
+
+  if (zip64FieldCount > 0) {
+    writer.uint16(Zip64ExtraFieldId).uint16(zip64FieldCount * 8);
+    if (sizeNeedsZip64) {
+      writer.uint64(record.sizeBytes).uint64(record.sizeBytes);
+    }
+    if (offsetNeedsZip64) {
+      writer.uint64(record.localHeaderOffset);
+    }
+  }
+
+  return writer.bytes;
+}
+
+function buildEndOfCentralDirectory({
+  entryCount,
+  centralDirectoryOffset,
+  centralDirectorySize,
+}: {
+  entryCount: number;
+  centralDirectoryOffset: number;
+  centralDirectorySize: number;
+}): Uint8Array {
+  const useZip64 =
+    entryCount >= Uint16Max ||
+    centralDirectoryOffset >= Uint32Max ||
+    centralDirectorySize >= Uint32Max;
+
+  const endRecord = new ByteWriter(22)
+    .uint32(Signatures.END_OF_CENTRAL_DIRECTORY)
+    .uint16(0)
+    .uint16(0)
+    .uint16(useZip64 ? Uint16Max : entryCount)
+    .uint16(useZip64 ? Uint16Max : entryCount)
+    .uint32(useZip64 ? Uint32Max : centralDirectorySize)
+    .uint32(useZip64 ? Uint32Max : centralDirectoryOffset)
+    .uint16(0).bytes;
+
+  if (!useZip64) {
+    return endRecord;
+  }
+
+  const zip64EndOffset = centralDirectoryOffset + centralDirectorySize;
+  return new ByteWriter(56 + 20 + endRecord.length)
+    .uint32(Signatures.ZIP64_END_OF_CENTRAL_DIRECTORY)
+    .uint64(44)
+    .uint16(Zip64Version)
+    .uint16(Zip64Version)
+    .uint32(0)
+    .uint32(0)
+    .uint64(entryCount)
+    .uint64(entryCount)
+    .uint64(centralDirectorySize)
+    .uint64(centralDirectoryOffset)
+    .uint32(Signatures.ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR)
+    .uint32(0)
+    .uint64(zip64EndOffset)
+    .uint32(1)
+    .raw(endRecord).bytes;
+}
+
+async function* generateZipChunks(
+  entries: ZipStreamEntry[]
+): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const records: CentralDirectoryRecord[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const nameBytes = encoder.encode(entry.name);
+    const { dosTime, dosDate } = toDosDateTime(entry.modifiedAt);
+    const useZip64 = entry.sizeBytes >= Uint32Max;
+    const localHeaderOffset = offset;
+
+    const localHeader = buildLocalFileHeader({ nameBytes, dosTime, dosDate, useZip64 });
+    offset += localHeader.length;
+    yield localHeader;
+
+    let crc32 = entry.crc32 ?? 0;
+    let sizeBytes = 0;
+    let isEntryComplete = false;
+    const reader = (await entry.open()).getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          isEntryComplete = true;
+          break;
+        }
+
+        if (entry.crc32 === null) {
+          crc32 = updateCrc32(crc32, value);
+        }
+        sizeBytes += value.length;
+        offset += value.length;
+        yield value;
+      }
+    } finally {
+      // Releases the source connection when the client goes away mid-entry.
+      if (!isEntryComplete) {
+        await reader.cancel().catch(() => undefined);
+      }
+      reader.releaseLock();
+    }
+
+    const dataDescriptor = buildDataDescriptor({ crc32, sizeBytes, useZip64 });
+    offset += dataDescriptor.length;
+    yield dataDescriptor;
+
+    records.push({ nameBytes, crc32, sizeBytes, localHeaderOffset, dosTime, dosDate });
+  }
+
+  const centralDirectoryOffset = offset;
+  let centralDirectorySize = 0;
+  for (const record of records) {
+    const header = buildCentralDirectoryHeader(record);
+    centralDirectorySize += header.length;
+    yield header;
+  }
+
+  yield buildEndOfCentralDirectory({
+    entryCount: records.length,
+    centralDirectoryOffset,
+    centralDirectorySize,
+  });
+}
+
+/**
+ * Returns a stream of a ZIP archive containing `entries` in order. Each entry
+ * is opened only when the previous one has been fully written.
+ */
+export function createZipStream(entries: ZipStreamEntry[]): ReadableStream<Uint8Array> {
+  const chunks = generateZipChunks(entries);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await chunks.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+
+        controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+export function createBytesStream(bytes: Uint8Array): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    },
+  });
+}
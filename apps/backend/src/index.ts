@@ -8,7 +8,19 @@ import { adminEndpoint } from "./endpoints/admin";
 import { applicationsEndpoint } from "./endpoints/applications";
 import { applicationStateEndpoint } from "./endpoints/applicationState";
 import { uploadAliasEndpoint } from "./endpoints/uploadAlias";
+import { firmsEndpoint } from "./endpoints/firms";
+import { twoFactorEndpoint } from "./endpoints/twoFactor";
 import { cors } from "hono/cors";
+import { connectDb } from "./features/db/connect";
+import { sendDeadlineReminders } from "./features/deadlineReminders";
+import { processEmailOutbox } from "./features/emailOutbox";
+import { digestUploadedFiles } from "./features/uploadDigests";
+import {
+  isDeletedUploadPurgeDryRun,
+  isUploadReaperDryRun,
+  purgeDeletedUploadObjects,
+  reapExpiredUploadSessions,
+} from "./features/uploadReaper";
 
 const app = getHono();
 
@@ -26,14 +38,91 @@ app.doc("/doc", {
 });
 
 app.route("api/v1/auth", authEndpoint);
+app.route("api/v1/auth/two-factor", twoFactorEndpoint);
 app.route("api/v1/user", userEndpoint);
 app.route("api/v1/uploads", uploadsEndpoint);
 app.route("api/v1/upload", uploadAliasEndpoint);
 app.route("api/v1/submissions", submissionsEndpoint);
 app.route("api/v1/admin", adminEndpoint);
+app.route("api/v1/firms", firmsEndpoint);
 app.route("api/v1", applicationsEndpoint);
 app.route("api/v1", applicationStateEndpoint);
 
 app.get("/api", Scalar({ url: "/doc", theme: "elysiajs", layout: "classic" }));
 
-export default app;
+async function runUploadReaper(env: Env) {
+  try {
+    const db = connectDb({ env });
+    const summary = await reapExpiredUploadSessions({
+      db,
+      env,
+      dryRun: isUploadReaperDryRun(env),
+    });
+    console.log("Upload reaper summary:", JSON.stringify(summary));
+  } catch (err) {
+    console.error("Upload reaper failed:", err);
+  }
+}
+
+async function runDeletedUploadPurge(env: Env) {
+  try {
+    const db = connectDb({ env });
+    const summary = await purgeDeletedUploadObjects({
+      db,
+      env,
+      dryRun: isDeletedUploadPurgeDryRun(env),
+    });
+    console.log("Deleted upload purge summary:", JSON.stringify(summary));
+  } catch (err) {
+    console.error("Deleted upload purge failed:", err);
+  }
+}
+
+async function runUploadDigests(env: Env) {
+  try {
+    const db = connectDb({ env });
+    const summary = await digestUploadedFiles({ db, env });
+    console.log("Upload digest summary:", JSON.stringify(summary));
+  } catch (err) {
+    console.error("Upload digests failed:", err);
+  }
+}
+
+async function runEmailOutbox(env: Env) {
+  try {
+    const db = connectDb({ env });
+    const summary = await processEmailOutbox({ db, env });
+    console.log("Email outbox summary:", JSON.stringify(summary));
+  } catch (err) {
+    console.error("Email outbox failed:", err);
+  }
+}
+
+async function runDeadlineReminders(env: Env) {
+  try {
+    const db = connectDb({ env });
+    const summary = await sendDeadlineReminders({ db, env });
+    console.log("Deadline reminder summary:", JSON.stringify(summary));
+  } catch (err) {
+    console.error("Deadline reminders failed:", err);
+  }
+}
+
+// Must match the crons in wrangler.jsonc.
+const MaintenanceCron = "*/30 * * * *";
+const EmailOutboxCron = "*/5 * * * *";
+
+export default {
+  fetch: app.fetch,
+  scheduled: async (controller, env, ctx) => {
+    if (controller.cron === MaintenanceCron) {
+      ctx.waitUntil(runUploadReaper(env));
+      ctx.waitUntil(runDeletedUploadPurge(env));
+      ctx.waitUntil(runUploadDigests(env));
+      ctx.waitUntil(runDeadlineReminders(env));
+    }
+    if (controller.cron === EmailOutboxCron) {
+      ctx.waitUntil(runEmailOutbox(env));
+    }
+  },
+} satisfies ExportedHandler<Env>;
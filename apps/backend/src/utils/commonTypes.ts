@@ -4,3 +4,12 @@ export type WithEnv<T> = T & { env: Env };
 
 export type WithDb<T> = T & { db: ReturnType<typeof connectDb> };
 export type WithDbAndEnv<T> = WithDb<WithEnv<T>>;
+
+export type DbTransaction = Parameters<
+  Parameters<ReturnType<typeof connectDb>["transaction"]>[0]
+>[0];
+export type WithTx<T> = T & { tx: DbTransaction };
+// For helpers that run both on their own and inside a transaction.
+export type WithDbOrTx<T> = T & {
+  db: ReturnType<typeof connectDb> | DbTransaction;
+};
@@ -60,16 +60,40 @@ export async function handleApiErrors(c: Context, err: ApiErrorInput) {
 export const ErrorCodes = {
   INVALID_API_KEY: "INVALID_API_KEY",
   INVALID_CREDENTIALS: "INVALID_CREDENTIALS",
+  LOGIN_RATE_LIMITED: "LOGIN_RATE_LIMITED",
+  INVALID_REFRESH_TOKEN: "INVALID_REFRESH_TOKEN",
+  INVALID_VERIFICATION_TOKEN: "INVALID_VERIFICATION_TOKEN",
+  INVALID_MAGIC_LINK: "INVALID_MAGIC_LINK",
+  INVALID_PASSWORD_RESET_TOKEN: "INVALID_PASSWORD_RESET_TOKEN",
+  INVALID_TWO_FACTOR_CHALLENGE: "INVALID_TWO_FACTOR_CHALLENGE",
+  INVALID_TWO_FACTOR_CODE: "INVALID_TWO_FACTOR_CODE",
+  TWO_FACTOR_ALREADY_ENABLED: "TWO_FACTOR_ALREADY_ENABLED",
+  TWO_FACTOR_NOT_ENABLED: "TWO_FACTOR_NOT_ENABLED",
+  TWO_FACTOR_REQUIRED_FOR_ROLE: "TWO_FACTOR_REQUIRED_FOR_ROLE",
+  EMAIL_ALREADY_REGISTERED: "EMAIL_ALREADY_REGISTERED",
+  EMAIL_NOT_VERIFIED: "EMAIL_NOT_VERIFIED",
+  EMAIL_ALREADY_VERIFIED: "EMAIL_ALREADY_VERIFIED",
+  EMAIL_DELIVERY_FAILED: "EMAIL_DELIVERY_FAILED",
   USER_NOT_FOUND: "USER_NOT_FOUND",
   USER_DOES_NOT_HAVE_ROLE: "USER_DOES_NOT_HAVE_ROLE",
   ROLE_NOT_FOUND: "ROLE_NOT_FOUND",
   INVALID_INPUT: "INVALID_INPUT",
   FORBIDDEN_ROLE: "FORBIDDEN_ROLE",
+  MISSING_PERMISSION: "MISSING_PERMISSION",
   TENDER_NOT_FOUND: "TENDER_NOT_FOUND",
   TENDER_NOT_OPEN_FOR_APPLICATIONS: "TENDER_NOT_OPEN_FOR_APPLICATIONS",
   TENDER_ALREADY_EXISTS: "TENDER_ALREADY_EXISTS",
+  TENDER_CLOSED: "TENDER_CLOSED",
+  TENDER_HAS_NO_QUESTIONS: "TENDER_HAS_NO_QUESTIONS",
+  FIRM_NOT_FOUND: "FIRM_NOT_FOUND",
+  FIRM_PERMISSION_DENIED: "FIRM_PERMISSION_DENIED",
+  FIRM_MEMBERSHIP_EXISTS: "FIRM_MEMBERSHIP_EXISTS",
+  INVALID_FIRM_INVITE: "INVALID_FIRM_INVITE",
+  FIRM_INVITE_EMAIL_MISMATCH: "FIRM_INVITE_EMAIL_MISMATCH",
   SUBMISSION_NOT_FOUND: "SUBMISSION_NOT_FOUND",
   SUBMISSION_ALREADY_SUBMITTED: "SUBMISSION_ALREADY_SUBMITTED",
+  SUBMISSION_RECEIPT_NOT_FOUND: "SUBMISSION_RECEIPT_NOT_FOUND",
+  RECEIPT_SIGNING_UNAVAILABLE: "RECEIPT_SIGNING_UNAVAILABLE",
   UPLOAD_CONFLICT: "UPLOAD_CONFLICT",
   UPLOAD_SESSION_NOT_FOUND: "UPLOAD_SESSION_NOT_FOUND",
   UPLOAD_SESSION_EXPIRED: "UPLOAD_SESSION_EXPIRED",
@@ -77,6 +101,14 @@ export const ErrorCodes = {
   UPLOAD_PROVIDER_UNAVAILABLE: "UPLOAD_PROVIDER_UNAVAILABLE",
   UPLOAD_CONFIG_INVALID: "UPLOAD_CONFIG_INVALID",
   PARTS_MISMATCH: "PARTS_MISMATCH",
+  CHECKSUM_MISMATCH: "CHECKSUM_MISMATCH",
+  FILE_SIZE_MISMATCH: "FILE_SIZE_MISMATCH",
+  FILE_EXTENSION_NOT_ALLOWED: "FILE_EXTENSION_NOT_ALLOWED",
+  FILE_TYPE_NOT_ALLOWED: "FILE_TYPE_NOT_ALLOWED",
+  FILE_TOO_LARGE: "FILE_TOO_LARGE",
+  TOO_MANY_FILES: "TOO_MANY_FILES",
+  UPLOADED_FILE_NOT_FOUND: "UPLOADED_FILE_NOT_FOUND",
+  UPLOADED_FILE_OBJECT_MISSING: "UPLOADED_FILE_OBJECT_MISSING",
   MISSING_REQUIRED_UPLOADS: "MISSING_REQUIRED_UPLOADS",
   APPLICATION_STATE_NOT_FOUND: "APPLICATION_STATE_NOT_FOUND",
 } as const;
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { getClientIp, getHono } from "./hono";
+
+const ForwardingSecret = "test-forwarding-secret";
+
+const app = getHono();
+app.get("/ip", (c) => c.json({ ip: getClientIp(c) }));
+
+async function requestClientIp({
+  headers,
+  forwardingSecret = ForwardingSecret,
+}: {
+  headers: Record<string, string>;
+  forwardingSecret?: string;
+}) {
+  const response = await app.request("/ip", { headers }, {
+    CLIENT_IP_FORWARDING_SECRET: forwardingSecret,
+  } as unknown as Env);
+  const body = (await response.json()) as { ip: string | null };
+
+  return body.ip;
+}
+
+describe("getClientIp", () => {
+  it("honours X-Forwarded-For alongside the forwarding secret", async () => {
+    await expect(
+      requestClientIp({
+        headers: {
+          "cf-connecting-ip": "198.51.100.1",
+          "x-forwarded-for": "203.0.113.7, 198.51.100.1",
+          "x-client-ip-forwarding-secret": ForwardingSecret,
+        },
+      })
+    ).resolves.toBe("203.0.113.7");
+  });
+
+  it("ignores X-Forwarded-For with a wrong or missing secret", async () => {
+    const secretHeaders: Record<string, string>[] = [
+      { "x-client-ip-forwarding-secret": "wrong-forwarding-secret" },
+      { "x-client-ip-forwarding-secret": `${ForwardingSecret}x` },
+      {},
+    ];
+    for (const headers of secretHeaders) {
+      await expect(
+        requestClientIp({
+          headers: {
+            "cf-connecting-ip": "198.51.100.1",
+            "x-forwarded-for": "203.0.113.7",
+            ...headers,
+          },
+        })
+      ).resolves.toBe("198.51.100.1");
+    }
+  });
+
+  it("ignores X-Forwarded-For when no secret is configured", async () => {
+    for (const forwardingSecret of ["", "replace-with-forwarding-secret"]) {
+      await expect(
+        requestClientIp({
+          forwardingSecret,
+          headers: {
+            "cf-connecting-ip": "198.51.100.1",
+            "x-forwarded-for": "203.0.113.7",
+            "x-client-ip-forwarding-secret": forwardingSecret,
+          },
+        })
+      ).resolves.toBe("198.51.100.1");
+    }
+  });
+
+  it("returns null without any client address", async () => {
+    await expect(requestClientIp({ headers: {} })).resolves.toBeNull();
+  });
+});
@@ -1,7 +1,59 @@
 import { OpenAPIHono } from "@hono/zod-openapi";
+import type { Context } from "hono";
+import { getConfiguredSecret } from "./secrets";
 
 export function getHono() {
   const app = new OpenAPIHono<{ Bindings: Env }>();
   
   return app;
 }
+
+const ClientIpForwardingSecretHeader = "x-client-ip-forwarding-secret";
+
+function isClientIpForwardingSecretValid({
+  provided,
+  expected,
+}: {
+  provided: string | undefined;
+  expected: string | null;
+}): boolean {
+  if (!provided || expected === null) {
+    return false;
+  }
+
+  const encoder = new TextEncoder();
+  const providedBytes = encoder.encode(provided);
+  const expectedBytes = encoder.encode(expected);
+  if (providedBytes.byteLength !== expectedBytes.byteLength) {
+    return false;
+  }
+
+  let difference = 0;
+  for (let index = 0; index < expectedBytes.byteLength; index += 1) {
+    difference |= providedBytes[index] ^ expectedBytes[index];
+  }
+
+  return difference === 0;
+}
+
+/**
+ * Client address as seen by Cloudflare. Requests from the web app arrive
+ * from its worker, which forwards the browser address in `X-Forwarded-For`;
+ * that header is only honoured alongside the shared
+ * `CLIENT_IP_FORWARDING_SECRET`, since any other caller can set it freely.
+ * Without a configured secret the header is never trusted.
+ */
+export function getClientIp(c: Context<{ Bindings: Env }>): string | null {
+  const forwardedFor = c.req.header("x-forwarded-for")?.split(",")[0]?.trim();
+  if (
+    forwardedFor &&
+    isClientIpForwardingSecretValid({
+      provided: c.req.header(ClientIpForwardingSecretHeader),
+      expected: getConfiguredSecret(c.env.CLIENT_IP_FORWARDING_SECRET),
+    })
+  ) {
+    return forwardedFor;
+  }
+
+  return c.req.header("cf-connecting-ip")?.trim() || null;
+}
@@ -0,0 +1,95 @@
+import { createMiddleware } from "hono/factory";
+import { getUserFromApiKey, type UserWithRoles } from "../features/auth";
+import { connectDb } from "../features/db/connect";
+import {
+  getPermissionsForRoleNames,
+  type Permission,
+} from "../features/permissions";
+import { ErrorCodes, handleApiErrors } from "./error";
+
+export type AuthContext = {
+  user: UserWithRoles;
+  sessionId: string;
+  permissions: Permission[];
+};
+
+export type AuthVariables = { auth: AuthContext };
+
+function createAuthMiddleware(permission: Permission | null) {
+  return createMiddleware<{ Bindings: Env; Variables: AuthVariables }>(
+    async (c, next) => {
+      try {
+        const apiKey = c.req.header("x-api-key");
+        if (!apiKey) {
+          return c.json(
+            {
+              ok: false,
+              errorCode: ErrorCodes.INVALID_API_KEY,
+              error: "Missing API key",
+            } as const,
+            401
+          );
+        }
+
+        const db = connectDb({ env: c.env });
+        const authResult = await getUserFromApiKey({ apiKey, db, env: c.env });
+        if (!authResult.ok) {
+          return c.json(
+            {
+              ok: false,
+              errorCode: authResult.errorCode,
+              error: authResult.error,
+            } as const,
+            401
+          );
+        }
+
+        const permissions = getPermissionsForRoleNames(
+          authResult.user.roles.map((role) => role.roleName)
+        );
+        if (permission !== null && !permissions.includes(permission)) {
+          return c.json(
+            {
+              ok: false,
+              errorCode: ErrorCodes.MISSING_PERMISSION,
+              error: `Missing required permission: ${permission}`,
+            } as const,
+            403
+          );
+        }
+
+        c.set("auth", {
+          user: authResult.user,
+          sessionId: authResult.sessionId,
+          permissions,
+        });
+      } catch (err) {
+        const normalizedError =
+          err instanceof Error ||
+          typeof err === "string" ||
+          typeof err === "number" ||
+          typeof err === "boolean" ||
+          typeof err === "object"
+            ? err
+            : undefined;
+        return handleApiErrors(c, normalizedError);
+      }
+
+      await next();
+    }
+  );
+}
+
+/**
+ * Route middleware that authenticates the `x-api-key` header and rejects
+ * callers whose roles do not grant `permission`. Handlers read the caller
+ * from `c.get("auth")`.
+ */
+export function requirePermission(permission: Permission) {
+  return createAuthMiddleware(permission);
+}
+
+/** Like `requirePermission`, for routes open to every signed-in user. */
+export function requireAuth() {
+  return createAuthMiddleware(null);
+}
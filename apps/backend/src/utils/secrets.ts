@@ -0,0 +1,13 @@
+/**
+ * Value of a secret binding, or null when it is unset, blank or still a
+ * `replace-with-…` placeholder. Secrets are set with `wrangler secret put`,
+ * so in a deployed worker a missing one is simply absent from `env`.
+ */
+export function getConfiguredSecret(value: string | undefined): string | null {
+  const trimmed = value?.trim() ?? "";
+  if (trimmed.length === 0 || trimmed.startsWith("replace-with-")) {
+    return null;
+  }
+
+  return trimmed;
+}
@@ -20,6 +20,39 @@ VALUES (
 )
 ON CONFLICT DO NOTHING;
 
+-- Seed evaluator role
+INSERT INTO role (id, name, is_active, created_at, updated_at)
+VALUES (
+  gen_random_uuid(),
+  'evaluator',
+  true,
+  NOW(),
+  NOW()
+)
+ON CONFLICT DO NOTHING;
+
+-- Seed auditor role
+INSERT INTO role (id, name, is_active, created_at, updated_at)
+VALUES (
+  gen_random_uuid(),
+  'auditor',
+  true,
+  NOW(),
+  NOW()
+)
+ON CONFLICT DO NOTHING;
+
+-- Seed tender manager role
+INSERT INTO role (id, name, is_active, created_at, updated_at)
+VALUES (
+  gen_random_uuid(),
+  'tender_manager',
+  true,
+  NOW(),
+  NOW()
+)
+ON CONFLICT DO NOTHING;
+
 -- Seed active tender
 INSERT INTO tender (id, title, is_active, created_at, updated_at)
 VALUES (
@@ -9,6 +9,18 @@ declare namespace Cloudflare {
 		DB: Hyperdrive;
 		JWT_SECRET: "j4fSBaJrAKr1kY62r/MvbhUhaaPNVJUJDEW0+/3Q7SI=";
 		UPLOAD_DEBUG_ERRORS: "true";
+		UPLOAD_REAPER_DRY_RUN: "false";
+		UPLOAD_PURGE_DRY_RUN: "false";
+		UPLOAD_DEADLINE_GRACE_MINUTES: "15";
+		APP_BASE_URL: string;
+		EMAIL_FROM: string;
+		EMAIL_API_URL: string;
+		EMAIL_API_KEY: string;
+		EMAIL_TRANSPORT: string;
+		SMTP_URL: string;
+		RECEIPT_SIGNING_SECRET: string;
+		DEADLINE_REMINDER_OFFSETS_HOURS: string;
+		CLIENT_IP_FORWARDING_SECRET: string;
 		R2_BUCKET_NAME: string;
 		R2_ACCOUNT_ID: string;
 		R2_ACCESS_KEY_ID: string;
@@ -21,7 +33,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "JWT_SECRET" | "UPLOAD_DEBUG_ERRORS" | "R2_BUCKET_NAME" | "R2_ACCOUNT_ID" | "R2_ACCESS_KEY_ID" | "R2_SECRET_ACCESS_KEY" | "R2_PUBLIC_BASE_URL">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "JWT_SECRET" | "UPLOAD_DEBUG_ERRORS" | "UPLOAD_REAPER_DRY_RUN" | "UPLOAD_PURGE_DRY_RUN" | "UPLOAD_DEADLINE_GRACE_MINUTES" | "APP_BASE_URL" | "EMAIL_FROM" | "EMAIL_API_URL" | "EMAIL_API_KEY" | "EMAIL_TRANSPORT" | "SMTP_URL" | "RECEIPT_SIGNING_SECRET" | "DEADLINE_REMINDER_OFFSETS_HOURS" | "CLIENT_IP_FORWARDING_SECRET" | "R2_BUCKET_NAME" | "R2_ACCOUNT_ID" | "R2_ACCESS_KEY_ID" | "R2_SECRET_ACCESS_KEY" | "R2_PUBLIC_BASE_URL">> {}
 }
 
 // Begin runtime types
@@ -0,0 +1,251 @@
+import { Form, useNavigation } from "react-router";
+import { DateTime } from "luxon";
+import { Button } from "~/components/ui/button";
+import type { AdminTender } from "~/lib/tenders.server";
+
+type TenderManagementProps = {
+  tenders: AdminTender[];
+};
+
+type TenderRowProps = {
+  tender: AdminTender;
+  canEdit: boolean;
+};
+
+const fieldClassName =
+  "w-full bg-transparent border border-input px-3 py-2 text-xs text-foreground focus-visible:outline-none focus-visible:border-primary";
+
+const labelClassName =
+  "text-[10px] font-bold uppercase tracking-widest text-muted-foreground";
+
+// Dates are edited in UTC so the values match what the backend stores.
+function toDateTimeInputValue(iso: string): string {
+  return DateTime.fromISO(iso, { zone: "utc" }).toFormat("yyyy-MM-dd'T'HH:mm");
+}
+
+function formatTenderDate(iso: string): string {
+  return DateTime.fromISO(iso).toLocaleString(DateTime.DATETIME_MED);
+}
+
+function CreateTenderForm({ tenders }: TenderManagementProps) {
+  const navigation = useNavigation();
+  const isSubmitting =
+    navigation.state !== "idle" &&
+    navigation.formData?.get("intent") === "create";
+
+  return (
+    <Form
+      method="post"
+      className="border border-white/5 bg-card p-4 grid gap-4 md:grid-cols-5 md:items-end"
+    >
+      <input type="hidden" name="intent" value="create" />
+      <label className="flex flex-col gap-2 md:col-span-2">
+        <span className={labelClassName}>Title</span>
+        <input name="title" required className={fieldClassName} />
+      </label>
+      <label className="flex flex-col gap-2">
+        <span className={labelClassName}>Opens (UTC)</span>
+        <input
+          type="datetime-local"
+          name="firstDateToApply"
+          required
+          className={fieldClassName}
+        />
+      </label>
+      <label className="flex flex-col gap-2">
+        <span className={labelClassName}>Closes (UTC)</span>
+        <input
+          type="datetime-local"
+          name="lastDateToApply"
+          required
+          className={fieldClassName}
+        />
+      </label>
+      <label className="flex flex-col gap-2">
+        <span className={labelClassName}>Copy questions from</span>
+        <select
+          name="copyQuestionsFromTenderId"
+          defaultValue={tenders[0]?.tenderId ?? ""}
+          required
+          className={fieldClassName}
+        >
+          {tenders.map((tender) => (
+            <option key={tender.tenderId} value={tender.tenderId}>
+              {tender.title}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="md:col-span-5 flex justify-end">
+        <Button type="submit" size="sm" disabled={isSubmitting}>
+          {isSubmitting ? "Creating..." : "Create tender"}
+        </Button>
+      </div>
+    </Form>
+  );
+}
+
+function TenderRow({ tender, canEdit }: TenderRowProps) {
+  const isEditable = canEdit && tender.isActive;
+  const navigation = useNavigation();
+  const isBusy =
+    navigation.state !== "idle" &&
+    navigation.formData?.get("tenderId") === tender.tenderId;
+
+  return (
+    <tr className="border-b border-white/5 align-top">
+      <td className="py-4 px-4">
+        <Form method="post" className="flex flex-col gap-2">
+          <input type="hidden" name="intent" value="update" />
+          <input type="hidden" name="tenderId" value={tender.tenderId} />
+          <input
+            name="title"
+            defaultValue={tender.title}
+            disabled={!isEditable}
+            className={fieldClassName}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="datetime-local"
+              name="firstDateToApply"
+              defaultValue={toDateTimeInputValue(tender.firstDateToApply)}
+              disabled={!isEditable}
+              className={fieldClassName}
+            />
+            <input
+              type="datetime-local"
+              name="lastDateToApply"
+              defaultValue={toDateTimeInputValue(tender.lastDateToApply)}
+              disabled={!isEditable}
+              className={fieldClassName}
+            />
+          </div>
+          {isEditable ? (
+            <Button
+              type="submit"
+              size="sm"
+              variant="outline"
+              className="self-start"
+              disabled={isBusy}
+            >
+              Save
+            </Button>
+          ) : null}
+        </Form>
+      </td>
+      <td className="py-4 px-4 text-xs text-muted-foreground whitespace-nowrap">
+        <div>Opens {formatTenderDate(tender.firstDateToApply)}</div>
+        <div>Closes {formatTenderDate(tender.lastDateToApply)}</div>
+      </td>
+      <td className="py-4 px-4 text-xs">
+        {tender.isActive ? (
+          <span className="text-primary">Active</span>
+        ) : (
+          <span className="text-muted-foreground">Archived</span>
+        )}
+      </td>
+      <td className="py-4 px-4">
+        {isEditable ? (
+          <div className="flex flex-col gap-3">
+            <Form method="post" className="flex gap-2">
+              <input type="hidden" name="intent" value="extend" />
+              <input type="hidden" name="tenderId" value={tender.tenderId} />
+              <input
+                type="datetime-local"
+                name="lastDateToApply"
+                required
+                className={fieldClassName}
+              />
+              <Button type="submit" size="sm" variant="ghost" disabled={isBusy}>
+                Extend
+              </Button>
+            </Form>
+            <Form
+              method="post"
+              onSubmit={(event) => {
+                if (!window.confirm(`Archive "${tender.title}"?`)) {
+                  event.preventDefault();
+                }
+              }}
+            >
+              <input type="hidden" name="intent" value="archive" />
+              <input type="hidden" name="tenderId" value={tender.tenderId} />
+              <Button type="submit" size="sm" variant="ghost" disabled={isBusy}>
+                Archive
+              </Button>
+            </Form>
+          </div>
+        ) : null}
+      </td>
+    </tr>
+  );
+}
+
+/**
+ * Users with read-only tender access see the same table without the create
+ * form and with every field locked.
+ */
+export function TenderManagement({
+  tenders,
+  canEdit,
+}: TenderManagementProps & { canEdit: boolean }) {
+  const activeTenders = tenders.filter((tender) => tender.isActive);
+
+  return (
+    <section id="tenders" className="mb-12">
+      <div className="mb-4">
+        <h2 className="text-lg font-light text-white mb-1">Tenders</h2>
+        <p className="text-sm text-muted-foreground">
+          {canEdit
+            ? "Create tenders, adjust their application window or archive them"
+            : "Tenders and their application windows"}
+        </p>
+      </div>
+
+      {canEdit ? <CreateTenderForm tenders={activeTenders} /> : null}
+
+      <div className="mt-4 border border-white/5 bg-card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-white/5 bg-white/[0.02]">
+                <th className="text-left py-3 px-4 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
+                  Tender
+                </th>
+                <th className="text-left py-3 px-4 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
+                  Window
+                </th>
+                <th className="text-left py-3 px-4 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
+                  Status
+                </th>
+                <th className="text-left py-3 px-4 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {tenders.length === 0 ? (
+                <tr>
+                  <td
+                    colSpan={4}
+                    className="py-12 px-4 text-center text-sm text-muted-foreground"
+                  >
+                    No tenders yet
+                  </td>
+                </tr>
+              ) : (
+                tenders.map((tender) => (
+                  <TenderRow
+                    key={tender.tenderId}
+                    tender={tender}
+                    canEdit={canEdit}
+                  />
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -217,6 +217,24 @@ export function ContentPanel({ tender, isApplySubmitting }: ContentPanelProps) {
                   {link}
                 </button>
               ))}
+              <Link
+                to="/account/password"
+                className="text-[9px] font-bold uppercase tracking-[2px] leading-[13.5px] text-muted-foreground hover:text-foreground transition-colors"
+              >
+                Password
+              </Link>
+              <Link
+                to="/account/firm"
+                className="text-[9px] font-bold uppercase tracking-[2px] leading-[13.5px] text-muted-foreground hover:text-foreground transition-colors"
+              >
+                Firm
+              </Link>
+              <Link
+                to="/account/two-factor"
+                className="text-[9px] font-bold uppercase tracking-[2px] leading-[13.5px] text-muted-foreground hover:text-foreground transition-colors"
+              >
+                Two-Factor
+              </Link>
             </div>
           </div>
         </div>
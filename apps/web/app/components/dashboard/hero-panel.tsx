@@ -1,5 +1,5 @@
-import { useEffect, useState } from "react";
 import { Badge } from "~/components/ui/badge";
+import { useServerCountdown } from "~/components/ui/countdown-timer";
 
 interface CountdownItemProps {
   value: string;
@@ -28,6 +28,7 @@ interface HeroPanelProps {
     location: string;
     coordinates: string;
     targetDate: string;
+    serverTime: string;
   };
 }
 
@@ -38,42 +39,16 @@ function padCounterValue(value: number): string {
   return `${value}`;
 }
 
-function useCountdown(targetIso: string) {
-  const [timeLeft, setTimeLeft] = useState<{
-    days: string;
-    hours: string;
-    minutes: string;
-  }>({ days: "00", hours: "00", minutes: "00" });
-
-  useEffect(() => {
-    const target = new Date(targetIso).getTime();
-
-    const update = () => {
-      const now = Date.now();
-      const diff = Math.max(target - now, 0);
-
-      const totalMinutes = Math.floor(diff / (60 * 1000));
-      const days = Math.floor(totalMinutes / (60 * 24));
-      const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
-      const minutes = totalMinutes % 60;
-
-      setTimeLeft({
-        days: padCounterValue(days),
-        hours: padCounterValue(hours),
-        minutes: padCounterValue(minutes),
-      });
-    };
-
-    update();
-    const interval = setInterval(update, 1000);
-    return () => clearInterval(interval);
-  }, [targetIso]);
-
-  return timeLeft;
-}
-
 export function HeroPanel({ tender }: HeroPanelProps) {
-  const countdown = useCountdown(tender.targetDate);
+  const remaining = useServerCountdown({
+    deadlineIso: tender.targetDate,
+    serverTimeIso: tender.serverTime,
+  });
+  const countdown = {
+    days: padCounterValue(remaining.days),
+    hours: padCounterValue(remaining.hours),
+    minutes: padCounterValue(remaining.minutes),
+  };
 
   return (
     <div className="flex flex-col w-full h-full bg-card relative overflow-hidden">
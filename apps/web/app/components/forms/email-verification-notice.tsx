@@ -0,0 +1,39 @@
+import { Form, useNavigation } from "react-router";
+import { Button } from "~/components/ui/button";
+
+export interface EmailVerificationNoticeProps {
+  email: string;
+}
+
+export function EmailVerificationNotice({ email }: EmailVerificationNoticeProps) {
+  const navigation = useNavigation();
+  const isResending =
+    navigation.state === "submitting" &&
+    navigation.formData?.get("intent") === "resend-verification";
+
+  return (
+    <div className="space-y-4 p-4 bg-primary/10 border border-primary/20">
+      <div className="flex items-start gap-3">
+        <span className="material-symbols-outlined text-[20px] leading-[20px] text-primary">
+          mark_email_unread
+        </span>
+        <div className="space-y-1">
+          <p className="text-[14px] leading-[20px] text-foreground font-medium">
+            Check your inbox
+          </p>
+          <p className="text-[12px] leading-[16px] text-muted-foreground">
+            We sent a verification link to <span className="text-foreground">{email}</span>.
+            You can fill in your profile now, but you need to verify your email before
+            applying to a tender or uploading documents.
+          </p>
+        </div>
+      </div>
+      <Form method="post">
+        <input type="hidden" name="intent" value="resend-verification" />
+        <Button type="submit" variant="outline" size="sm" disabled={isResending}>
+          {isResending ? "Sending..." : "Resend Verification Email"}
+        </Button>
+      </Form>
+    </div>
+  );
+}
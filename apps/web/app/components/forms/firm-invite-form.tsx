@@ -0,0 +1,78 @@
+import { useEffect, useRef } from "react";
+import { Form, useNavigation } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import type { FirmActionData } from "~/types/auth";
+
+const labelClassName =
+  "text-[10px] uppercase tracking-[2px] leading-[15px] text-muted-foreground font-bold";
+
+export interface FirmInviteFormProps {
+  actionData?: FirmActionData;
+}
+
+export function FirmInviteForm({ actionData }: FirmInviteFormProps) {
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const formRef = useRef<HTMLFormElement>(null);
+
+  useEffect(() => {
+    if (actionData?.success) {
+      formRef.current?.reset();
+    }
+  }, [actionData]);
+
+  return (
+    <Form ref={formRef} method="post" className="space-y-6">
+      <input type="hidden" name="intent" value="invite" />
+      <div className="space-y-2">
+        <Label htmlFor="email" className={labelClassName}>
+          COLLEAGUE EMAIL
+        </Label>
+        <Input
+          id="email"
+          name="email"
+          type="email"
+          placeholder="colleague@firm.com"
+          autoComplete="off"
+          variant="borderless"
+          disabled={isSubmitting}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="role" className={labelClassName}>
+          ROLE
+        </Label>
+        <select
+          id="role"
+          name="role"
+          defaultValue="contributor"
+          disabled={isSubmitting}
+          className="w-full bg-transparent border-0 border-b-2 border-strong pb-3 text-[14px] leading-[20px] text-foreground focus:outline-none focus:border-b-primary transition-colors"
+        >
+          <option value="contributor" className="bg-background text-foreground">
+            Contributor - uploads documents
+          </option>
+          <option value="viewer" className="bg-background text-foreground">
+            Viewer - read only
+          </option>
+        </select>
+      </div>
+      {actionData?.message ? (
+        <p className="text-[12px] leading-[16px] text-muted-foreground">
+          {actionData.message}
+        </p>
+      ) : null}
+      <Button
+        type="submit"
+        variant="secondary"
+        className="w-full"
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? "Sending..." : "Send Invitation"}
+      </Button>
+    </Form>
+  );
+}
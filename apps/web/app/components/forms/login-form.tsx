@@ -1,16 +1,19 @@
 import * as React from "react";
-import { Form } from "react-router";
+import { Form, Link } from "react-router";
 import { Input } from "~/components/ui/input";
 import { Button } from "~/components/ui/button";
 import { Label } from "~/components/ui/label";
 import { emailValidation } from "~/lib/validation";
-import type { LoginFormState, LoginActionData } from "~/types/auth";
+import type { LoginFormState, LoginActionData, LoginMode } from "~/types/auth";
 
 export interface LoginFormProps {
+  mode?: LoginMode;
   actionData?: LoginActionData;
 }
 
-export function LoginForm({ actionData }: LoginFormProps) {
+export function LoginForm({ mode = "login", actionData }: LoginFormProps) {
+  const isRegistering = mode === "register";
+  const isMagicLink = mode === "magic-link";
   const [formState, setFormState] = React.useState<LoginFormState>({
     email: "",
     password: "",
@@ -57,7 +60,7 @@ export function LoginForm({ actionData }: LoginFormProps) {
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     const emailResult = emailValidation.validate(formState.email);
     const passwordError =
-      formState.password.trim().length < 8
+      !isMagicLink && formState.password.trim().length < 8
         ? "Password must be at least 8 characters"
         : null;
 
@@ -75,8 +78,22 @@ export function LoginForm({ actionData }: LoginFormProps) {
     setFormState((prev) => ({ ...prev, isSubmitting: true }));
   };
 
+  // Successful sign-ins navigate away; any action response means the form
+  // is usable again.
+  React.useEffect(() => {
+    setFormState((prev) => ({ ...prev, isSubmitting: false }));
+  }, [actionData]);
+
+  const submitLabels: Record<LoginMode, [string, string]> = {
+    login: ["Sign In", "Signing In..."],
+    register: ["Create Account", "Creating Account..."],
+    "magic-link": ["Email Me a Sign-In Link", "Sending Link..."],
+  };
+  const submitLabel = submitLabels[mode][formState.isSubmitting ? 1 : 0];
+
   return (
     <Form method="post" onSubmit={handleSubmit} className="space-y-8">
+      <input type="hidden" name="intent" value={mode} />
       <div className="space-y-2">
         <Label htmlFor="email" className="text-[10px] uppercase tracking-[2px] leading-[15px] text-muted-foreground font-bold">
           PROFESSIONAL EMAIL
@@ -99,28 +116,31 @@ export function LoginForm({ actionData }: LoginFormProps) {
         />
       </div>
 
-      <div className="space-y-2">
-        <Label htmlFor="password" className="text-[10px] uppercase tracking-[2px] leading-[15px] text-muted-foreground font-bold">
-          PASSWORD
-        </Label>
-        <Input
-          id="password"
-          name="password"
-          type="password"
-          placeholder="Enter your password"
-          variant="borderless"
-          value={formState.password}
-          onChange={handlePasswordChange}
-          onBlur={handlePasswordBlur}
-          error={!!(formState.touched && formState.passwordError)}
-          helperText={formState.touched ? formState.passwordError || "" : ""}
-          disabled={formState.isSubmitting}
-          required
-          minLength={8}
-          aria-describedby={formState.passwordError ? "password-error" : undefined}
-          aria-invalid={!!(formState.touched && formState.passwordError)}
-        />
-      </div>
+      {isMagicLink ? null : (
+        <div className="space-y-2">
+          <Label htmlFor="password" className="text-[10px] uppercase tracking-[2px] leading-[15px] text-muted-foreground font-bold">
+            PASSWORD
+          </Label>
+          <Input
+            id="password"
+            name="password"
+            type="password"
+            placeholder={isRegistering ? "Choose a password" : "Enter your password"}
+            autoComplete={isRegistering ? "new-password" : "current-password"}
+            variant="borderless"
+            value={formState.password}
+            onChange={handlePasswordChange}
+            onBlur={handlePasswordBlur}
+            error={!!(formState.touched && formState.passwordError)}
+            helperText={formState.touched ? formState.passwordError || "" : ""}
+            disabled={formState.isSubmitting}
+            required
+            minLength={8}
+            aria-describedby={formState.passwordError ? "password-error" : undefined}
+            aria-invalid={!!(formState.touched && formState.passwordError)}
+          />
+        </div>
+      )}
 
       <div className="space-y-4">
         <Button
@@ -129,13 +149,58 @@ export function LoginForm({ actionData }: LoginFormProps) {
           className="w-full"
           disabled={formState.isSubmitting}
         >
-          {formState.isSubmitting ? "Signing In..." : "Sign In"}
+          {submitLabel}
         </Button>
         <p className="text-[10px] leading-[15px] text-muted-foreground">
-          Use your registered credentials to access the submission portal.
+          {isRegistering
+            ? "Passwords must be at least 8 characters. You will need to verify your email before applying."
+            : isMagicLink
+              ? "The link works once and expires after 15 minutes."
+              : "Use your registered credentials to access the submission portal."}
         </p>
+        {mode === "login" ? (
+          <div className="space-y-2 text-[12px] leading-[16px] text-muted-foreground">
+            <p>
+              Forgot your password?{" "}
+              <Link to="/forgot-password" className="text-primary hover:underline">
+                Reset it
+              </Link>{" "}
+              or{" "}
+              <Link to="/?mode=magic-link" className="text-primary hover:underline">
+                email me a sign-in link
+              </Link>
+            </p>
+            <p>
+              New to the portal?{" "}
+              <Link to="/?mode=register" className="text-primary hover:underline">
+                Create an account
+              </Link>
+            </p>
+          </div>
+        ) : (
+          <p className="text-[12px] leading-[16px] text-muted-foreground">
+            {isRegistering ? "Already registered? " : "Prefer your password? "}
+            <Link to="/" className="text-primary hover:underline">
+              Sign in
+            </Link>
+          </p>
+        )}
       </div>
 
+      {actionData?.message && (
+        <div
+          className="flex items-center gap-2 p-3 bg-primary/10 border border-primary/20"
+          role="status"
+        >
+          <span className="material-symbols-outlined text-[16px] leading-[16px] text-primary">
+            mark_email_read
+          </span>
+          <p className="text-[12px] leading-[16px] text-foreground">
+            {actionData.message}
+          </p>
+        </div>
+      )}
+
       {actionData?.error && (
         <div
           className="flex items-center gap-2 p-3 bg-destructive/10 border border-destructive/20"
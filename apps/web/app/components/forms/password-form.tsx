@@ -0,0 +1,103 @@
+import { Form, useNavigation } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+import type { PasswordActionData } from "~/types/auth";
+
+const labelClassName =
+  "text-[10px] uppercase tracking-[2px] leading-[15px] text-muted-foreground font-bold";
+
+export interface PasswordFormField {
+  name: string;
+  label: string;
+  type: "email" | "password";
+  placeholder: string;
+  autoComplete: string;
+}
+
+export interface PasswordFormProps {
+  fields: PasswordFormField[];
+  hiddenFields?: Record<string, string>;
+  submitLabel: string;
+  submittingLabel: string;
+  actionData?: PasswordActionData;
+}
+
+/**
+ * Shared form for the forgot, reset and change password screens. Password
+ * inputs enforce the same 8 character minimum as the backend.
+ */
+export function PasswordForm({
+  fields,
+  hiddenFields = {},
+  submitLabel,
+  submittingLabel,
+  actionData,
+}: PasswordFormProps) {
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <Form method="post" className="space-y-8">
+      {Object.entries(hiddenFields).map(([name, value]) => (
+        <input key={name} type="hidden" name={name} value={value} />
+      ))}
+
+      {fields.map((field) => (
+        <div key={field.name} className="space-y-2">
+          <Label htmlFor={field.name} className={labelClassName}>
+            {field.label}
+          </Label>
+          <Input
+            id={field.name}
+            name={field.name}
+            type={field.type}
+            placeholder={field.placeholder}
+            autoComplete={field.autoComplete}
+            variant="borderless"
+            disabled={isSubmitting}
+            required
+            minLength={field.type === "password" ? 8 : undefined}
+          />
+        </div>
+      ))}
+
+      <Button
+        type="submit"
+        variant="secondary"
+        className="w-full"
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? submittingLabel : submitLabel}
+      </Button>
+
+      {actionData?.message && (
+        <div
+          className="flex items-center gap-2 p-3 bg-primary/10 border border-primary/20"
+          role="status"
+        >
+          <span className="material-symbols-outlined text-[16px] leading-[16px] text-primary">
+            check_circle
+          </span>
+          <p className="text-[12px] leading-[16px] text-foreground">
+            {actionData.message}
+          </p>
+        </div>
+      )}
+
+      {actionData?.error && (
+        <div
+          className="flex items-center gap-2 p-3 bg-destructive/10 border border-destructive/20"
+          role="alert"
+        >
+          <span className="material-symbols-outlined text-[16px] leading-[16px] text-destructive">
+            error
+          </span>
+          <p className="text-[12px] leading-[16px] text-destructive">
+            {actionData.error}
+          </p>
+        </div>
+      )}
+    </Form>
+  );
+}
@@ -0,0 +1,110 @@
+import { Form, Link, useNavigation } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+
+const labelClassName =
+  "text-[10px] uppercase tracking-[2px] leading-[15px] text-muted-foreground font-bold";
+
+export interface TwoFactorCodeFormProps {
+  intent: string;
+  submitLabel: string;
+  recovery?: boolean;
+  hiddenFields?: Record<string, string>;
+}
+
+export function TwoFactorCodeForm({
+  intent,
+  submitLabel,
+  recovery = false,
+  hiddenFields = {},
+}: TwoFactorCodeFormProps) {
+  const navigation = useNavigation();
+  const isSubmitting =
+    navigation.state === "submitting" &&
+    navigation.formData?.get("intent") === intent;
+  const inputId = `${intent}-code`;
+
+  return (
+    <Form method="post" className="space-y-6">
+      <input type="hidden" name="intent" value={intent} />
+      {Object.entries(hiddenFields).map(([name, value]) => (
+        <input key={name} type="hidden" name={name} value={value} />
+      ))}
+      <div className="space-y-2">
+        <Label htmlFor={inputId} className={labelClassName}>
+          {recovery ? "RECOVERY CODE" : "AUTHENTICATION CODE"}
+        </Label>
+        <Input
+          id={inputId}
+          name="code"
+          type="text"
+          inputMode={recovery ? "text" : "numeric"}
+          autoComplete="one-time-code"
+          placeholder={recovery ? "xxxxx-xxxxx" : "123456"}
+          variant="borderless"
+          disabled={isSubmitting}
+          required
+        />
+      </div>
+      <Button
+        type="submit"
+        variant="secondary"
+        className="w-full"
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? "Checking..." : submitLabel}
+      </Button>
+    </Form>
+  );
+}
+
+export function TotpSecretPanel({
+  secret,
+  otpauthUrl,
+}: {
+  secret: string;
+  otpauthUrl: string;
+}) {
+  return (
+    <div className="space-y-3">
+      <p className="text-[12px] leading-[16px] text-muted-foreground">
+        Add this account to an authenticator app. On a phone,{" "}
+        <a href={otpauthUrl} className="text-primary hover:underline">
+          open it in your authenticator
+        </a>
+        ; otherwise enter the key below by hand.
+      </p>
+      <p className="font-mono text-[14px] leading-[20px] text-foreground break-all select-all">
+        {secret.replace(/(.{4})/g, "$1 ").trim()}
+      </p>
+    </div>
+  );
+}
+
+export function RecoveryCodeList({
+  codes,
+  continuePath,
+}: {
+  codes: string[];
+  continuePath?: string;
+}) {
+  return (
+    <div className="space-y-4">
+      <p className="text-[12px] leading-[16px] text-muted-foreground">
+        Store these recovery codes somewhere safe. Each one signs you in once
+        if you lose your authenticator. They will not be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-[14px] leading-[20px] text-foreground select-all">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      {continuePath ? (
+        <Button asChild variant="secondary" className="w-full">
+          <Link to={continuePath}>Continue</Link>
+        </Button>
+      ) : null}
+    </div>
+  );
+}
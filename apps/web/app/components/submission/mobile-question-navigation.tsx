@@ -1,13 +1,12 @@
 import { useState } from "react";
 import type { QuestionConfig, UploadItem } from "~/types/form";
-import type { UploadQuestionId } from "@repo/upload-contracts";
 import { cn } from "~/lib/utils";
 
 interface MobileQuestionNavigationProps {
   questions: QuestionConfig[];
-  activeId: UploadQuestionId;
-  onSelect: (id: UploadQuestionId) => void;
-  uploads: Record<UploadQuestionId, UploadItem | null>;
+  activeId: string;
+  onSelect: (id: string) => void;
+  uploads: Record<string, UploadItem | null>;
   deadlineLabel: string;
 }
 
@@ -30,10 +29,10 @@ export function MobileQuestionNavigation({
 
   const activeQuestion = questions.find((q) => q.id === activeId);
   const activeUpload = activeQuestion
-    ? uploads[activeQuestion.id as UploadQuestionId]
+    ? uploads[activeQuestion.id]
     : null;
 
-  const handleSelect = (id: UploadQuestionId) => {
+  const handleSelect = (id: string) => {
     onSelect(id);
     setIsOpen(false);
   };
@@ -90,13 +89,13 @@ export function MobileQuestionNavigation({
           <nav className="p-2">
             {questions.map((q) => {
               const isActive = q.id === activeId;
-              const upload = uploads[q.id as UploadQuestionId];
+              const upload = uploads[q.id];
               const statusIcon = getUploadStatusIcon(upload);
 
               return (
                 <button
                   key={q.id}
-                  onClick={() => handleSelect(q.id as UploadQuestionId)}
+                  onClick={() => handleSelect(q.id)}
                   className={cn(
                     "w-full flex gap-4 items-start px-3 py-3 text-left transition-colors",
                     isActive
@@ -1,14 +1,15 @@
 import { DateTime } from "luxon";
+import { CountdownTimer } from "~/components/ui/countdown-timer";
 import type { QuestionConfig, UploadItem } from "~/types/form";
-import type { UploadQuestionId } from "@repo/upload-contracts";
 import { cn } from "~/lib/utils";
 
 interface PortalSidebarProps {
   questions: QuestionConfig[];
-  activeId: UploadQuestionId;
-  onSelect: (id: UploadQuestionId) => void;
-  uploads: Record<UploadQuestionId, UploadItem | null>;
+  activeId: string;
+  onSelect: (id: string) => void;
+  uploads: Record<string, UploadItem | null>;
   deadlineIso: string;
+  serverTimeIso: string;
   userName: string;
   userEmail: string;
 }
@@ -23,10 +24,10 @@ function getUploadStatusIcon(upload: UploadItem | null): string {
 
 function getCompletedCount(
   questions: QuestionConfig[],
-  uploads: Record<UploadQuestionId, UploadItem | null>,
+  uploads: Record<string, UploadItem | null>,
 ): number {
   return questions.filter((q) => {
-    const upload = uploads[q.id as UploadQuestionId];
+    const upload = uploads[q.id];
     return upload?.status === "complete";
   }).length;
 }
@@ -43,6 +44,7 @@ export function PortalSidebar({
   onSelect,
   uploads,
   deadlineIso,
+  serverTimeIso,
   userName,
   userEmail,
 }: PortalSidebarProps) {
@@ -88,6 +90,12 @@ export function PortalSidebar({
             </span>
           </div>
         </div>
+
+        <CountdownTimer
+          className="mt-6"
+          deadlineIso={deadlineIso}
+          serverTimeIso={serverTimeIso}
+        />
       </div>
 
       {/* Questions nav */}
@@ -98,13 +106,13 @@ export function PortalSidebar({
         <div className="space-y-4">
           {questions.map((q) => {
             const isActive = q.id === activeId;
-            const upload = uploads[q.id as UploadQuestionId];
+            const upload = uploads[q.id];
             const statusIcon = getUploadStatusIcon(upload);
 
             return (
               <button
                 key={q.id}
-                onClick={() => onSelect(q.id as UploadQuestionId)}
+                onClick={() => onSelect(q.id)}
                 className={cn(
                   "w-full flex gap-4 items-start text-left transition-colors py-2",
                   isActive
@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { DateTime } from "luxon";
+import type { FileVersion, QuestionFileVersions } from "~/types/form";
+import { formatFileSize } from "~/lib/upload-items";
+
+interface PreviousVersionsProps {
+  // Undefined until loaded, and again whenever the question's files change.
+  versions: QuestionFileVersions | undefined;
+  onLoad: () => void;
+  onRestore: (version: FileVersion) => void;
+  disableRestore?: boolean;
+}
+
+function formatTimestamp(isoDate: string): string {
+  return DateTime.fromISO(isoDate)
+    .setZone("local")
+    .toLocaleString(DateTime.DATETIME_MED);
+}
+
+export function PreviousVersions({
+  versions,
+  onLoad,
+  onRestore,
+  disableRestore = false,
+}: PreviousVersionsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && !versions) {
+      onLoad();
+    }
+  }, [isOpen, versions, onLoad]);
+
+  return (
+    <div className="border-b border-white/5">
+      <button
+        type="button"
+        onClick={() => setIsOpen((previous) => !previous)}
+        className="w-full flex items-center gap-2 py-3 px-5 text-muted-foreground hover:text-primary transition-colors"
+      >
+        <span className="material-symbols-outlined text-base">
+          {isOpen ? "expand_less" : "history"}
+        </span>
+        <span className="text-[10px] font-bold uppercase tracking-widest">
+          Previous versions
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="pb-3">
+          {!versions || (versions.isLoading && versions.items.length === 0) ? (
+            <p className="px-5 py-2 text-[11px] text-muted-foreground">
+              Loading previous versions...
+            </p>
+          ) : versions.errorMessage ? (
+            <p className="px-5 py-2 text-[11px] text-destructive">
+              {versions.errorMessage}
+            </p>
+          ) : versions.items.length === 0 ? (
+            <p className="px-5 py-2 text-[11px] text-muted-foreground">
+              No earlier versions of this file.
+            </p>
+          ) : (
+            versions.items.map((version) => (
+              <div
+                key={version.fileId}
+                className="grid grid-cols-[1fr_100px_auto] items-center gap-4 py-2 px-5"
+              >
+                <div className="min-w-0">
+                  <span className="text-sm text-white truncate block">
+                    {version.fileName}
+                  </span>
+                  <span className="text-[10px] font-mono text-muted-foreground">
+                    Uploaded {formatTimestamp(version.uploadedAt)} · replaced{" "}
+                    {formatTimestamp(version.replacedAt)}
+                  </span>
+                </div>
+                <span className="text-xs font-mono text-muted-foreground text-right">
+                  {formatFileSize(version.sizeBytes)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onRestore(version)}
+                  disabled={disableRestore || versions.restoringFileId !== null}
+                  className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground hover:text-primary transition-colors disabled:opacity-40"
+                >
+                  {versions.restoringFileId === version.fileId
+                    ? "Restoring..."
+                    : "Restore"}
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,25 @@
 import { useRef } from "react";
-import type { QuestionConfig, UploadItem } from "~/types/form";
+import type {
+  FileVersion,
+  QuestionConfig,
+  QuestionFileVersions,
+  UploadItem,
+} from "~/types/form";
+import { getQuestionUploadSummary } from "~/lib/upload-items";
+import { PreviousVersions } from "./previous-versions";
 import { UploadRow } from "./upload-row";
 
 interface QuestionCardProps {
   question: QuestionConfig;
-  upload: UploadItem | null;
+  uploads: UploadItem[];
   totalQuestions: number;
   onAddFile: (file: File) => void;
-  onCancel: () => void;
-  onDelete: () => void;
-  onRetry?: () => void;
+  onCancel: (upload: UploadItem) => void;
+  onDelete: (upload: UploadItem) => void;
+  onRetry?: (upload: UploadItem) => void;
+  versions: QuestionFileVersions | undefined;
+  onLoadVersions: () => void;
+  onRestoreVersion: (version: FileVersion) => void;
   isReadOnly?: boolean;
 }
 
@@ -21,19 +31,34 @@ function getStatusLabel(upload: UploadItem | null) {
   return "Queued";
 }
 
+function getAddFileLabel(question: QuestionConfig, uploads: UploadItem[]) {
+  if (question.maxFiles > 1) {
+    return uploads.length > 0 ? "Add Another File" : "Add File";
+  }
+
+  return uploads.length > 0 ? "Replace File" : "Add File";
+}
+
 export function QuestionCard({
   question,
-  upload,
+  uploads,
   totalQuestions,
   onAddFile,
   onCancel,
   onDelete,
   onRetry,
+  versions,
+  onLoadVersions,
+  onRestoreVersion,
   isReadOnly = false,
 }: QuestionCardProps) {
   const inputRef = useRef<HTMLInputElement>(null);
   const fileInputId = `upload-input-${question.id}`;
-  const statusLabel = getStatusLabel(upload);
+  const statusLabel = getStatusLabel(getQuestionUploadSummary(uploads));
+  const isMultiFile = question.maxFiles > 1;
+  const hasUploadInFlight = uploads.some(
+    (upload) => upload.status === "uploading" || upload.status === "queued",
+  );
 
   return (
     <div className="space-y-12">
@@ -71,23 +96,26 @@ export function QuestionCard({
 
         {/* File container */}
         <div className="space-y-0.5 border-t border-white/5">
-          {upload ? (
-            <UploadRow
-              upload={upload}
-              onCancel={onCancel}
-              onDelete={onDelete}
-              onRetry={
-                isReadOnly
-                  ? undefined
-                  : () => {
-                      if (onRetry) {
-                        onRetry();
+          {uploads.length > 0 ? (
+            uploads.map((upload) => (
+              <UploadRow
+                key={upload.id}
+                upload={upload}
+                onCancel={() => onCancel(upload)}
+                onDelete={() => onDelete(upload)}
+                onRetry={
+                  isReadOnly
+                    ? undefined
+                    : () => {
+                        if (onRetry) {
+                          onRetry(upload);
+                        }
+                        inputRef.current?.click();
                       }
-                      inputRef.current?.click();
-                    }
-              }
-              disableControls={isReadOnly}
-            />
+                }
+                disableControls={isReadOnly}
+              />
+            ))
           ) : isReadOnly ? (
             <div className="py-4 px-4 bg-white/[0.02] text-center">
               <p className="text-[11px] text-muted-foreground">
@@ -106,13 +134,23 @@ export function QuestionCard({
                 add_circle
               </span>
               <span className="text-[10px] font-bold uppercase tracking-widest">
-                {upload ? "Replace File" : "Add File"}
+                {getAddFileLabel(question, uploads)}
               </span>
               <span className="text-[9px] text-muted-foreground/60 ml-2">
                 {question.accept.join(", ")} · max {question.maxSizeMB}MB
+                {isMultiFile ? ` · up to ${question.maxFiles} files` : null}
               </span>
             </label>
           )}
+
+          {!isReadOnly && (
+            <PreviousVersions
+              versions={versions}
+              onLoad={onLoadVersions}
+              onRestore={onRestoreVersion}
+              disableRestore={hasUploadInFlight}
+            />
+          )}
         </div>
       </div>
 
@@ -1,4 +1,5 @@
 import type { UploadItem } from "~/types/form";
+import { formatFileSize } from "~/lib/upload-items";
 import { cn } from "~/lib/utils";
 import { UploadProgress } from "~/components/ui/upload-progress";
 
@@ -10,12 +11,6 @@ interface UploadRowProps {
   disableControls?: boolean;
 }
 
-function formatSize(bytes: number) {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-}
-
 export function UploadRow({
   upload,
   onCancel,
@@ -89,7 +84,7 @@ export function UploadRow({
 
       {/* Size */}
       <span className="text-xs font-mono text-muted-foreground text-right">
-        {formatSize(upload.sizeBytes)}
+        {formatFileSize(upload.sizeBytes)}
       </span>
 
       {/* Status badge + Lottie progress when uploading */}
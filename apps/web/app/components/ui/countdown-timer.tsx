@@ -2,14 +2,67 @@ import * as React from "react"
 import { cn } from "~/lib/utils"
 
 export interface CountdownTimerProps extends React.HTMLAttributes<HTMLDivElement> {
-  days?: number
-  hours?: number
-  minutes?: number
+  deadlineIso: string
+  serverTimeIso: string
   label?: string
 }
 
+export type CountdownValue = {
+  days: number
+  hours: number
+  minutes: number
+  isExpired: boolean
+}
+
+function getCountdownValue(remainingMs: number): CountdownValue {
+  const diff = Math.max(remainingMs, 0)
+  const totalMinutes = Math.floor(diff / (60 * 1000))
+
+  return {
+    days: Math.floor(totalMinutes / (60 * 24)),
+    hours: Math.floor((totalMinutes % (60 * 24)) / 60),
+    minutes: totalMinutes % 60,
+    isExpired: diff === 0,
+  }
+}
+
+/**
+ * Counts down to a server-provided deadline. The client clock is only used to
+ * measure elapsed time since `serverTimeIso` was issued, so a skewed local
+ * clock does not shift the deadline.
+ */
+export function useServerCountdown({
+  deadlineIso,
+  serverTimeIso,
+}: {
+  deadlineIso: string
+  serverTimeIso: string
+}): CountdownValue {
+  const deadlineMs = new Date(deadlineIso).getTime()
+  const serverTimeMs = new Date(serverTimeIso).getTime()
+  const [value, setValue] = React.useState<CountdownValue>(() =>
+    getCountdownValue(deadlineMs - serverTimeMs)
+  )
+
+  React.useEffect(() => {
+    const clockOffsetMs = serverTimeMs - Date.now()
+
+    const update = () => {
+      setValue(getCountdownValue(deadlineMs - (Date.now() + clockOffsetMs)))
+    }
+
+    update()
+    const interval = setInterval(update, 1000)
+    return () => clearInterval(interval)
+  }, [deadlineMs, serverTimeMs])
+
+  return value
+}
+
 const CountdownTimer = React.forwardRef<HTMLDivElement, CountdownTimerProps>(
-  ({ className, days = 0, hours = 0, minutes = 0, label = "Submission Closes In", ...props }, ref) => {
+  ({ className, deadlineIso, serverTimeIso, label = "Submission Closes In", ...props }, ref) => {
+    const { days, hours, minutes } = useServerCountdown({ deadlineIso, serverTimeIso })
+
     return (
       <div
         ref={ref}
@@ -1 +0,0 @@
-export { FORM_QUESTIONS } from "@repo/form-fields";
@@ -0,0 +1,14 @@
+// Mirrors the permission matrix in the backend (src/features/permissions.ts).
+// The backend enforces these; the web app only uses them to shape navigation.
+export const PERMISSIONS = {
+  APPLICATION_SUBMIT: "application.submit",
+  SUBMISSION_READ: "submission.read",
+  FILE_DOWNLOAD: "file.download",
+  TENDER_READ: "tender.read",
+  TENDER_EDIT: "tender.edit",
+  USER_READ: "user.read",
+  USER_GRANT: "user.grant",
+  EMAIL_READ: "email.read",
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
@@ -1,6 +1,14 @@
 export const ROUTES = {
   LOGIN: "/",
   ONBOARDING: "/onboarding",
+  MAGIC_LINK: "/magic-link",
+  FORGOT_PASSWORD: "/forgot-password",
+  RESET_PASSWORD: "/reset-password",
+  CHANGE_PASSWORD: "/account/password",
+  FIRM: "/account/firm",
+  ACCOUNT_TWO_FACTOR: "/account/two-factor",
+  TWO_FACTOR: "/two-factor",
+  FIRM_INVITE: "/firm-invite",
   DASHBOARD: "/dashboard",
   TENDERS: "/tenders",
   PROFILE: "/profile",
@@ -34,6 +42,62 @@ export const ROUTE_METADATA: Record<RouteKey, RouteMetadata> = {
     requiresAuth: true,
     layout: "auth",
   },
+  MAGIC_LINK: {
+    path: "/magic-link",
+    title: "Sign In",
+    description: "Complete sign-in with a single-use email link",
+    requiresAuth: false,
+    layout: "auth",
+  },
+  FORGOT_PASSWORD: {
+    path: "/forgot-password",
+    title: "Forgot Password",
+    description: "Request a link to reset your password",
+    requiresAuth: false,
+    layout: "auth",
+  },
+  RESET_PASSWORD: {
+    path: "/reset-password",
+    title: "Reset Password",
+    description: "Choose a new password for your account",
+    requiresAuth: false,
+    layout: "auth",
+  },
+  CHANGE_PASSWORD: {
+    path: "/account/password",
+    title: "Change Password",
+    description: "Update the password for your account",
+    requiresAuth: true,
+    layout: "auth",
+  },
+  FIRM: {
+    path: "/account/firm",
+    title: "Firm",
+    description: "See who works on your firm's submissions and invite colleagues",
+    requiresAuth: true,
+    layout: "auth",
+  },
+  ACCOUNT_TWO_FACTOR: {
+    path: "/account/two-factor",
+    title: "Two-Factor Authentication",
+    description: "Set up an authenticator app and recovery codes for sign-in",
+    requiresAuth: true,
+    layout: "auth",
+  },
+  TWO_FACTOR: {
+    path: "/two-factor",
+    title: "Two-Factor Check",
+    description: "Confirm your sign-in with an authenticator or recovery code",
+    requiresAuth: false,
+    layout: "auth",
+  },
+  FIRM_INVITE: {
+    path: "/firm-invite",
+    title: "Join Firm",
+    description: "Accept an invitation to collaborate on a firm's submissions",
+    requiresAuth: true,
+    layout: "auth",
+  },
   DASHBOARD: {
     path: "/dashboard",
     title: "Dashboard",
@@ -1,5 +1,5 @@
 import type { AppLoadContext } from "react-router";
-import { fetchBackendJson } from "./backend-api.server";
+import { fetchBackendJson, getBackendBaseUrl } from "./backend-api.server";
 
 export type ApplicationSummary = {
   applicationId: string;
@@ -23,6 +23,7 @@ export type TenderSummary = {
 export type ApplicationsOverviewPayload = {
   applications: ApplicationSummary[];
   tenders: TenderSummary[];
+  serverTime: string;
 };
 
 export async function fetchApplicationsOverview({
@@ -44,6 +45,38 @@ export async function fetchApplicationsOverview({
   });
 }
 
+export type TenderQuestion = {
+  questionId: string;
+  position: number;
+  title: string;
+  description: string;
+  isRequired: boolean;
+  allowedExtensions: string[];
+  maxSizeBytes: number;
+  maxFiles: number;
+};
+
+export async function fetchTenderQuestions({
+  context,
+  apiKey,
+  tenderId,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  tenderId: string;
+}) {
+  return fetchBackendJson<{ tenderId: string; questions: TenderQuestion[] }>({
+    context,
+    path: `/api/v1/tenders/${encodeURIComponent(tenderId)}/questions`,
+    init: {
+      method: "GET",
+      headers: {
+        "x-api-key": apiKey,
+      },
+    },
+  });
+}
+
 export async function applyToTender({
   context,
   apiKey,
@@ -96,3 +129,74 @@ export async function fetchAllSubmissions({
     },
   });
 }
+
+// Returns the raw backend response so the ZIP body can be streamed through
+// without being read into memory.
+export async function fetchSubmissionArchive({
+  context,
+  apiKey,
+  applicationId,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  applicationId: string;
+}): Promise<Response> {
+  return fetch(
+    `${getBackendBaseUrl(context)}/api/v1/admin/applications/${encodeURIComponent(applicationId)}/archive`,
+    {
+      method: "GET",
+      headers: {
+        "x-api-key": apiKey,
+      },
+    },
+  );
+}
+
+export type SignedSubmissionManifest = {
+  manifest: {
+    version: 1;
+    receiptNumber: string;
+    submissionId: string;
+    tenderId: string;
+    tenderTitle: string;
+    firmName: string;
+    issuedTo: string;
+    submittedAt: string;
+    issuedAt: string;
+    files: Array<{
+      fileId: string;
+      questionId: string;
+      fileName: string;
+      fileSizeBytes: number;
+      contentType: string;
+      uploadedAt: string;
+      etag: string;
+      checksumSha256: string | null;
+    }>;
+  };
+  signature: {
+    algorithm: "HMAC-SHA256";
+    value: string;
+  };
+};
+
+export async function fetchSubmissionReceipt({
+  context,
+  apiKey,
+  submissionId,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  submissionId: string;
+}) {
+  return fetchBackendJson<SignedSubmissionManifest>({
+    context,
+    path: `/api/v1/submissions/${encodeURIComponent(submissionId)}/receipt`,
+    init: {
+      method: "GET",
+      headers: {
+        "x-api-key": apiKey,
+      },
+    },
+  });
+}
@@ -1,9 +1,16 @@
 import { createCookie } from "react-router";
 import type { AppLoadContext } from "react-router";
-import { fetchBackendJson } from "./backend-api.server";
+import { PERMISSIONS, type Permission } from "../constants/permissions";
+import { fetchBackendJson, getClientIpForwardingHeaders } from "./backend-api.server";
 
 const AUTH_COOKIE_NAME = "mist_api_key";
 const AUTH_COOKIE_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+const REFRESH_COOKIE_NAME = "mist_refresh_token";
+const REFRESH_COOKIE_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+const TWO_FACTOR_CHALLENGE_COOKIE_NAME = "mist_two_factor_challenge";
+const TWO_FACTOR_CHALLENGE_COOKIE_MAX_AGE_SECONDS = 10 * 60;
+// Refresh slightly before `exp` so a request does not race the expiry.
+const ACCESS_TOKEN_REFRESH_LEEWAY_SECONDS = 60;
 
 const authCookie = createCookie(AUTH_COOKIE_NAME, {
   httpOnly: true,
@@ -12,13 +19,60 @@ const authCookie = createCookie(AUTH_COOKIE_NAME, {
   maxAge: AUTH_COOKIE_MAX_AGE_SECONDS,
 });
 
+const refreshCookie = createCookie(REFRESH_COOKIE_NAME, {
+  httpOnly: true,
+  sameSite: "lax",
+  path: "/",
+  maxAge: REFRESH_COOKIE_MAX_AGE_SECONDS,
+});
+
+// Holds the backend's two-factor challenge between the password step and
+// the code step. The backend expires the challenge after ten minutes.
+const twoFactorChallengeCookie = createCookie(TWO_FACTOR_CHALLENGE_COOKIE_NAME, {
+  httpOnly: true,
+  sameSite: "lax",
+  path: "/",
+  maxAge: TWO_FACTOR_CHALLENGE_COOKIE_MAX_AGE_SECONDS,
+});
+
+export type AuthTokens = {
+  apiKey: string;
+  expiresAt: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
+};
+
+export type TwoFactorChallenge = {
+  twoFactorRequired: true;
+  challengeToken: string;
+  challengeExpiresAt: string;
+  enrollmentRequired: boolean;
+};
+
+// Password and magic-link sign-in answer with tokens, or with a challenge
+// when the account has (or must set up) a second factor.
+export type SignInResponse = AuthTokens | TwoFactorChallenge;
+
+export function isTwoFactorChallenge(
+  response: SignInResponse,
+): response is TwoFactorChallenge {
+  return "twoFactorRequired" in response && response.twoFactorRequired;
+}
+
+export type TotpEnrollment = {
+  secret: string;
+  otpauthUrl: string;
+};
+
 export type AuthUser = {
   id: string;
   email: string;
   firmName: string | null;
   name: string | null;
   phoneNumber: string | null;
+  emailVerified: boolean;
   roles: Array<{ roleId: string; roleName: string }>;
+  permissions: Permission[];
 };
 
 export async function getApiKeyFromRequest(
@@ -54,28 +108,276 @@ export async function clearApiKeyCookie(request: Request): Promise<string> {
   });
 }
 
+async function getRefreshTokenFromRequest(
+  request: Request,
+): Promise<string | null> {
+  const cookieHeader = request.headers.get("Cookie");
+  if (!cookieHeader) {
+    return null;
+  }
+
+  const parsed = await refreshCookie.parse(cookieHeader);
+  return typeof parsed === "string" && parsed.length > 0 ? parsed : null;
+}
+
+/**
+ * Serializes both the access and refresh token cookies. Each entry must be
+ * sent as its own `Set-Cookie` header.
+ */
+export async function setAuthCookies({
+  tokens,
+  request,
+}: {
+  tokens: AuthTokens;
+  request: Request;
+}): Promise<string[]> {
+  const secure = isSecureRequest(request);
+  return [
+    await authCookie.serialize(tokens.apiKey, { secure }),
+    await refreshCookie.serialize(tokens.refreshToken, { secure }),
+  ];
+}
+
+export type PendingTwoFactor = {
+  challengeToken: string;
+  enrollmentRequired: boolean;
+};
+
+export async function setTwoFactorChallengeCookie({
+  challenge,
+  request,
+}: {
+  challenge: TwoFactorChallenge;
+  request: Request;
+}): Promise<string> {
+  const pending: PendingTwoFactor = {
+    challengeToken: challenge.challengeToken,
+    enrollmentRequired: challenge.enrollmentRequired,
+  };
+  return twoFactorChallengeCookie.serialize(pending, {
+    secure: isSecureRequest(request),
+  });
+}
+
+export async function getTwoFactorChallengeFromRequest(
+  request: Request,
+): Promise<PendingTwoFactor | null> {
+  const cookieHeader = request.headers.get("Cookie");
+  if (!cookieHeader) {
+    return null;
+  }
+
+  const parsed: unknown = await twoFactorChallengeCookie.parse(cookieHeader);
+  if (
+    typeof parsed !== "object" ||
+    parsed === null ||
+    typeof Reflect.get(parsed, "challengeToken") !== "string"
+  ) {
+    return null;
+  }
+
+  return {
+    challengeToken: String(Reflect.get(parsed, "challengeToken")),
+    enrollmentRequired: Reflect.get(parsed, "enrollmentRequired") === true,
+  };
+}
+
+export async function clearTwoFactorChallengeCookie(
+  request: Request,
+): Promise<string> {
+  return twoFactorChallengeCookie.serialize("", {
+    maxAge: 0,
+    secure: isSecureRequest(request),
+  });
+}
+
+export async function clearAuthCookies(request: Request): Promise<string[]> {
+  return [
+    await clearApiKeyCookie(request),
+    await refreshCookie.serialize("", {
+      maxAge: 0,
+      secure: isSecureRequest(request),
+    }),
+  ];
+}
+
+function getAccessTokenExpiry(apiKey: string): number | null {
+  const payloadSegment = apiKey.split(".")[1];
+  if (!payloadSegment) {
+    return null;
+  }
+
+  try {
+    const json = atob(payloadSegment.replace(/-/g, "+").replace(/_/g, "/"));
+    const payload = JSON.parse(json) as { exp?: unknown };
+    return typeof payload.exp === "number" ? payload.exp : null;
+  } catch {
+    return null;
+  }
+}
+
+function shouldRefreshAccessToken(apiKey: string | null): boolean {
+  if (!apiKey) {
+    return true;
+  }
+
+  // The backend still verifies the signature; this only decides whether the
+  // token is close enough to `exp` to be worth swapping.
+  const expiresAt = getAccessTokenExpiry(apiKey);
+  return (
+    expiresAt === null ||
+    expiresAt - ACCESS_TOKEN_REFRESH_LEEWAY_SECONDS <= Date.now() / 1000
+  );
+}
+
+function replaceRequestCookie({
+  request,
+  cookie,
+}: {
+  request: Request;
+  cookie: string;
+}): Request {
+  const pair = cookie.split(";")[0];
+  const otherPairs = (request.headers.get("Cookie") ?? "")
+    .split(";")
+    .map((value) => value.trim())
+    .filter(
+      (value) => value.length > 0 && !value.startsWith(`${AUTH_COOKIE_NAME}=`),
+    );
+
+  const headers = new Headers(request.headers);
+  headers.set("Cookie", [...otherPairs, pair].join("; "));
+  return new Request(request, { headers });
+}
+
+/**
+ * Swaps an expired or expiring access token for a new one before the request
+ * reaches the route loaders and actions. Returns the request to handle (with
+ * the new access token cookie) and the cookies to send back.
+ */
+export async function refreshAuthSessionForRequest({
+  request,
+  context,
+}: {
+  request: Request;
+  context: AppLoadContext;
+}): Promise<{ request: Request; setCookieHeaders: string[] }> {
+  const refreshToken = await getRefreshTokenFromRequest(request);
+  if (!refreshToken) {
+    return { request, setCookieHeaders: [] };
+  }
+
+  const apiKey = await getApiKeyFromRequest(request);
+  if (!shouldRefreshAccessToken(apiKey)) {
+    return { request, setCookieHeaders: [] };
+  }
+
+  const refreshResult = await fetchBackendJson<AuthTokens>({
+    context,
+    path: "/api/v1/auth/refresh",
+    init: {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    },
+  });
+
+  if (!refreshResult.ok) {
+    // Leave the cookies alone when the backend is unreachable; clear them
+    // when the refresh token itself was rejected.
+    if (refreshResult.status === 401) {
+      return { request, setCookieHeaders: await clearAuthCookies(request) };
+    }
+
+    return { request, setCookieHeaders: [] };
+  }
+
+  const setCookieHeaders = await setAuthCookies({
+    tokens: refreshResult.data,
+    request,
+  });
+
+  return {
+    request: replaceRequestCookie({ request, cookie: setCookieHeaders[0] }),
+    setCookieHeaders,
+  };
+}
+
 export function isUserOnboarded(user: AuthUser): boolean {
   return Boolean(
     user.name?.trim() && user.firmName?.trim() && user.phoneNumber?.trim(),
   );
 }
 
-export function isUserAdmin(user: AuthUser): boolean {
-  return user.roles.some((role) => role.roleName === "admin");
+// Applicants finish onboarding once their profile is filled in and their
+// email address is verified.
+export function needsOnboarding(user: AuthUser): boolean {
+  return !isUserOnboarded(user) || !user.emailVerified;
 }
 
+export function hasPermission(user: AuthUser, permission: Permission): boolean {
+  return user.permissions.includes(permission);
+}
+
+// Staff are users with any permission beyond submitting applications; they
+// work from the admin area instead of the applicant dashboard.
+export function isStaffUser(user: AuthUser): boolean {
+  return user.permissions.some(
+    (permission) => permission !== PERMISSIONS.APPLICATION_SUBMIT,
+  );
+}
+
+export function getPostLoginPath(user: AuthUser): string {
+  if (isStaffUser(user)) {
+    return "/admin";
+  }
+
+  return needsOnboarding(user) ? "/onboarding" : "/dashboard";
+}
+
+/**
+ * The backend throttles failed logins per email and per client address, so
+ * the browser address is forwarded instead of the worker's own.
+ */
 export async function loginWithPassword({
   context,
   email,
   password,
+  clientIp,
 }: {
   context: AppLoadContext;
   email: string;
   password: string;
+  clientIp?: string | null;
 }) {
-  return fetchBackendJson<{ apiKey: string; isNewUser: boolean }>({
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...getClientIpForwardingHeaders(context, clientIp),
+  };
+
+  return fetchBackendJson<SignInResponse>({
     context,
     path: "/api/v1/auth/login",
+    init: {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ email, password }),
+    },
+  });
+}
+
+export async function registerWithPassword({
+  context,
+  email,
+  password,
+}: {
+  context: AppLoadContext;
+  email: string;
+  password: string;
+}) {
+  return fetchBackendJson<AuthTokens & { verificationEmailSent: boolean }>({
+    context,
+    path: "/api/v1/auth/register",
     init: {
       method: "POST",
       headers: { "Content-Type": "application/json" },
@@ -84,6 +386,231 @@ export async function loginWithPassword({
   });
 }
 
+/**
+ * Link requests count towards the login throttle, so the browser address is
+ * forwarded as for password logins.
+ */
+export async function requestMagicLink({
+  context,
+  email,
+  clientIp,
+}: {
+  context: AppLoadContext;
+  email: string;
+  clientIp?: string | null;
+}) {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...getClientIpForwardingHeaders(context, clientIp),
+  };
+
+  return fetchBackendJson<Record<string, never>>({
+    context,
+    path: "/api/v1/auth/magic-link",
+    init: {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ email }),
+    },
+  });
+}
+
+export async function redeemMagicLink({
+  context,
+  token,
+}: {
+  context: AppLoadContext;
+  token: string;
+}) {
+  return fetchBackendJson<SignInResponse>({
+    context,
+    path: "/api/v1/auth/magic-link/redeem",
+    init: {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    },
+  });
+}
+
+export async function beginLoginTotpEnrollment({
+  context,
+  challengeToken,
+}: {
+  context: AppLoadContext;
+  challengeToken: string;
+}) {
+  return fetchBackendJson<TotpEnrollment>({
+    context,
+    path: "/api/v1/auth/login/two-factor/enroll",
+    init: {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ challengeToken }),
+    },
+  });
+}
+
+/**
+ * Wrong codes count towards the login lockout, so the browser address is
+ * forwarded here as well.
+ */
+export async function completeTwoFactorLogin({
+  context,
+  challengeToken,
+  code,
+  recoveryCode,
+  clientIp,
+}: {
+  context: AppLoadContext;
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+  clientIp?: string | null;
+}) {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...getClientIpForwardingHeaders(context, clientIp),
+  };
+
+  return fetchBackendJson<AuthTokens & { recoveryCodes: string[] | null }>({
+    context,
+    path: "/api/v1/auth/login/two-factor",
+    init: {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ challengeToken, code, recoveryCode }),
+    },
+  });
+}
+
+export async function requestPasswordReset({
+  context,
+  email,
+  clientIp,
+}: {
+  context: AppLoadContext;
+  email: string;
+  clientIp?: string | null;
+}) {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    ...getClientIpForwardingHeaders(context, clientIp),
+  };
+
+  return fetchBackendJson<Record<string, never>>({
+    context,
+    path: "/api/v1/auth/forgot-password",
+    init: {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ email }),
+    },
+  });
+}
+
+export async function resetPassword({
+  context,
+  token,
+  password,
+}: {
+  context: AppLoadContext;
+  token: string;
+  password: string;
+}) {
+  return fetchBackendJson<Record<string, never>>({
+    context,
+    path: "/api/v1/auth/reset-password",
+    init: {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token, password }),
+    },
+  });
+}
+
+export async function changePassword({
+  context,
+  apiKey,
+  currentPassword,
+  newPassword,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  currentPassword: string;
+  newPassword: string;
+}) {
+  return fetchBackendJson<AuthTokens>({
+    context,
+    path: "/api/v1/auth/change-password",
+    init: {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+      },
+      body: JSON.stringify({ currentPassword, newPassword }),
+    },
+  });
+}
+
+export async function verifyEmailToken({
+  context,
+  token,
+}: {
+  context: AppLoadContext;
+  token: string;
+}) {
+  return fetchBackendJson<Record<string, never>>({
+    context,
+    path: "/api/v1/auth/verify-email",
+    init: {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token }),
+    },
+  });
+}
+
+export async function resendEmailVerification({
+  context,
+  apiKey,
+  clientIp,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  clientIp?: string | null;
+}) {
+  return fetchBackendJson<Record<string, never>>({
+    context,
+    path: "/api/v1/auth/verify-email/resend",
+    init: {
+      method: "POST",
+      headers: {
+        "x-api-key": apiKey,
+        ...getClientIpForwardingHeaders(context, clientIp),
+      },
+    },
+  });
+}
+
+export async function logoutSession({
+  context,
+  apiKey,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+}) {
+  return fetchBackendJson<Record<string, never>>({
+    context,
+    path: "/api/v1/auth/logout",
+    init: {
+      method: "POST",
+      headers: { "x-api-key": apiKey },
+    },
+  });
+}
+
 export async function fetchMe({
   context,
   apiKey,
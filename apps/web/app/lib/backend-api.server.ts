@@ -22,7 +22,14 @@ type ApiFailure = {
 
 export type BackendJsonResult<T> =
   | { ok: true; data: T; status: number }
-  | { ok: false; status: number; error: string; errorCode?: string; debug?: JsonValue };
+  | {
+      ok: false;
+      status: number;
+      error: string;
+      errorCode?: string;
+      debug?: JsonValue;
+      retryAfterSeconds?: number;
+    };
 
 export function getBackendBaseUrl(context: AppLoadContext): string {
   const env = context.cloudflare?.env as unknown as Record<string, unknown> | undefined;
@@ -36,6 +43,31 @@ export function getBackendBaseUrl(context: AppLoadContext): string {
   return "http://127.0.0.1:8787";
 }
 
+/**
+ * Headers that let the backend attribute a request to the browser rather
+ * than this worker. The backend ignores `X-Forwarded-For` unless it comes
+ * with the shared forwarding secret, so nothing is sent without one.
+ */
+export function getClientIpForwardingHeaders(
+  context: AppLoadContext,
+  clientIp: string | null | undefined,
+): Record<string, string> {
+  const env = context.cloudflare?.env as unknown as Record<string, unknown> | undefined;
+  const secret =
+    typeof env?.CLIENT_IP_FORWARDING_SECRET === "string"
+      ? env.CLIENT_IP_FORWARDING_SECRET.trim()
+      : "";
+
+  if (!clientIp || secret.length === 0) {
+    return {};
+  }
+
+  return {
+    "X-Forwarded-For": clientIp,
+    "X-Client-IP-Forwarding-Secret": secret,
+  };
+}
+
 export async function fetchBackendJson<T>({
   context,
   path,
@@ -71,6 +103,10 @@ export async function fetchBackendJson<T>({
   }
 
   if (!response.ok || payload === null || payload.ok === false) {
+    const retryAfterSeconds = Number.parseInt(
+      response.headers.get("Retry-After") ?? "",
+      10,
+    );
     const textFallback =
       responseText.trim().length > 0 ? responseText.trim().slice(0, 180) : "";
 
@@ -83,6 +119,9 @@ export async function fetchBackendJson<T>({
           : textFallback || `Request failed (status ${response.status})`,
       errorCode: payload && "errorCode" in payload ? payload.errorCode : undefined,
       debug: payload && "debug" in payload ? payload.debug : undefined,
+      retryAfterSeconds: Number.isFinite(retryAfterSeconds)
+        ? retryAfterSeconds
+        : undefined,
     };
   }
 
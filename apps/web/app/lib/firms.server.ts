@@ -0,0 +1,99 @@
+import type { AppLoadContext } from "react-router";
+import { fetchBackendJson } from "./backend-api.server";
+
+export type FirmRole = "owner" | "contributor" | "viewer";
+
+export type FirmMember = {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: FirmRole;
+  joinedAt: string;
+};
+
+export type FirmInvite = {
+  inviteId: string;
+  email: string;
+  role: FirmRole;
+  expiresAt: string;
+  createdAt: string;
+};
+
+export type FirmOverview = {
+  firmId: string;
+  firmName: string;
+  role: FirmRole;
+  members: FirmMember[];
+  pendingInvites: FirmInvite[];
+};
+
+export type FirmMembership = {
+  firmId: string;
+  firmName: string;
+  role: FirmRole;
+};
+
+export async function fetchFirm({
+  context,
+  apiKey,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+}) {
+  return fetchBackendJson<FirmOverview | null>({
+    context,
+    path: "/api/v1/firms/me",
+    init: {
+      method: "GET",
+      headers: { "x-api-key": apiKey },
+    },
+  });
+}
+
+export async function inviteFirmMember({
+  context,
+  apiKey,
+  email,
+  role,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  email: string;
+  role: Exclude<FirmRole, "owner">;
+}) {
+  return fetchBackendJson<FirmInvite>({
+    context,
+    path: "/api/v1/firms/me/invites",
+    init: {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+      },
+      body: JSON.stringify({ email, role }),
+    },
+  });
+}
+
+export async function acceptFirmInvite({
+  context,
+  apiKey,
+  token,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  token: string;
+}) {
+  return fetchBackendJson<FirmMembership>({
+    context,
+    path: "/api/v1/firms/invites/accept",
+    init: {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+      },
+      body: JSON.stringify({ token }),
+    },
+  });
+}
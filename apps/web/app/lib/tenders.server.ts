@@ -0,0 +1,139 @@
+import type { AppLoadContext } from "react-router";
+import { fetchBackendJson } from "./backend-api.server";
+
+export type AdminTender = {
+  tenderId: string;
+  title: string;
+  firstDateToApply: string;
+  lastDateToApply: string;
+  isActive: boolean;
+  createdAt: string;
+};
+
+export async function fetchAdminTenders({
+  context,
+  apiKey,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+}) {
+  return fetchBackendJson<{ tenders: AdminTender[] }>({
+    context,
+    path: "/api/v1/admin/tenders",
+    init: {
+      method: "GET",
+      headers: {
+        "x-api-key": apiKey,
+      },
+    },
+  });
+}
+
+export async function createAdminTender({
+  context,
+  apiKey,
+  title,
+  firstDateToApply,
+  lastDateToApply,
+  copyQuestionsFromTenderId,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  title: string;
+  firstDateToApply: string;
+  lastDateToApply: string;
+  copyQuestionsFromTenderId: string;
+}) {
+  return fetchBackendJson<AdminTender>({
+    context,
+    path: "/api/v1/admin/tenders",
+    init: {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+      },
+      body: JSON.stringify({
+        title,
+        firstDateToApply,
+        lastDateToApply,
+        copyQuestionsFromTenderId,
+      }),
+    },
+  });
+}
+
+export async function updateAdminTender({
+  context,
+  apiKey,
+  tenderId,
+  title,
+  firstDateToApply,
+  lastDateToApply,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  tenderId: string;
+  title?: string;
+  firstDateToApply?: string;
+  lastDateToApply?: string;
+}) {
+  return fetchBackendJson<AdminTender>({
+    context,
+    path: `/api/v1/admin/tenders/${encodeURIComponent(tenderId)}`,
+    init: {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+      },
+      body: JSON.stringify({ title, firstDateToApply, lastDateToApply }),
+    },
+  });
+}
+
+export async function extendAdminTenderDeadline({
+  context,
+  apiKey,
+  tenderId,
+  lastDateToApply,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  tenderId: string;
+  lastDateToApply: string;
+}) {
+  return fetchBackendJson<AdminTender>({
+    context,
+    path: `/api/v1/admin/tenders/${encodeURIComponent(tenderId)}/extend`,
+    init: {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+      },
+      body: JSON.stringify({ lastDateToApply }),
+    },
+  });
+}
+
+export async function archiveAdminTender({
+  context,
+  apiKey,
+  tenderId,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  tenderId: string;
+}) {
+  return fetchBackendJson<AdminTender>({
+    context,
+    path: `/api/v1/admin/tenders/${encodeURIComponent(tenderId)}/archive`,
+    init: {
+      method: "POST",
+      headers: {
+        "x-api-key": apiKey,
+      },
+    },
+  });
+}
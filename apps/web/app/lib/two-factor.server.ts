@@ -0,0 +1,98 @@
+import type { AppLoadContext } from "react-router";
+import type { TotpEnrollment } from "./auth.server";
+import { fetchBackendJson } from "./backend-api.server";
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+export async function fetchTwoFactorStatus({
+  context,
+  apiKey,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+}) {
+  return fetchBackendJson<TwoFactorStatus>({
+    context,
+    path: "/api/v1/auth/two-factor",
+    init: {
+      method: "GET",
+      headers: { "x-api-key": apiKey },
+    },
+  });
+}
+
+export async function startTotpEnrollment({
+  context,
+  apiKey,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+}) {
+  return fetchBackendJson<TotpEnrollment>({
+    context,
+    path: "/api/v1/auth/two-factor/enroll",
+    init: {
+      method: "POST",
+      headers: { "x-api-key": apiKey },
+    },
+  });
+}
+
+async function postTwoFactorCode<T>({
+  context,
+  apiKey,
+  path,
+  code,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  path: string;
+  code: string;
+}) {
+  return fetchBackendJson<T>({
+    context,
+    path,
+    init: {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "x-api-key": apiKey },
+      body: JSON.stringify({ code }),
+    },
+  });
+}
+
+export async function confirmTotpEnrollment(input: {
+  context: AppLoadContext;
+  apiKey: string;
+  code: string;
+}) {
+  return postTwoFactorCode<{ recoveryCodes: string[] }>({
+    ...input,
+    path: "/api/v1/auth/two-factor/confirm",
+  });
+}
+
+export async function regenerateRecoveryCodes(input: {
+  context: AppLoadContext;
+  apiKey: string;
+  code: string;
+}) {
+  return postTwoFactorCode<{ recoveryCodes: string[] }>({
+    ...input,
+    path: "/api/v1/auth/two-factor/recovery-codes",
+  });
+}
+
+export async function disableTwoFactor(input: {
+  context: AppLoadContext;
+  apiKey: string;
+  code: string;
+}) {
+  return postTwoFactorCode<Record<string, never>>({
+    ...input,
+    path: "/api/v1/auth/two-factor/disable",
+  });
+}
@@ -0,0 +1,23 @@
+import type { UploadItem } from "~/types/form";
+
+/**
+ * The file that best describes a question's state when it can hold several:
+ * an upload in progress, then a completed file, then a failed one.
+ */
+export function getQuestionUploadSummary(items: UploadItem[]): UploadItem | null {
+  return (
+    items.find(
+      (item) =>
+        item.status === "uploading" || item.status === "queued" || item.isCancelling,
+    ) ??
+    items.find((item) => item.status === "complete") ??
+    items[0] ??
+    null
+  );
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -1,5 +1,4 @@
 import type { AppLoadContext } from "react-router";
-import type { UploadQuestionId } from "@repo/upload-contracts";
 import { fetchBackendJson } from "./backend-api.server";
 
 export type InitiatedUploadPart = {
@@ -32,22 +31,40 @@ export type InitiatedUploadData =
   | InitiatedSingleUploadData
   | InitiatedMultipartUploadData;
 
+export type UploadSessionPartsData = {
+  uploadSessionId: string;
+  uploadId: string;
+  objectKey: string;
+  partSizeBytes: number;
+  totalParts: number;
+  expiresAt: string;
+  uploadedParts: Array<{ partNumber: number; etag: string }>;
+  missingParts: InitiatedUploadPart[];
+};
+
 export type UploadStatusSummary = {
   fileId: string;
-  questionId: UploadQuestionId;
+  questionId: string;
   fileName: string;
   fileSizeBytes: number;
   contentType: string;
+  checksumSha256: string | null;
+  contentCheckStatus: "unchecked" | "passed" | "quarantined";
+  contentCheckDetail: string | null;
   uploadedAt: string;
 };
 
+export type UploadedFileVersion = UploadStatusSummary & {
+  replacedAt: string;
+};
+
 export type UploadStatusPayload = {
   tenderId: string;
   submission: {
     status: "draft" | "submitted";
     submittedAt: string | null;
   };
-  uploads: Record<UploadQuestionId, UploadStatusSummary | null>;
+  uploads: Record<string, UploadStatusSummary[]>;
 };
 
 export async function initiateMultipartUpload({
@@ -58,14 +75,20 @@ export async function initiateMultipartUpload({
   fileName,
   fileSizeBytes,
   contentType,
+  checksumSha256,
+  partChecksumAlgorithm,
+  partChecksums,
 }: {
   context: AppLoadContext;
   apiKey: string;
   tenderId: string;
-  questionId: UploadQuestionId;
+  questionId: string;
   fileName: string;
   fileSizeBytes: number;
   contentType: string;
+  checksumSha256?: string;
+  partChecksumAlgorithm?: "CRC32" | "SHA256";
+  partChecksums?: Array<{ partNumber: number; checksum: string }>;
 }) {
   return fetchBackendJson<InitiatedUploadData>({
     context,
@@ -82,6 +105,9 @@ export async function initiateMultipartUpload({
         fileName,
         fileSizeBytes,
         contentType,
+        checksumSha256,
+        partChecksumAlgorithm,
+        partChecksums,
       }),
     },
   });
@@ -149,6 +175,147 @@ export async function abortMultipartUploadSession({
   });
 }
 
+export async function deleteUploadedFile({
+  context,
+  apiKey,
+  tenderId,
+  fileId,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  tenderId: string;
+  fileId: string;
+}) {
+  const params = new URLSearchParams({ tenderId });
+
+  return fetchBackendJson<{ fileId: string; questionId: string }>({
+    context,
+    path: `/api/v1/uploads/files/${encodeURIComponent(fileId)}?${params.toString()}`,
+    init: {
+      method: "DELETE",
+      headers: {
+        "x-api-key": apiKey,
+      },
+    },
+  });
+}
+
+export async function fetchQuestionFileVersions({
+  context,
+  apiKey,
+  tenderId,
+  questionId,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  tenderId: string;
+  questionId: string;
+}) {
+  const params = new URLSearchParams({ tenderId });
+
+  return fetchBackendJson<{
+    questionId: string;
+    versions: UploadedFileVersion[];
+  }>({
+    context,
+    path: `/api/v1/uploads/questions/${encodeURIComponent(questionId)}/versions?${params.toString()}`,
+    init: {
+      method: "GET",
+      headers: {
+        "x-api-key": apiKey,
+      },
+    },
+  });
+}
+
+export async function restoreUploadedFileVersion({
+  context,
+  apiKey,
+  tenderId,
+  fileId,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  tenderId: string;
+  fileId: string;
+}) {
+  return fetchBackendJson<UploadStatusSummary>({
+    context,
+    path: `/api/v1/uploads/files/${encodeURIComponent(fileId)}/restore`,
+    init: {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+      },
+      body: JSON.stringify({
+        tenderId,
+      }),
+    },
+  });
+}
+
+export async function fetchUploadSessionParts({
+  context,
+  apiKey,
+  tenderId,
+  uploadSessionId,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  tenderId: string;
+  uploadSessionId: string;
+}) {
+  const params = new URLSearchParams({ tenderId });
+
+  return fetchBackendJson<UploadSessionPartsData>({
+    context,
+    path: `/api/v1/uploads/${encodeURIComponent(uploadSessionId)}/parts?${params.toString()}`,
+    init: {
+      method: "GET",
+      headers: {
+        "x-api-key": apiKey,
+      },
+    },
+  });
+}
+
+export async function presignUploadSessionParts({
+  context,
+  apiKey,
+  tenderId,
+  uploadSessionId,
+  startPartNumber,
+  endPartNumber,
+}: {
+  context: AppLoadContext;
+  apiKey: string;
+  tenderId: string;
+  uploadSessionId: string;
+  startPartNumber: number;
+  endPartNumber: number;
+}) {
+  return fetchBackendJson<{
+    uploadSessionId: string;
+    parts: InitiatedUploadPart[];
+  }>({
+    context,
+    path: `/api/v1/uploads/${encodeURIComponent(uploadSessionId)}/presign`,
+    init: {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey,
+      },
+      body: JSON.stringify({
+        tenderId,
+        startPartNumber,
+        endPartNumber,
+      }),
+    },
+  });
+}
+
 export async function fetchUploadsStatus({
   context,
   apiKey,
@@ -185,6 +352,7 @@ export async function submitTenderDocuments({
     tenderId: string;
     status: "submitted";
     submittedAt: string;
+    receiptNumber: string | null;
   }>({
     context,
     path: "/api/v1/submissions/submit",
@@ -10,15 +10,28 @@ export default [
   layout("routes/auth-layout.tsx", [
     index("routes/login.tsx"),
     route("onboarding", "routes/onboarding.tsx"),
+    route("magic-link", "routes/magic-link.tsx"),
+    route("forgot-password", "routes/forgot-password.tsx"),
+    route("reset-password", "routes/reset-password.tsx"),
+    route("account/password", "routes/account.password.tsx"),
+    route("account/firm", "routes/account.firm.tsx"),
+    route("account/two-factor", "routes/account.two-factor.tsx"),
+    route("two-factor", "routes/two-factor.tsx"),
+    route("firm-invite", "routes/firm-invite.tsx"),
   ]),
 
   // Dashboard
   route("dashboard", "routes/dashboard.tsx"),
   route("admin", "routes/admin.tsx"),
+  route(
+    "admin/applications/:applicationId/archive",
+    "routes/admin.applications.$applicationId.archive.ts",
+  ),
 
   // Form submission
   route("form/:submissionId", "routes/form.tsx"),
   route("form/:submissionId/success", "routes/form.success.tsx"),
+  route("form/:submissionId/receipt", "routes/form.receipt.ts"),
   route("form-upload", "routes/form-upload.ts"),
   route(
     "api/application/:submissionId/state",
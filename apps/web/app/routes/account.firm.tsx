@@ -0,0 +1,195 @@
+import type { Route } from "./+types/account.firm";
+import { Link, data, redirect } from "react-router";
+import { z } from "zod";
+import { AuthFormWrapper } from "~/components/auth/auth-form-wrapper";
+import { FirmInviteForm } from "~/components/forms/firm-invite-form";
+import { Badge } from "~/components/ui/badge";
+import { Separator } from "~/components/ui/separator";
+import { Toast } from "~/components/ui/toast";
+import { ROUTE_METADATA } from "~/constants/routes";
+import {
+  clearAuthCookies,
+  fetchMe,
+  getApiKeyFromRequest,
+  getPostLoginPath,
+} from "~/lib/auth.server";
+import { fetchFirm, inviteFirmMember } from "~/lib/firms.server";
+import type { FirmActionData } from "~/types/auth";
+
+export function meta({}: Route.MetaArgs) {
+  const metadata = ROUTE_METADATA.FIRM;
+  return [
+    { title: `${metadata.title} - MIST` },
+    { name: "description", content: metadata.description },
+  ];
+}
+
+const InviteSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address"),
+  role: z.enum(["contributor", "viewer"]),
+});
+
+const RoleLabels = {
+  owner: "Owner",
+  contributor: "Contributor",
+  viewer: "Viewer",
+} as const;
+
+async function signOut(request: Request): Promise<never> {
+  throw redirect("/", {
+    headers: (await clearAuthCookies(request)).map(
+      (cookie): [string, string] => ["Set-Cookie", cookie],
+    ),
+  });
+}
+
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const apiKey = await getApiKeyFromRequest(request);
+  if (!apiKey) {
+    throw redirect("/");
+  }
+
+  const meResult = await fetchMe({ context, apiKey });
+  if (!meResult.ok) {
+    return signOut(request);
+  }
+
+  const firmResult = await fetchFirm({ context, apiKey });
+  return {
+    backPath: getPostLoginPath(meResult.data),
+    firm: firmResult.ok ? firmResult.data : null,
+    loadError: firmResult.ok ? null : firmResult.error,
+  };
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const apiKey = await getApiKeyFromRequest(request);
+  if (!apiKey) {
+    throw redirect("/");
+  }
+
+  const formData = await request.formData();
+  const parsed = InviteSchema.safeParse({
+    email: formData.get("email"),
+    role: formData.get("role"),
+  });
+  if (!parsed.success) {
+    return data<FirmActionData>(
+      {
+        success: false,
+        error: parsed.error.issues[0]?.message ?? "Invalid form submission",
+      },
+      { status: 400 },
+    );
+  }
+
+  const result = await inviteFirmMember({
+    context,
+    apiKey,
+    email: parsed.data.email,
+    role: parsed.data.role,
+  });
+  if (!result.ok) {
+    if (result.status === 401) {
+      return signOut(request);
+    }
+
+    return data<FirmActionData>(
+      {
+        success: false,
+        error: result.error || "Unable to send the invitation. Please try again.",
+      },
+      { status: result.status === 403 || result.status === 409 ? result.status : 400 },
+    );
+  }
+
+  return data<FirmActionData>({
+    success: true,
+    message: `Invitation sent to ${result.data.email}.`,
+  });
+}
+
+export default function AccountFirm({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const { firm } = loaderData;
+  const isOwner = firm === null || firm.role === "owner";
+  const toastMessage = actionData?.error ?? loaderData.loadError;
+
+  return (
+    <>
+      {toastMessage ? <Toast message={toastMessage} variant="error" /> : null}
+      <AuthFormWrapper
+        icon={
+          <span className="material-symbols-outlined text-[32px] leading-[40px] text-primary">
+            groups
+          </span>
+        }
+        heading={firm?.firmName ?? "Your Firm"}
+        subheading="Everyone in your firm works on the same submission. Only owners can invite colleagues and submit a tender."
+      >
+        {firm ? (
+          <div className="space-y-4">
+            <p className="text-[10px] uppercase tracking-[2px] leading-[15px] text-muted-foreground font-bold">
+              MEMBERS
+            </p>
+            <ul className="space-y-3">
+              {firm.members.map((member) => (
+                <li
+                  key={member.userId}
+                  className="flex items-center justify-between gap-3"
+                >
+                  <div className="min-w-0">
+                    <p className="text-[14px] leading-[20px] text-foreground truncate">
+                      {member.name ?? member.email}
+                    </p>
+                    {member.name ? (
+                      <p className="text-[12px] leading-[16px] text-muted-foreground truncate">
+                        {member.email}
+                      </p>
+                    ) : null}
+                  </div>
+                  <Badge>{RoleLabels[member.role]}</Badge>
+                </li>
+              ))}
+              {firm.pendingInvites.map((invite) => (
+                <li
+                  key={invite.inviteId}
+                  className="flex items-center justify-between gap-3"
+                >
+                  <p className="text-[14px] leading-[20px] text-muted-foreground truncate">
+                    {invite.email}
+                  </p>
+                  <Badge>Invited - {RoleLabels[invite.role]}</Badge>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : (
+          <p className="text-[12px] leading-[16px] text-muted-foreground">
+            Your firm is set up when you start your first application. If a
+            colleague invited you, open the link from their email instead.
+          </p>
+        )}
+
+        <Separator />
+
+        {isOwner ? (
+          <FirmInviteForm actionData={actionData} />
+        ) : (
+          <p className="text-[12px] leading-[16px] text-muted-foreground">
+            You are a {RoleLabels[firm.role].toLowerCase()} of this firm. Ask an
+            owner to invite colleagues or submit the tender.
+          </p>
+        )}
+
+        <p className="text-[12px] leading-[16px] text-muted-foreground">
+          <Link to={loaderData.backPath} className="text-primary hover:underline">
+            Back to the portal
+          </Link>
+        </p>
+      </AuthFormWrapper>
+    </>
+  );
+}
@@ -0,0 +1,173 @@
+import type { Route } from "./+types/account.password";
+import { Link, data, redirect } from "react-router";
+import { z } from "zod";
+import { AuthFormWrapper } from "~/components/auth/auth-form-wrapper";
+import { PasswordForm } from "~/components/forms/password-form";
+import { ROUTE_METADATA } from "~/constants/routes";
+import {
+  changePassword,
+  clearAuthCookies,
+  fetchMe,
+  getApiKeyFromRequest,
+  getPostLoginPath,
+  setAuthCookies,
+} from "~/lib/auth.server";
+import type { PasswordActionData } from "~/types/auth";
+
+export function meta({}: Route.MetaArgs) {
+  const metadata = ROUTE_METADATA.CHANGE_PASSWORD;
+  return [
+    { title: `${metadata.title} - MIST` },
+    { name: "description", content: metadata.description },
+  ];
+}
+
+const ChangePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Current password is required"),
+    newPassword: z.string().min(8, "New password must be at least 8 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((value) => value.newPassword === value.confirmPassword, {
+    message: "New passwords do not match",
+  });
+
+async function signOut(request: Request): Promise<never> {
+  throw redirect("/", {
+    headers: (await clearAuthCookies(request)).map(
+      (cookie): [string, string] => ["Set-Cookie", cookie],
+    ),
+  });
+}
+
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const apiKey = await getApiKeyFromRequest(request);
+  if (!apiKey) {
+    throw redirect("/");
+  }
+
+  const meResult = await fetchMe({ context, apiKey });
+  if (!meResult.ok) {
+    return signOut(request);
+  }
+
+  return { backPath: getPostLoginPath(meResult.data) };
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const apiKey = await getApiKeyFromRequest(request);
+  if (!apiKey) {
+    throw redirect("/");
+  }
+
+  const formData = await request.formData();
+  const parsed = ChangePasswordSchema.safeParse({
+    currentPassword: formData.get("currentPassword"),
+    newPassword: formData.get("newPassword"),
+    confirmPassword: formData.get("confirmPassword"),
+  });
+
+  if (!parsed.success) {
+    return data<PasswordActionData>(
+      {
+        success: false,
+        error: parsed.error.issues[0]?.message ?? "Invalid form submission",
+      },
+      { status: 400 },
+    );
+  }
+
+  const result = await changePassword({
+    context,
+    apiKey,
+    currentPassword: parsed.data.currentPassword,
+    newPassword: parsed.data.newPassword,
+  });
+  if (!result.ok) {
+    if (result.status === 401) {
+      return signOut(request);
+    }
+
+    return data<PasswordActionData>(
+      {
+        success: false,
+        error: result.error || "Unable to change your password. Please try again.",
+      },
+      { status: result.status === 403 ? 403 : 400 },
+    );
+  }
+
+  // The change revoked every session; keep this browser signed in with the
+  // replacement tokens.
+  return data<PasswordActionData>(
+    {
+      success: true,
+      message: "Your password has been changed. Other devices have been signed out.",
+    },
+    {
+      headers: (await setAuthCookies({ tokens: result.data, request })).map(
+        (cookie): [string, string] => ["Set-Cookie", cookie],
+      ),
+    },
+  );
+}
+
+export default function ChangePassword({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  return (
+    <AuthFormWrapper
+      icon={
+        <span className="material-symbols-outlined text-[32px] leading-[40px] text-primary">
+          password
+        </span>
+      }
+      heading="Change Your Password"
+      subheading="Changing your password signs you out on every other device."
+    >
+      <PasswordForm
+        key={actionData?.success ? "changed" : "pending"}
+        fields={[
+          {
+            name: "currentPassword",
+            label: "CURRENT PASSWORD",
+            type: "password",
+            placeholder: "Enter your current password",
+            autoComplete: "current-password",
+          },
+          {
+            name: "newPassword",
+            label: "NEW PASSWORD",
+            type: "password",
+            placeholder: "At least 8 characters",
+            autoComplete: "new-password",
+          },
+          {
+            name: "confirmPassword",
+            label: "CONFIRM NEW PASSWORD",
+            type: "password",
+            placeholder: "Repeat the new password",
+            autoComplete: "new-password",
+          },
+        ]}
+        submitLabel="Change Password"
+        submittingLabel="Saving..."
+        actionData={actionData}
+      />
+      <div className="space-y-2 text-[12px] leading-[16px] text-muted-foreground">
+        <p>
+          Never set a password, or forgot it?{" "}
+          <Link to="/forgot-password" className="text-primary hover:underline">
+            Reset it by email
+          </Link>
+        </p>
+        <p>
+          <Link to={loaderData.backPath} className="text-primary hover:underline">
+            Back to the portal
+          </Link>
+        </p>
+      </div>
+    </AuthFormWrapper>
+  );
+}
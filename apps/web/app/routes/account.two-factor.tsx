@@ -0,0 +1,265 @@
+import type { Route } from "./+types/account.two-factor";
+import { Form, Link, data, redirect, useNavigation } from "react-router";
+import { z } from "zod";
+import { AuthFormWrapper } from "~/components/auth/auth-form-wrapper";
+import {
+  RecoveryCodeList,
+  TotpSecretPanel,
+  TwoFactorCodeForm,
+} from "~/components/forms/two-factor-form";
+import { Button } from "~/components/ui/button";
+import { Toast } from "~/components/ui/toast";
+import { ROUTE_METADATA } from "~/constants/routes";
+import {
+  clearAuthCookies,
+  fetchMe,
+  getApiKeyFromRequest,
+  getPostLoginPath,
+} from "~/lib/auth.server";
+import {
+  confirmTotpEnrollment,
+  disableTwoFactor,
+  fetchTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTotpEnrollment,
+} from "~/lib/two-factor.server";
+import type { TwoFactorActionData } from "~/types/auth";
+
+export function meta({}: Route.MetaArgs) {
+  const metadata = ROUTE_METADATA.ACCOUNT_TWO_FACTOR;
+  return [
+    { title: `${metadata.title} - MIST` },
+    { name: "description", content: metadata.description },
+  ];
+}
+
+const TwoFactorSettingsSchema = z.discriminatedUnion("intent", [
+  z.object({ intent: z.literal("enroll") }),
+  z.object({
+    intent: z.enum(["confirm", "regenerate", "disable"]),
+    code: z.string().trim().min(1, "Enter the code from your authenticator app"),
+    secret: z.string().optional(),
+    otpauthUrl: z.string().optional(),
+  }),
+]);
+
+async function signOut(request: Request): Promise<never> {
+  throw redirect("/", {
+    headers: (await clearAuthCookies(request)).map(
+      (cookie): [string, string] => ["Set-Cookie", cookie],
+    ),
+  });
+}
+
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const apiKey = await getApiKeyFromRequest(request);
+  if (!apiKey) {
+    throw redirect("/");
+  }
+
+  const meResult = await fetchMe({ context, apiKey });
+  if (!meResult.ok) {
+    return signOut(request);
+  }
+
+  const statusResult = await fetchTwoFactorStatus({ context, apiKey });
+  if (!statusResult.ok) {
+    throw new Response("Unable to load two-factor settings", { status: 502 });
+  }
+
+  return {
+    backPath: getPostLoginPath(meResult.data),
+    status: statusResult.data,
+  };
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const apiKey = await getApiKeyFromRequest(request);
+  if (!apiKey) {
+    throw redirect("/");
+  }
+
+  const formData = await request.formData();
+  const parsed = TwoFactorSettingsSchema.safeParse({
+    intent: formData.get("intent"),
+    code: formData.get("code") ?? undefined,
+    secret: formData.get("secret") ?? undefined,
+    otpauthUrl: formData.get("otpauthUrl") ?? undefined,
+  });
+  if (!parsed.success) {
+    return data<TwoFactorActionData>(
+      {
+        success: false,
+        error: parsed.error.issues[0]?.message ?? "Invalid form submission",
+      },
+      { status: 400 },
+    );
+  }
+
+  const input = parsed.data;
+  if (input.intent === "enroll") {
+    const result = await startTotpEnrollment({ context, apiKey });
+    if (!result.ok) {
+      if (result.status === 401) {
+        return signOut(request);
+      }
+
+      return data<TwoFactorActionData>(
+        {
+          success: false,
+          error: result.error || "Unable to start setup. Please try again.",
+        },
+        { status: 400 },
+      );
+    }
+
+    return data<TwoFactorActionData>({ success: true, enrollment: result.data });
+  }
+
+  const codeInput = { context, apiKey, code: input.code };
+  const result =
+    input.intent === "confirm"
+      ? await confirmTotpEnrollment(codeInput)
+      : input.intent === "regenerate"
+        ? await regenerateRecoveryCodes(codeInput)
+        : await disableTwoFactor(codeInput);
+  if (!result.ok) {
+    if (result.status === 401) {
+      return signOut(request);
+    }
+
+    return data<TwoFactorActionData>(
+      {
+        success: false,
+        error: result.error || "Unable to verify the code. Please try again.",
+        enrollment:
+          input.intent === "confirm" && input.secret && input.otpauthUrl
+            ? { secret: input.secret, otpauthUrl: input.otpauthUrl }
+            : undefined,
+      },
+      { status: 400 },
+    );
+  }
+
+  if (input.intent === "disable") {
+    return data<TwoFactorActionData>({
+      success: true,
+      message: "Two-factor authentication has been turned off.",
+    });
+  }
+
+  return data<TwoFactorActionData>({
+    success: true,
+    recoveryCodes: "recoveryCodes" in result.data ? result.data.recoveryCodes : [],
+  });
+}
+
+function EnrollButton() {
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <Form method="post">
+      <input type="hidden" name="intent" value="enroll" />
+      <Button
+        type="submit"
+        variant="secondary"
+        className="w-full"
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? "Preparing..." : "Set Up Authenticator"}
+      </Button>
+    </Form>
+  );
+}
+
+function SectionHeading({ children }: { children: string }) {
+  return (
+    <h2 className="text-[10px] uppercase tracking-[2px] leading-[15px] text-muted-foreground font-bold">
+      {children}
+    </h2>
+  );
+}
+
+export default function AccountTwoFactor({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const { backPath, status } = loaderData;
+  const enrollment = actionData?.enrollment;
+
+  let content;
+  if (actionData?.recoveryCodes) {
+    content = <RecoveryCodeList codes={actionData.recoveryCodes} />;
+  } else if (!status.enabled) {
+    content = enrollment ? (
+      <div className="space-y-6">
+        <TotpSecretPanel
+          secret={enrollment.secret}
+          otpauthUrl={enrollment.otpauthUrl}
+        />
+        <TwoFactorCodeForm
+          intent="confirm"
+          submitLabel="Turn On Two-Factor"
+          hiddenFields={enrollment}
+        />
+      </div>
+    ) : (
+      <EnrollButton />
+    );
+  } else {
+    content = (
+      <div className="space-y-8">
+        <p className="text-[12px] leading-[16px] text-muted-foreground">
+          Two-factor authentication is on. {status.recoveryCodesRemaining} of
+          your recovery codes are still unused.
+        </p>
+        <section className="space-y-4">
+          <SectionHeading>New recovery codes</SectionHeading>
+          <TwoFactorCodeForm
+            intent="regenerate"
+            submitLabel="Replace Recovery Codes"
+          />
+        </section>
+        {status.required ? (
+          <p className="text-[12px] leading-[16px] text-muted-foreground">
+            Your role requires two-factor authentication, so it cannot be
+            turned off.
+          </p>
+        ) : (
+          <section className="space-y-4">
+            <SectionHeading>Turn off</SectionHeading>
+            <TwoFactorCodeForm intent="disable" submitLabel="Turn Off Two-Factor" />
+          </section>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {actionData?.error ? (
+        <Toast message={actionData.error} variant="error" />
+      ) : null}
+      {actionData?.message ? (
+        <Toast message={actionData.message} variant="success" />
+      ) : null}
+      <AuthFormWrapper
+        icon={
+          <span className="material-symbols-outlined text-[32px] leading-[40px] text-primary">
+            phonelink_lock
+          </span>
+        }
+        heading="Two-Factor Authentication"
+        subheading="Ask for a code from an authenticator app every time you sign in."
+      >
+        {content}
+        <p className="text-[12px] leading-[16px] text-muted-foreground">
+          <Link to={backPath} className="text-primary hover:underline">
+            Back to the portal
+          </Link>
+        </p>
+      </AuthFormWrapper>
+    </>
+  );
+}
@@ -0,0 +1,54 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { fetchSubmissionArchive } from "~/lib/applications.server";
+import { clearApiKeyCookie, getApiKeyFromRequest } from "~/lib/auth.server";
+
+export async function loader({ context, request, params }: LoaderFunctionArgs) {
+  const apiKey = await getApiKeyFromRequest(request);
+
+  if (!apiKey) {
+    return Response.json(
+      { ok: false, error: "Unauthorized" },
+      {
+        status: 401,
+        headers: { "Set-Cookie": await clearApiKeyCookie(request) },
+      },
+    );
+  }
+
+  const applicationId = params.applicationId;
+  if (!applicationId) {
+    return Response.json(
+      { ok: false, error: "Missing application ID" },
+      { status: 400 },
+    );
+  }
+
+  let response: Response;
+  try {
+    response = await fetchSubmissionArchive({ context, apiKey, applicationId });
+  } catch {
+    return Response.json(
+      { ok: false, error: "Archive service is unavailable" },
+      { status: 503 },
+    );
+  }
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({
+      ok: false,
+      error: "Failed to download archive",
+    }));
+    return Response.json(data, { status: response.status });
+  }
+
+  const headers = new Headers({
+    "Content-Type": response.headers.get("Content-Type") ?? "application/zip",
+    "Cache-Control": "no-store",
+  });
+  const contentDisposition = response.headers.get("Content-Disposition");
+  if (contentDisposition) {
+    headers.set("Content-Disposition", contentDisposition);
+  }
+
+  return new Response(response.body, { status: 200, headers });
+}
@@ -1,7 +1,10 @@
 import type { Route } from "./+types/admin";
 import { data, Link, redirect } from "react-router";
+import { z } from "zod";
+import { TenderManagement } from "~/components/admin/tender-management";
 import { Footer } from "~/components/ui/footer";
 import { Toast } from "~/components/ui/toast";
+import { PERMISSIONS } from "~/constants/permissions";
 import { ROUTE_METADATA } from "~/constants/routes";
 import {
   fetchAllSubmissions,
@@ -11,7 +14,17 @@ import {
   clearApiKeyCookie,
   fetchMe,
   getApiKeyFromRequest,
+  hasPermission,
+  isStaffUser,
 } from "~/lib/auth.server";
+import {
+  archiveAdminTender,
+  createAdminTender,
+  extendAdminTenderDeadline,
+  fetchAdminTenders,
+  updateAdminTender,
+  type AdminTender,
+} from "~/lib/tenders.server";
 import { DateTime } from "luxon";
 
 export function meta({}: Route.MetaArgs) {
@@ -22,8 +35,17 @@ export function meta({}: Route.MetaArgs) {
   ];
 }
 
+type AdminAccess = {
+  canReadSubmissions: boolean;
+  canDownloadFiles: boolean;
+  canReadTenders: boolean;
+  canEditTenders: boolean;
+};
+
 type AdminLoaderData = {
   submissions: SubmissionDetail[];
+  tenders: AdminTender[];
+  access: AdminAccess;
   error: string | null;
   user: {
     name: string;
@@ -50,14 +72,44 @@ export async function loader({ request, context }: Route.LoaderArgs) {
     throw redirect("/");
   }
 
-  // Check if user is admin
-  const isAdmin = meResult.data.roles.some((role) => role.roleName === "admin");
-  if (!isAdmin) {
-    // Non-admins should go to dashboard
+  // Applicants should go to dashboard
+  if (!isStaffUser(meResult.data)) {
     throw redirect("/dashboard");
   }
 
-  const submissionsResult = await fetchAllSubmissions({ context, apiKey });
+  const access: AdminAccess = {
+    canReadSubmissions: hasPermission(meResult.data, PERMISSIONS.SUBMISSION_READ),
+    canDownloadFiles: hasPermission(meResult.data, PERMISSIONS.FILE_DOWNLOAD),
+    canReadTenders: hasPermission(meResult.data, PERMISSIONS.TENDER_READ),
+    canEditTenders: hasPermission(meResult.data, PERMISSIONS.TENDER_EDIT),
+  };
+
+  // Only sections the user may see are fetched, so a missing permission
+  // never surfaces as a load error.
+  const [submissionsResult, tendersResult] = await Promise.all([
+    access.canReadSubmissions
+      ? fetchAllSubmissions({ context, apiKey })
+      : null,
+    access.canReadTenders ? fetchAdminTenders({ context, apiKey }) : null,
+  ]);
+  const tenders = tendersResult?.ok ? tendersResult.data.tenders : [];
+  const tendersError =
+    tendersResult && !tendersResult.ok
+      ? tendersResult.error || "Failed to load tenders"
+      : null;
+
+  if (submissionsResult === null) {
+    return data<AdminLoaderData>({
+      submissions: [],
+      tenders,
+      access,
+      error: tendersError,
+      user: {
+        name: meResult.data.name || "Admin",
+        email: meResult.data.email,
+      },
+    });
+  }
 
   if (!submissionsResult.ok) {
     if (submissionsResult.status === 401) {
@@ -70,6 +122,8 @@ export async function loader({ request, context }: Route.LoaderArgs) {
 
     return data<AdminLoaderData>({
       submissions: [],
+      tenders,
+      access,
       error: submissionsResult.error || "Failed to load submissions",
       user: {
         name: meResult.data.name || "Admin",
@@ -80,13 +134,147 @@ export async function loader({ request, context }: Route.LoaderArgs) {
 
   return data<AdminLoaderData>({
     submissions: submissionsResult.data.applications,
-    error: null,
+    tenders,
+    access,
+    error: tendersError,
     user: {
       name: meResult.data.name || "Admin",
       email: meResult.data.email,
     },
   });
 }
+type AdminActionData = {
+  success: boolean;
+  error?: string;
+  message?: string;
+};
+
+// datetime-local inputs carry no zone; the admin screen labels them as UTC.
+const UtcDateTimeInputSchema = z
+  .string()
+  .trim()
+  .min(1, "Date is required")
+  .transform((value, ctx) => {
+    const parsed = DateTime.fromISO(value, { zone: "utc" });
+    if (!parsed.isValid) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid date" });
+      return z.NEVER;
+    }
+    return parsed.toISO() ?? value;
+  });
+
+const TenderActionSchema = z.discriminatedUnion("intent", [
+  z.object({
+    intent: z.literal("create"),
+    title: z.string().trim().min(1, "Title is required"),
+    firstDateToApply: UtcDateTimeInputSchema,
+    lastDateToApply: UtcDateTimeInputSchema,
+    copyQuestionsFromTenderId: z
+      .string()
+      .trim()
+      .min(1, "Choose a tender to copy questions from"),
+  }),
+  z.object({
+    intent: z.literal("update"),
+    tenderId: z.string().min(1),
+    title: z.string().trim().min(1, "Title is required"),
+    firstDateToApply: UtcDateTimeInputSchema,
+    lastDateToApply: UtcDateTimeInputSchema,
+  }),
+  z.object({
+    intent: z.literal("extend"),
+    tenderId: z.string().min(1),
+    lastDateToApply: UtcDateTimeInputSchema,
+  }),
+  z.object({
+    intent: z.literal("archive"),
+    tenderId: z.string().min(1),
+  }),
+]);
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const apiKey = await getApiKeyFromRequest(request);
+  if (!apiKey) {
+    throw redirect("/");
+  }
+
+  const formData = await request.formData();
+  const parsed = TenderActionSchema.safeParse(
+    Object.fromEntries(
+      Array.from(formData.entries()).filter(
+        ([, value]) => typeof value === "string",
+      ),
+    ),
+  );
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return data<AdminActionData>(
+      {
+        success: false,
+        error: issue?.message ?? "Invalid tender request",
+      },
+      { status: 400 },
+    );
+  }
+
+  const input = parsed.data;
+  const result =
+    input.intent === "create"
+      ? await createAdminTender({
+          context,
+          apiKey,
+          title: input.title,
+          firstDateToApply: input.firstDateToApply,
+          lastDateToApply: input.lastDateToApply,
+          copyQuestionsFromTenderId: input.copyQuestionsFromTenderId,
+        })
+      : input.intent === "update"
+        ? await updateAdminTender({
+            context,
+            apiKey,
+            tenderId: input.tenderId,
+            title: input.title,
+            firstDateToApply: input.firstDateToApply,
+            lastDateToApply: input.lastDateToApply,
+          })
+        : input.intent === "extend"
+          ? await extendAdminTenderDeadline({
+              context,
+              apiKey,
+              tenderId: input.tenderId,
+              lastDateToApply: input.lastDateToApply,
+            })
+          : await archiveAdminTender({
+              context,
+              apiKey,
+              tenderId: input.tenderId,
+            });
+
+  if (!result.ok) {
+    if (result.status === 401) {
+      throw redirect("/", {
+        headers: {
+          "Set-Cookie": await clearApiKeyCookie(request),
+        },
+      });
+    }
+
+    return data<AdminActionData>(
+      {
+        success: false,
+        error: result.error,
+      },
+      { status: result.status >= 400 ? result.status : 400 },
+    );
+  }
+
+  return data<AdminActionData>({
+    success: true,
+    message: `Tender "${result.data.title}" saved`,
+  });
+}
+
 function getInitials(name: string): string {
   return name
     .split(" ")
@@ -97,12 +285,28 @@ function getInitials(name: string): string {
     .toUpperCase();
 }
 
-export default function AdminDashboard({ loaderData }: Route.ComponentProps) {
-  const { submissions = [], error = null, user } = loaderData || {};
+export default function AdminDashboard({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const { submissions = [], tenders = [], access, error = null, user } =
+    loaderData || {};
+  const adminSections = [
+    access?.canReadTenders ? { href: "#tenders", label: "Tenders" } : null,
+    access?.canReadSubmissions
+      ? { href: "#submissions", label: "Submissions" }
+      : null,
+  ].filter((section) => section !== null);
 
   return (
     <>
       {error ? <Toast message={error} variant="error" /> : null}
+      {actionData?.error ? (
+        <Toast message={actionData.error} variant="error" />
+      ) : null}
+      {actionData?.message ? (
+        <Toast message={actionData.message} variant="success" />
+      ) : null}
       <div className="min-h-screen bg-background flex flex-col">
         {/* Admin Navbar */}
         <nav className="flex items-center justify-between h-16 px-6 md:px-12 backdrop-blur-md bg-[rgba(10,10,10,0.5)] border-b border-white/5">
@@ -114,6 +318,15 @@ export default function AdminDashboard({ loaderData }: Route.ComponentProps) {
             <span className="text-[10px] font-bold uppercase tracking-[3px] text-white">
               Admin
             </span>
+            {adminSections.map((section) => (
+              <a
+                key={section.href}
+                href={section.href}
+                className="ml-3 text-[10px] font-bold uppercase tracking-[2px] text-muted-foreground hover:text-foreground transition-colors"
+              >
+                {section.label}
+              </a>
+            ))}
           </div>
 
           <div className="flex items-center gap-4">
@@ -133,6 +346,24 @@ export default function AdminDashboard({ loaderData }: Route.ComponentProps) {
               </div>
             </div>
             <div className="h-4 w-px bg-white/10" />
+            <a
+              href="/account/password"
+              className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-[2px] text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <span className="material-symbols-outlined text-[16px]">
+                password
+              </span>
+              <span className="hidden md:inline">Password</span>
+            </a>
+            <a
+              href="/account/two-factor"
+              className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-[2px] text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <span className="material-symbols-outlined text-[16px]">
+                phonelink_lock
+              </span>
+              <span className="hidden md:inline">Two-Factor</span>
+            </a>
             <a
               href="/logout"
               className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-[2px] text-muted-foreground hover:text-foreground transition-colors"
@@ -147,100 +378,127 @@ export default function AdminDashboard({ loaderData }: Route.ComponentProps) {
 
         <div className="flex-1 px-6 py-8 md:px-12 md:py-12">
           <div className="max-w-7xl mx-auto">
-            {/* Header */}
-            <div className="mb-8">
-              <h1 className="text-2xl font-light text-white mb-2">
-                Admin Dashboard
-              </h1>
-              <p className="text-sm text-muted-foreground">
-                All submitted applications
-              </p>
-            </div>
+            {access?.canReadTenders ? (
+              <TenderManagement
+                tenders={tenders}
+                canEdit={access.canEditTenders}
+              />
+            ) : null}
 
-            {/* Table */}
-            <div className="border border-white/5 bg-card overflow-hidden">
-              <div className="overflow-x-auto">
-                <table className="w-full">
-                  <thead>
-                    <tr className="border-b border-white/5 bg-white/[0.02]">
-                      <th className="text-left py-3 px-4 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
-                        Name
-                      </th>
-                      <th className="text-left py-3 px-4 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
-                        Firm Name
-                      </th>
-                      <th className="text-left py-3 px-4 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
-                        Phone
-                      </th>
-                      <th className="text-left py-3 px-4 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
-                        Submitted
-                      </th>
-                      <th className="text-left py-3 px-4 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
-                        Bucket Link
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {submissions.length === 0 ? (
-                      <tr>
-                        <td
-                          colSpan={5}
-                          className="py-12 px-4 text-center text-sm text-muted-foreground"
-                        >
-                          No submissions yet
-                        </td>
-                      </tr>
-                    ) : (
-                      submissions.map((submission) => (
-                        <tr
-                          key={submission.applicationId}
-                          className="border-b border-white/5 hover:bg-white/2 transition-colors"
-                        >
-                          <td className="py-4 px-4 text-sm text-foreground">
-                            {submission.applicantName || "—"}
-                          </td>
-                          <td className="py-4 px-4 text-sm text-foreground">
-                            {submission.applicantFirmName || "—"}
-                          </td>
-                          <td className="py-4 px-4 text-sm text-muted-foreground">
-                            {submission.applicantPhoneNumber || "—"}
-                          </td>
-                          <td className="py-4 px-4 text-xs text-muted-foreground">
-                            {DateTime.fromISO(
-                              submission.submittedAt,
-                            ).toLocaleString(DateTime.DATETIME_MED)}
-                          </td>
-                          <td className="py-4 px-4">
-                            <a
-                              href={
-                                submission.r2FolderUrl.startsWith("http")
-                                  ? submission.r2FolderUrl
-                                  : `https://${submission.r2FolderUrl}`
-                              }
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="inline-flex items-center gap-1 text-xs text-primary hover:text-primary/80 transition-colors"
-                            >
-                              <span>View Files</span>
-                              <span className="material-symbols-outlined text-[14px]">
-                                open_in_new
-                              </span>
-                            </a>
-                          </td>
+            {access?.canReadSubmissions ? (
+              <>
+                {/* Header */}
+                <div id="submissions" className="mb-8">
+                  <h1 className="text-2xl font-light text-white mb-2">
+                    Admin Dashboard
+                  </h1>
+                  <p className="text-sm text-muted-foreground">
+                    All submitted applications
+                  </p>
+                </div>
+
+                {/* Table */}
+                <div className="border border-white/5 bg-card overflow-hidden">
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="border-b border-white/5 bg-white/[0.02]">
+                          <th className="text-left py-3 px-4 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
+                            Name
+                          </th>
+                          <th className="text-left py-3 px-4 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
+                            Firm Name
+                          </th>
+                          <th className="text-left py-3 px-4 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
+                            Phone
+                          </th>
+                          <th className="text-left py-3 px-4 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
+                            Submitted
+                          </th>
+                          <th className="text-left py-3 px-4 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
+                            Files
+                          </th>
                         </tr>
-                      ))
-                    )}
-                  </tbody>
-                </table>
-              </div>
-            </div>
+                      </thead>
+                      <tbody>
+                        {submissions.length === 0 ? (
+                          <tr>
+                            <td
+                              colSpan={5}
+                              className="py-12 px-4 text-center text-sm text-muted-foreground"
+                            >
+                              No submissions yet
+                            </td>
+                          </tr>
+                        ) : (
+                          submissions.map((submission) => (
+                            <tr
+                              key={submission.applicationId}
+                              className="border-b border-white/5 hover:bg-white/2 transition-colors"
+                            >
+                              <td className="py-4 px-4 text-sm text-foreground">
+                                {submission.applicantName || "—"}
+                              </td>
+                              <td className="py-4 px-4 text-sm text-foreground">
+                                {submission.applicantFirmName || "—"}
+                              </td>
+                              <td className="py-4 px-4 text-sm text-muted-foreground">
+                                {submission.applicantPhoneNumber || "—"}
+                              </td>
+                              <td className="py-4 px-4 text-xs text-muted-foreground">
+                                {DateTime.fromISO(
+                                  submission.submittedAt,
+                                ).toLocaleString(DateTime.DATETIME_MED)}
+                              </td>
+                              <td className="py-4 px-4">
+                                {access.canDownloadFiles ? (
+                                  <>
+                                    <a
+                                      href={
+                                        submission.r2FolderUrl.startsWith("http")
+                                          ? submission.r2FolderUrl
+                                          : `https://${submission.r2FolderUrl}`
+                                      }
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="inline-flex items-center gap-1 text-xs text-primary hover:text-primary/80 transition-colors"
+                                    >
+                                      <span>View Files</span>
+                                      <span className="material-symbols-outlined text-[14px]">
+                                        open_in_new
+                                      </span>
+                                    </a>
+                                    <a
+                                      href={`/admin/applications/${encodeURIComponent(submission.applicationId)}/archive`}
+                                      download
+                                      className="ml-4 inline-flex items-center gap-1 text-xs text-primary hover:text-primary/80 transition-colors"
+                                    >
+                                      <span>Download ZIP</span>
+                                      <span className="material-symbols-outlined text-[14px]">
+                                        download
+                                      </span>
+                                    </a>
+                                  </>
+                                ) : (
+                                  <span className="text-xs text-muted-foreground">—</span>
+                                )}
+                              </td>
+                            </tr>
+                          ))
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
 
-            {/* Stats */}
-            {submissions.length > 0 && (
-              <div className="mt-4 text-xs text-muted-foreground">
-                Total submissions: {submissions.length}
-              </div>
-            )}
+                {/* Stats */}
+                {submissions.length > 0 && (
+                  <div className="mt-4 text-xs text-muted-foreground">
+                    Total submissions: {submissions.length}
+                  </div>
+                )}
+              </>
+            ) : null}
           </div>
         </div>
 
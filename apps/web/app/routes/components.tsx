@@ -191,7 +191,10 @@ export default function ComponentsPage() {
                     </Card>
 
                     {/* Countdown Timer */}
-                    <CountdownTimer days={12} hours={8} minutes={45} />
+                    <CountdownTimer
+                      deadlineIso="2024-12-12T08:45:00.000Z"
+                      serverTimeIso="2024-12-01T00:00:00.000Z"
+                    />
                   </div>
                 </div>
               </Card>
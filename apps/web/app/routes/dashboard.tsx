@@ -16,6 +16,7 @@ import {
   clearApiKeyCookie,
   fetchMe,
   getApiKeyFromRequest,
+  isStaffUser,
   isUserOnboarded,
 } from "~/lib/auth.server";
 
@@ -53,6 +54,7 @@ type DashboardTenderView = {
     minutes: string;
   };
   targetDate: string; // ISO string for live timer
+  serverTime: string; // Backend clock the timer counts from
   status: string;
   scopeSummary: string;
   mandatoryNotice: {
@@ -168,6 +170,7 @@ function buildTenderView({
     coordinates: DashboardCopy.coordinates,
     countdown: buildCountdown({ lastDateToApplyIso: lastDateToApply, now }),
     targetDate: lastDateToApply,
+    serverTime: now.toISOString(),
     status,
     scopeSummary: DashboardCopy.scopeSummary,
     mandatoryNotice: {
@@ -180,6 +183,7 @@ function buildTenderView({
 }
 
 function buildNoTenderView(): DashboardTenderView {
+  const now = new Date().toISOString();
   return {
     refNumber: "N/A",
     title: "No Active",
@@ -192,7 +196,8 @@ function buildNoTenderView(): DashboardTenderView {
       hours: "00",
       minutes: "00",
     },
-    targetDate: new Date().toISOString(), // Expired/Now
+    targetDate: now, // Expired/Now
+    serverTime: now,
     status: "No Open Applications",
     scopeSummary: "No active tender is currently available for application.",
     mandatoryNotice: {
@@ -301,8 +306,7 @@ export async function loader({ request, context }: Route.LoaderArgs) {
     throw redirect("/onboarding");
   }
 
-  const isAdmin = meResult.data.roles.some((r) => r.roleName === "admin");
-  if (isAdmin) {
+  if (isStaffUser(meResult.data)) {
     throw redirect("/admin");
   }
 
@@ -331,7 +335,7 @@ export async function loader({ request, context }: Route.LoaderArgs) {
     );
   }
 
-  const now = new Date();
+  const now = new Date(applicationsResult.data.serverTime);
 
   const firstApplication = applicationsResult.data.applications[0];
   if (firstApplication) {
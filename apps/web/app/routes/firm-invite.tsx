@@ -0,0 +1,114 @@
+import type { Route } from "./+types/firm-invite";
+import { Form, Link, data, redirect, useNavigation } from "react-router";
+import { AuthFormWrapper } from "~/components/auth/auth-form-wrapper";
+import { Button } from "~/components/ui/button";
+import { Toast } from "~/components/ui/toast";
+import { ROUTE_METADATA } from "~/constants/routes";
+import { getApiKeyFromRequest } from "~/lib/auth.server";
+import { acceptFirmInvite } from "~/lib/firms.server";
+import type { FirmActionData } from "~/types/auth";
+
+export function meta({}: Route.MetaArgs) {
+  const metadata = ROUTE_METADATA.FIRM_INVITE;
+  return [
+    { title: `${metadata.title} - MIST` },
+    { name: "description", content: metadata.description },
+  ];
+}
+
+// Like magic links, the invitation is only accepted on POST so link
+// prefetching cannot use it up.
+export async function loader({ request }: Route.LoaderArgs) {
+  const token = new URL(request.url).searchParams.get("token")?.trim() ?? "";
+  if (token.length === 0) {
+    throw redirect("/");
+  }
+
+  const apiKey = await getApiKeyFromRequest(request);
+  return { token, isSignedIn: apiKey !== null };
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const apiKey = await getApiKeyFromRequest(request);
+  if (!apiKey) {
+    throw redirect("/");
+  }
+
+  const formData = await request.formData();
+  const token = formData.get("token");
+  if (typeof token !== "string" || token.length === 0) {
+    throw redirect("/");
+  }
+
+  const result = await acceptFirmInvite({ context, apiKey, token });
+  if (!result.ok) {
+    return data<FirmActionData>(
+      {
+        success: false,
+        error: result.error || "Unable to accept the invitation.",
+      },
+      { status: result.status === 403 || result.status === 409 ? result.status : 400 },
+    );
+  }
+
+  throw redirect("/account/firm");
+}
+
+export default function FirmInvite({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <>
+      {actionData?.error ? (
+        <Toast message={actionData.error} variant="error" />
+      ) : null}
+      <AuthFormWrapper
+        icon={
+          <span className="material-symbols-outlined text-[32px] leading-[40px] text-primary">
+            group_add
+          </span>
+        }
+        heading="Join Your Firm"
+        subheading="A colleague invited you to work on their firm's tender submissions."
+      >
+        {loaderData.isSignedIn ? (
+          <Form method="post" className="space-y-4">
+            <input type="hidden" name="token" value={loaderData.token} />
+            <Button
+              type="submit"
+              variant="secondary"
+              className="w-full"
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? "Joining..." : "Accept Invitation"}
+            </Button>
+            <p className="text-[10px] leading-[15px] text-muted-foreground">
+              You must be signed in with the email address the invitation was
+              sent to.
+            </p>
+          </Form>
+        ) : (
+          <div className="space-y-4 text-[12px] leading-[16px] text-muted-foreground">
+            <p>
+              Sign in, or create an account, with the email address the
+              invitation was sent to. Then open the link from the email again.
+            </p>
+            <p>
+              <Link to="/" className="text-primary hover:underline">
+                Sign in
+              </Link>{" "}
+              or{" "}
+              <Link to="/?mode=register" className="text-primary hover:underline">
+                create an account
+              </Link>
+            </p>
+          </div>
+        )}
+      </AuthFormWrapper>
+    </>
+  );
+}
@@ -0,0 +1,93 @@
+import type { Route } from "./+types/forgot-password";
+import { Link, data } from "react-router";
+import { z } from "zod";
+import { AuthFormWrapper } from "~/components/auth/auth-form-wrapper";
+import { PasswordForm } from "~/components/forms/password-form";
+import { ROUTE_METADATA } from "~/constants/routes";
+import { requestPasswordReset } from "~/lib/auth.server";
+import type { PasswordActionData } from "~/types/auth";
+
+export function meta({}: Route.MetaArgs) {
+  const metadata = ROUTE_METADATA.FORGOT_PASSWORD;
+  return [
+    { title: `${metadata.title} - MIST` },
+    { name: "description", content: metadata.description },
+  ];
+}
+
+const ForgotPasswordSchema = z.object({
+  email: z.string().trim().email("Please enter a valid email address"),
+});
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const parsed = ForgotPasswordSchema.safeParse({
+    email: formData.get("email"),
+  });
+
+  if (!parsed.success) {
+    return data<PasswordActionData>(
+      {
+        success: false,
+        error: parsed.error.issues[0]?.message ?? "Invalid form submission",
+      },
+      { status: 400 },
+    );
+  }
+
+  const result = await requestPasswordReset({
+    context,
+    email: parsed.data.email,
+    clientIp: request.headers.get("CF-Connecting-IP"),
+  });
+  if (!result.ok) {
+    return data<PasswordActionData>(
+      {
+        success: false,
+        error: result.error || "Unable to send a reset link. Please try again.",
+      },
+      { status: result.status === 429 ? 429 : 400 },
+    );
+  }
+
+  return data<PasswordActionData>({
+    success: true,
+    message:
+      "If an account exists for this email, a reset link is on its way. It expires in 1 hour.",
+  });
+}
+
+export default function ForgotPassword({ actionData }: Route.ComponentProps) {
+  return (
+    <AuthFormWrapper
+      icon={
+        <span className="material-symbols-outlined text-[32px] leading-[40px] text-primary">
+          lock_reset
+        </span>
+      }
+      heading="Reset Your Password"
+      subheading="Enter your registered email and we will send you a reset link."
+    >
+      <PasswordForm
+        fields={[
+          {
+            name: "email",
+            label: "PROFESSIONAL EMAIL",
+            type: "email",
+            placeholder: "architect@institution.org",
+            autoComplete: "email",
+          },
+        ]}
+        submitLabel="Send Reset Link"
+        submittingLabel="Sending Link..."
+        actionData={actionData}
+      />
+      <p className="text-[12px] leading-[16px] text-muted-foreground">
+        Remembered it?{" "}
+        <Link to="/" className="text-primary hover:underline">
+          Sign in
+        </Link>
+      </p>
+    </AuthFormWrapper>
+  );
+}
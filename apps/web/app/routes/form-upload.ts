@@ -1,10 +1,14 @@
 import { z } from "zod";
 import type { ActionFunctionArgs } from "react-router";
-import { UploadQuestionIds } from "@repo/upload-contracts";
 import {
   abortMultipartUploadSession,
   completeMultipartUploadSession,
+  deleteUploadedFile,
+  fetchQuestionFileVersions,
+  fetchUploadSessionParts,
   initiateMultipartUpload,
+  presignUploadSessionParts,
+  restoreUploadedFileVersion,
   submitTenderDocuments,
 } from "~/lib/upload.server";
 import {
@@ -24,10 +28,21 @@ const UploadMutationSchema = z.discriminatedUnion("intent", [
   z.object({
     intent: z.literal("initiate"),
     tenderId: z.string().trim().min(1),
-    questionId: z.enum(UploadQuestionIds),
+    questionId: z.string().trim().min(1),
     fileName: z.string().trim().min(1),
     fileSizeBytes: z.number().int().positive(),
     contentType: z.string().trim().min(1),
+    checksumSha256: z.string().trim().min(1).optional(),
+    partChecksumAlgorithm: z.enum(["CRC32", "SHA256"]).optional(),
+    partChecksums: z
+      .array(
+        z.object({
+          partNumber: z.number().int().positive(),
+          checksum: z.string().trim().min(1),
+        }),
+      )
+      .min(1)
+      .optional(),
   }),
   z.object({
     intent: z.literal("complete"),
@@ -49,6 +64,33 @@ const UploadMutationSchema = z.discriminatedUnion("intent", [
     tenderId: z.string().trim().min(1),
     uploadSessionId: z.string().trim().min(1),
   }),
+  z.object({
+    intent: z.literal("delete"),
+    tenderId: z.string().trim().min(1),
+    fileId: z.string().trim().min(1),
+  }),
+  z.object({
+    intent: z.literal("versions"),
+    tenderId: z.string().trim().min(1),
+    questionId: z.string().trim().min(1),
+  }),
+  z.object({
+    intent: z.literal("restore"),
+    tenderId: z.string().trim().min(1),
+    fileId: z.string().trim().min(1),
+  }),
+  z.object({
+    intent: z.literal("parts"),
+    tenderId: z.string().trim().min(1),
+    uploadSessionId: z.string().trim().min(1),
+  }),
+  z.object({
+    intent: z.literal("presign"),
+    tenderId: z.string().trim().min(1),
+    uploadSessionId: z.string().trim().min(1),
+    startPartNumber: z.number().int().positive(),
+    endPartNumber: z.number().int().positive(),
+  }),
   z.object({
     intent: z.literal("submit"),
     tenderId: z.string().trim().min(1),
@@ -118,6 +160,9 @@ export async function action({ request, context }: ActionFunctionArgs) {
       fileName: mutation.fileName,
       fileSizeBytes: mutation.fileSizeBytes,
       contentType: mutation.contentType,
+      checksumSha256: mutation.checksumSha256,
+      partChecksumAlgorithm: mutation.partChecksumAlgorithm,
+      partChecksums: mutation.partChecksums,
     });
 
     if (!result.ok) {
@@ -225,6 +270,193 @@ export async function action({ request, context }: ActionFunctionArgs) {
     );
   }
 
+  if (mutation.intent === "delete") {
+    const result = await deleteUploadedFile({
+      context,
+      apiKey,
+      tenderId: mutation.tenderId,
+      fileId: mutation.fileId,
+    });
+
+    if (!result.ok) {
+      return Response.json(
+        {
+          ok: false,
+          errorCode: result.errorCode,
+          error: result.error,
+          debug: result.debug,
+        } as const,
+        {
+          status: result.status,
+          headers:
+            result.status === 401
+              ? {
+                  "Set-Cookie": await clearApiKeyCookie(request),
+                }
+              : undefined,
+        }
+      );
+    }
+
+    return Response.json(
+      {
+        ok: true,
+        data: result.data,
+      } as const,
+      { status: 200 }
+    );
+  }
+
+  if (mutation.intent === "versions") {
+    const result = await fetchQuestionFileVersions({
+      context,
+      apiKey,
+      tenderId: mutation.tenderId,
+      questionId: mutation.questionId,
+    });
+
+    if (!result.ok) {
+      return Response.json(
+        {
+          ok: false,
+          errorCode: result.errorCode,
+          error: result.error,
+          debug: result.debug,
+        } as const,
+        {
+          status: result.status,
+          headers:
+            result.status === 401
+              ? {
+                  "Set-Cookie": await clearApiKeyCookie(request),
+                }
+              : undefined,
+        }
+      );
+    }
+
+    return Response.json(
+      {
+        ok: true,
+        data: result.data,
+      } as const,
+      { status: 200 }
+    );
+  }
+
+  if (mutation.intent === "restore") {
+    const result = await restoreUploadedFileVersion({
+      context,
+      apiKey,
+      tenderId: mutation.tenderId,
+      fileId: mutation.fileId,
+    });
+
+    if (!result.ok) {
+      return Response.json(
+        {
+          ok: false,
+          errorCode: result.errorCode,
+          error: result.error,
+          debug: result.debug,
+        } as const,
+        {
+          status: result.status,
+          headers:
+            result.status === 401
+              ? {
+                  "Set-Cookie": await clearApiKeyCookie(request),
+                }
+              : undefined,
+        }
+      );
+    }
+
+    return Response.json(
+      {
+        ok: true,
+        data: result.data,
+      } as const,
+      { status: 200 }
+    );
+  }
+
+  if (mutation.intent === "parts") {
+    const result = await fetchUploadSessionParts({
+      context,
+      apiKey,
+      tenderId: mutation.tenderId,
+      uploadSessionId: mutation.uploadSessionId,
+    });
+
+    if (!result.ok) {
+      return Response.json(
+        {
+          ok: false,
+          errorCode: result.errorCode,
+          error: result.error,
+          debug: result.debug,
+        } as const,
+        {
+          status: result.status,
+          headers:
+            result.status === 401
+              ? {
+                  "Set-Cookie": await clearApiKeyCookie(request),
+                }
+              : undefined,
+        }
+      );
+    }
+
+    return Response.json(
+      {
+        ok: true,
+        data: result.data,
+      } as const,
+      { status: 200 }
+    );
+  }
+
+  if (mutation.intent === "presign") {
+    const result = await presignUploadSessionParts({
+      context,
+      apiKey,
+      tenderId: mutation.tenderId,
+      uploadSessionId: mutation.uploadSessionId,
+      startPartNumber: mutation.startPartNumber,
+      endPartNumber: mutation.endPartNumber,
+    });
+
+    if (!result.ok) {
+      return Response.json(
+        {
+          ok: false,
+          errorCode: result.errorCode,
+          error: result.error,
+          debug: result.debug,
+        } as const,
+        {
+          status: result.status,
+          headers:
+            result.status === 401
+              ? {
+                  "Set-Cookie": await clearApiKeyCookie(request),
+                }
+              : undefined,
+        }
+      );
+    }
+
+    return Response.json(
+      {
+        ok: true,
+        data: result.data,
+      } as const,
+      { status: 200 }
+    );
+  }
+
   const result = await submitTenderDocuments({
     context,
     apiKey,
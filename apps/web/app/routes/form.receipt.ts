@@ -0,0 +1,48 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { redirect } from "react-router";
+import { fetchSubmissionReceipt } from "~/lib/applications.server";
+import { clearApiKeyCookie, getApiKeyFromRequest } from "~/lib/auth.server";
+
+// Serves the signed manifest as a file the bidder can keep; the receipt
+// email links here.
+export async function loader({ context, request, params }: LoaderFunctionArgs) {
+  const apiKey = await getApiKeyFromRequest(request);
+  if (!apiKey) {
+    throw redirect("/");
+  }
+
+  const submissionId = params.submissionId?.trim() ?? "";
+  if (!submissionId) {
+    throw redirect("/dashboard");
+  }
+
+  const receiptResult = await fetchSubmissionReceipt({
+    context,
+    apiKey,
+    submissionId,
+  });
+  if (!receiptResult.ok) {
+    if (receiptResult.status === 401) {
+      throw redirect("/", {
+        headers: {
+          "Set-Cookie": await clearApiKeyCookie(request),
+        },
+      });
+    }
+
+    return Response.json(
+      { ok: false, error: receiptResult.error || "Receipt not found" },
+      { status: receiptResult.status === 404 ? 404 : 502 },
+    );
+  }
+
+  const receiptNumber = receiptResult.data.manifest.receiptNumber;
+  return new Response(JSON.stringify(receiptResult.data, null, 2), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="receipt-${receiptNumber}.json"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -2,7 +2,10 @@ import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
 import { Form, Link, redirect } from "react-router";
 import { Button } from "~/components/ui/button";
 import { Separator } from "~/components/ui/separator";
-import { fetchApplicationsOverview } from "~/lib/applications.server";
+import {
+  fetchApplicationsOverview,
+  fetchSubmissionReceipt,
+} from "~/lib/applications.server";
 import { clearApiKeyCookie, getApiKeyFromRequest } from "~/lib/auth.server";
 
 export async function loader({ request, context, params }: LoaderFunctionArgs) {
@@ -45,9 +48,20 @@ export async function loader({ request, context, params }: LoaderFunctionArgs) {
     throw redirect(`/form/${submissionId}`);
   }
 
+  // The page still confirms the submission when the receipt is unavailable.
+  const receiptResult = await fetchSubmissionReceipt({
+    context,
+    apiKey,
+    submissionId,
+  });
+
   return {
     tenderTitle: application.tenderTitle,
     submittedAt: application.submittedAt,
+    receiptNumber: receiptResult.ok
+      ? receiptResult.data.manifest.receiptNumber
+      : null,
+    receiptPath: `/form/${encodeURIComponent(submissionId)}/receipt`,
   };
 }
 
@@ -64,7 +78,12 @@ export async function action({ request }: ActionFunctionArgs) {
 export default function FormSuccessPage({
   loaderData,
 }: {
-  loaderData: { tenderTitle: string; submittedAt: string | null };
+  loaderData: {
+    tenderTitle: string;
+    submittedAt: string | null;
+    receiptNumber: string | null;
+    receiptPath: string;
+  };
 }) {
   return (
     <div className="min-h-screen bg-background text-foreground flex flex-col items-center justify-center p-8 relative overflow-hidden">
@@ -94,6 +113,14 @@ export default function FormSuccessPage({
             <Link to="/dashboard">Go to Dashboard</Link>
           </Button>
 
+          {loaderData.receiptNumber ? (
+            <Button variant="outline" className="w-full" asChild>
+              <a href={loaderData.receiptPath} download>
+                Download Signed Receipt
+              </a>
+            </Button>
+          ) : null}
+
           <Form method="post">
             <Button variant="outline" className="w-full" type="submit">
               Log Out
@@ -103,10 +130,15 @@ export default function FormSuccessPage({
 
         <div className="mt-8 pt-8 border-t border-white/5">
           <p className="text-[10px] text-muted-foreground uppercase tracking-widest">
-            Reference ID:{" "}
-            {loaderData.submittedAt
-              ? new Date(loaderData.submittedAt).getTime().toString().slice(-8)
-              : "N/A"}
+            Receipt Number: {loaderData.receiptNumber ?? "N/A"}
+          </p>
+          {loaderData.submittedAt ? (
+            <p className="mt-2 text-[10px] text-muted-foreground">
+              Submitted {new Date(loaderData.submittedAt).toUTCString()}
+            </p>
+          ) : null}
+          <p className="mt-2 text-[10px] text-muted-foreground">
+            A copy of the receipt has been emailed.
           </p>
         </div>
       </div>
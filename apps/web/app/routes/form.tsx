@@ -7,14 +7,16 @@ import { redirect, useNavigate } from "react-router";
 import { InView } from "react-intersection-observer";
 import type { Route } from "./+types/form";
 import {
-  RequiredUploadQuestionIds,
   UploadChunkUploadConcurrency,
+  UploadMultipartMinThresholdBytes,
   UploadPartSizeBytes,
-  UploadQuestionIds,
-  type UploadQuestionId,
 } from "@repo/upload-contracts";
-import { FORM_QUESTIONS } from "~/constants/form-questions";
-import type { QuestionConfig, UploadItem } from "~/types/form";
+import type {
+  FileVersion,
+  QuestionConfig,
+  QuestionFileVersions,
+  UploadItem,
+} from "~/types/form";
 import { SubmissionShell } from "~/components/submission/submission-shell";
 import { PortalSidebar } from "~/components/submission/portal-sidebar";
 import { MobileQuestionNavigation } from "~/components/submission/mobile-question-navigation";
@@ -26,15 +28,21 @@ import {
   clearApiKeyCookie,
   fetchMe,
   getApiKeyFromRequest,
+  isStaffUser,
   isUserOnboarded,
 } from "~/lib/auth.server";
-import { fetchApplicationsOverview } from "~/lib/applications.server";
+import {
+  fetchApplicationsOverview,
+  fetchTenderQuestions,
+  type TenderQuestion,
+} from "~/lib/applications.server";
 import {
   fetchUploadsStatus,
   type UploadStatusPayload,
   type UploadStatusSummary,
 } from "~/lib/upload.server";
 import { getApplicationState } from "~/lib/applicationState.server";
+import { getQuestionUploadSummary } from "~/lib/upload-items";
 import type { PersistedFormState } from "~/types/persistence.types";
 
 type JsonValue =
@@ -49,30 +57,41 @@ type UploadActionResult<T> =
   | { ok: true; data: T }
   | { ok: false; status: number; error: string; errorCode?: string };
 
-type UploadQuestionConfig = QuestionConfig & { id: UploadQuestionId };
-
 type ActiveUploadController = {
   abortController: AbortController;
   uploadSessionId: string;
   tenderId: string;
+  file: File;
   isCancelled: boolean;
 };
 
+type PendingUploadSession = {
+  uploadSessionId: string;
+  fileName: string;
+  fileSizeBytes: number;
+  lastModified: number;
+};
+
 type FormLoaderData = {
   submissionId: string;
   tenderId: string;
   tenderTitle: string;
   deadlineLabel: string;
   deadlineIso: string;
+  serverTimeIso: string;
   userName: string;
   userEmail: string;
+  questions: QuestionConfig[];
   initialSubmissionStatus: "draft" | "submitted";
-  initialUploads: Record<UploadQuestionId, UploadItem | null>;
+  initialUploads: Record<string, UploadItem[]>;
   initialError: string | null;
   persistedState: PersistedFormState | null;
   apiKey: string;
 };
 
+// Part URLs closer than this to expiry are re-signed before their chunk is sent.
+const PartUrlRefreshMarginMs = 5 * 60 * 1000;
+
 const UploadMutationErrorSchema = z.object({
   ok: z.literal(false),
   error: z.string(),
@@ -111,15 +130,91 @@ const InitiateUploadSuccessSchema = z.object({
   ]),
 });
 
+const UploadSessionPartsSuccessSchema = z.object({
+  ok: z.literal(true),
+  data: z.object({
+    uploadSessionId: z.string(),
+    uploadId: z.string(),
+    objectKey: z.string(),
+    partSizeBytes: z.number().int(),
+    totalParts: z.number().int().positive(),
+    expiresAt: z.string().datetime(),
+    uploadedParts: z.array(
+      z.object({
+        partNumber: z.number().int().positive(),
+        etag: z.string(),
+      }),
+    ),
+    missingParts: z.array(
+      z.object({
+        partNumber: z.number().int().positive(),
+        url: z.string().url(),
+        expiresAt: z.string().datetime(),
+      }),
+    ),
+  }),
+});
+
+const PendingUploadSessionSchema = z.object({
+  uploadSessionId: z.string().min(1),
+  fileName: z.string(),
+  fileSizeBytes: z.number().int(),
+  lastModified: z.number(),
+});
+
+const PresignPartsSuccessSchema = z.object({
+  ok: z.literal(true),
+  data: z.object({
+    uploadSessionId: z.string(),
+    parts: z.array(
+      z.object({
+        partNumber: z.number().int().positive(),
+        url: z.string().url(),
+        expiresAt: z.string().datetime(),
+      }),
+    ),
+  }),
+});
+
+const UploadSummarySchema = z.object({
+  fileId: z.string(),
+  questionId: z.string(),
+  fileName: z.string(),
+  fileSizeBytes: z.number().int(),
+  contentType: z.string(),
+  checksumSha256: z.string().nullable(),
+  contentCheckStatus: z.enum(["unchecked", "passed", "quarantined"]),
+  contentCheckDetail: z.string().nullable(),
+  uploadedAt: z.string().datetime(),
+});
+
 const CompleteUploadSuccessSchema = z.object({
+  ok: z.literal(true),
+  data: UploadSummarySchema,
+});
+
+const FileVersionsSuccessSchema = z.object({
+  ok: z.literal(true),
+  data: z.object({
+    questionId: z.string(),
+    versions: z.array(
+      UploadSummarySchema.extend({
+        replacedAt: z.string().datetime(),
+      }),
+    ),
+  }),
+});
+
+const RestoreVersionSuccessSchema = z.object({
+  ok: z.literal(true),
+  data: UploadSummarySchema,
+});
+
+const DeleteUploadSuccessSchema = z.object({
   ok: z.literal(true),
   data: z.object({
     fileId: z.string(),
-    questionId: z.enum(UploadQuestionIds),
-    fileName: z.string(),
-    fileSizeBytes: z.number().int(),
-    contentType: z.string(),
-    uploadedAt: z.string().datetime(),
+    questionId: z.string(),
   }),
 });
 
@@ -139,49 +234,41 @@ const SubmitTenderSuccessSchema = z.object({
   }),
 });
 
-function isUploadQuestionId(
-  questionId: string,
-): questionId is UploadQuestionId {
-  return (
-    questionId === "q1" ||
-    questionId === "q2" ||
-    questionId === "q3" ||
-    questionId === "q4" ||
-    questionId === "q5"
-  );
-}
-
-function isUploadQuestionConfig(
-  question: QuestionConfig,
-): question is UploadQuestionConfig {
-  return isUploadQuestionId(question.id);
+function toQuestionConfig(question: TenderQuestion): QuestionConfig {
+  return {
+    id: question.questionId,
+    order: question.position,
+    title: question.title,
+    heading: question.title,
+    subheading: "",
+    description: question.description,
+    required: question.isRequired,
+    accept: question.allowedExtensions,
+    maxSizeMB: Math.round(question.maxSizeBytes / (1024 * 1024)),
+    maxFiles: question.maxFiles,
+  };
 }
 
-const UploadQuestions: UploadQuestionConfig[] = FORM_QUESTIONS.filter(
-  isUploadQuestionConfig,
-);
+function createEmptyUploadMap(
+  questions: QuestionConfig[],
+): Record<string, UploadItem[]> {
+  const uploads: Record<string, UploadItem[]> = {};
+  for (const question of questions) {
+    uploads[question.id] = [];
+  }
 
-function createEmptyUploadMap(): Record<UploadQuestionId, UploadItem | null> {
-  return {
-    q1: null,
-    q2: null,
-    q3: null,
-    q4: null,
-    q5: null,
-  };
+  return uploads;
 }
 
-function createEmptyControllers(): Record<
-  UploadQuestionId,
-  ActiveUploadController | null
-> {
-  return {
-    q1: null,
-    q2: null,
-    q3: null,
-    q4: null,
-    q5: null,
-  };
+// In-flight uploads and stored files take up one of the question's slots;
+// failed uploads and quarantined files do not.
+function countOccupiedSlots(items: UploadItem[]): number {
+  return items.filter(
+    (item) =>
+      (item.fileId !== null && item.status === "complete") ||
+      item.status === "uploading" ||
+      item.status === "queued",
+  ).length;
 }
 
 function normalizeUploadErrorMessage(message: string): string {
@@ -282,12 +369,14 @@ async function requestInitiateUpload({
   fileName,
   fileSizeBytes,
   contentType,
+  checksums,
 }: {
   tenderId: string;
-  questionId: UploadQuestionId;
+  questionId: string;
   fileName: string;
   fileSizeBytes: number;
   contentType: string;
+  checksums: UploadChecksums;
 }) {
   return callFormUploadAction({
     payload: {
@@ -297,11 +386,60 @@ async function requestInitiateUpload({
       fileName,
       fileSizeBytes,
       contentType,
+      ...(checksums.checksumSha256
+        ? { checksumSha256: checksums.checksumSha256 }
+        : {}),
+      ...(checksums.partChecksums
+        ? {
+            partChecksumAlgorithm: "SHA256",
+            partChecksums: checksums.partChecksums,
+          }
+        : {}),
     },
     successSchema: InitiateUploadSuccessSchema,
   });
 }
 
+async function requestUploadSessionParts({
+  tenderId,
+  uploadSessionId,
+}: {
+  tenderId: string;
+  uploadSessionId: string;
+}) {
+  return callFormUploadAction({
+    payload: {
+      intent: "parts",
+      tenderId,
+      uploadSessionId,
+    },
+    successSchema: UploadSessionPartsSuccessSchema,
+  });
+}
+
+async function requestPresignParts({
+  tenderId,
+  uploadSessionId,
+  startPartNumber,
+  endPartNumber,
+}: {
+  tenderId: string;
+  uploadSessionId: string;
+  startPartNumber: number;
+  endPartNumber: number;
+}) {
+  return callFormUploadAction({
+    payload: {
+      intent: "presign",
+      tenderId,
+      uploadSessionId,
+      startPartNumber,
+      endPartNumber,
+    },
+    successSchema: PresignPartsSuccessSchema,
+  });
+}
+
 async function requestCompleteUpload({
   tenderId,
   uploadSessionId,
@@ -334,6 +472,57 @@ async function requestCompleteUpload({
   });
 }
 
+async function requestDeleteUpload({
+  tenderId,
+  fileId,
+}: {
+  tenderId: string;
+  fileId: string;
+}) {
+  return callFormUploadAction({
+    payload: {
+      intent: "delete",
+      tenderId,
+      fileId,
+    },
+    successSchema: DeleteUploadSuccessSchema,
+  });
+}
+
+async function requestFileVersions({
+  tenderId,
+  questionId,
+}: {
+  tenderId: string;
+  questionId: string;
+}) {
+  return callFormUploadAction({
+    payload: {
+      intent: "versions",
+      tenderId,
+      questionId,
+    },
+    successSchema: FileVersionsSuccessSchema,
+  });
+}
+
+async function requestRestoreVersion({
+  tenderId,
+  fileId,
+}: {
+  tenderId: string;
+  fileId: string;
+}) {
+  return callFormUploadAction({
+    payload: {
+      intent: "restore",
+      tenderId,
+      fileId,
+    },
+    successSchema: RestoreVersionSuccessSchema,
+  });
+}
+
 async function requestAbortUpload({
   tenderId,
   uploadSessionId,
@@ -361,16 +550,110 @@ async function requestSubmitTender({ tenderId }: { tenderId: string }) {
   });
 }
 
+function getPendingUploadStorageKey({
+  submissionId,
+  questionId,
+  file,
+}: {
+  submissionId: string;
+  questionId: string;
+  file: File;
+}): string {
+  return `mist:pending-upload:${submissionId}:${questionId}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+// Remembers the multipart session of an in-flight upload so that picking the
+// same file again after a crash or reload resumes it instead of starting over.
+function readPendingUploadSession({
+  submissionId,
+  questionId,
+  file,
+}: {
+  submissionId: string;
+  questionId: string;
+  file: File;
+}): string | null {
+  try {
+    const stored = window.localStorage.getItem(
+      getPendingUploadStorageKey({ submissionId, questionId, file }),
+    );
+    if (!stored) {
+      return null;
+    }
+
+    const parsed = PendingUploadSessionSchema.safeParse(JSON.parse(stored));
+    if (
+      !parsed.success ||
+      parsed.data.fileName !== file.name ||
+      parsed.data.fileSizeBytes !== file.size ||
+      parsed.data.lastModified !== file.lastModified
+    ) {
+      return null;
+    }
+
+    return parsed.data.uploadSessionId;
+  } catch {
+    return null;
+  }
+}
+
+function savePendingUploadSession({
+  submissionId,
+  questionId,
+  file,
+  uploadSessionId,
+}: {
+  submissionId: string;
+  questionId: string;
+  file: File;
+  uploadSessionId: string;
+}) {
+  const pending: PendingUploadSession = {
+    uploadSessionId,
+    fileName: file.name,
+    fileSizeBytes: file.size,
+    lastModified: file.lastModified,
+  };
+
+  try {
+    window.localStorage.setItem(
+      getPendingUploadStorageKey({ submissionId, questionId, file }),
+      JSON.stringify(pending),
+    );
+  } catch {
+    // Storage can be unavailable (private mode, quota); resume is best effort.
+  }
+}
+
+function clearPendingUploadSession({
+  submissionId,
+  questionId,
+  file,
+}: {
+  submissionId: string;
+  questionId: string;
+  file: File;
+}) {
+  try {
+    window.localStorage.removeItem(
+      getPendingUploadStorageKey({ submissionId, questionId, file }),
+    );
+  } catch {
+    // Ignore storage failures.
+  }
+}
+
 function createUploadingItem({
   questionId,
   file,
 }: {
-  questionId: UploadQuestionId;
+  questionId: string;
   file: File;
 }): UploadItem {
   return {
-    id: `${questionId}-${Date.now()}`,
+    id: `${questionId}-${crypto.randomUUID()}`,
     questionId,
+    fileId: null,
     fileName: file.name,
     sizeBytes: file.size,
     status: "uploading",
@@ -384,19 +667,26 @@ function createUploadingItem({
   };
 }
 
+function getQuarantineMessage(upload: UploadStatusSummary): string {
+  const detail = upload.contentCheckDetail ?? "File content did not match its type";
+  return `${detail}. The file was quarantined; please upload a valid file.`;
+}
+
 function createCompletedItem({
   upload,
 }: {
   upload: UploadStatusSummary;
 }): UploadItem {
+  const isQuarantined = upload.contentCheckStatus === "quarantined";
   return {
     id: upload.fileId,
     questionId: upload.questionId,
+    fileId: upload.fileId,
     fileName: upload.fileName,
     sizeBytes: upload.fileSizeBytes,
-    status: "complete",
+    status: isQuarantined ? "error" : "complete",
     progressPct: 100,
-    errorMessage: null,
+    errorMessage: isQuarantined ? getQuarantineMessage(upload) : null,
     uploadSessionId: null,
     uploadId: null,
     totalParts: null,
@@ -444,19 +734,72 @@ function splitFileIntoChunks({
   return chunks;
 }
 
+type UploadChecksums = {
+  checksumSha256: string | null;
+  partChecksums: Array<{ partNumber: number; checksum: string }> | null;
+};
+
+async function computeSha256Base64(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await blob.arrayBuffer(),
+  );
+  let binary = "";
+  for (const byte of new Uint8Array(digest)) {
+    binary += String.fromCharCode(byte);
+  }
+
+  return btoa(binary);
+}
+
+// Single uploads are hashed whole; multipart uploads are hashed per part so
+// the browser never has to hold more than one chunk in memory at a time.
+async function computeUploadChecksums(file: File): Promise<UploadChecksums> {
+  if (file.size < UploadMultipartMinThresholdBytes) {
+    return {
+      checksumSha256: await computeSha256Base64(file),
+      partChecksums: null,
+    };
+  }
+
+  const chunks = splitFileIntoChunks({
+    file,
+    partSizeBytes: UploadPartSizeBytes,
+  });
+  const partChecksums: Array<{ partNumber: number; checksum: string }> = [];
+  for (const [index, chunk] of chunks.entries()) {
+    partChecksums.push({
+      partNumber: index + 1,
+      checksum: await computeSha256Base64(chunk),
+    });
+  }
+
+  return { checksumSha256: null, partChecksums };
+}
+
 async function uploadSingleChunkWithRetry({
   url,
   chunk,
   contentType,
+  checksumSha256,
   partNumber,
   signal,
 }: {
   url: string;
   chunk: Blob;
   contentType: string;
+  checksumSha256?: string;
   partNumber: number;
   signal: AbortSignal;
 }): Promise<string> {
+  const headers: Record<string, string> = {};
+  if (contentType.trim().length > 0) {
+    headers["Content-Type"] = contentType;
+  }
+  if (checksumSha256) {
+    headers["x-amz-checksum-sha256"] = checksumSha256;
+  }
+
   return pRetry(
     async () => {
       if (signal.aborted) {
@@ -469,12 +812,7 @@ async function uploadSingleChunkWithRetry({
           method: "PUT",
           body: chunk,
           signal,
-          headers:
-            contentType.trim().length > 0
-              ? {
-                  "Content-Type": contentType,
-                }
-              : undefined,
+          headers,
         });
       } catch (error) {
         if (signal.aborted) {
@@ -511,25 +849,77 @@ async function uploadSingleChunkWithRetry({
   );
 }
 
+function isPartUrlExpiring(expiresAt: string): boolean {
+  return Date.parse(expiresAt) - Date.now() < PartUrlRefreshMarginMs;
+}
+
 async function uploadChunksWithSlidingWindow({
   parts,
   chunks,
   contentType,
+  partChecksums,
   signal,
   onPartUploaded,
+  refreshPartUrls,
 }: {
-  parts: Array<{ partNumber: number; url: string }>;
+  parts: Array<{ partNumber: number; url: string; expiresAt: string }>;
   chunks: Blob[];
   contentType: string;
+  partChecksums: Map<number, string>;
   signal: AbortSignal;
   onPartUploaded: () => void;
+  refreshPartUrls: (range: {
+    startPartNumber: number;
+    endPartNumber: number;
+  }) => Promise<Array<{ partNumber: number; url: string; expiresAt: string }>>;
 }): Promise<Array<{ partNumber: number; etag: string }>> {
-  if (parts.length !== chunks.length) {
-    throw new Error("Part metadata count does not match file chunks");
+  for (const part of parts) {
+    if (part.partNumber < 1 || part.partNumber > chunks.length) {
+      throw new Error("Part metadata count does not match file chunks");
+    }
   }
 
   const uploadedParts: Array<{ partNumber: number; etag: string }> = [];
+  const signedParts = parts.map((part) => ({ ...part }));
   let nextIndex = 0;
+  let pendingRefresh: Promise<void> | null = null;
+
+  // Re-signs every part from `fromIndex` onwards in one request; workers that
+  // hit an expiring URL while a refresh is running wait for it instead.
+  const refreshFromIndex = async (fromIndex: number) => {
+    if (pendingRefresh) {
+      await pendingRefresh;
+      if (!isPartUrlExpiring(signedParts[fromIndex].expiresAt)) {
+        return;
+      }
+    }
+
+    const refresh = (async () => {
+      const freshParts = await refreshPartUrls({
+        startPartNumber: signedParts[fromIndex].partNumber,
+        endPartNumber: signedParts[signedParts.length - 1].partNumber,
+      });
+      const freshByPartNumber = new Map(
+        freshParts.map((part) => [part.partNumber, part]),
+      );
+      for (const signedPart of signedParts) {
+        const freshPart = freshByPartNumber.get(signedPart.partNumber);
+        if (freshPart) {
+          signedPart.url = freshPart.url;
+          signedPart.expiresAt = freshPart.expiresAt;
+        }
+      }
+    })();
+    pendingRefresh = refresh;
+
+    try {
+      await refresh;
+    } finally {
+      if (pendingRefresh === refresh) {
+        pendingRefresh = null;
+      }
+    }
+  };
 
   const worker = async () => {
     while (true) {
@@ -540,17 +930,22 @@ async function uploadChunksWithSlidingWindow({
       const currentIndex = nextIndex;
       nextIndex += 1;
 
-      if (currentIndex >= parts.length) {
+      if (currentIndex >= signedParts.length) {
         return;
       }
 
-      const currentPart = parts[currentIndex];
-      const currentChunk = chunks[currentIndex];
+      if (isPartUrlExpiring(signedParts[currentIndex].expiresAt)) {
+        await refreshFromIndex(currentIndex);
+      }
+
+      const currentPart = signedParts[currentIndex];
+      const currentChunk = chunks[currentPart.partNumber - 1];
 
       const etag = await uploadSingleChunkWithRetry({
         url: currentPart.url,
         chunk: currentChunk,
         contentType,
+        checksumSha256: partChecksums.get(currentPart.partNumber),
         partNumber: currentPart.partNumber,
         signal,
       });
@@ -581,13 +976,18 @@ function formatDeadlineLabel(isoDate: string): string {
     .toLocaleString(DateTime.DATETIME_FULL);
 }
 
-function mapStatusUploadsToItems(
-  uploads: UploadStatusPayload["uploads"],
-): Record<UploadQuestionId, UploadItem | null> {
-  const mapped = createEmptyUploadMap();
-  for (const questionId of UploadQuestionIds) {
-    const upload = uploads[questionId];
-    mapped[questionId] = upload ? createCompletedItem({ upload }) : null;
+function mapStatusUploadsToItems({
+  questions,
+  uploads,
+}: {
+  questions: QuestionConfig[];
+  uploads: UploadStatusPayload["uploads"];
+}): Record<string, UploadItem[]> {
+  const mapped = createEmptyUploadMap(questions);
+  for (const question of questions) {
+    mapped[question.id] = (uploads[question.id] ?? []).map((upload) =>
+      createCompletedItem({ upload }),
+    );
   }
 
   return mapped;
@@ -619,9 +1019,8 @@ export async function loader({
     });
   }
 
-  // Admins cannot access forms
-  const isAdmin = meResult.data.roles.some((role) => role.roleName === "admin");
-  if (isAdmin) {
+  // Staff cannot access forms
+  if (isStaffUser(meResult.data)) {
     throw redirect("/admin");
   }
 
@@ -659,7 +1058,7 @@ export async function loader({
     throw redirect("/dashboard?error=invalid_submission");
   }
 
-  const now = new Date();
+  const now = new Date(applicationsResult.data.serverTime);
   const firstDate = new Date(application.firstDateToApply);
   const lastDate = new Date(application.lastDateToApply);
 
@@ -675,7 +1074,26 @@ export async function loader({
     throw redirect("/dashboard?error=late_submission");
   }
 
-  let initialUploads = createEmptyUploadMap();
+  const questionsResult = await fetchTenderQuestions({
+    context,
+    apiKey,
+    tenderId: application.tenderId,
+  });
+  if (!questionsResult.ok) {
+    if (questionsResult.status === 401) {
+      throw redirect("/", {
+        headers: {
+          "Set-Cookie": await clearApiKeyCookie(request),
+        },
+      });
+    }
+
+    throw redirect("/dashboard?error=invalid_submission");
+  }
+
+  const questions = questionsResult.data.questions.map(toQuestionConfig);
+
+  let initialUploads = createEmptyUploadMap(questions);
   let initialSubmissionStatus: "draft" | "submitted" = application.status;
   let initialError: string | null = null;
 
@@ -697,7 +1115,10 @@ export async function loader({
     initialError = normalizeUploadErrorMessage(statusResult.error);
   } else {
     initialSubmissionStatus = statusResult.data.submission.status;
-    initialUploads = mapStatusUploadsToItems(statusResult.data.uploads);
+    initialUploads = mapStatusUploadsToItems({
+      questions,
+      uploads: statusResult.data.uploads,
+    });
   }
 
   // Fetch persisted form state
@@ -712,17 +1133,17 @@ export async function loader({
     : null;
 
   // Reconcile: if persisted state exists, it is the source of truth for which
-  // files the user wants to keep. A file present in uploaded_file but absent
-  // from persisted state means the user explicitly removed it.
+  // single files the user wants to keep. A file present in uploaded_file but
+  // absent from persisted state means the user explicitly removed it.
+  // Questions holding several files remove them on the backend instead.
   if (persistedState) {
-    for (const questionId of UploadQuestionIds) {
-      const uploadedFile = initialUploads[questionId];
-      if (!uploadedFile) continue;
+    for (const { id: questionId, maxFiles } of questions) {
+      if (maxFiles > 1 || initialUploads[questionId].length === 0) continue;
 
       const inPersistedSingle = persistedState.singleUploads[questionId];
       if (!inPersistedSingle) {
         // User removed this file — hide it on load
-        initialUploads[questionId] = null;
+        initialUploads[questionId] = [];
       }
     }
   }
@@ -733,8 +1154,10 @@ export async function loader({
     tenderTitle: application.tenderTitle,
     deadlineLabel: formatDeadlineLabel(application.lastDateToApply),
     deadlineIso: application.lastDateToApply,
+    serverTimeIso: applicationsResult.data.serverTime,
     userName: meResult.data.name || meResult.data.email,
     userEmail: meResult.data.email,
+    questions,
     initialSubmissionStatus,
     initialUploads,
     initialError,
@@ -744,14 +1167,17 @@ export async function loader({
 }
 
 export default function FormPage({ loaderData }: Route.ComponentProps) {
-  const [uploads, setUploads] = useState<
-    Record<UploadQuestionId, UploadItem | null>
-  >(loaderData.initialUploads);
+  const uploadQuestions = loaderData.questions;
+  const [uploads, setUploads] = useState<Record<string, UploadItem[]>>(
+    loaderData.initialUploads,
+  );
   const [activeIndex, setActiveIndex] = useState<number>(() => {
-    const firstIncompleteIndex = UploadQuestions.findIndex((question) => {
-      const upload = loaderData.initialUploads[question.id];
-      return upload === null || upload.status !== "complete";
-    });
+    const firstIncompleteIndex = uploadQuestions.findIndex(
+      (question) =>
+        !(loaderData.initialUploads[question.id] ?? []).some(
+          (upload) => upload.status === "complete",
+        ),
+    );
 
     return firstIncompleteIndex >= 0 ? firstIncompleteIndex : 0;
   });
@@ -760,6 +1186,10 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
     "draft" | "submitted"
   >(loaderData.initialSubmissionStatus);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Loaded when a question's previous versions are first shown.
+  const [fileVersions, setFileVersions] = useState<
+    Record<string, QuestionFileVersions>
+  >({});
   const [toast, setToast] = useState<{
     message: string;
     variant: "error" | "success";
@@ -773,9 +1203,10 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
   );
 
   const scrollRef = useRef<HTMLDivElement>(null);
-  const activeControllersRef = useRef<
-    Record<UploadQuestionId, ActiveUploadController | null>
-  >(createEmptyControllers());
+  // Keyed by upload item id, since a question can have several in flight.
+  const activeControllersRef = useRef<Record<string, ActiveUploadController>>(
+    {},
+  );
   const isProgrammaticScrollRef = useRef(false);
 
   // Form state persistence with XState
@@ -791,50 +1222,157 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
 
   const pendingCount = useMemo(() => {
     let count = 0;
-    for (const questionId of UploadQuestionIds) {
-      const upload = uploads[questionId];
-      if (!upload) {
-        continue;
-      }
-
-      if (
-        upload.status === "uploading" ||
-        upload.status === "queued" ||
-        upload.isCancelling
-      ) {
-        count += 1;
+    for (const question of uploadQuestions) {
+      for (const upload of uploads[question.id] ?? []) {
+        if (
+          upload.status === "uploading" ||
+          upload.status === "queued" ||
+          upload.isCancelling
+        ) {
+          count += 1;
+        }
       }
     }
 
     return count;
-  }, [uploads]);
+  }, [uploads, uploadQuestions]);
 
   const missingRequiredUploads = useMemo(() => {
-    const missing: UploadQuestionId[] = [];
-    for (const requiredId of RequiredUploadQuestionIds) {
-      const upload = uploads[requiredId];
-      if (!upload || upload.status !== "complete") {
-        missing.push(requiredId);
+    const missing: string[] = [];
+    for (const question of uploadQuestions) {
+      if (!question.required) {
+        continue;
+      }
+
+      const hasCompleteUpload = (uploads[question.id] ?? []).some(
+        (upload) => upload.status === "complete",
+      );
+      if (!hasCompleteUpload) {
+        missing.push(question.id);
       }
     }
 
     return missing;
-  }, [uploads]);
+  }, [uploads, uploadQuestions]);
+
+  const uploadSummaries = useMemo(() => {
+    const summaries: Record<string, UploadItem | null> = {};
+    for (const question of uploadQuestions) {
+      summaries[question.id] = getQuestionUploadSummary(
+        uploads[question.id] ?? [],
+      );
+    }
+
+    return summaries;
+  }, [uploads, uploadQuestions]);
 
   const isReadOnly = submissionStatus === "submitted";
-  const activeQuestion = UploadQuestions[activeIndex];
+  const activeQuestion = uploadQuestions[activeIndex];
+
+  // Single-file questions keep their stored file until the replacement is
+  // accepted, since the backend keeps it when an upload fails or is
+  // quarantined; the others append to the list.
+  const addUpload = ({
+    question,
+    item,
+  }: {
+    question: QuestionConfig;
+    item: UploadItem;
+  }) => {
+    setUploads((previous) => ({
+      ...previous,
+      [question.id]:
+        question.maxFiles > 1
+          ? [...(previous[question.id] ?? []), item]
+          : [
+              ...(previous[question.id] ?? []).filter(
+                (current) =>
+                  current.fileId !== null && current.status === "complete",
+              ),
+              item,
+            ],
+    }));
+  };
 
+  // Updates one item of a question; returning null removes it. Items that
+  // were already removed, e.g. by a cancel, are left alone.
   const updateUpload = ({
     questionId,
+    itemId,
     updater,
   }: {
-    questionId: UploadQuestionId;
-    updater: (current: UploadItem | null) => UploadItem | null;
+    questionId: string;
+    itemId: string;
+    updater: (current: UploadItem) => UploadItem | null;
   }) => {
+    setUploads((previous) => {
+      const items: UploadItem[] = [];
+      for (const item of previous[questionId] ?? []) {
+        if (item.id !== itemId) {
+          items.push(item);
+          continue;
+        }
+
+        const updated = updater(item);
+        if (updated) {
+          items.push(updated);
+        }
+      }
+
+      return { ...previous, [questionId]: items };
+    });
+  };
+
+  // Dropping the cached versions makes an open history list load again.
+  const invalidateFileVersions = (questionId: string) => {
+    setFileVersions((previous) => {
+      if (!(questionId in previous)) {
+        return previous;
+      }
+
+      const { [questionId]: _removed, ...rest } = previous;
+      return rest;
+    });
+  };
+
+  const persistCompletedUpload = ({
+    question,
+    upload,
+  }: {
+    question: QuestionConfig;
+    upload: UploadStatusSummary;
+  }) => {
+    invalidateFileVersions(question.id);
+
+    const completedUpload = {
+      fileId: upload.fileId,
+      fileName: upload.fileName,
+      fileSize: upload.fileSizeBytes,
+      mimeType: upload.contentType,
+      completedAt: new Date().toISOString(),
+    };
+
+    if (question.maxFiles > 1) {
+      sendToPersistence({
+        type: "ADD_MULTI_UPLOAD",
+        fieldId: question.id,
+        upload: { ...completedUpload, key: upload.fileId },
+      });
+      return;
+    }
+
+    // The accepted file has replaced the stored one on the backend.
     setUploads((previous) => ({
       ...previous,
-      [questionId]: updater(previous[questionId]),
+      [question.id]: (previous[question.id] ?? []).filter(
+        (item) => item.fileId === upload.fileId,
+      ),
     }));
+    sendToPersistence({
+      type: "ADD_SINGLE_UPLOAD",
+      fieldId: question.id,
+      upload: completedUpload,
+    });
   };
 
   const redirectToLogin = () => {
@@ -842,14 +1380,14 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
   };
 
   const goToIndex = (index: number) => {
-    if (index < 0 || index >= UploadQuestions.length) {
+    if (index < 0 || index >= uploadQuestions.length) {
       return;
     }
 
     isProgrammaticScrollRef.current = true;
     setActiveIndex(index);
 
-    const targetQuestion = UploadQuestions[index];
+    const targetQuestion = uploadQuestions[index];
     const container = scrollRef.current;
     const element = document.getElementById(targetQuestion.id);
 
@@ -877,13 +1415,13 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
   };
 
   const goToNext = () => {
-    if (activeIndex < UploadQuestions.length - 1) {
+    if (activeIndex < uploadQuestions.length - 1) {
       goToIndex(activeIndex + 1);
     }
   };
 
-  const handleQuestionSelect = (questionId: UploadQuestionId) => {
-    const targetIndex = UploadQuestions.findIndex((q) => q.id === questionId);
+  const handleQuestionSelect = (questionId: string) => {
+    const targetIndex = uploadQuestions.findIndex((q) => q.id === questionId);
     if (targetIndex >= 0) {
       goToIndex(targetIndex);
     }
@@ -893,40 +1431,119 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
     question,
     file,
   }: {
-    question: UploadQuestionConfig;
+    question: QuestionConfig;
     file: File;
   }) => {
     if (isReadOnly) {
       return;
     }
 
+    if (
+      question.maxFiles > 1 &&
+      countOccupiedSlots(uploads[question.id] ?? []) >= question.maxFiles
+    ) {
+      setToast({
+        message: `This question accepts at most ${question.maxFiles} files. Remove one before adding another.`,
+        variant: "error",
+      });
+      return;
+    }
+
+    const item = createUploadingItem({ questionId: question.id, file });
+
     if (file.size > question.maxSizeMB * 1024 * 1024) {
-      updateUpload({
-        questionId: question.id,
-        updater: () => ({
-          ...createUploadingItem({ questionId: question.id, file }),
+      addUpload({
+        question,
+        item: {
+          ...item,
           status: "error",
           progressPct: 0,
           errorMessage: `File exceeds ${question.maxSizeMB}MB limit`,
-        }),
+        },
       });
       return;
     }
 
     setToast(null);
 
-    updateUpload({
-      questionId: question.id,
-      updater: () => createUploadingItem({ questionId: question.id, file }),
-    });
+    addUpload({ question, item });
 
-    const initiateResult = await requestInitiateUpload({
-      tenderId: loaderData.tenderId,
+    let uploadChecksums: UploadChecksums;
+    try {
+      uploadChecksums = await computeUploadChecksums(file);
+    } catch {
+      const message = "Unable to read the selected file. Please retry.";
+      updateUpload({
+        questionId: question.id,
+        itemId: item.id,
+        updater: (current) => {
+          return {
+            ...current,
+            status: "error",
+            progressPct: 0,
+            errorMessage: message,
+          };
+        },
+      });
+      setToast({ message, variant: "error" });
+      return;
+    }
+
+    let alreadyUploadedParts: Array<{ partNumber: number; etag: string }> =
+      [];
+    let resumedSession: z.infer<
+      typeof UploadSessionPartsSuccessSchema
+    >["data"] | null = null;
+
+    const pendingUploadSessionId = readPendingUploadSession({
+      submissionId: loaderData.submissionId,
       questionId: question.id,
-      fileName: file.name,
-      fileSizeBytes: file.size,
-      contentType: file.type || "application/octet-stream",
+      file,
     });
+    if (pendingUploadSessionId) {
+      const partsResult = await requestUploadSessionParts({
+        tenderId: loaderData.tenderId,
+        uploadSessionId: pendingUploadSessionId,
+      });
+
+      if (partsResult.ok) {
+        resumedSession = partsResult.data;
+        alreadyUploadedParts = partsResult.data.uploadedParts;
+      } else if (partsResult.status === 401) {
+        redirectToLogin();
+        return;
+      } else {
+        clearPendingUploadSession({
+          submissionId: loaderData.submissionId,
+          questionId: question.id,
+          file,
+        });
+      }
+    }
+
+    const initiateResult: Awaited<ReturnType<typeof requestInitiateUpload>> =
+      resumedSession
+        ? {
+            ok: true,
+            data: {
+              uploadType: "multipart",
+              uploadSessionId: resumedSession.uploadSessionId,
+              uploadId: resumedSession.uploadId,
+              objectKey: resumedSession.objectKey,
+              partSizeBytes: resumedSession.partSizeBytes,
+              totalParts: resumedSession.totalParts,
+              expiresAt: resumedSession.expiresAt,
+              parts: resumedSession.missingParts,
+            },
+          }
+        : await requestInitiateUpload({
+            tenderId: loaderData.tenderId,
+            questionId: question.id,
+            fileName: file.name,
+            fileSizeBytes: file.size,
+            contentType: file.type || "application/octet-stream",
+            checksums: uploadChecksums,
+          });
 
     if (!initiateResult.ok) {
       if (initiateResult.status === 401) {
@@ -936,11 +1553,8 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
 
       updateUpload({
         questionId: question.id,
+        itemId: item.id,
         updater: (current) => {
-          if (!current) {
-            return null;
-          }
-
           return {
             ...current,
             status: "error",
@@ -957,18 +1571,25 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
       abortController: new AbortController(),
       uploadSessionId: initiateResult.data.uploadSessionId,
       tenderId: loaderData.tenderId,
+      file,
       isCancelled: false,
     };
 
-    activeControllersRef.current[question.id] = controller;
+    activeControllersRef.current[item.id] = controller;
+
+    if (initiateResult.data.uploadType === "multipart") {
+      savePendingUploadSession({
+        submissionId: loaderData.submissionId,
+        questionId: question.id,
+        file,
+        uploadSessionId: initiateResult.data.uploadSessionId,
+      });
+    }
 
     updateUpload({
       questionId: question.id,
+      itemId: item.id,
       updater: (current) => {
-        if (!current) {
-          return null;
-        }
-
         return {
           ...current,
           uploadSessionId: initiateResult.data.uploadSessionId,
@@ -977,8 +1598,14 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
             initiateResult.data.uploadType === "multipart"
               ? initiateResult.data.totalParts
               : 1,
-          completedParts: 0,
-          progressPct: 1,
+          completedParts: alreadyUploadedParts.length,
+          progressPct:
+            initiateResult.data.uploadType === "multipart"
+              ? toUploadProgress({
+                  completedParts: alreadyUploadedParts.length,
+                  totalParts: initiateResult.data.totalParts,
+                })
+              : 1,
         };
       },
     });
@@ -989,6 +1616,7 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
           url: initiateResult.data.url,
           chunk: file,
           contentType: file.type || "application/octet-stream",
+          checksumSha256: uploadChecksums.checksumSha256 ?? undefined,
           partNumber: 1,
           signal: controller.abortController.signal,
         });
@@ -1002,11 +1630,8 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
 
         updateUpload({
           questionId: question.id,
+          itemId: item.id,
           updater: (current) => {
-            if (!current) {
-              return null;
-            }
-
             return {
               ...current,
               completedParts: 1,
@@ -1029,11 +1654,8 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
 
           updateUpload({
             questionId: question.id,
+            itemId: item.id,
             updater: (current) => {
-              if (!current) {
-                return null;
-              }
-
               return {
                 ...current,
                 status: "error",
@@ -1047,46 +1669,27 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
 
         updateUpload({
           questionId: question.id,
-          updater: () => ({
-            id: completeResult.data.fileId,
-            questionId: completeResult.data.questionId,
-            fileName: completeResult.data.fileName,
-            sizeBytes: completeResult.data.fileSizeBytes,
-            status: "complete",
-            progressPct: 100,
-            errorMessage: null,
-            uploadSessionId: null,
-            uploadId: null,
-            totalParts: null,
-            completedParts: 0,
-            isCancelling: false,
-          }),
+          itemId: item.id,
+          updater: () => createCompletedItem({ upload: completeResult.data }),
         });
 
-        // Persist completed upload to backend
-        sendToPersistence({
-          type: "ADD_SINGLE_UPLOAD",
-          fieldId: question.id,
-          upload: {
-            fileId: completeResult.data.fileId,
-            fileName: completeResult.data.fileName,
-            fileSize: completeResult.data.fileSizeBytes,
-            mimeType: completeResult.data.contentType,
-            completedAt: new Date().toISOString(),
-          },
-        });
+        if (completeResult.data.contentCheckStatus === "quarantined") {
+          setToast({
+            message: getQuarantineMessage(completeResult.data),
+            variant: "error",
+          });
+          return;
+        }
 
+        persistCompletedUpload({ question, upload: completeResult.data });
         return;
       }
 
       if (initiateResult.data.partSizeBytes !== UploadPartSizeBytes) {
         updateUpload({
           questionId: question.id,
+          itemId: item.id,
           updater: (current) => {
-            if (!current) {
-              return null;
-            }
-
             return {
               ...current,
               status: "error",
@@ -1109,16 +1712,13 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
       );
 
       if (
-        chunks.length !== sortedParts.length ||
+        chunks.length !== sortedParts.length + alreadyUploadedParts.length ||
         chunks.length !== initiateResult.data.totalParts
       ) {
         updateUpload({
           questionId: question.id,
+          itemId: item.id,
           updater: (current) => {
-            if (!current) {
-              return null;
-            }
-
             return {
               ...current,
               status: "error",
@@ -1130,19 +1730,40 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
         return;
       }
 
-      const completedParts = await uploadChunksWithSlidingWindow({
+      const newlyUploadedParts = await uploadChunksWithSlidingWindow({
         parts: sortedParts.map((part) => ({
           partNumber: part.partNumber,
           url: part.url,
+          expiresAt: part.expiresAt,
         })),
         chunks,
         contentType: file.type,
+        partChecksums: new Map(
+          (uploadChecksums.partChecksums ?? []).map((partChecksum) => [
+            partChecksum.partNumber,
+            partChecksum.checksum,
+          ]),
+        ),
         signal: controller.abortController.signal,
+        refreshPartUrls: async ({ startPartNumber, endPartNumber }) => {
+          const presignResult = await requestPresignParts({
+            tenderId: loaderData.tenderId,
+            uploadSessionId: initiateResult.data.uploadSessionId,
+            startPartNumber,
+            endPartNumber,
+          });
+          if (!presignResult.ok) {
+            throw new Error(presignResult.error);
+          }
+
+          return presignResult.data.parts;
+        },
         onPartUploaded: () => {
           updateUpload({
             questionId: question.id,
+            itemId: item.id,
             updater: (current) => {
-              if (!current || current.totalParts === null) {
+              if (current.totalParts === null) {
                 return current;
               }
 
@@ -1168,13 +1789,15 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
         return;
       }
 
+      const completedParts = [
+        ...alreadyUploadedParts,
+        ...newlyUploadedParts,
+      ].sort((left, right) => left.partNumber - right.partNumber);
+
       updateUpload({
         questionId: question.id,
+        itemId: item.id,
         updater: (current) => {
-          if (!current) {
-            return null;
-          }
-
           return {
             ...current,
             progressPct: 99,
@@ -1196,11 +1819,8 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
 
         updateUpload({
           questionId: question.id,
+          itemId: item.id,
           updater: (current) => {
-            if (!current) {
-              return null;
-            }
-
             return {
               ...current,
               status: "error",
@@ -1212,36 +1832,27 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
         return;
       }
 
-      updateUpload({
+      clearPendingUploadSession({
+        submissionId: loaderData.submissionId,
         questionId: question.id,
-        updater: () => ({
-          id: completeResult.data.fileId,
-          questionId: completeResult.data.questionId,
-          fileName: completeResult.data.fileName,
-          sizeBytes: completeResult.data.fileSizeBytes,
-          status: "complete",
-          progressPct: 100,
-          errorMessage: null,
-          uploadSessionId: null,
-          uploadId: null,
-          totalParts: null,
-          completedParts: 0,
-          isCancelling: false,
-        }),
+        file,
       });
 
-      // Persist completed upload to backend
-      sendToPersistence({
-        type: "ADD_SINGLE_UPLOAD",
-        fieldId: question.id,
-        upload: {
-          fileId: completeResult.data.fileId,
-          fileName: completeResult.data.fileName,
-          fileSize: completeResult.data.fileSizeBytes,
-          mimeType: completeResult.data.contentType,
-          completedAt: new Date().toISOString(),
-        },
+      updateUpload({
+        questionId: question.id,
+        itemId: item.id,
+        updater: () => createCompletedItem({ upload: completeResult.data }),
       });
+
+      if (completeResult.data.contentCheckStatus === "quarantined") {
+        setToast({
+          message: getQuarantineMessage(completeResult.data),
+          variant: "error",
+        });
+        return;
+      }
+
+      persistCompletedUpload({ question, upload: completeResult.data });
     } catch (error) {
       if (
         controller.isCancelled ||
@@ -1253,11 +1864,8 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
 
       updateUpload({
         questionId: question.id,
+        itemId: item.id,
         updater: (current) => {
-          if (!current) {
-            return null;
-          }
-
           return {
             ...current,
             status: "error",
@@ -1276,17 +1884,24 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
         variant: "error",
       });
     } finally {
-      if (activeControllersRef.current[question.id] === controller) {
-        activeControllersRef.current[question.id] = null;
+      if (activeControllersRef.current[item.id] === controller) {
+        delete activeControllersRef.current[item.id];
       }
     }
   };
 
-  const handleCancelUpload = async (questionId: UploadQuestionId) => {
-    const controller = activeControllersRef.current[questionId];
+  const handleCancelUpload = async ({
+    questionId,
+    itemId,
+  }: {
+    questionId: string;
+    itemId: string;
+  }) => {
+    const controller = activeControllersRef.current[itemId];
     if (!controller) {
       updateUpload({
         questionId,
+        itemId,
         updater: () => null,
       });
       return;
@@ -1294,19 +1909,19 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
 
     controller.isCancelled = true;
     controller.abortController.abort();
+    clearPendingUploadSession({
+      submissionId: loaderData.submissionId,
+      questionId,
+      file: controller.file,
+    });
 
     updateUpload({
       questionId,
-      updater: (current) => {
-        if (!current) {
-          return null;
-        }
-
-        return {
-          ...current,
-          isCancelling: true,
-        };
-      },
+      itemId,
+      updater: (current) => ({
+        ...current,
+        isCancelling: true,
+      }),
     });
 
     const abortResult = await requestAbortUpload({
@@ -1319,55 +1934,236 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
       return;
     }
 
-    activeControllersRef.current[questionId] = null;
+    delete activeControllersRef.current[itemId];
 
     updateUpload({
       questionId,
+      itemId,
       updater: () => null,
     });
   };
 
-  const handleDeleteUpload = (questionId: UploadQuestionId) => {
+  const handleDeleteUpload = async ({
+    question,
+    upload,
+  }: {
+    question: QuestionConfig;
+    upload: UploadItem;
+  }) => {
     if (isReadOnly) {
       return;
     }
 
-    // Check if this was a persisted upload before clearing
-    const currentUpload = uploads[questionId];
-    const wasCompleted = currentUpload?.status === "complete";
+    // Nothing was stored yet, so there is nothing to delete on the backend.
+    const fileId = upload.fileId;
+    if (fileId === null) {
+      updateUpload({
+        questionId: question.id,
+        itemId: upload.id,
+        updater: () => null,
+      });
+      return;
+    }
 
+    // Keep the row until the backend confirms, so a failed delete leaves the
+    // file visible.
     updateUpload({
-      questionId,
-      updater: () => null,
+      questionId: question.id,
+      itemId: upload.id,
+      updater: (current) => ({
+        ...current,
+        isCancelling: true,
+      }),
+    });
+
+    const deleteResult = await requestDeleteUpload({
+      tenderId: loaderData.tenderId,
+      fileId,
     });
 
-    // Remove from persisted state if it was completed
-    if (wasCompleted) {
+    if (!deleteResult.ok) {
+      if (deleteResult.status === 401) {
+        redirectToLogin();
+        return;
+      }
+
+      updateUpload({
+        questionId: question.id,
+        itemId: upload.id,
+        updater: (current) => ({
+          ...current,
+          isCancelling: false,
+        }),
+      });
+      setToast({ message: deleteResult.error, variant: "error" });
+      return;
+    }
+
+    updateUpload({
+      questionId: question.id,
+      itemId: upload.id,
+      updater: () => null,
+    });
+    if (question.maxFiles <= 1) {
       sendToPersistence({
         type: "REMOVE_SINGLE_UPLOAD",
-        fieldId: questionId,
+        fieldId: question.id,
+      });
+    } else {
+      sendToPersistence({
+        type: "REMOVE_MULTI_UPLOAD",
+        fieldId: question.id,
+        key: fileId,
       });
     }
   };
 
-  const handleRetryUpload = (questionId: UploadQuestionId) => {
+  const handleRetryUpload = ({
+    question,
+    upload,
+  }: {
+    question: QuestionConfig;
+    upload: UploadItem;
+  }) => {
     if (isReadOnly) {
       return;
     }
 
     setToast(null);
+
+    // The retried file is added next to the others, so the failed one has
+    // to make room for it.
+    if (question.maxFiles > 1) {
+      void handleDeleteUpload({ question, upload });
+      return;
+    }
+
     updateUpload({
-      questionId,
-      updater: (current) => {
-        if (!current) {
-          return null;
-        }
+      questionId: question.id,
+      itemId: upload.id,
+      updater: (current) => ({
+        ...current,
+        errorMessage: null,
+      }),
+    });
+  };
 
-        return {
-          ...current,
-          errorMessage: null,
-        };
+  const updateFileVersions = ({
+    questionId,
+    updater,
+  }: {
+    questionId: string;
+    updater: (current: QuestionFileVersions) => QuestionFileVersions;
+  }) => {
+    setFileVersions((previous) => {
+      const current = previous[questionId];
+      if (!current) {
+        return previous;
+      }
+
+      return { ...previous, [questionId]: updater(current) };
+    });
+  };
+
+  const handleLoadFileVersions = async (question: QuestionConfig) => {
+    setFileVersions((previous) => ({
+      ...previous,
+      [question.id]: {
+        isLoading: true,
+        items: previous[question.id]?.items ?? [],
+        errorMessage: null,
+        restoringFileId: null,
       },
+    }));
+
+    const versionsResult = await requestFileVersions({
+      tenderId: loaderData.tenderId,
+      questionId: question.id,
+    });
+
+    if (!versionsResult.ok) {
+      if (versionsResult.status === 401) {
+        redirectToLogin();
+        return;
+      }
+
+      updateFileVersions({
+        questionId: question.id,
+        updater: (current) => ({
+          ...current,
+          isLoading: false,
+          errorMessage: versionsResult.error,
+        }),
+      });
+      return;
+    }
+
+    updateFileVersions({
+      questionId: question.id,
+      updater: (current) => ({
+        ...current,
+        isLoading: false,
+        items: versionsResult.data.versions.map((version) => ({
+          fileId: version.fileId,
+          fileName: version.fileName,
+          sizeBytes: version.fileSizeBytes,
+          uploadedAt: version.uploadedAt,
+          replacedAt: version.replacedAt,
+        })),
+      }),
+    });
+  };
+
+  const handleRestoreVersion = async ({
+    question,
+    version,
+  }: {
+    question: QuestionConfig;
+    version: FileVersion;
+  }) => {
+    if (isReadOnly) {
+      return;
+    }
+
+    setToast(null);
+    updateFileVersions({
+      questionId: question.id,
+      updater: (current) => ({
+        ...current,
+        restoringFileId: version.fileId,
+      }),
+    });
+
+    const restoreResult = await requestRestoreVersion({
+      tenderId: loaderData.tenderId,
+      fileId: version.fileId,
+    });
+
+    if (!restoreResult.ok) {
+      if (restoreResult.status === 401) {
+        redirectToLogin();
+        return;
+      }
+
+      updateFileVersions({
+        questionId: question.id,
+        updater: (current) => ({
+          ...current,
+          restoringFileId: null,
+        }),
+      });
+      setToast({ message: restoreResult.error, variant: "error" });
+      return;
+    }
+
+    addUpload({
+      question,
+      item: createCompletedItem({ upload: restoreResult.data }),
+    });
+    persistCompletedUpload({ question, upload: restoreResult.data });
+    setToast({
+      message: `Restored ${restoreResult.data.fileName}.`,
+      variant: "success",
     });
   };
 
@@ -1428,21 +2224,22 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
       <SubmissionShell
         sidebar={
           <PortalSidebar
-            questions={UploadQuestions}
+            questions={uploadQuestions}
             activeId={activeQuestion.id}
             onSelect={handleQuestionSelect}
-            uploads={uploads}
+            uploads={uploadSummaries}
             deadlineIso={loaderData.deadlineIso}
+            serverTimeIso={loaderData.serverTimeIso}
             userName={loaderData.userName}
             userEmail={loaderData.userEmail}
           />
         }
       >
         <MobileQuestionNavigation
-          questions={UploadQuestions}
+          questions={uploadQuestions}
           activeId={activeQuestion.id}
           onSelect={handleQuestionSelect}
-          uploads={uploads}
+          uploads={uploadSummaries}
           deadlineLabel={loaderData.deadlineLabel}
         />
 
@@ -1457,7 +2254,7 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
           ref={scrollRef}
           className="flex-1 min-h-0 overflow-y-auto overscroll-none snap-y snap-mandatory no-scrollbar bg-[radial-gradient(circle_at_top,rgba(255,196,0,0.06),rgba(0,0,0,0)_45%)]"
         >
-          {UploadQuestions.map((question, index) => (
+          {uploadQuestions.map((question, index) => (
             <InView
               key={question.id}
               root={scrollRef.current}
@@ -1477,8 +2274,8 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
                   <div className="w-full max-w-2xl mx-auto">
                     <QuestionCard
                       question={question}
-                      upload={uploads[question.id]}
-                      totalQuestions={UploadQuestions.length}
+                      uploads={uploads[question.id] ?? []}
+                      totalQuestions={uploadQuestions.length}
                       isReadOnly={isReadOnly}
                       onAddFile={(file) => {
                         void handleStartUpload({
@@ -1486,14 +2283,24 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
                           file,
                         });
                       }}
-                      onCancel={() => {
-                        void handleCancelUpload(question.id);
+                      onCancel={(upload) => {
+                        void handleCancelUpload({
+                          questionId: question.id,
+                          itemId: upload.id,
+                        });
+                      }}
+                      onDelete={(upload) => {
+                        void handleDeleteUpload({ question, upload });
+                      }}
+                      onRetry={(upload) => {
+                        handleRetryUpload({ question, upload });
                       }}
-                      onDelete={() => {
-                        handleDeleteUpload(question.id);
+                      versions={fileVersions[question.id]}
+                      onLoadVersions={() => {
+                        void handleLoadFileVersions(question);
                       }}
-                      onRetry={() => {
-                        handleRetryUpload(question.id);
+                      onRestoreVersion={(version) => {
+                        void handleRestoreVersion({ question, version });
                       }}
                     />
                   </div>
@@ -1506,9 +2313,9 @@ export default function FormPage({ loaderData }: Route.ComponentProps) {
         <SubmissionFooter
           pendingCount={pendingCount}
           currentIndex={activeIndex}
-          totalQuestions={UploadQuestions.length}
+          totalQuestions={uploadQuestions.length}
           isFirstQuestion={activeIndex === 0}
-          isLastQuestion={activeIndex === UploadQuestions.length - 1}
+          isLastQuestion={activeIndex === uploadQuestions.length - 1}
           isSubmitted={submissionStatus === "submitted"}
           isReadOnly={isReadOnly}
           isProcessing={isSubmitting}
@@ -8,11 +8,15 @@ import { ROUTE_METADATA } from "~/constants/routes";
 import {
   fetchMe,
   getApiKeyFromRequest,
-  isUserOnboarded,
+  getPostLoginPath,
   loginWithPassword,
-  setApiKeyCookie,
+  registerWithPassword,
+  requestMagicLink,
+  isTwoFactorChallenge,
+  setAuthCookies,
+  setTwoFactorChallengeCookie,
 } from "~/lib/auth.server";
-import type { LoginActionData } from "~/types/auth";
+import type { LoginActionData, LoginMode } from "~/types/auth";
 
 export function meta({}: Route.MetaArgs) {
   const metadata = ROUTE_METADATA.LOGIN;
@@ -22,38 +26,132 @@ export function meta({}: Route.MetaArgs) {
   ];
 }
 
+const EmailSchema = z
+  .string()
+  .trim()
+  .email("Please enter a valid email address");
+
 const LoginSchema = z.object({
-  email: z.string().trim().email("Please enter a valid email address"),
+  intent: z.enum(["login", "register"]).default("login"),
+  email: EmailSchema,
   password: z.string().min(8, "Password must be at least 8 characters"),
 });
 
-export async function loader({ request, context }: Route.LoaderArgs) {
-  const apiKey = await getApiKeyFromRequest(request);
-  if (!apiKey) {
-    return null;
+const LoginModes: LoginMode[] = ["login", "register", "magic-link"];
+
+function getLoginMode(url: URL): LoginMode {
+  const mode = url.searchParams.get("mode");
+  return LoginModes.find((value) => value === mode) ?? "login";
+}
+
+type LoginLoaderData = {
+  mode: LoginMode;
+  toast: { message: string; variant: "error" | "success" } | null;
+};
+
+function getLoginToast(url: URL): LoginLoaderData["toast"] {
+  const verification = url.searchParams.get("emailVerification");
+  if (verification === "verified") {
+    return {
+      message: "Your email address is verified. Sign in to continue.",
+      variant: "success",
+    };
   }
 
-  const meResult = await fetchMe({ context, apiKey });
-  if (!meResult.ok) {
-    return null;
+  if (verification === "invalid") {
+    return {
+      message: "This verification link is invalid or has expired.",
+      variant: "error",
+    };
+  }
+
+  if (url.searchParams.get("passwordReset") === "success") {
+    return {
+      message: "Your password has been reset. Sign in with the new password.",
+      variant: "success",
+    };
   }
 
-  // Check if user is admin
-  const isAdmin = meResult.data.roles.some((role) => role.roleName === "admin");
-  if (isAdmin) {
-    throw redirect("/admin");
+  if (url.searchParams.get("twoFactor") === "expired") {
+    return {
+      message: "Your sign-in attempt has expired. Sign in again.",
+      variant: "error",
+    };
   }
 
-  if (isUserOnboarded(meResult.data)) {
-    throw redirect("/dashboard");
+  if (url.searchParams.get("magicLink") === "invalid") {
+    return {
+      message: "This sign-in link is invalid or has expired. Request a new one.",
+      variant: "error",
+    };
   }
 
-  throw redirect("/onboarding");
+  return null;
+}
+
+export async function loader({
+  request,
+  context,
+}: Route.LoaderArgs): Promise<LoginLoaderData> {
+  const url = new URL(request.url);
+  const loaderData: LoginLoaderData = {
+    mode: getLoginMode(url),
+    toast: getLoginToast(url),
+  };
+
+  const apiKey = await getApiKeyFromRequest(request);
+  if (!apiKey) {
+    return loaderData;
+  }
+
+  const meResult = await fetchMe({ context, apiKey });
+  if (!meResult.ok) {
+    return loaderData;
+  }
+
+  throw redirect(getPostLoginPath(meResult.data));
 }
 
 export async function action({ request, context }: Route.ActionArgs) {
   const formData = await request.formData();
+  if (formData.get("intent") === "magic-link") {
+    const email = EmailSchema.safeParse(formData.get("email"));
+    if (!email.success) {
+      return data<LoginActionData>(
+        {
+          success: false,
+          error: email.error.issues[0]?.message ?? "Invalid form submission",
+        },
+        { status: 400 },
+      );
+    }
+
+    const magicLinkResult = await requestMagicLink({
+      context,
+      email: email.data,
+      clientIp: request.headers.get("CF-Connecting-IP"),
+    });
+    if (!magicLinkResult.ok) {
+      return data<LoginActionData>(
+        {
+          success: false,
+          error:
+            magicLinkResult.error ||
+            "Unable to send a sign-in link. Please try again.",
+        },
+        { status: magicLinkResult.status === 429 ? 429 : 400 },
+      );
+    }
+
+    return data<LoginActionData>({
+      success: true,
+      message:
+        "If an account exists for this email, a sign-in link is on its way. It expires in 15 minutes.",
+    });
+  }
+
   const parsed = LoginSchema.safeParse({
+    intent: formData.get("intent") ?? undefined,
     email: formData.get("email"),
     password: formData.get("password"),
   });
@@ -69,24 +167,60 @@ export async function action({ request, context }: Route.ActionArgs) {
     );
   }
 
-  const loginResult = await loginWithPassword({
+  const isRegistering = parsed.data.intent === "register";
+  const credentials = {
     context,
     email: parsed.data.email,
     password: parsed.data.password,
-  });
+  };
+  const loginResult = isRegistering
+    ? await registerWithPassword(credentials)
+    : await loginWithPassword({
+        ...credentials,
+        clientIp: request.headers.get("CF-Connecting-IP"),
+      });
+
+  if (!loginResult.ok && loginResult.status === 429) {
+    return data<LoginActionData>(
+      {
+        success: false,
+        error: getLockoutMessage(loginResult.retryAfterSeconds),
+      },
+      { status: 429 },
+    );
+  }
 
   if (!loginResult.ok) {
+    const fallbackError = isRegistering
+      ? "Unable to create your account. Please try again."
+      : "Unable to sign in. Please try again.";
     return data<LoginActionData>(
       {
         success: false,
-        error: loginResult.error || "Unable to sign in. Please try again.",
+        error: loginResult.error || fallbackError,
+      },
+      {
+        status:
+          loginResult.status === 401 || loginResult.status === 409
+            ? loginResult.status
+            : 400,
       },
-      { status: loginResult.status === 401 ? 401 : 400 },
     );
   }
 
-  const apiKey = loginResult.data.apiKey;
-  const isNewUser = loginResult.data.isNewUser;
+  if (isTwoFactorChallenge(loginResult.data)) {
+    return redirect("/two-factor", {
+      headers: {
+        "Set-Cookie": await setTwoFactorChallengeCookie({
+          challenge: loginResult.data,
+          request,
+        }),
+      },
+    });
+  }
+
+  const tokens = loginResult.data;
+  const apiKey = tokens.apiKey;
 
   // Fetch user data to check onboarding status
   const userResult = await fetchMe({ context, apiKey });
@@ -101,47 +235,80 @@ export async function action({ request, context }: Route.ActionArgs) {
     );
   }
 
-  const setCookie = await setApiKeyCookie({ apiKey, request });
+  const setCookieHeaders = (
+    await setAuthCookies({ tokens, request })
+  ).map((cookie): [string, string] => ["Set-Cookie", cookie]);
 
-  // Check if user is admin
-  const isAdmin = userResult.data.roles.some(
-    (role) => role.roleName === "admin",
-  );
-  if (isAdmin) {
-    return redirect("/admin", {
-      headers: {
-        "Set-Cookie": setCookie,
-      },
-    });
-  }
+  return redirect(getPostLoginPath(userResult.data), {
+    headers: setCookieHeaders,
+  });
+}
 
-  const destination = isUserOnboarded(userResult.data)
-    ? "/dashboard"
-    : "/onboarding";
+function getLockoutMessage(retryAfterSeconds: number | undefined): string {
+  if (retryAfterSeconds === undefined) {
+    return "Too many sign-in attempts. Please try again later.";
+  }
 
-  return redirect(destination, {
-    headers: {
-      "Set-Cookie": setCookie,
-    },
-  });
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  const wait =
+    retryAfterSeconds < 60
+      ? `${retryAfterSeconds} seconds`
+      : `${minutes} ${minutes === 1 ? "minute" : "minutes"}`;
+  return `Too many sign-in attempts. Please try again in ${wait}, or reset your password.`;
 }
 
-export default function Login({ actionData }: Route.ComponentProps) {
+const LoginScreens: Record<
+  LoginMode,
+  { icon: string; heading: string; subheading: string }
+> = {
+  login: {
+    icon: "fingerprint",
+    heading: "Access Your Portal",
+    subheading: "Enter your registered email and password to continue.",
+  },
+  register: {
+    icon: "person_add",
+    heading: "Create Your Account",
+    subheading:
+      "Register with your professional email. We will send you a link to verify it.",
+  },
+  "magic-link": {
+    icon: "forward_to_inbox",
+    heading: "Sign In With Email",
+    subheading: "We will email you a single-use link. No password needed.",
+  },
+};
+
+export default function Login({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const screen = LoginScreens[loaderData.mode];
+
   return (
     <>
       {actionData?.error ? (
         <Toast message={actionData.error} variant="error" />
+      ) : loaderData.toast ? (
+        <Toast
+          message={loaderData.toast.message}
+          variant={loaderData.toast.variant}
+        />
       ) : null}
       <AuthFormWrapper
         icon={
           <span className="material-symbols-outlined text-[32px] leading-[40px] text-primary">
-            fingerprint
+            {screen.icon}
           </span>
         }
-        heading="Access Your Portal"
-        subheading="Enter your registered email and password to continue."
+        heading={screen.heading}
+        subheading={screen.subheading}
       >
-        <LoginForm actionData={actionData} />
+        <LoginForm
+          key={loaderData.mode}
+          mode={loaderData.mode}
+          actionData={actionData}
+        />
       </AuthFormWrapper>
     </>
   );
@@ -1,11 +1,21 @@
 import type { LoaderFunctionArgs } from "react-router";
 import { redirect } from "react-router";
-import { clearApiKeyCookie } from "~/lib/auth.server";
+import {
+  clearAuthCookies,
+  getApiKeyFromRequest,
+  logoutSession,
+} from "~/lib/auth.server";
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const apiKey = await getApiKeyFromRequest(request);
+  if (apiKey) {
+    // Best effort: the cookies are cleared even if the backend is unreachable.
+    await logoutSession({ context, apiKey });
+  }
 
-export async function loader({ request }: LoaderFunctionArgs) {
   return redirect("/", {
-    headers: {
-      "Set-Cookie": await clearApiKeyCookie(request),
-    },
+    headers: (await clearAuthCookies(request)).map(
+      (cookie): [string, string] => ["Set-Cookie", cookie],
+    ),
   });
 }
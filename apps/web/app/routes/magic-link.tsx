@@ -0,0 +1,103 @@
+import type { Route } from "./+types/magic-link";
+import { Form, redirect, useNavigation } from "react-router";
+import { AuthFormWrapper } from "~/components/auth/auth-form-wrapper";
+import { Button } from "~/components/ui/button";
+import { ROUTE_METADATA } from "~/constants/routes";
+import {
+  fetchMe,
+  getPostLoginPath,
+  isTwoFactorChallenge,
+  redeemMagicLink,
+  setAuthCookies,
+  setTwoFactorChallengeCookie,
+} from "~/lib/auth.server";
+
+export function meta({}: Route.MetaArgs) {
+  const metadata = ROUTE_METADATA.MAGIC_LINK;
+  return [
+    { title: `${metadata.title} - MIST` },
+    { name: "description", content: metadata.description },
+  ];
+}
+
+const InvalidMagicLinkPath = "/?mode=magic-link&magicLink=invalid";
+
+// The token is only redeemed on POST: mail scanners that prefetch links with
+// GET would otherwise use up the single-use token before the user clicks.
+export async function loader({ request }: Route.LoaderArgs) {
+  const token = new URL(request.url).searchParams.get("token")?.trim() ?? "";
+  if (token.length === 0) {
+    throw redirect(InvalidMagicLinkPath);
+  }
+
+  return { token };
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const token = formData.get("token");
+  if (typeof token !== "string" || token.length === 0) {
+    throw redirect(InvalidMagicLinkPath);
+  }
+
+  const redeemResult = await redeemMagicLink({ context, token });
+  if (!redeemResult.ok) {
+    throw redirect(InvalidMagicLinkPath);
+  }
+
+  if (isTwoFactorChallenge(redeemResult.data)) {
+    return redirect("/two-factor", {
+      headers: {
+        "Set-Cookie": await setTwoFactorChallengeCookie({
+          challenge: redeemResult.data,
+          request,
+        }),
+      },
+    });
+  }
+
+  const tokens = redeemResult.data;
+  const setCookieHeaders = (await setAuthCookies({ tokens, request })).map(
+    (cookie): [string, string] => ["Set-Cookie", cookie],
+  );
+
+  const userResult = await fetchMe({ context, apiKey: tokens.apiKey });
+  const destination = userResult.ok ? getPostLoginPath(userResult.data) : "/";
+
+  return redirect(destination, {
+    headers: setCookieHeaders,
+  });
+}
+
+export default function MagicLink({ loaderData }: Route.ComponentProps) {
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <AuthFormWrapper
+      icon={
+        <span className="material-symbols-outlined text-[32px] leading-[40px] text-primary">
+          key
+        </span>
+      }
+      heading="Finish Signing In"
+      subheading="Continue to sign in with the link from your email."
+    >
+      <Form method="post" className="space-y-4">
+        <input type="hidden" name="token" value={loaderData.token} />
+        <Button
+          type="submit"
+          variant="secondary"
+          className="w-full"
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? "Signing In..." : "Continue to Portal"}
+        </Button>
+        <p className="text-[10px] leading-[15px] text-muted-foreground">
+          The link works once. If it has expired, request a new one from the
+          sign-in page.
+        </p>
+      </Form>
+    </AuthFormWrapper>
+  );
+}
@@ -2,6 +2,7 @@ import type { Route } from "./+types/onboarding";
 import { data, redirect } from "react-router";
 import { z } from "zod";
 import { AuthFormWrapper } from "~/components/auth/auth-form-wrapper";
+import { EmailVerificationNotice } from "~/components/forms/email-verification-notice";
 import { OnboardingForm } from "~/components/forms/onboarding-form";
 import { Toast } from "~/components/ui/toast";
 import { ROUTE_METADATA } from "~/constants/routes";
@@ -12,7 +13,10 @@ import {
   fetchMe,
   getApiKeyFromRequest,
   isUserOnboarded,
+  needsOnboarding,
+  resendEmailVerification,
   submitOnboarding,
+  verifyEmailToken,
 } from "~/lib/auth.server";
 import type { OnboardingActionData } from "~/types/auth";
 
@@ -31,8 +35,23 @@ const OnboardingSchema = z.object({
   firmName: z.string().trim().min(2, "Firm name is required (min 2 characters)"),
 });
 
+const VerificationResultParam = "emailVerification";
+
 export async function loader({ request, context }: Route.LoaderArgs) {
+  const url = new URL(request.url);
   const apiKey = await getApiKeyFromRequest(request);
+
+  // Verification links land here. The token is consumed before the session
+  // check so links also work in a browser that is not signed in.
+  const verifyToken = url.searchParams.get("verifyToken");
+  if (verifyToken) {
+    const verifyResult = await verifyEmailToken({ context, token: verifyToken });
+    const destination = apiKey ? "/onboarding" : "/";
+    throw redirect(
+      `${destination}?${VerificationResultParam}=${verifyResult.ok ? "verified" : "invalid"}`,
+    );
+  }
+
   if (!apiKey) {
     throw redirect("/");
   }
@@ -46,11 +65,25 @@ export async function loader({ request, context }: Route.LoaderArgs) {
     });
   }
 
-  if (isUserOnboarded(meResult.data)) {
+  if (!needsOnboarding(meResult.data)) {
     throw redirect("/dashboard");
   }
 
-  return null;
+  const verificationResult = url.searchParams.get(VerificationResultParam);
+  return {
+    email: meResult.data.email,
+    emailVerified: meResult.data.emailVerified,
+    isProfileComplete: isUserOnboarded(meResult.data),
+    verificationToast:
+      verificationResult === "verified"
+        ? { message: "Your email address is verified.", variant: "success" as const }
+        : verificationResult === "invalid"
+          ? {
+              message: "This verification link is invalid or has expired.",
+              variant: "error" as const,
+            }
+          : null,
+  };
 }
 
 export async function action({ request, context }: Route.ActionArgs) {
@@ -60,6 +93,42 @@ export async function action({ request, context }: Route.ActionArgs) {
   }
 
   const formData = await request.formData();
+  if (formData.get("intent") === "resend-verification") {
+    const resendResult = await resendEmailVerification({
+      context,
+      apiKey,
+      clientIp: request.headers.get("CF-Connecting-IP"),
+    });
+    if (!resendResult.ok) {
+      if (resendResult.status === 401) {
+        throw redirect("/", {
+          headers: {
+            "Set-Cookie": await clearApiKeyCookie(request),
+          },
+        });
+      }
+
+      return data<OnboardingActionData>(
+        {
+          success: false,
+          error:
+            resendResult.error ||
+            "Unable to send the verification email. Please try again.",
+        },
+        {
+          status:
+            resendResult.status === 409 || resendResult.status === 429
+              ? resendResult.status
+              : 400,
+        }
+      );
+    }
+
+    return data<OnboardingActionData>({
+      message: "A new verification link has been sent to your email.",
+    });
+  }
+
   const parsed = OnboardingSchema.safeParse({
     fullName: formData.get("fullName"),
     countryCode: formData.get("countryCode"),
@@ -121,23 +190,38 @@ export async function action({ request, context }: Route.ActionArgs) {
     );
   }
 
-  return redirect("/dashboard");
+  // Reloading onboarding sends applicants who still have to verify their
+  // email to the verification screen, and everyone else to the dashboard.
+  return redirect("/onboarding");
 }
 
-export default function Onboarding({ actionData }: Route.ComponentProps) {
+export default function Onboarding({ loaderData, actionData }: Route.ComponentProps) {
+  const toast = actionData?.error
+    ? { message: actionData.error, variant: "error" as const }
+    : actionData?.message
+      ? { message: actionData.message, variant: "success" as const }
+      : loaderData.verificationToast;
+
   return (
     <>
-      {actionData?.error ? <Toast message={actionData.error} variant="error" /> : null}
+      {toast ? <Toast message={toast.message} variant={toast.variant} /> : null}
       <AuthFormWrapper
         icon={
           <span className="material-symbols-outlined text-[32px] leading-[40px] text-primary">
-            person_add
+            {loaderData.isProfileComplete ? "mark_email_unread" : "person_add"}
           </span>
         }
-        heading="Complete Your Profile"
-        subheading="Please provide your professional details to complete your registration"
+        heading={loaderData.isProfileComplete ? "Verify Your Email" : "Complete Your Profile"}
+        subheading={
+          loaderData.isProfileComplete
+            ? "Confirm your email address to start applying to tenders"
+            : "Please provide your professional details to complete your registration"
+        }
       >
-        <OnboardingForm actionData={actionData} />
+        {loaderData.emailVerified ? null : (
+          <EmailVerificationNotice email={loaderData.email} />
+        )}
+        {loaderData.isProfileComplete ? null : <OnboardingForm actionData={actionData} />}
       </AuthFormWrapper>
     </>
   );
@@ -0,0 +1,118 @@
+import type { Route } from "./+types/reset-password";
+import { data, redirect } from "react-router";
+import { z } from "zod";
+import { AuthFormWrapper } from "~/components/auth/auth-form-wrapper";
+import { PasswordForm } from "~/components/forms/password-form";
+import { ROUTE_METADATA } from "~/constants/routes";
+import { clearAuthCookies, resetPassword } from "~/lib/auth.server";
+import type { PasswordActionData } from "~/types/auth";
+
+export function meta({}: Route.MetaArgs) {
+  const metadata = ROUTE_METADATA.RESET_PASSWORD;
+  return [
+    { title: `${metadata.title} - MIST` },
+    { name: "description", content: metadata.description },
+  ];
+}
+
+const ResetPasswordSchema = z
+  .object({
+    token: z.string().min(1, "Reset link is missing its token"),
+    password: z.string().min(8, "Password must be at least 8 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((value) => value.password === value.confirmPassword, {
+    message: "Passwords do not match",
+  });
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const token = new URL(request.url).searchParams.get("token")?.trim() ?? "";
+  if (token.length === 0) {
+    throw redirect("/forgot-password");
+  }
+
+  return { token };
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const formData = await request.formData();
+  const parsed = ResetPasswordSchema.safeParse({
+    token: formData.get("token"),
+    password: formData.get("password"),
+    confirmPassword: formData.get("confirmPassword"),
+  });
+
+  if (!parsed.success) {
+    return data<PasswordActionData>(
+      {
+        success: false,
+        error: parsed.error.issues[0]?.message ?? "Invalid form submission",
+      },
+      { status: 400 },
+    );
+  }
+
+  const result = await resetPassword({
+    context,
+    token: parsed.data.token,
+    password: parsed.data.password,
+  });
+  if (!result.ok) {
+    return data<PasswordActionData>(
+      {
+        success: false,
+        error:
+          result.error ||
+          "This reset link is invalid or has expired. Request a new one.",
+      },
+      { status: 400 },
+    );
+  }
+
+  // Every session was revoked by the reset, including this browser's.
+  return redirect("/?passwordReset=success", {
+    headers: (await clearAuthCookies(request)).map(
+      (cookie): [string, string] => ["Set-Cookie", cookie],
+    ),
+  });
+}
+
+export default function ResetPassword({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  return (
+    <AuthFormWrapper
+      icon={
+        <span className="material-symbols-outlined text-[32px] leading-[40px] text-primary">
+          password
+        </span>
+      }
+      heading="Choose a New Password"
+      subheading="You will be signed out everywhere and can sign in with the new password."
+    >
+      <PasswordForm
+        fields={[
+          {
+            name: "password",
+            label: "NEW PASSWORD",
+            type: "password",
+            placeholder: "At least 8 characters",
+            autoComplete: "new-password",
+          },
+          {
+            name: "confirmPassword",
+            label: "CONFIRM PASSWORD",
+            type: "password",
+            placeholder: "Repeat the new password",
+            autoComplete: "new-password",
+          },
+        ]}
+        hiddenFields={{ token: loaderData.token }}
+        submitLabel="Reset Password"
+        submittingLabel="Resetting..."
+        actionData={actionData}
+      />
+    </AuthFormWrapper>
+  );
+}
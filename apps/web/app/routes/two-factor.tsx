@@ -0,0 +1,276 @@
+import type { Route } from "./+types/two-factor";
+import { Form, Link, data, redirect, useNavigation } from "react-router";
+import { z } from "zod";
+import { AuthFormWrapper } from "~/components/auth/auth-form-wrapper";
+import {
+  RecoveryCodeList,
+  TotpSecretPanel,
+  TwoFactorCodeForm,
+} from "~/components/forms/two-factor-form";
+import { Button } from "~/components/ui/button";
+import { Toast } from "~/components/ui/toast";
+import { ROUTE_METADATA } from "~/constants/routes";
+import {
+  beginLoginTotpEnrollment,
+  clearTwoFactorChallengeCookie,
+  completeTwoFactorLogin,
+  fetchMe,
+  getPostLoginPath,
+  getTwoFactorChallengeFromRequest,
+  setAuthCookies,
+} from "~/lib/auth.server";
+import type { TwoFactorActionData } from "~/types/auth";
+
+export function meta({}: Route.MetaArgs) {
+  const metadata = ROUTE_METADATA.TWO_FACTOR;
+  return [
+    { title: `${metadata.title} - MIST` },
+    { name: "description", content: metadata.description },
+  ];
+}
+
+const ExpiredChallengePath = "/?twoFactor=expired";
+
+const TwoFactorSchema = z.discriminatedUnion("intent", [
+  z.object({ intent: z.literal("enroll") }),
+  z.object({
+    intent: z.enum(["verify", "recover"]),
+    code: z.string().trim().min(1, "Enter the code"),
+    secret: z.string().optional(),
+    otpauthUrl: z.string().optional(),
+  }),
+]);
+
+async function restartSignIn(request: Request): Promise<never> {
+  throw redirect(ExpiredChallengePath, {
+    headers: {
+      "Set-Cookie": await clearTwoFactorChallengeCookie(request),
+    },
+  });
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const pending = await getTwoFactorChallengeFromRequest(request);
+  if (pending === null) {
+    throw redirect("/");
+  }
+
+  return {
+    enrollmentRequired: pending.enrollmentRequired,
+    useRecoveryCode:
+      new URL(request.url).searchParams.get("method") === "recovery",
+  };
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const pending = await getTwoFactorChallengeFromRequest(request);
+  if (pending === null) {
+    return restartSignIn(request);
+  }
+
+  const formData = await request.formData();
+  const parsed = TwoFactorSchema.safeParse({
+    intent: formData.get("intent"),
+    code: formData.get("code") ?? undefined,
+    secret: formData.get("secret") ?? undefined,
+    otpauthUrl: formData.get("otpauthUrl") ?? undefined,
+  });
+  if (!parsed.success) {
+    return data<TwoFactorActionData>(
+      {
+        success: false,
+        error: parsed.error.issues[0]?.message ?? "Invalid form submission",
+      },
+      { status: 400 },
+    );
+  }
+
+  const input = parsed.data;
+  if (input.intent === "enroll") {
+    const enrollResult = await beginLoginTotpEnrollment({
+      context,
+      challengeToken: pending.challengeToken,
+    });
+    if (!enrollResult.ok) {
+      if (enrollResult.status === 401) {
+        return restartSignIn(request);
+      }
+
+      return data<TwoFactorActionData>(
+        {
+          success: false,
+          error: enrollResult.error || "Unable to start setup. Please try again.",
+        },
+        { status: 400 },
+      );
+    }
+
+    return data<TwoFactorActionData>({ success: true, enrollment: enrollResult.data });
+  }
+
+  // Echoed back so a mistyped code does not hide the key being set up.
+  const enrollment =
+    input.secret && input.otpauthUrl
+      ? { secret: input.secret, otpauthUrl: input.otpauthUrl }
+      : undefined;
+
+  const loginResult = await completeTwoFactorLogin({
+    context,
+    challengeToken: pending.challengeToken,
+    code: input.intent === "verify" ? input.code : undefined,
+    recoveryCode: input.intent === "recover" ? input.code : undefined,
+    clientIp: request.headers.get("CF-Connecting-IP"),
+  });
+  if (!loginResult.ok) {
+    if (loginResult.errorCode === "INVALID_TWO_FACTOR_CHALLENGE") {
+      return restartSignIn(request);
+    }
+
+    return data<TwoFactorActionData>(
+      {
+        success: false,
+        enrollment,
+        error:
+          loginResult.status === 429
+            ? "Too many sign-in attempts. Please try again later."
+            : loginResult.error || "Unable to verify the code. Please try again.",
+      },
+      { status: loginResult.status === 429 ? 429 : 400 },
+    );
+  }
+
+  const headers: [string, string][] = [
+    ...(await setAuthCookies({ tokens: loginResult.data, request })).map(
+      (cookie): [string, string] => ["Set-Cookie", cookie],
+    ),
+    ["Set-Cookie", await clearTwoFactorChallengeCookie(request)],
+  ];
+
+  const userResult = await fetchMe({ context, apiKey: loginResult.data.apiKey });
+  const continuePath = userResult.ok ? getPostLoginPath(userResult.data) : "/";
+
+  if (loginResult.data.recoveryCodes) {
+    return data<TwoFactorActionData>(
+      {
+        success: true,
+        recoveryCodes: loginResult.data.recoveryCodes,
+        continuePath,
+      },
+      { headers },
+    );
+  }
+
+  return redirect(continuePath, { headers });
+}
+
+function EnrollButton() {
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <Form method="post">
+      <input type="hidden" name="intent" value="enroll" />
+      <Button
+        type="submit"
+        variant="secondary"
+        className="w-full"
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? "Preparing..." : "Set Up Authenticator"}
+      </Button>
+    </Form>
+  );
+}
+
+export default function TwoFactor({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const { enrollmentRequired, useRecoveryCode } = loaderData;
+
+  if (actionData?.recoveryCodes) {
+    return (
+      <AuthFormWrapper
+        icon={
+          <span className="material-symbols-outlined text-[32px] leading-[40px] text-primary">
+            verified_user
+          </span>
+        }
+        heading="Two-Factor Enabled"
+        subheading="Your authenticator is set up and you are signed in."
+      >
+        <RecoveryCodeList
+          codes={actionData.recoveryCodes}
+          continuePath={actionData.continuePath}
+        />
+      </AuthFormWrapper>
+    );
+  }
+
+  const enrollment = actionData?.enrollment;
+
+  return (
+    <>
+      {actionData?.error ? (
+        <Toast message={actionData.error} variant="error" />
+      ) : null}
+      <AuthFormWrapper
+        icon={
+          <span className="material-symbols-outlined text-[32px] leading-[40px] text-primary">
+            phonelink_lock
+          </span>
+        }
+        heading={enrollmentRequired ? "Set Up Two-Factor" : "Two-Factor Check"}
+        subheading={
+          enrollmentRequired
+            ? "Your account requires an authenticator app before you can sign in."
+            : useRecoveryCode
+              ? "Enter one of the recovery codes you saved when setting up two-factor authentication."
+              : "Enter the 6-digit code from your authenticator app."
+        }
+      >
+        {enrollmentRequired ? (
+          enrollment ? (
+            <div className="space-y-6">
+              <TotpSecretPanel
+                secret={enrollment.secret}
+                otpauthUrl={enrollment.otpauthUrl}
+              />
+              <TwoFactorCodeForm
+                intent="verify"
+                submitLabel="Verify and Sign In"
+                hiddenFields={enrollment}
+              />
+            </div>
+          ) : (
+            <EnrollButton />
+          )
+        ) : (
+          <>
+            <TwoFactorCodeForm
+              key={useRecoveryCode ? "recover" : "verify"}
+              intent={useRecoveryCode ? "recover" : "verify"}
+              submitLabel="Sign In"
+              recovery={useRecoveryCode}
+            />
+            <p className="text-[12px] leading-[16px] text-muted-foreground">
+              <Link
+                to={useRecoveryCode ? "?method=app" : "?method=recovery"}
+                className="text-primary hover:underline"
+              >
+                {useRecoveryCode
+                  ? "Use your authenticator app instead"
+                  : "Lost your authenticator? Use a recovery code"}
+              </Link>
+            </p>
+          </>
+        )}
+        <p className="text-[12px] leading-[16px] text-muted-foreground">
+          <Link to="/" className="text-primary hover:underline">
+            Back to sign in
+          </Link>
+        </p>
+      </AuthFormWrapper>
+    </>
+  );
+}
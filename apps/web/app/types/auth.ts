@@ -1,3 +1,5 @@
+export type LoginMode = "login" | "register" | "magic-link";
+
 export interface LoginFormState {
   email: string;
   password: string;
@@ -10,6 +12,7 @@ export interface LoginFormState {
 export interface LoginActionData {
   success?: boolean;
   error?: string;
+  message?: string;
 }
 
 export interface OnboardingFormData {
@@ -22,5 +25,27 @@ export interface OnboardingFormData {
 export interface OnboardingActionData {
   success?: boolean;
   error?: string;
+  message?: string;
   fieldErrors?: Partial<Record<keyof OnboardingFormData, string>>;
 }
+
+export interface PasswordActionData {
+  success?: boolean;
+  error?: string;
+  message?: string;
+}
+
+export interface FirmActionData {
+  success?: boolean;
+  error?: string;
+  message?: string;
+}
+
+export interface TwoFactorActionData {
+  success?: boolean;
+  error?: string;
+  message?: string;
+  enrollment?: { secret: string; otpauthUrl: string };
+  recoveryCodes?: string[];
+  continuePath?: string;
+}
@@ -1,5 +1,4 @@
 import type { QuestionConfig } from "@repo/form-fields";
-import type { UploadQuestionId } from "@repo/upload-contracts";
 
 export type { QuestionConfig };
 
@@ -7,7 +6,9 @@ export type UploadStatus = "complete" | "uploading" | "queued" | "error";
 
 export type UploadItem = {
   id: string;
-  questionId: UploadQuestionId;
+  questionId: string;
+  // Set once the file is stored, quarantined files included.
+  fileId: string | null;
   fileName: string;
   sizeBytes: number;
   status: UploadStatus;
@@ -20,6 +21,22 @@ export type UploadItem = {
   isCancelling: boolean;
 };
 
+// An earlier file of a question that a newer upload replaced.
+export type FileVersion = {
+  fileId: string;
+  fileName: string;
+  sizeBytes: number;
+  uploadedAt: string;
+  replacedAt: string;
+};
+
+export type QuestionFileVersions = {
+  isLoading: boolean;
+  items: FileVersion[];
+  errorMessage: string | null;
+  restoringFileId: string | null;
+};
+
 export type ProgressStep = {
   id: string;
   label: string;
@@ -1,4 +1,5 @@
 import { createRequestHandler } from "react-router";
+import { refreshAuthSessionForRequest } from "../app/lib/auth.server";
 
 declare module "react-router" {
   export interface AppLoadContext {
@@ -16,8 +17,26 @@ const requestHandler = createRequestHandler(
 
 export default {
   async fetch(request, env, ctx) {
-    return requestHandler(request, {
-      cloudflare: { env, ctx },
+    const context = { cloudflare: { env, ctx } };
+    const session = await refreshAuthSessionForRequest({ request, context });
+    const response = await requestHandler(session.request, context);
+
+    if (session.setCookieHeaders.length === 0) {
+      return response;
+    }
+
+    // Cookies set by the route itself (e.g. logout) come last so they win.
+    const headers = new Headers(response.headers);
+    const routeCookies = headers.getSetCookie();
+    headers.delete("Set-Cookie");
+    for (const cookie of [...session.setCookieHeaders, ...routeCookies]) {
+      headers.append("Set-Cookie", cookie);
+    }
+
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
     });
   },
 } satisfies ExportedHandler<Env>;
@@ -0,0 +1,68 @@
+/**
+ * HTML that is safe to insert as-is. Only the `html` tag and the layout
+ * create it, so any plain string that reaches a template is escaped.
+ */
+export class SafeHtml {
+  constructor(readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+export type HtmlValue =
+  | SafeHtml
+  | string
+  | number
+  | null
+  | undefined
+  | readonly HtmlValue[];
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderHtmlValue(value: HtmlValue): string {
+  if (value instanceof SafeHtml) {
+    return value.value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item: HtmlValue) => renderHtmlValue(item)).join("");
+  }
+  if (value === null || value === undefined) {
+    return "";
+  }
+  return escapeHtml(String(value));
+}
+
+/** Tagged template that escapes every interpolated value except `SafeHtml`. */
+export function html(
+  strings: TemplateStringsArray,
+  ...values: HtmlValue[]
+): SafeHtml {
+  let output = strings[0] ?? "";
+  values.forEach((value, index) => {
+    output += renderHtmlValue(value) + (strings[index + 1] ?? "");
+  });
+  return new SafeHtml(output);
+}
+
+/**
+ * Escaping keeps a link inside its attribute but would still let a
+ * `javascript:` URL through, so links are limited to http(s).
+ */
+export function safeUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? url.toString()
+      : "about:blank";
+  } catch {
+    return "about:blank";
+  }
+}
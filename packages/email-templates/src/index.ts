@@ -1,3 +1,91 @@
-export { renderMagicLinkEmail } from "./templates/magic-link";
-export { renderAdminPrivilegesGrantedEmail } from "./templates/admin-privileges-granted";
-export { renderCompressionFailureEmail } from "./templates/compression-failure";
+import {
+  defineEmailTemplate,
+  renderEmailTemplate,
+  type EmailTemplate,
+  type RenderedEmail,
+} from "./registry";
+import {
+  adminPrivilegesGrantedEmail,
+  type AdminPrivilegesGrantedEmailProps,
+} from "./templates/admin-privileges-granted";
+import {
+  compressionFailureEmail,
+  type CompressionFailureEmailProps,
+} from "./templates/compression-failure";
+import {
+  deadlineReminderEmail,
+  type DeadlineReminderEmailProps,
+} from "./templates/deadline-reminder";
+import {
+  emailVerificationEmail,
+  type EmailVerificationEmailProps,
+} from "./templates/email-verification";
+import {
+  firmInviteEmail,
+  type FirmInviteEmailProps,
+} from "./templates/firm-invite";
+import {
+  magicLinkEmail,
+  type MagicLinkEmailProps,
+} from "./templates/magic-link";
+import {
+  passwordResetEmail,
+  type PasswordResetEmailProps,
+} from "./templates/password-reset";
+import {
+  submissionReceiptEmail,
+  type SubmissionReceiptEmailProps,
+} from "./templates/submission-receipt";
+
+export { escapeHtml, html, safeUrl, SafeHtml } from "./html";
+export { defineEmailTemplate, renderEmailTemplate };
+export type { EmailTemplate, RenderedEmail };
+
+export type EmailTemplatePropsMap = {
+  "admin-privileges-granted": AdminPrivilegesGrantedEmailProps;
+  "compression-failure": CompressionFailureEmailProps;
+  "deadline-reminder": DeadlineReminderEmailProps;
+  "email-verification": EmailVerificationEmailProps;
+  "firm-invite": FirmInviteEmailProps;
+  "magic-link": MagicLinkEmailProps;
+  "password-reset": PasswordResetEmailProps;
+  "submission-receipt": SubmissionReceiptEmailProps;
+};
+
+export type EmailTemplateName = keyof EmailTemplatePropsMap;
+
+export const EmailTemplates: {
+  [Name in EmailTemplateName]: EmailTemplate<EmailTemplatePropsMap[Name]>;
+} = {
+  "admin-privileges-granted": adminPrivilegesGrantedEmail,
+  "compression-failure": compressionFailureEmail,
+  "deadline-reminder": deadlineReminderEmail,
+  "email-verification": emailVerificationEmail,
+  "firm-invite": firmInviteEmail,
+  "magic-link": magicLinkEmail,
+  "password-reset": passwordResetEmail,
+  "submission-receipt": submissionReceiptEmail,
+};
+
+export function renderEmail<Name extends EmailTemplateName>(
+  name: Name,
+  props: EmailTemplatePropsMap[Name]
+): RenderedEmail {
+  const template: EmailTemplate<EmailTemplatePropsMap[Name]> =
+    EmailTemplates[name];
+  return renderEmailTemplate(template, props);
+}
+
+export type EmailTemplatePreview = RenderedEmail & {
+  name: EmailTemplateName;
+  description: string;
+};
+
+/** Every template rendered with its sample props. */
+export function renderEmailPreviews(): EmailTemplatePreview[] {
+  return (Object.keys(EmailTemplates) as EmailTemplateName[]).map((name) => ({
+    name,
+    description: EmailTemplates[name].description,
+    ...renderEmail(name, EmailTemplates[name].sampleProps),
+  }));
+}
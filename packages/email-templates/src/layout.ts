@@ -0,0 +1,38 @@
+import { html, SafeHtml } from "./html";
+
+const BrandName = "MIST";
+const FooterText =
+  "You are receiving this email because of your account on the MIST tender portal.";
+
+/** Wraps a template body in the branded email shell. */
+export function renderHtmlLayout({
+  subject,
+  body,
+}: {
+  subject: string;
+  body: SafeHtml;
+}): string {
+  return html`<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${subject}</title>
+</head>
+<body style="margin:0;padding:0;background-color:#0b0b0c;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color:#0b0b0c;padding:32px 16px;">
+<tr><td align="center">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;background-color:#161618;border:1px solid #2a2a2d;font-family:Helvetica,Arial,sans-serif;font-size:14px;line-height:22px;color:#e7e5e4;">
+<tr><td style="padding:24px 32px;border-bottom:1px solid #2a2a2d;font-size:12px;font-weight:bold;letter-spacing:4px;color:#d4af37;">${BrandName}</td></tr>
+<tr><td style="padding:32px;">${body}</td></tr>
+<tr><td style="padding:16px 32px;border-top:1px solid #2a2a2d;font-size:11px;line-height:16px;color:#8a8580;">${FooterText}</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`.value;
+}
+
+export function renderTextLayout(body: string): string {
+  return `${body.trim()}\n\n--\n${FooterText}\n`;
+}
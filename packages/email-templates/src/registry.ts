@@ -0,0 +1,37 @@
+import { SafeHtml } from "./html";
+import { renderHtmlLayout, renderTextLayout } from "./layout";
+
+export type EmailTemplate<Props> = {
+  description: string;
+  subject: (props: Props) => string;
+  /** Body only; the shared layout is added by `renderEmailTemplate`. */
+  html: (props: Props) => SafeHtml;
+  text: (props: Props) => string;
+  /** Used by the admin preview. */
+  sampleProps: Props;
+};
+
+export type RenderedEmail = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+export function defineEmailTemplate<Props>(
+  template: EmailTemplate<Props>
+): EmailTemplate<Props> {
+  return template;
+}
+
+export function renderEmailTemplate<Props>(
+  template: EmailTemplate<Props>,
+  props: Props
+): RenderedEmail {
+  // Subjects end up in a mail header, where a line break would start a new one.
+  const subject = template.subject(props).replace(/\s+/g, " ").trim();
+  return {
+    subject,
+    html: renderHtmlLayout({ subject, body: template.html(props) }),
+    text: renderTextLayout(template.text(props)),
+  };
+}
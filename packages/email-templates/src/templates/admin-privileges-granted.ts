@@ -1,3 +1,19 @@
-export function renderAdminPrivilegesGrantedEmail(): string {
-  return "<p>Your account now has admin privileges.</p>";
-}
+import { html, safeUrl } from "../html";
+import { defineEmailTemplate } from "../registry";
+
+export type AdminPrivilegesGrantedEmailProps = {
+  adminUrl: string;
+};
+
+export const adminPrivilegesGrantedEmail =
+  defineEmailTemplate<AdminPrivilegesGrantedEmailProps>({
+    description: "Sent when a user is granted the admin role",
+    subject: () => "You have been granted admin access",
+    html: ({ adminUrl }) =>
+      html`<p>Your account now has admin privileges.</p><p><a href="${safeUrl(adminUrl)}">Open the admin dashboard</a></p><p>Admin accounts must set up two-factor authentication at their next sign-in.</p>`,
+    text: ({ adminUrl }) =>
+      `Your account now has admin privileges.\n\nOpen the admin dashboard:\n${adminUrl}\n\nAdmin accounts must set up two-factor authentication at their next sign-in.`,
+    sampleProps: {
+      adminUrl: "https://example.com/admin",
+    },
+  });
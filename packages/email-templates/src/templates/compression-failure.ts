@@ -1,3 +1,21 @@
-export function renderCompressionFailureEmail({ applicationId, errorMessage }: { applicationId: string; errorMessage: string }): string {
-  return `<p>Application ${applicationId} processing failed.</p><p>${errorMessage}</p>`;
-}
+import { html } from "../html";
+import { defineEmailTemplate } from "../registry";
+
+export type CompressionFailureEmailProps = {
+  applicationId: string;
+  errorMessage: string;
+};
+
+export const compressionFailureEmail =
+  defineEmailTemplate<CompressionFailureEmailProps>({
+    description: "Alerts staff that an application's files could not be processed",
+    subject: ({ applicationId }) => `Processing failed for application ${applicationId}`,
+    html: ({ applicationId, errorMessage }) =>
+      html`<p>Application <strong>${applicationId}</strong> processing failed.</p><p>${errorMessage}</p>`,
+    text: ({ applicationId, errorMessage }) =>
+      `Application ${applicationId} processing failed.\n\n${errorMessage}`,
+    sampleProps: {
+      applicationId: "00000000-0000-0000-0000-000000000000",
+      errorMessage: "Archive entry <drawings.pdf> could not be read",
+    },
+  });
@@ -0,0 +1,40 @@
+import { html, safeUrl } from "../html";
+import { defineEmailTemplate } from "../registry";
+
+export type DeadlineReminderEmailProps = {
+  recipientName: string | null;
+  tenderTitle: string;
+  deadline: string;
+  timeLeft: string;
+  missingQuestionTitles: string[];
+  formUrl: string;
+};
+
+export const deadlineReminderEmail =
+  defineEmailTemplate<DeadlineReminderEmailProps>({
+    description: "Reminds firm members of required documents missing before a deadline",
+    subject: ({ tenderTitle, timeLeft }) => `${tenderTitle} closes in ${timeLeft}`,
+    html: ({ recipientName, tenderTitle, deadline, timeLeft, missingQuestionTitles, formUrl }) =>
+      html`<p>${recipientName ? html`Hello ${recipientName},` : "Hello,"}</p><p>Your firm's draft for <strong>${tenderTitle}</strong> closes in ${timeLeft} (${deadline}) and is still missing these required documents:</p><ul>${missingQuestionTitles.map(
+        (title) => html`<li>${title}</li>`
+      )}</ul><p><a href="${safeUrl(formUrl)}">Finish the submission</a></p><p>Drafts that are not submitted by the deadline cannot be accepted.</p>`,
+    text: ({ recipientName, tenderTitle, deadline, timeLeft, missingQuestionTitles, formUrl }) =>
+      [
+        recipientName ? `Hello ${recipientName},` : "Hello,",
+        "",
+        `Your firm's draft for ${tenderTitle} closes in ${timeLeft} (${deadline}) and is still missing these required documents:`,
+        ...missingQuestionTitles.map((title) => `- ${title}`),
+        "",
+        `Finish the submission: ${formUrl}`,
+        "",
+        "Drafts that are not submitted by the deadline cannot be accepted.",
+      ].join("\n"),
+    sampleProps: {
+      recipientName: "Alex Example",
+      tenderTitle: "Sample Library Extension",
+      deadline: "Thu, 01 Jan 2026 12:00:00 GMT",
+      timeLeft: "48 hours",
+      missingQuestionTitles: ["Site plan", "Structural report"],
+      formUrl: "https://example.com/form/sample",
+    },
+  });
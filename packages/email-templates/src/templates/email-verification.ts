@@ -0,0 +1,21 @@
+import { html, safeUrl } from "../html";
+import { defineEmailTemplate } from "../registry";
+
+export type EmailVerificationEmailProps = {
+  verifyUrl: string;
+  expiresInHours: number;
+};
+
+export const emailVerificationEmail =
+  defineEmailTemplate<EmailVerificationEmailProps>({
+    description: "Confirms the address of a newly registered account",
+    subject: () => "Verify your email address",
+    html: ({ verifyUrl, expiresInHours }) =>
+      html`<p>Confirm that this is your email address to finish setting up your account.</p><p><a href="${safeUrl(verifyUrl)}">Verify email address</a></p><p>This link expires in ${expiresInHours} hours.</p>`,
+    text: ({ verifyUrl, expiresInHours }) =>
+      `Confirm that this is your email address to finish setting up your account:\n\n${verifyUrl}\n\nThis link expires in ${expiresInHours} hours.`,
+    sampleProps: {
+      verifyUrl: "https://example.com/verify-email?token=sample",
+      expiresInHours: 24,
+    },
+  });
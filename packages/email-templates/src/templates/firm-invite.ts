@@ -0,0 +1,26 @@
+import { html, safeUrl } from "../html";
+import { defineEmailTemplate } from "../registry";
+
+export type FirmInviteEmailProps = {
+  firmName: string;
+  inviterName: string;
+  role: string;
+  acceptUrl: string;
+  expiresInDays: number;
+};
+
+export const firmInviteEmail = defineEmailTemplate<FirmInviteEmailProps>({
+  description: "Invitation to join a firm's submissions",
+  subject: ({ firmName }) => `You have been invited to join ${firmName}`,
+  html: ({ firmName, inviterName, role, acceptUrl, expiresInDays }) =>
+    html`<p>${inviterName} invited you to join <strong>${firmName}</strong> as a ${role} on the tender portal.</p><p><a href="${safeUrl(acceptUrl)}">Accept the invitation</a></p><p>This link expires in ${expiresInDays} days. Sign in or register with this email address to accept it.</p>`,
+  text: ({ firmName, inviterName, role, acceptUrl, expiresInDays }) =>
+    `${inviterName} invited you to join ${firmName} as a ${role} on the tender portal.\n\nAccept the invitation:\n${acceptUrl}\n\nThis link expires in ${expiresInDays} days. Sign in or register with this email address to accept it.`,
+  sampleProps: {
+    firmName: "Sample Architects",
+    inviterName: "Alex Example",
+    role: "contributor",
+    acceptUrl: "https://example.com/firm-invite?token=sample",
+    expiresInDays: 7,
+  },
+});
@@ -1,3 +1,20 @@
-export function renderMagicLinkEmail({ verifyUrl }: { verifyUrl: string }): string {
-  return `<p>Click the link below to continue:</p><p><a href=\"${verifyUrl}\">Verify magic link</a></p>`;
-}
+import { html, safeUrl } from "../html";
+import { defineEmailTemplate } from "../registry";
+
+export type MagicLinkEmailProps = {
+  signInUrl: string;
+  expiresInMinutes: number;
+};
+
+export const magicLinkEmail = defineEmailTemplate<MagicLinkEmailProps>({
+  description: "Passwordless sign-in link",
+  subject: () => "Your sign-in link",
+  html: ({ signInUrl, expiresInMinutes }) =>
+    html`<p>Click the link below to sign in:</p><p><a href="${safeUrl(signInUrl)}">Sign in to MIST</a></p><p>This link works once and expires in ${expiresInMinutes} minutes. If you did not ask to sign in, you can ignore this email.</p>`,
+  text: ({ signInUrl, expiresInMinutes }) =>
+    `Use this link to sign in:\n\n${signInUrl}\n\nThis link works once and expires in ${expiresInMinutes} minutes. If you did not ask to sign in, you can ignore this email.`,
+  sampleProps: {
+    signInUrl: "https://example.com/magic-link?token=sample",
+    expiresInMinutes: 15,
+  },
+});
@@ -0,0 +1,20 @@
+import { html, safeUrl } from "../html";
+import { defineEmailTemplate } from "../registry";
+
+export type PasswordResetEmailProps = {
+  resetUrl: string;
+  expiresInMinutes: number;
+};
+
+export const passwordResetEmail = defineEmailTemplate<PasswordResetEmailProps>({
+  description: "Link to choose a new password",
+  subject: () => "Reset your password",
+  html: ({ resetUrl, expiresInMinutes }) =>
+    html`<p>We received a request to reset your password.</p><p><a href="${safeUrl(resetUrl)}">Choose a new password</a></p><p>This link expires in ${expiresInMinutes} minutes. If you did not ask for a reset, you can ignore this email.</p>`,
+  text: ({ resetUrl, expiresInMinutes }) =>
+    `We received a request to reset your password. Choose a new one here:\n\n${resetUrl}\n\nThis link expires in ${expiresInMinutes} minutes. If you did not ask for a reset, you can ignore this email.`,
+  sampleProps: {
+    resetUrl: "https://example.com/reset-password?token=sample",
+    expiresInMinutes: 60,
+  },
+});
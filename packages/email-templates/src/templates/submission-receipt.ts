@@ -0,0 +1,72 @@
+import { html, safeUrl } from "../html";
+import { defineEmailTemplate } from "../registry";
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+export type SubmissionReceiptEmailFile = {
+  fileName: string;
+  fileSizeBytes: number;
+  uploadedAt: string;
+  digest: string;
+};
+
+export type SubmissionReceiptEmailProps = {
+  tenderTitle: string;
+  receiptNumber: string;
+  submittedAt: string;
+  files: SubmissionReceiptEmailFile[];
+  manifestUrl: string;
+};
+
+export const submissionReceiptEmail =
+  defineEmailTemplate<SubmissionReceiptEmailProps>({
+    description: "Receipt listing the submitted files, with a signed manifest",
+    subject: ({ receiptNumber }) => `Submission receipt ${receiptNumber}`,
+    html: ({ tenderTitle, receiptNumber, submittedAt, files, manifestUrl }) =>
+      html`<p>Your submission for <strong>${tenderTitle}</strong> was received.</p><p>Receipt number: <strong>${receiptNumber}</strong><br />Submitted at: ${submittedAt} (server time, UTC)</p><table role="presentation" cellpadding="4" cellspacing="0"><thead><tr><th align="left">File</th><th align="left">Size</th><th align="left">Uploaded</th><th align="left">ETag / SHA-256</th></tr></thead><tbody>${files.map(
+        (file) =>
+          html`<tr><td>${file.fileName}</td><td>${formatBytes(file.fileSizeBytes)}</td><td>${file.uploadedAt}</td><td><code>${file.digest}</code></td></tr>`
+      )}</tbody></table><p><a href="${safeUrl(manifestUrl)}">Download the signed manifest</a> and keep it as proof of the files and time of your submission.</p>`,
+    text: ({ tenderTitle, receiptNumber, submittedAt, files, manifestUrl }) =>
+      [
+        `Your submission for ${tenderTitle} was received.`,
+        "",
+        `Receipt number: ${receiptNumber}`,
+        `Submitted at: ${submittedAt} (server time, UTC)`,
+        "",
+        "Files:",
+        ...files.map(
+          (file) =>
+            `- ${file.fileName} (${formatBytes(file.fileSizeBytes)}, uploaded ${file.uploadedAt}, ${file.digest})`
+        ),
+        "",
+        "Download the signed manifest and keep it as proof of the files and time of your submission:",
+        manifestUrl,
+      ].join("\n"),
+    sampleProps: {
+      tenderTitle: "Sample Library Extension",
+      receiptNumber: "MIST-20260101-0123456789",
+      submittedAt: "2026-01-01T12:00:00.000Z",
+      files: [
+        {
+          fileName: "site-plan.pdf",
+          fileSizeBytes: 2_400_000,
+          uploadedAt: "2026-01-01T11:40:00.000Z",
+          digest: "9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08",
+        },
+      ],
+      manifestUrl: "https://example.com/form/sample/receipt",
+    },
+  });